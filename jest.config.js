@@ -14,6 +14,7 @@ module.exports = {
     '!src/**/*.test.ts',
     '!src/**/*.integration.test.ts',
     '!src/test-*.ts',
+    '!src/test-utils/**',
     '!src/cli-example.ts',
     '!src/index.ts'
   ],
@@ -27,7 +28,7 @@ module.exports = {
   },
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
-    '^(\.{1,2}/.*)\.js$': '$1'
+    '^(\\.{1,2}/.*)\\.js$': '$1'
   },
   transform: {
     '^.+\.ts$': ['ts-jest', {
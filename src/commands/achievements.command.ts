@@ -3,6 +3,10 @@
  */
 import type { Command } from '../types/command.js';
 import { achievementManager, AchievementCategory } from '../modules/achievements.js';
+import { describeCondition } from '../modules/achievement-engine.js';
+import { AchievementRarity, UnlockConditionType } from '../types/Achievement.js';
+import type { ConditionProgress, UnlockCondition } from '../types/Achievement.js';
+import { database } from '../modules/database.js';
 import chalk from 'chalk';
 import ora from 'ora';
 
@@ -13,9 +17,13 @@ export class AchievementsCommand implements Command {
 Usage: devxp achievements [options]
 
 Display your achievements and progress towards unlocking new ones.
+Custom achievements are loaded from the JSON/YAML files at the
+achievements.definitionsPath setting (default: ~/.config/devxp/achievements).
 
 Options:
-  --category <name>  Filter by category (git, terminal, milestone, productivity, etc.)
+  --user <username>  Show achievements for a specific user (default: current user)
+  --category <name>  Filter by category (git, terminal, milestone, productivity, custom, etc.)
+  --rarity <name>    Filter by rarity (common, uncommon, rare, epic, legendary)
   --unlocked         Show only unlocked achievements
   --locked           Show only locked achievements
   --hidden           Include hidden achievements
@@ -31,15 +39,34 @@ Options:
       // Parse arguments
       const categoryIndex = args.indexOf('--category');
       const category = categoryIndex !== -1 && args[categoryIndex + 1] 
-        ? args[categoryIndex + 1].toUpperCase() 
+        ? args[categoryIndex + 1]!.toUpperCase() 
         : null;
       
+      const rarityIndex = args.indexOf('--rarity');
+      const rarity = rarityIndex !== -1 && args[rarityIndex + 1]
+        ? args[rarityIndex + 1]!.toLowerCase()
+        : null;
+
       const showUnlocked = args.includes('--unlocked');
       const showLocked = args.includes('--locked');
       const includeHidden = args.includes('--hidden');
       const sortByProgress = args.includes('--progress');
       const isJson = args.includes('--json');
 
+      const userIndex = args.indexOf('--user');
+      const username = userIndex !== -1 && args[userIndex + 1]
+        ? args[userIndex + 1]!
+        : await this.getCurrentUsername();
+
+      // Load custom definitions, then the user's saved achievements
+      const definitionErrors = achievementManager.loadDefinitions();
+      await database.initialize();
+      const user = await database.getUserByUsername(username);
+      if (user) {
+        await achievementManager.loadForUser(user.id);
+      }
+      await database.close();
+
       // Get achievements
       let achievements = achievementManager.getAchievements(includeHidden);
 
@@ -51,6 +78,11 @@ Options:
         }
       }
 
+      // Filter by rarity
+      if (rarity) {
+        achievements = achievements.filter(a => a.rarity === rarity);
+      }
+
       // Filter by status
       if (showUnlocked && !showLocked) {
         achievements = achievements.filter(a => a.unlocked);
@@ -81,17 +113,19 @@ Options:
       spinner.stop();
 
       if (isJson) {
-        this.outputJson(achievements);
+        this.outputJson(achievements, definitionErrors);
       } else {
-        this.outputDetailed(achievements);
+        this.outputDetailed(achievements, definitionErrors);
       }
     } catch (error) {
       spinner.fail('Failed to load achievements');
       console.error(error);
+      process.exitCode = 1;
+      await database.close();
     }
   }
 
-  private outputDetailed(achievements: any[]): void {
+  private outputDetailed(achievements: any[], definitionErrors: string[]): void {
     const stats = achievementManager.getStatistics();
 
     // Header
@@ -152,6 +186,15 @@ Options:
       }
     }
 
+    // Problems with custom definitions
+    if (definitionErrors.length > 0) {
+      console.log('\n' + chalk.yellow.bold('⚠️  Invalid Achievement Definitions'));
+      console.log(chalk.gray('─'.repeat(40)));
+      for (const error of definitionErrors) {
+        console.log(`  • ${chalk.yellow(error)}`);
+      }
+    }
+
     console.log('\n' + chalk.cyan.bold('═'.repeat(60)) + '\n');
   }
 
@@ -159,22 +202,56 @@ Options:
     const icon = achievement.unlocked ? '✅' : (achievement.hidden ? '🔒' : '⭕');
     const name = achievement.unlocked ? chalk.green(achievement.name) : chalk.gray(achievement.name);
     const percentage = achievement.goal > 0 ? Math.round((achievement.progress / achievement.goal) * 100) : 0;
+    const xpReward = achievementManager.getXpReward(achievement);
+    const expired = achievementManager.isExpired(achievement);
+    const maxedOut = achievement.maxRepetitions !== undefined && achievement.timesEarned >= achievement.maxRepetitions;
+    // Repeatable achievements keep making progress after they are first earned
+    const inProgress = !expired && (!achievement.unlocked || (achievement.isRepeatable && !maxedOut));
     
-    console.log(`  ${icon} ${name}`);
+    console.log(`  ${icon} ${name} ${this.getRarityLabel(achievement.rarity)} ${chalk.yellow(`+${xpReward} XP`)}`);
     console.log(`     ${chalk.gray(achievement.description)}`);
     
-    if (!achievement.unlocked && achievement.goal > 1) {
+    if (inProgress && achievement.goal > 1) {
       const progressBar = this.drawProgressBar(percentage);
       console.log(`     Progress: ${progressBar} ${achievement.progress}/${achievement.goal} (${percentage}%)`);
     }
+
+    if (inProgress && achievement.unlockConditions) {
+      this.displayConditions(achievement.unlockConditions, achievement.conditionProgress ?? [], '     ');
+    }
+    
+    if (achievement.isRepeatable) {
+      const limit = achievement.maxRepetitions !== undefined ? `/${achievement.maxRepetitions}` : '';
+      console.log(`     ${chalk.cyan('Repeatable:')} earned ${achievement.timesEarned}${limit} time${achievement.timesEarned === 1 ? '' : 's'}`);
+    }
+
+    if (achievement.expirationDate !== undefined) {
+      const date = new Date(achievement.expirationDate).toLocaleDateString();
+      console.log(`     ${chalk.magenta('Seasonal:')} ${expired ? `ended ${date}` : `available until ${date}`}`);
+    }
     
     if (achievement.unlocked && achievement.unlockTimestamp) {
       const date = new Date(achievement.unlockTimestamp).toLocaleDateString();
-      console.log(`     ${chalk.green('Unlocked:')} ${date}`);
+      console.log(`     ${chalk.green(achievement.isRepeatable ? 'Last earned:' : 'Unlocked:')} ${date}`);
     }
   }
 
-  private outputJson(achievements: any[]): void {
+  private displayConditions(conditions: UnlockCondition[], progress: ConditionProgress[], indent: string): void {
+    conditions.forEach((condition, index) => {
+      const result = progress.find(p => p.conditionIndex === index);
+      const mark = result?.isMet ? chalk.green('✓') : chalk.gray('○');
+      const value = result ? chalk.gray(` (${Math.min(result.currentValue, result.targetValue)}/${result.targetValue})`) : '';
+      console.log(`${indent}${mark} ${describeCondition(condition)}${value}`);
+
+      const subConditions = condition.parameters.subConditions;
+      if (subConditions && condition.type === UnlockConditionType.COMBINATION) {
+        const subProgress = (result?.details?.['subConditions'] as ConditionProgress[] | undefined) ?? [];
+        this.displayConditions(subConditions, subProgress, indent + '  ');
+      }
+    });
+  }
+
+  private outputJson(achievements: any[], definitionErrors: string[]): void {
     const stats = achievementManager.getStatistics();
     console.log(JSON.stringify({
       stats,
@@ -188,8 +265,17 @@ Options:
         progress: a.progress,
         goal: a.goal,
         hidden: a.hidden,
-        percentComplete: a.goal > 0 ? Math.round((a.progress / a.goal) * 100) : 0
-      }))
+        rarity: a.rarity,
+        xpReward: achievementManager.getXpReward(a),
+        isRepeatable: a.isRepeatable,
+        maxRepetitions: a.maxRepetitions,
+        timesEarned: a.timesEarned,
+        expirationDate: a.expirationDate !== undefined ? new Date(a.expirationDate).toISOString() : undefined,
+        expired: achievementManager.isExpired(a),
+        percentComplete: a.goal > 0 ? Math.round((a.progress / a.goal) * 100) : 0,
+        ...(a.unlockConditions ? { conditionProgress: a.conditionProgress ?? [] } : {})
+      })),
+      definitionErrors
     }, null, 2));
   }
 
@@ -200,6 +286,16 @@ Options:
     return chalk.green('█'.repeat(filled)) + chalk.gray('░'.repeat(empty));
   }
 
+  private async getCurrentUsername(): Promise<string> {
+    const { execSync } = await import('child_process');
+    try {
+      const gitUser = execSync('git config user.name', { encoding: 'utf-8' }).trim();
+      return gitUser || 'default';
+    } catch {
+      return 'default';
+    }
+  }
+
   private getCategoryEnum(category: string): AchievementCategory | null {
     const map: Record<string, AchievementCategory> = {
       'GIT': AchievementCategory.GIT_MASTER,
@@ -210,11 +306,23 @@ Options:
       'HIDDEN': AchievementCategory.HIDDEN,
       'PRODUCTIVITY': AchievementCategory.PRODUCTIVITY,
       'EXPLORER': AchievementCategory.EXPLORER,
-      'SPEEDRUNNER': AchievementCategory.SPEEDRUNNER
+      'SPEEDRUNNER': AchievementCategory.SPEEDRUNNER,
+      'CUSTOM': AchievementCategory.CUSTOM
     };
     return map[category.toUpperCase()] || null;
   }
 
+  private getRarityLabel(rarity: AchievementRarity): string {
+    const labels: Record<AchievementRarity, string> = {
+      [AchievementRarity.COMMON]: chalk.white('[Common]'),
+      [AchievementRarity.UNCOMMON]: chalk.green('[Uncommon]'),
+      [AchievementRarity.RARE]: chalk.blue('[Rare]'),
+      [AchievementRarity.EPIC]: chalk.magenta('[Epic]'),
+      [AchievementRarity.LEGENDARY]: chalk.yellow.bold('[Legendary]')
+    };
+    return labels[rarity];
+  }
+
   private getCategoryEmoji(category: string): string {
     const emojiMap: Record<string, string> = {
       'Git Master': '🔀',
@@ -223,7 +331,8 @@ Options:
       'Hidden': '🎭',
       'Productivity': '📈',
       'Explorer': '🗺️',
-      'Speedrunner': '⚡'
+      'Speedrunner': '⚡',
+      'Custom': '🏅'
     };
     return emojiMap[category] || '🎉';
   }
@@ -233,14 +342,24 @@ Options:
     if (categoryIndex !== -1 && args[categoryIndex + 1]) {
       const validCategories = [
         'git', 'git_master', 'terminal', 'terminal_ninja',
-        'milestone', 'hidden', 'productivity', 'explorer', 'speedrunner'
+        'milestone', 'hidden', 'productivity', 'explorer', 'speedrunner', 'custom'
       ];
-      const category = args[categoryIndex + 1].toLowerCase();
+      const category = args[categoryIndex + 1]!.toLowerCase();
       if (!validCategories.includes(category)) {
         console.error(`Invalid category. Valid options: ${validCategories.join(', ')}`);
         return false;
       }
     }
+
+    const rarityIndex = args.indexOf('--rarity');
+    if (rarityIndex !== -1) {
+      const validRarities: string[] = Object.values(AchievementRarity);
+      const rarity = args[rarityIndex + 1]?.toLowerCase();
+      if (!rarity || !validRarities.includes(rarity)) {
+        console.error(`Invalid rarity. Valid options: ${validRarities.join(', ')}`);
+        return false;
+      }
+    }
     return true;
   }
 }
@@ -0,0 +1,137 @@
+/**
+ * Audit command - Show who changed what and when
+ */
+import type { Command } from '../types/command';
+import { database } from '../modules/database';
+import { AUDIT_ACTIONS, AuditEntry, isAuditActionFilter } from '../modules/audit';
+import { defaultConfigManager } from '../modules/config';
+import { fromDateKey, resolveTimeZone } from '../utils/time';
+import chalk from 'chalk';
+
+// Longest value shown before it is cut short
+const MAX_VALUE_LENGTH = 60;
+
+export class AuditCommand implements Command {
+  readonly name = 'audit';
+  readonly description = 'Show the audit log of resets, config changes, imports and XP adjustments';
+  readonly help = `
+Usage: devxp audit [options]
+
+Resets, configuration and bonus event changes, imports, restores, XP
+reversals and repairs, and team role changes are recorded with who made
+them, when, and the values before and after. The log is only ever added to
+and survives restoring a backup.
+
+Options:
+  --since <date>       Only changes from this date (YYYY-MM-DD)
+  --action <action>    Only this action, or group such as config
+  --limit <n>          How many to show, newest first (default: 50)
+  --json               Output in JSON format
+
+Actions:
+  ${AUDIT_ACTIONS.join(', ')}
+`;
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const since = this.getOption(args, '--since');
+    const action = this.getOption(args, '--action');
+    const limit = parseInt(this.getOption(args, '--limit') ?? '50', 10);
+    const timeZone = resolveTimeZone(defaultConfigManager.getConfig().timezone);
+
+    try {
+      await database.initialize();
+
+      const entries = await database.getAuditLog().list({
+        limit,
+        ...(since ? { since: fromDateKey(since, timeZone).toISOString() } : {}),
+        ...(action ? { action } : {})
+      });
+
+      if (args.includes('--json')) {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+
+      if (entries.length === 0) {
+        console.log(chalk.gray('No changes recorded'));
+        return;
+      }
+
+      for (const entry of entries) {
+        this.outputEntry(entry, timeZone);
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exitCode = 1;
+    } finally {
+      await database.close();
+    }
+  }
+
+  private outputEntry(entry: AuditEntry, timeZone: string): void {
+    const time = new Date(entry.createdAt).toLocaleString('en-GB', { timeZone, dateStyle: 'short', timeStyle: 'short' });
+    const target = entry.entityId ? `${entry.entityType} ${entry.entityId}` : entry.entityType;
+    const action = entry.status === 'failure' ? chalk.red(`${entry.action} (failed)`) : chalk.cyan(entry.action);
+
+    console.log(`${chalk.gray(time)}  ${chalk.bold(entry.actor)}  ${action}  ${target}`);
+    if (entry.errorMessage) {
+      console.log(chalk.red(`    ${entry.errorMessage}`));
+    }
+    for (const line of this.describeChanges(entry)) {
+      console.log(`    ${line}`);
+    }
+  }
+
+  // One line per value that changed, or the values themselves when only one side is known
+  private describeChanges(entry: AuditEntry): string[] {
+    const oldValues = this.toRecord(entry.oldValues);
+    const newValues = this.toRecord(entry.newValues);
+    const keys = [...new Set([...Object.keys(oldValues), ...Object.keys(newValues)])];
+
+    return keys
+      .filter(key => JSON.stringify(oldValues[key]) !== JSON.stringify(newValues[key]))
+      .map(key => {
+        if (!(key in oldValues)) return `${key}: ${chalk.green(this.formatValue(newValues[key]))}`;
+        if (!(key in newValues)) return `${key}: ${chalk.red(this.formatValue(oldValues[key]))} ${chalk.gray('(removed)')}`;
+        return `${key}: ${this.formatValue(oldValues[key])} → ${chalk.green(this.formatValue(newValues[key]))}`;
+      });
+  }
+
+  private toRecord(values: unknown): Record<string, unknown> {
+    if (values === undefined) return {};
+    return values !== null && typeof values === 'object' && !Array.isArray(values)
+      ? values as Record<string, unknown>
+      : { value: values };
+  }
+
+  private formatValue(value: unknown): string {
+    const text = JSON.stringify(value) ?? 'undefined';
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+  }
+
+  private getOption(args: ReadonlyArray<string>, option: string): string | undefined {
+    const index = args.indexOf(option);
+    return index !== -1 ? args[index + 1] : undefined;
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    const since = this.getOption(args, '--since');
+    if (args.includes('--since') && (!since || !/^\d{4}-\d{2}-\d{2}$/.test(since) || isNaN(Date.parse(since)))) {
+      console.error('--since needs a date in YYYY-MM-DD format');
+      return false;
+    }
+
+    const action = this.getOption(args, '--action');
+    if (args.includes('--action') && (!action || !isAuditActionFilter(action))) {
+      console.error(`Invalid action. Must be one of: ${AUDIT_ACTIONS.join(', ')}, or a group such as config`);
+      return false;
+    }
+
+    const limit = this.getOption(args, '--limit');
+    if (args.includes('--limit') && (!limit || isNaN(parseInt(limit, 10)) || parseInt(limit, 10) < 1)) {
+      console.error('--limit needs a positive number');
+      return false;
+    }
+    return true;
+  }
+}
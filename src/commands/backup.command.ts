@@ -0,0 +1,270 @@
+/**
+ * Backup command - Create, verify, rotate and restore database backups
+ */
+import type { Command } from '../types/command';
+import { database } from '../modules/database';
+import { BackupContents, BackupInfo, backupManager } from '../modules/backups';
+import { defaultConfigManager } from '../modules/config';
+import chalk from 'chalk';
+import ora from 'ora';
+import * as readline from 'readline';
+
+const SUBCOMMANDS = ['list', 'create', 'verify', 'prune', 'restore'];
+
+export class BackupCommand implements Command {
+  readonly name = 'backup';
+  readonly description = 'Create, verify and restore database backups';
+  readonly help = `
+Usage: devxp backup [subcommand] [options]
+
+Backups are consistent copies taken while devxp keeps running, checked for
+integrity once written. A backup is also taken automatically when a command
+runs and the last one is older than backup.interval hours.
+
+Subcommands:
+  list                 List backups, newest first (default)
+  create               Back up the database now
+  verify [backup]      Check a backup's integrity (default: all of them)
+  prune                Remove backups beyond backup.maxBackups or older
+                       than backup.maxAge days, always keeping the newest
+  restore <backup>     Replace the database with a backup, after showing
+                       what it holds and backing up the current data
+
+A backup is named as in the list, given as a path, or "latest".
+
+Options:
+  --dry-run            With prune, only show what would be removed
+  --force              With restore, skip the confirmation prompt
+  --json               Output in JSON format
+
+Settings: backup.enabled, backup.interval, backup.maxBackups, backup.maxAge
+and backup.path (see devxp config).
+`;
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const subcommand = args[0] && SUBCOMMANDS.includes(args[0]) ? args[0] : 'list';
+    const target = args[1] && !args[1].startsWith('--') ? args[1] : undefined;
+    const isJson = args.includes('--json');
+
+    try {
+      switch (subcommand) {
+      case 'create':
+        await this.create(isJson);
+        break;
+      case 'verify':
+        await this.verify(target, isJson);
+        break;
+      case 'prune':
+        await this.prune(args.includes('--dry-run'), isJson);
+        break;
+      case 'restore':
+        await this.restore(target ?? '', args.includes('--force'));
+        break;
+      default:
+        await this.list(isJson);
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exitCode = 1;
+    } finally {
+      await database.close();
+    }
+  }
+
+  private async list(isJson: boolean): Promise<void> {
+    const backups = await backupManager.list();
+
+    if (isJson) {
+      console.log(JSON.stringify({ directory: backupManager.getDirectory(), backups }, null, 2));
+      return;
+    }
+
+    if (backups.length === 0) {
+      console.log(chalk.gray('No backups yet. Create one with devxp backup create'));
+      return;
+    }
+
+    console.log(chalk.bold(`Backups in ${backupManager.getDirectory()}`));
+    for (const backup of backups) {
+      this.outputBackup(backup);
+    }
+
+    const settings = defaultConfigManager.getConfig().backup;
+    console.log(chalk.gray(`\nKeeping up to ${settings.maxBackups} backups for ${settings.maxAge} days${settings.enabled ? `, automatic every ${settings.interval}h` : ', automatic backups are off'}`));
+  }
+
+  private async create(isJson: boolean): Promise<void> {
+    const spinner = isJson ? null : ora('Backing up database...').start();
+
+    let created;
+    try {
+      // Back up the data as it is, before any pending migration touches it
+      await database.initialize({ migrate: false });
+      created = await backupManager.create('manual');
+    } catch (error) {
+      spinner?.fail('Failed to create backup');
+      throw error;
+    }
+
+    const { backup, verification } = created;
+    const { removed } = await backupManager.prune();
+
+    if (isJson) {
+      console.log(JSON.stringify({ backup, contents: verification.contents, pruned: removed.map(old => old.name) }, null, 2));
+      return;
+    }
+
+    spinner?.succeed(`Backup created and verified: ${backup.path}`);
+    if (verification.contents) {
+      console.log(chalk.gray(`  ${this.describeContents(verification.contents)}`));
+    }
+    if (removed.length > 0) {
+      console.log(chalk.gray(`  Pruned ${removed.length} old backup${removed.length === 1 ? '' : 's'}`));
+    }
+  }
+
+  private async verify(target: string | undefined, isJson: boolean): Promise<void> {
+    const paths = target
+      ? [await backupManager.resolve(target)]
+      : (await backupManager.list()).map(backup => backup.path);
+
+    if (paths.length === 0) {
+      console.log(chalk.gray('No backups to verify'));
+      return;
+    }
+
+    const results = [];
+    for (const backupPath of paths) {
+      results.push({ path: backupPath, ...(await backupManager.verify(backupPath)) });
+    }
+
+    if (results.some(result => !result.ok)) {
+      process.exitCode = 1;
+    }
+
+    if (isJson) {
+      console.log(JSON.stringify(results, null, 2));
+      return;
+    }
+
+    for (const result of results) {
+      if (result.ok && result.contents) {
+        console.log(`${chalk.green('✔')} ${result.path}`);
+        console.log(chalk.gray(`  ${this.describeContents(result.contents)}`));
+      } else {
+        console.log(`${chalk.red('✖')} ${result.path}`);
+        console.log(chalk.red(`  ${result.errors.join('\n  ')}`));
+      }
+    }
+  }
+
+  private async prune(dryRun: boolean, isJson: boolean): Promise<void> {
+    const { kept, removed } = await backupManager.prune(defaultConfigManager.getConfig().backup, { dryRun });
+
+    if (isJson) {
+      console.log(JSON.stringify({ dryRun, kept: kept.map(backup => backup.name), removed: removed.map(backup => backup.name) }, null, 2));
+      return;
+    }
+
+    if (removed.length === 0) {
+      console.log(chalk.gray(`Nothing to prune, keeping ${kept.length} backup${kept.length === 1 ? '' : 's'}`));
+      return;
+    }
+
+    console.log(chalk.bold(dryRun ? 'Would remove:' : 'Removed:'));
+    for (const backup of removed) {
+      this.outputBackup(backup);
+    }
+    console.log(chalk.gray(`\nKept ${kept.length} backup${kept.length === 1 ? '' : 's'}`));
+  }
+
+  private async restore(target: string, force: boolean): Promise<void> {
+    const backupPath = await backupManager.resolve(target);
+    const verification = await backupManager.verify(backupPath);
+    if (!verification.ok || !verification.contents) {
+      throw new Error(`Backup failed verification: ${verification.errors.join(', ')}`);
+    }
+
+    // A database that no longer migrates cleanly is what restoring fixes
+    await database.initialize({ migrate: false });
+    const current = await backupManager.getCurrentContents();
+    this.outputComparison(current, verification.contents);
+
+    if (!force && !(await this.confirm())) {
+      console.log(chalk.green('\nRestore cancelled, the database was not changed.'));
+      return;
+    }
+
+    const spinner = ora('Restoring backup...').start();
+    try {
+      const safety = await backupManager.restore(backupPath);
+      spinner.succeed(`Restored ${backupPath}`);
+      console.log(chalk.gray(`The previous data was backed up to ${safety.path}`));
+    } catch (error) {
+      spinner.fail('Failed to restore backup');
+      throw error;
+    }
+  }
+
+  private outputComparison(current: BackupContents, restored: BackupContents): void {
+    const rows: [string, number, number][] = [
+      ['Users', current.users, restored.users],
+      ['Total XP', current.totalXp, restored.totalXp],
+      ['Activities', current.activities, restored.activities],
+      ['Achievements', current.achievements, restored.achievements],
+      ['Schema version', current.schemaVersion, restored.schemaVersion]
+    ];
+
+    console.log(chalk.bold(`\n${''.padEnd(16)}${'Current'.padStart(12)}${'Backup'.padStart(12)}`));
+    for (const [label, now, then] of rows) {
+      const changed = now !== then ? chalk.yellow : (text: string): string => text;
+      console.log(`${label.padEnd(16)}${now.toLocaleString().padStart(12)}${changed(then.toLocaleString().padStart(12))}`);
+    }
+  }
+
+  private outputBackup(backup: BackupInfo): void {
+    console.log(`  ${backup.name.padEnd(48)} ${backup.kind.padEnd(12)} ${chalk.gray(backup.createdAt.toLocaleString().padEnd(24))} ${this.formatSize(backup.size)}`);
+  }
+
+  private describeContents(contents: BackupContents): string {
+    return `${contents.users} user${contents.users === 1 ? '' : 's'}, ${contents.totalXp.toLocaleString()} XP, ` +
+      `${contents.activities} activities, ${contents.achievements} achievements, schema version ${contents.schemaVersion}`;
+  }
+
+  private formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  private async confirm(): Promise<boolean> {
+    if (!process.stdin.isTTY) {
+      console.log(chalk.yellow('\nNot a terminal, pass --force to restore without confirmation'));
+      return false;
+    }
+
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout
+    });
+
+    return new Promise((resolve) => {
+      rl.question(chalk.yellow('\nReplace the current data with this backup? Type "RESTORE" to confirm: '), (answer) => {
+        rl.close();
+        resolve(answer.trim() === 'RESTORE');
+      });
+    });
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    if (args[0] && !args[0].startsWith('--') && !SUBCOMMANDS.includes(args[0])) {
+      console.error(`Unknown subcommand: ${args[0]}`);
+      return false;
+    }
+    if (args[0] === 'restore' && (!args[1] || args[1].startsWith('--'))) {
+      console.error('restore needs the backup to restore, such as "latest"');
+      return false;
+    }
+    return true;
+  }
+}
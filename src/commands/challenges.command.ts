@@ -0,0 +1,194 @@
+/**
+ * Challenges command - List, reroll and review daily and weekly challenges
+ */
+import type { Command } from '../types/command';
+import { database, ChallengeRecord } from '../modules/database';
+import { challengeManager } from '../modules/challenges';
+import { activityTracker } from '../modules/tracker';
+import chalk from 'chalk';
+import ora from 'ora';
+
+const SUBCOMMANDS = ['list', 'reroll', 'history'];
+
+export class ChallengesCommand implements Command {
+  readonly name = 'challenges';
+  readonly description = 'Show daily and weekly challenges';
+  readonly help = `
+Usage: devxp challenges [list|reroll|history] [options]
+
+Daily challenges rotate at local midnight and weekly challenges on your
+weekStart day (Monday by default), using the timezone setting. New challenges are picked based on the kinds of
+activity you have been doing recently.
+
+Subcommands:
+  list               Show the current challenges (default)
+  reroll <number>    Replace a challenge you don't like (one reroll per day/week)
+  history            Show completed and expired challenges
+
+Options:
+  --limit <n>        Number of history entries to show (default: 20)
+  --json             Output in JSON format
+`;
+  readonly aliases = ['challenge', 'ch'];
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const subcommand = args[0] && SUBCOMMANDS.includes(args[0]) ? args[0] : 'list';
+    const isJson = args.includes('--json');
+    const spinner = ora('Loading challenges...').start();
+
+    try {
+      await database.initialize();
+      const user = await activityTracker.resolveUser();
+
+      switch (subcommand) {
+      case 'reroll': {
+        const current = await challengeManager.getCurrentChallenges(user.id);
+        const target = this.findChallenge(current, args[1] ?? '');
+        if (!target) {
+          spinner.fail(`No current challenge matches '${args[1] ?? ''}'`);
+          process.exitCode = 1;
+          break;
+        }
+
+        const replacement = await challengeManager.reroll(user.id, target.id);
+        spinner.stop();
+
+        if (isJson) {
+          console.log(JSON.stringify({ rerolled: target, replacement }, null, 2));
+        } else {
+          console.log(`${chalk.gray(target.name)} → ${chalk.cyan.bold(replacement.name)}`);
+          console.log(`  ${replacement.description} (${chalk.yellow(`+${replacement.reward} XP`)})`);
+        }
+        break;
+      }
+      case 'history': {
+        const limitIndex = args.indexOf('--limit');
+        const limit = limitIndex !== -1 ? parseInt(args[limitIndex + 1] ?? '', 10) : 20;
+        const history = await challengeManager.getHistory(user.id, limit);
+        spinner.stop();
+
+        if (isJson) {
+          console.log(JSON.stringify(history, null, 2));
+        } else {
+          this.outputHistory(history);
+        }
+        break;
+      }
+      default: {
+        const current = await challengeManager.getCurrentChallenges(user.id);
+        const rerolls = {
+          daily: await challengeManager.getRerollsLeft(user.id, 'daily'),
+          weekly: await challengeManager.getRerollsLeft(user.id, 'weekly')
+        };
+        spinner.stop();
+
+        if (isJson) {
+          console.log(JSON.stringify({ challenges: current, rerollsLeft: rerolls }, null, 2));
+        } else {
+          this.outputCurrent(current, rerolls);
+        }
+      }
+      }
+
+      await database.close();
+    } catch (error) {
+      spinner.fail('Failed to load challenges');
+      console.error(error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+      await database.close();
+    }
+  }
+
+  // Match by list number or id prefix
+  private findChallenge(challenges: ChallengeRecord[], ref: string): ChallengeRecord | undefined {
+    const index = /^\d+$/.test(ref) ? parseInt(ref, 10) - 1 : -1;
+    if (index >= 0 && index < challenges.length) {
+      return challenges[index];
+    }
+    return ref ? challenges.find(c => c.id.startsWith(ref)) : undefined;
+  }
+
+  private outputCurrent(challenges: ChallengeRecord[], rerolls: { daily: number; weekly: number }): void {
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.cyan.bold('  🎯 Challenges'));
+    console.log(chalk.cyan.bold('═'.repeat(60)));
+
+    let number = 1;
+    for (const period of ['daily', 'weekly'] as const) {
+      const list = challenges.filter(c => c.period === period);
+      if (list.length === 0) continue;
+
+      const title = period === 'daily' ? '📅 Daily' : '🗓️  Weekly';
+      const expiresAt = list[0]?.expiresAt;
+      console.log('\n' + chalk.yellow.bold(title) + chalk.gray(expiresAt ? ` (resets in ${this.formatRemaining(expiresAt)})` : ''));
+      console.log(chalk.gray('─'.repeat(40)));
+
+      for (const challenge of list) {
+        const done = challenge.status === 'completed';
+        const percentage = Math.min(100, Math.round((challenge.currentProgress / challenge.requiredCount) * 100));
+        const icon = done ? '✅' : '⭕';
+        const name = done ? chalk.green(challenge.name) : challenge.name;
+
+        console.log(`  ${chalk.gray(`${number++}.`)} ${icon} ${name} ${chalk.yellow(`+${challenge.reward} XP`)}`);
+        console.log(`     ${chalk.gray(challenge.description)}`);
+        if (!done) {
+          console.log(`     Progress: ${this.drawProgressBar(percentage)} ${challenge.currentProgress}/${challenge.requiredCount}`);
+        }
+      }
+    }
+
+    console.log('\n' + chalk.gray(`Rerolls left: ${rerolls.daily} daily, ${rerolls.weekly} weekly (devxp challenges reroll <number>)`));
+    console.log(chalk.cyan.bold('═'.repeat(60)) + '\n');
+  }
+
+  private outputHistory(history: ChallengeRecord[]): void {
+    if (history.length === 0) {
+      console.log(chalk.gray('No finished challenges yet'));
+      return;
+    }
+
+    console.log('\n' + chalk.cyan.bold('🎯 Challenge History'));
+    console.log(chalk.gray('─'.repeat(40)));
+
+    for (const challenge of history) {
+      const date = new Date(challenge.periodStart).toLocaleDateString();
+      const status = challenge.status === 'completed'
+        ? chalk.green(`✅ +${challenge.reward} XP`)
+        : chalk.gray(`❌ ${challenge.currentProgress}/${challenge.requiredCount}`);
+      console.log(`  ${chalk.gray(date)} ${chalk.gray(`[${challenge.period}]`)} ${challenge.name} ${status}`);
+    }
+    console.log();
+  }
+
+  private formatRemaining(expiresAt: string): string {
+    const minutes = Math.max(0, Math.round((new Date(expiresAt).getTime() - Date.now()) / 60000));
+    const days = Math.floor(minutes / 1440);
+    const hours = Math.floor((minutes % 1440) / 60);
+    if (days > 0) return `${days}d ${hours}h`;
+    return `${hours}h ${minutes % 60}m`;
+  }
+
+  private drawProgressBar(percentage: number): string {
+    const width = 20;
+    const filled = Math.round((percentage / 100) * width);
+    return chalk.green('█'.repeat(filled)) + chalk.gray('░'.repeat(width - filled));
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    if (args[0] === 'reroll' && (!args[1] || args[1].startsWith('--'))) {
+      console.error('Please specify the challenge to reroll, e.g. devxp challenges reroll 2');
+      return false;
+    }
+
+    const limitIndex = args.indexOf('--limit');
+    if (limitIndex !== -1) {
+      const limit = parseInt(args[limitIndex + 1] ?? '', 10);
+      if (isNaN(limit) || limit < 1) {
+        console.error('--limit must be a positive number');
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
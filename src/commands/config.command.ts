@@ -2,198 +2,319 @@
  * Config command - Manage configuration settings
  */
 import type { Command } from '../types/command.js';
-import { promises as fs } from 'fs';
-import path from 'path';
-import os from 'os';
+import {
+  defaultConfigManager,
+  parseConfigValue,
+  ConfigEntry,
+  ConfigFileLayer,
+  ConfigSource,
+  DifficultyLevel
+} from '../modules/config.js';
+import { database } from '../modules/database.js';
+import { xpSystem } from '../modules/xp-system.js';
+import { gitHooks } from '../modules/git-hooks.js';
+import { bonusEventScheduler } from '../modules/bonus-events.js';
+import { resolveActivityType } from '../modules/activity-mapper.js';
+import { AuditAction } from '../modules/audit.js';
+import { ActivityType } from '../types/Activity.js';
 import chalk from 'chalk';
-import ora from 'ora';
 
-const configDir = path.join(os.homedir(), '.config', 'devxp');
-const configFile = path.join(configDir, 'config.json');
+const ACTIONS = ['get', 'set', 'unset', 'list', 'reset', 'path', 'explain-xp'];
+
+const AUDITED_ACTIONS: Record<string, AuditAction> = {
+  set: 'config.set',
+  unset: 'config.unset',
+  reset: 'config.reset'
+};
+
+const SOURCE_COLORS: Record<ConfigSource, (text: string) => string> = {
+  default: chalk.gray,
+  difficulty: chalk.blue,
+  global: chalk.green,
+  project: chalk.cyan,
+  env: chalk.yellow,
+  cli: chalk.magenta
+};
 
 export class ConfigCommand implements Command {
   readonly name = 'config';
   readonly description = 'Manage configuration settings';
   readonly help = `
-Usage: devxp config [action] [key] [value]
+Usage: devxp config [action] [key] [value] [options]
 
-Manage configuration settings for DevXP.
+Manage configuration settings for DevXP. Settings are layered, each layer
+overriding the ones before it:
+
+  default      Built-in defaults
+  difficulty   The preset for the chosen difficulty (easy, normal or hard)
+  global       ~/.config/devxp/config.json
+  project      .devxprc.json in the repository (or a parent directory)
+  env          DEVXP_* environment variables, e.g. DEVXP_DECAY__ENABLED=true
+  cli          devxp --set <key>=<value> <command>
 
 Actions:
-  get <key>        Get a configuration value
-  set <key> <value>  Set a configuration value
-  list             List all configuration settings
-  reset            Reset configuration to defaults
-  path             Show path to configuration file
+  get <key>          Show a value and the layer it comes from
+  set <key> <value>  Save a value after validating it
+  unset <key>        Remove a saved value so lower layers apply again
+  list               List all settings and where each comes from
+  reset [section]    Reset saved settings to defaults
+  path               Show the configuration files
+  explain-xp <activity>
+                     Show the XP an activity earns and the settings behind it
+
+Options:
+  --project          Save to the project's .devxprc.json instead of the global file
+  --json             Output in JSON format
 
 Examples:
-  devxp config get user.name
+  devxp config get decay
   devxp config set notifications.enabled false
+  devxp config set timezone Europe/Oslo --project
+  devxp config set difficulty hard
+  devxp config explain-xp git-commit
   devxp config list
 `;
   readonly aliases = ['c', 'configure'];
 
   async execute(args: ReadonlyArray<string>): Promise<void> {
-    if (args.length === 0) {
+    const positional = args.filter(arg => !arg.startsWith('--'));
+    if (positional.length === 0) {
       console.log(this.help);
       return;
     }
 
-    const [action, key, ...valueParts] = args;
-    const value = valueParts.join(' ');
-
-    switch (action) {
-    case 'get':
-      await this.get(key);
-      break;
-    case 'set':
-      await this.set(key, value);
-      break;
-    case 'list':
-      await this.list();
-      break;
-    case 'reset':
-      await this.reset();
-      break;
-    case 'path':
-      console.log(chalk.green(`Config file path: ${configFile}`));
-      break;
-    default:
-      console.error(chalk.red(`Unknown action: ${action}`));
-      console.log(this.help);
-      break;
+    const [action, key = '', ...valueParts] = positional;
+    const layer: ConfigFileLayer = args.includes('--project') ? 'project' : 'global';
+    const isJson = args.includes('--json');
+    const leveling = JSON.stringify(defaultConfigManager.getConfig().leveling);
+    const saved = defaultConfigManager.getLayerValues(layer);
+
+    try {
+      switch (action) {
+      case 'get':
+        this.get(key, isJson);
+        break;
+      case 'set':
+        this.set(key, valueParts.join(' '), layer);
+        break;
+      case 'unset':
+        if (defaultConfigManager.unset(key, layer)) {
+          console.log(chalk.green(`✅ Removed ${key} from the ${layer} config`));
+        } else {
+          console.log(chalk.gray(`${key} is not set in the ${layer} config`));
+        }
+        break;
+      case 'list':
+        this.list(isJson);
+        break;
+      case 'reset':
+        if (key) {
+          defaultConfigManager.unset(key, layer);
+          console.log(chalk.green(`✅ Reset ${key} in the ${layer} config`));
+        } else {
+          defaultConfigManager.reset(layer);
+          console.log(chalk.green(`✅ Reset the ${layer} config to defaults`));
+        }
+        break;
+      case 'path':
+        console.log(`${chalk.green('Global:')}  ${defaultConfigManager.getConfigPath('global')}`);
+        console.log(`${chalk.cyan('Project:')} ${defaultConfigManager.getConfigPath('project')}`);
+        break;
+      case 'explain-xp':
+        this.explainXP(resolveActivityType(key)!, isJson);
+        break;
+      }
+
+      const auditAction = AUDITED_ACTIONS[action ?? ''];
+      if (auditAction) {
+        await this.audit(auditAction, key, layer, saved);
+      }
+      if (JSON.stringify(defaultConfigManager.getConfig().leveling) !== leveling) {
+        await this.recalculateLevels();
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exitCode = 1;
     }
   }
 
-  private async get(key: string): Promise<void> {
-    if (!key) {
-      console.error(chalk.red('Key is required for get action'));
+  private get(key: string, isJson: boolean): void {
+    const entries = defaultConfigManager.getEntries(key);
+    if (entries.length === 0) {
+      console.error(chalk.red(`Key '${key}' not found`));
+      process.exitCode = 1;
       return;
     }
 
-    const config = await this.loadConfig();
-    const value = this.getValue(config, key);
-
-    if (value !== undefined) {
-      console.log(chalk.cyan(`${key}:`), JSON.stringify(value, null, 2));
+    if (isJson) {
+      console.log(JSON.stringify({ key, value: defaultConfigManager.get(key), entries }, null, 2));
     } else {
-      console.error(chalk.red(`Key '${key}' not found`));
+      this.outputEntries(entries);
     }
   }
 
-  private async set(key: string, value: string): Promise<void> {
-    if (!key || value === undefined) {
-      console.error(chalk.red('Key and value are required for set action'));
-      return;
+  private set(key: string, value: string, layer: ConfigFileLayer): void {
+    const parsedValue = parseConfigValue(value);
+    if (key === 'difficulty') {
+      // Switching to custom keeps the preset values
+      defaultConfigManager.setDifficulty(parsedValue as DifficultyLevel, layer);
+    } else {
+      defaultConfigManager.set(key, parsedValue, layer);
     }
+    console.log(chalk.green(`✅ Saved ${key} = ${JSON.stringify(parsedValue)} to the ${layer} config`));
 
-    const spinner = ora('Saving configuration...').start();
-    try {
-      const config = await this.loadConfig();
-      const parsedValue = this.parseValue(value);
-      this.setValue(config, key, parsedValue);
-      await this.saveConfig(config);
-      spinner.succeed(`Configuration saved: ${key} = ${JSON.stringify(parsedValue)}`);
-    } catch (error) {
-      spinner.fail('Failed to save configuration');
-      console.error(error);
+    // A higher layer may still win
+    const source = defaultConfigManager.getEntries(key).find(entry => entry.source !== layer)?.source;
+    if (source === 'env' || source === 'cli' || (layer === 'global' && source === 'project')) {
+      console.log(chalk.yellow(`⚠️  Overridden by the ${source} layer`));
     }
   }
 
-  private async list(): Promise<void> {
-    const config = await this.loadConfig();
+  private list(isJson: boolean): void {
+    const entries = defaultConfigManager.getEntries();
+    const warnings = defaultConfigManager.getWarnings();
+
+    if (isJson) {
+      console.log(JSON.stringify({ entries, warnings }, null, 2));
+      return;
+    }
+
     console.log(chalk.cyan.bold('Current Configuration:'));
-    console.log(JSON.stringify(config, null, 2));
-  }
+    this.outputEntries(entries);
 
-  private async reset(): Promise<void> {
-    const spinner = ora('Resetting configuration...').start();
-    try {
-      const defaultConfig = this.getDefaultConfig();
-      await this.saveConfig(defaultConfig);
-      spinner.succeed('Configuration reset to defaults');
-    } catch (error) {
-      spinner.fail('Failed to reset configuration');
-      console.error(error);
+    for (const warning of warnings) {
+      console.log(chalk.yellow(`⚠️  ${warning}`));
     }
   }
 
-  private async loadConfig(): Promise<any> {
-    try {
-      await fs.mkdir(configDir, { recursive: true });
-      const data = await fs.readFile(configFile, 'utf-8');
-      return JSON.parse(data);
-    } catch (error) {
-      if (error.code === 'ENOENT') {
-        return this.getDefaultConfig();
-      }
-      throw error;
+  private explainXP(type: ActivityType, isJson: boolean): void {
+    const config = defaultConfigManager.getConfig();
+    const base = defaultConfigManager.getActivityBaseXP(type);
+    const baseSource = base.key ? defaultConfigManager.getSource(base.key) : undefined;
+
+    xpSystem.reloadConfig();
+    xpSystem.importConfig({ bonusEvents: bonusEventScheduler.getEvents() });
+    const { streakConfig, multiplierCaps } = xpSystem.exportConfig();
+    const events = xpSystem.getActiveEvents(new Date(), type);
+
+    const rewards = gitHooks.exportConfig();
+    const git = type === ActivityType.GIT_COMMIT ? {
+      perFileChanged: rewards.perFileChanged,
+      perLineAdded: rewards.perLineAdded,
+      perLineDeleted: rewards.perLineDeleted,
+      meaningfulMessageBonus: rewards.meaningfulMessageBonus,
+      maxCommitXP: rewards.maxCommitXP
+    } : undefined;
+
+    const levels = [2, 3, 4, 5, 10].map(level => {
+      const totalXP = xpSystem.calculateTotalXPForLevel(level);
+      return { level, totalXP, activities: base.xp > 0 ? Math.ceil(totalXP / base.xp) : null };
+    });
+
+    if (isJson) {
+      console.log(JSON.stringify({
+        activity: type,
+        difficulty: config.difficulty,
+        baseXP: { ...base, ...(baseSource ? { source: baseSource } : {}) },
+        ...(git ? { git } : {}),
+        streak: { dailyMultiplier: streakConfig.dailyMultiplier, maxMultiplier: streakConfig.maxMultiplier },
+        events: events.map(event => ({ id: event.id, name: event.name, multiplier: event.multiplier })),
+        multiplierCaps,
+        leveling: config.leveling,
+        levels
+      }, null, 2));
+      return;
     }
-  }
 
-  private async saveConfig(config: any): Promise<void> {
-    await fs.mkdir(configDir, { recursive: true });
-    await fs.writeFile(configFile, JSON.stringify(config, null, 2));
-  }
+    const difficultySource = defaultConfigManager.getSource('difficulty') ?? 'default';
+    console.log(chalk.cyan.bold(`XP for ${type}`));
+    console.log(`  Difficulty   ${config.difficulty} ${SOURCE_COLORS[difficultySource](`(${difficultySource})`)}`);
+    if (base.key && baseSource) {
+      console.log(`  Base XP      ${chalk.yellow(base.xp)} from ${base.key} ${SOURCE_COLORS[baseSource](`(${baseSource})`)}`);
+    } else {
+      console.log(`  Base XP      ${chalk.yellow(base.xp)} = ${base.standardXP} standard × ${base.scale} activity scale`);
+    }
 
-  private getDefaultConfig(): any {
-    return {
-      user: {
-        name: '',
-        email: ''
-      },
-      notifications: {
-        enabled: true,
-        levelUp: true,
-        achievement: true
-      },
-      integrations: {
-        github: {
-          enabled: false,
-          token: ''
-        }
-      },
-      theme: 'default',
-      leaderboard: {
-        defaultPeriod: 'weekly'
-      }
-    };
-  }
+    if (git) {
+      console.log(chalk.cyan.bold('\nCommit rewards (git hooks)'));
+      console.log(`  +${git.perFileChanged} per file, +${git.perLineAdded} per line added, +${git.perLineDeleted} per line deleted`);
+      console.log(`  +${git.meaningfulMessageBonus} for a meaningful message, at most ${git.maxCommitXP} per commit`);
+    }
+
+    console.log(chalk.cyan.bold('\nMultipliers'));
+    console.log(`  Streak       +${Math.round(streakConfig.dailyMultiplier * 100)}% per day, up to ${streakConfig.maxMultiplier}x`);
+    for (const event of events) {
+      console.log(`  Event        ${event.name} ${event.multiplier}x`);
+    }
+    console.log(`  Combined     between ${multiplierCaps.minimum}x and ${multiplierCaps.maximum}x`);
 
-  private getValue(obj: any, path: string): any {
-    return path.split('.').reduce((o, i) => (o ? o[i] : undefined), obj);
+    const { baseXP, multiplier, maxLevel } = config.leveling;
+    console.log(chalk.cyan.bold(`\nLevels (${baseXP} × ${multiplier}^(level - 1) XP per level, max ${maxLevel})`));
+    for (const { level, totalXP, activities } of levels) {
+      const count = activities === null ? '' : chalk.gray(` (${activities} × ${type} without bonuses)`);
+      console.log(`  Level ${String(level).padEnd(3)} ${totalXP} XP${count}`);
+    }
   }
 
-  private setValue(obj: any, path: string, value: any): void {
-    const keys = path.split('.');
-    const lastKey = keys.pop()!;
-    const target = keys.reduce((o, i) => (o[i] = o[i] || {}), obj);
-    target[lastKey] = value;
+  // The saved values that changed, with what they were before
+  private async audit(action: AuditAction, key: string, layer: ConfigFileLayer, before: Record<string, unknown>): Promise<void> {
+    const after = defaultConfigManager.getLayerValues(layer);
+    const changed = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+      .filter(path => JSON.stringify(before[path]) !== JSON.stringify(after[path]))
+      .sort();
+    if (changed.length === 0) return;
+
+    try {
+      await database.initialize();
+      await database.getAuditLog().record({
+        action,
+        entityType: 'config',
+        entityId: key || layer,
+        oldValues: Object.fromEntries(changed.filter(path => path in before).map(path => [path, before[path]])),
+        newValues: Object.fromEntries(changed.filter(path => path in after).map(path => [path, after[path]])),
+        metadata: { layer, file: defaultConfigManager.getConfigPath(layer) }
+      });
+    } finally {
+      await database.close();
+    }
   }
 
-  private parseValue(value: string): any {
-    if (value.toLowerCase() === 'true') return true;
-    if (value.toLowerCase() === 'false') return false;
-    if (!isNaN(Number(value))) return Number(value);
+  // Stored levels follow the level curve
+  private async recalculateLevels(): Promise<void> {
     try {
-      return JSON.parse(value);
-    } catch {
-      return value;
+      await database.initialize();
+      const updated = await database.recalculateLevels();
+      if (updated > 0) {
+        console.log(chalk.gray(`Updated the level of ${updated} user${updated === 1 ? '' : 's'}`));
+      }
+    } finally {
+      await database.close();
+    }
+  }
+
+  private outputEntries(entries: ConfigEntry[]): void {
+    const width = Math.max(...entries.map(entry => entry.key.length));
+    for (const { key, value, source } of entries) {
+      console.log(`  ${key.padEnd(width)}  ${JSON.stringify(value)} ${SOURCE_COLORS[source](`(${source})`)}`);
     }
   }
 
   validate(args: ReadonlyArray<string>): boolean {
-    const [action, key, value] = args;
+    const [action, key, value] = args.filter(arg => !arg.startsWith('--'));
     if (!action) return true; // Will show help
 
-    const validActions = ['get', 'set', 'list', 'reset', 'path'];
-    if (!validActions.includes(action)) {
+    if (!ACTIONS.includes(action)) {
       console.error(`Invalid action: ${action}`);
       return false;
     }
 
-    if (action === 'get' && !key) {
-      console.error('Missing key for "get" action');
+    if ((action === 'get' || action === 'unset') && !key) {
+      console.error(`Missing key for "${action}" action`);
+      return false;
+    }
+
+    if (action === 'explain-xp' && !resolveActivityType(key ?? '')) {
+      console.error(key ? `Unknown activity: ${key}` : 'Missing activity for "explain-xp" action');
       return false;
     }
 
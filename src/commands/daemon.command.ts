@@ -0,0 +1,262 @@
+/**
+ * Daemon command - Start, stop and inspect the background tracking daemon
+ */
+import type { Command } from '../types/command';
+import { database } from '../modules/database';
+import { activityTracker } from '../modules/tracker';
+import { mapShellCommand } from '../modules/activity-mapper';
+import { xpDecay } from '../modules/decay';
+import { CommandEvent, daemonClient, DaemonServer, DaemonStatus, getDaemonPidPath, getDaemonSocketPath } from '../modules/daemon';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+
+const SUBCOMMANDS = ['start', 'stop', 'status', 'run'];
+
+// How long start and stop wait for the daemon
+const START_TIMEOUT = 5000;
+const STOP_TIMEOUT = 10000;
+const POLL_INTERVAL = 100;
+
+// How often the daemon applies XP decay
+const DECAY_INTERVAL = 60 * 60 * 1000;
+
+export class DaemonCommand implements Command {
+  readonly name = 'daemon';
+  readonly description = 'Run a background daemon for low-latency tracking';
+  readonly help = `
+Usage: devxp daemon [subcommand] [options]
+
+The daemon keeps the database open and records events sent over a Unix
+domain socket, so the shell integration does not start a new devxp process
+for every command. When the daemon is not running, commands are recorded
+directly as before.
+
+Subcommands:
+  status             Show whether the daemon is running (default)
+  start              Start the daemon in the background
+  stop               Stop the daemon once pending events are recorded
+  run                Run the daemon in the foreground (used by start)
+
+Options:
+  --json             Output status in JSON format
+
+The socket is ~/.config/devxp/daemon.sock and the daemon logs to
+~/.config/devxp/daemon.log.
+`;
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const subcommand = args[0] && SUBCOMMANDS.includes(args[0]) ? args[0] : 'status';
+
+    switch (subcommand) {
+    case 'start':
+      await this.start();
+      break;
+    case 'stop':
+      await this.stop();
+      break;
+    case 'run':
+      await this.run();
+      break;
+    default:
+      await this.status(args.includes('--json'));
+    }
+  }
+
+  private async start(): Promise<void> {
+    const spinner = ora('Starting daemon...').start();
+
+    const running = await daemonClient.ping();
+    if (running) {
+      spinner.info(`Daemon is already running (pid ${running.pid})`);
+      return;
+    }
+
+    const script = process.argv[1];
+    if (!script) {
+      spinner.fail('Could not find the devxp executable');
+      process.exitCode = 1;
+      return;
+    }
+
+    const logPath = path.join(path.dirname(getDaemonSocketPath()), 'daemon.log');
+    fs.mkdirSync(path.dirname(logPath), { recursive: true });
+    const log = fs.openSync(logPath, 'a');
+
+    // Detached, so the daemon outlives this process and the terminal
+    const child = spawn(process.execPath, [...process.execArgv, script, 'daemon', 'run'], {
+      cwd: os.homedir(),
+      detached: true,
+      stdio: ['ignore', log, log]
+    });
+    let exited = false;
+    child.once('exit', () => {
+      exited = true;
+    });
+    child.unref();
+    fs.closeSync(log);
+
+    const deadline = Date.now() + START_TIMEOUT;
+    while (!exited && Date.now() < deadline) {
+      const status = await daemonClient.ping();
+      if (status) {
+        spinner.succeed(`Daemon started (pid ${status.pid})`);
+        return;
+      }
+      await this.sleep(POLL_INTERVAL);
+    }
+
+    spinner.fail(`Daemon did not start, see ${logPath}`);
+    process.exitCode = 1;
+  }
+
+  private async stop(): Promise<void> {
+    const spinner = ora('Stopping daemon...').start();
+
+    if (!(await daemonClient.stop())) {
+      // Not answering, but a process may still be holding on
+      const pid = this.readPid();
+      if (pid === null || !this.isAlive(pid)) {
+        spinner.info('Daemon is not running');
+        return;
+      }
+      process.kill(pid, 'SIGTERM');
+    }
+
+    const deadline = Date.now() + STOP_TIMEOUT;
+    while (Date.now() < deadline) {
+      if (!fs.existsSync(getDaemonSocketPath()) && !fs.existsSync(getDaemonPidPath())) {
+        spinner.succeed('Daemon stopped');
+        return;
+      }
+      await this.sleep(POLL_INTERVAL);
+    }
+
+    spinner.fail('Daemon did not stop in time');
+    process.exitCode = 1;
+  }
+
+  private async status(isJson: boolean): Promise<void> {
+    const status = await daemonClient.ping();
+
+    if (isJson) {
+      console.log(JSON.stringify({ running: status !== null, socket: getDaemonSocketPath(), ...(status ? { status } : {}) }, null, 2));
+      return;
+    }
+
+    if (!status) {
+      console.log(chalk.gray('Daemon is not running, activity is recorded directly'));
+      console.log(chalk.gray('Start it with devxp daemon start'));
+      return;
+    }
+
+    this.outputStatus(status);
+  }
+
+  private outputStatus(status: DaemonStatus): void {
+    console.log(chalk.green(`Daemon is running (pid ${status.pid})`));
+    console.log(`  ${chalk.gray('Socket:')}    ${getDaemonSocketPath()}`);
+    console.log(`  ${chalk.gray('Uptime:')}    ${this.formatUptime(status.uptime)}`);
+    console.log(`  ${chalk.gray('Recorded:')}  ${status.processed}`);
+    if (status.pending > 0) {
+      console.log(`  ${chalk.gray('Pending:')}   ${status.pending}`);
+    }
+    if (status.failed > 0) {
+      console.log(`  ${chalk.gray('Failed:')}    ${chalk.red(status.failed)}`);
+    }
+  }
+
+  // Serve until stopped by `devxp daemon stop` or a signal
+  private async run(): Promise<void> {
+    const server = new DaemonServer(event => this.record(event));
+    const stop = (): void => void server.stop();
+
+    try {
+      await database.initialize();
+      await server.start();
+    } catch (error) {
+      console.error(chalk.red('Failed to start daemon:'), error instanceof Error ? error.message : error);
+      await database.close();
+      process.exitCode = 1;
+      return;
+    }
+
+    process.once('SIGTERM', stop);
+    process.once('SIGINT', stop);
+    console.log(`${new Date().toISOString()} Daemon listening on ${getDaemonSocketPath()} (pid ${process.pid})`);
+
+    // Decay runs on a timer rather than for every event, keeping events cheap
+    const decay = (): void => void server.runTask(() => this.applyDecay());
+    decay();
+    const decayTimer = setInterval(decay, DECAY_INTERVAL);
+
+    await server.wait();
+
+    clearInterval(decayTimer);
+    process.off('SIGTERM', stop);
+    process.off('SIGINT', stop);
+    await database.close();
+    console.log(`${new Date().toISOString()} Daemon stopped after recording ${server.getStatus().processed} events`);
+  }
+
+  private async record(event: CommandEvent): Promise<void> {
+    const mapped = mapShellCommand(event.command, event.exitCode, event.duration);
+    if (!mapped) {
+      return;
+    }
+
+    await activityTracker.track(mapped, {
+      quiet: true,
+      ...(event.cwd ? { cwd: event.cwd } : {}),
+      ...(event.timestamp ? { timestamp: new Date(event.timestamp) } : {})
+    });
+  }
+
+  private async applyDecay(): Promise<void> {
+    try {
+      await xpDecay.applyAll();
+    } catch (error) {
+      console.error(`${new Date().toISOString()} Failed to apply XP decay:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private readPid(): number | null {
+    try {
+      const pid = parseInt(fs.readFileSync(getDaemonPidPath(), 'utf-8'), 10);
+      return isNaN(pid) ? null : pid;
+    } catch {
+      return null;
+    }
+  }
+
+  private isAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private formatUptime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 1) return `${seconds}s`;
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    if (args[0] && !args[0].startsWith('--') && !SUBCOMMANDS.includes(args[0])) {
+      console.error(`Unknown subcommand: ${args[0]}`);
+      return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * Dashboard command - Live full-screen dashboard
+ */
+import type { Command } from '../types/command';
+import { database } from '../modules/database';
+import { dashboardManager, DashboardSnapshot } from '../modules/dashboard';
+import { activityTracker } from '../modules/tracker';
+import { defaultConfigManager } from '../modules/config';
+import { resolveTimeZone } from '../utils/time';
+import { stringWidth, terminal, truncateString } from 'terminal-kit';
+import chalk from 'chalk';
+import ora from 'ora';
+
+type PaneId = 'level' | 'streak' | 'challenges' | 'leaderboard' | 'activity';
+
+// Panes in focus order
+const PANES: Array<{ id: PaneId; title: string }> = [
+  { id: 'level', title: 'Level' },
+  { id: 'streak', title: 'Streak' },
+  { id: 'challenges', title: 'Challenges' },
+  { id: 'leaderboard', title: 'Leaderboard' },
+  { id: 'activity', title: 'Recent Activity' }
+];
+
+const MIN_WIDTH = 60;
+const MIN_HEIGHT = 24;
+const TOP_PANE_HEIGHT = 8;
+
+interface PaneLine {
+  text: string;
+  style?: (text: string) => string;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export class DashboardCommand implements Command {
+  readonly name = 'dashboard';
+  readonly description = 'Open a live full-screen dashboard';
+  readonly help = `
+Usage: devxp dashboard [options]
+
+Show your level, streak, challenges, this week's leaderboard and recent
+activity in a full-screen view. It updates as soon as new activity is
+tracked, for example by the shell integration in another terminal. The
+leaderboard ranks your current team if you have one.
+
+Keys:
+  Tab, Right         Focus the next pane (Shift+Tab, Left for the previous one)
+  1-5                Focus a pane by its number
+  Up, Down           Scroll the focused pane (PgUp, PgDn for a page)
+  r                  Refresh now
+  q, Esc             Quit
+
+Options:
+  --interval <s>     Seconds between checks for new activity (default: 2)
+`;
+  readonly aliases = ['dash', 'tui'];
+
+  private snapshot: DashboardSnapshot | null = null;
+  private timeZone = 'UTC';
+  private focus = 0;
+  private scroll = new Map<PaneId, number>();
+  private error: string | null = null;
+  private closed = false;
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    if (!process.stdout.isTTY || !process.stdin.isTTY) {
+      console.error('The dashboard needs an interactive terminal; use devxp status instead');
+      process.exitCode = 1;
+      return;
+    }
+
+    const intervalIndex = args.indexOf('--interval');
+    const interval = intervalIndex !== -1 ? parseFloat(args[intervalIndex + 1] ?? '') * 1000 : 2000;
+    const spinner = ora('Loading dashboard...').start();
+
+    try {
+      await database.initialize();
+      const user = await activityTracker.resolveUser();
+      this.timeZone = resolveTimeZone(defaultConfigManager.getConfig().timezone);
+      this.snapshot = await dashboardManager.load(user.id);
+      spinner.stop();
+
+      await this.run(user.id, interval);
+      await database.close();
+    } catch (error) {
+      spinner.fail('Failed to load the dashboard');
+      console.error(error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+      await database.close();
+    }
+  }
+
+  // Take over the screen until the user quits
+  private run(userId: string, interval: number): Promise<void> {
+    return new Promise(resolve => {
+      let refreshing: Promise<void> | null = null;
+
+      const refresh = (): Promise<void> => {
+        refreshing ??= dashboardManager.load(userId)
+          .then(snapshot => {
+            this.snapshot = snapshot;
+            this.error = null;
+          })
+          .catch(error => {
+            this.error = error instanceof Error ? error.message : String(error);
+          })
+          .finally(() => {
+            refreshing = null;
+            this.draw();
+          });
+        return refreshing;
+      };
+
+      const stopWatching = dashboardManager.watch(refresh, interval, error => {
+        this.error = error instanceof Error ? error.message : String(error);
+        this.draw();
+      });
+
+      // Refresh now and then anyway, so the day and week roll over
+      const clock = setInterval(() => void refresh(), 60 * 1000);
+
+      const quit = async (): Promise<void> => {
+        stopWatching();
+        clearInterval(clock);
+        terminal.off('key', onKey);
+        terminal.off('resize', onResize);
+        await refreshing;
+
+        this.closed = true;
+        terminal.grabInput(false);
+        terminal.hideCursor(false);
+        terminal.styleReset();
+        terminal.fullscreen(false);
+        resolve();
+      };
+
+      const onKey = (name: string): void => {
+        switch (name) {
+        case 'TAB':
+        case 'RIGHT':
+          this.focus = (this.focus + 1) % PANES.length;
+          break;
+        case 'SHIFT_TAB':
+        case 'LEFT':
+          this.focus = (this.focus + PANES.length - 1) % PANES.length;
+          break;
+        case 'UP':
+          this.scrollBy(-1);
+          break;
+        case 'DOWN':
+          this.scrollBy(1);
+          break;
+        case 'PAGE_UP':
+          this.scrollBy(-this.getPageSize());
+          break;
+        case 'PAGE_DOWN':
+          this.scrollBy(this.getPageSize());
+          break;
+        case 'r':
+        case 'R':
+          void refresh();
+          return;
+        case 'q':
+        case 'Q':
+        case 'ESCAPE':
+        case 'CTRL_C':
+          void quit();
+          return;
+        default:
+          if (!/^[1-9]$/.test(name) || Number(name) > PANES.length) return;
+          this.focus = Number(name) - 1;
+        }
+        this.draw();
+      };
+
+      const onResize = (): void => this.draw();
+
+      terminal.fullscreen(true);
+      terminal.hideCursor();
+      terminal.grabInput(true);
+      terminal.on('key', onKey);
+      terminal.on('resize', onResize);
+      this.draw();
+    });
+  }
+
+  private draw(): void {
+    if (this.closed || !this.snapshot) return;
+
+    const { width, height } = terminal;
+    terminal.styleReset();
+    terminal.clear();
+
+    if (width < MIN_WIDTH || height < MIN_HEIGHT) {
+      terminal.moveTo(1, 1);
+      terminal.noFormat(`Make the terminal at least ${MIN_WIDTH}x${MIN_HEIGHT} to see the dashboard (q quits)`);
+      return;
+    }
+
+    const snapshot = this.snapshot;
+    const updated = snapshot.loadedAt.toLocaleTimeString('en-GB', { timeZone: this.timeZone });
+    terminal.moveTo(1, 1);
+    terminal.noFormat(
+      chalk.cyan.bold(this.fit(` DevXP Dashboard · ${snapshot.user.displayName}`, width - updated.length - 10)) +
+      chalk.gray(`Updated ${updated}`)
+    );
+
+    const layout = this.getLayout(width, height);
+    PANES.forEach((pane, index) => {
+      const rect = layout[pane.id];
+      this.drawPane(pane.id, rect, `${index + 1} ${pane.title}`, this.getLines(pane.id, rect.width - 2), index === this.focus);
+    });
+
+    // Leave the last column free so the bottom line can't scroll the screen
+    terminal.moveTo(1, height);
+    terminal.noFormat(this.error
+      ? chalk.red(this.fit(` ${this.error}`, width - 1))
+      : chalk.gray(this.fit(' Tab/←→ switch pane · ↑↓ scroll · r refresh · q quit', width - 1)));
+  }
+
+  // Level and streak on top, challenges and leaderboard side by side, then the feed
+  private getLayout(width: number, height: number): Record<PaneId, Rect> {
+    const left = Math.floor(width / 2);
+    const right = width - left;
+    const middleTop = 2 + TOP_PANE_HEIGHT;
+    const remaining = height - 2 - TOP_PANE_HEIGHT;
+    const middleHeight = Math.floor(remaining / 2);
+
+    return {
+      level: { x: 1, y: 2, width: left, height: TOP_PANE_HEIGHT },
+      streak: { x: left + 1, y: 2, width: right, height: TOP_PANE_HEIGHT },
+      challenges: { x: 1, y: middleTop, width: left, height: middleHeight },
+      leaderboard: { x: left + 1, y: middleTop, width: right, height: middleHeight },
+      activity: { x: 1, y: middleTop + middleHeight, width, height: remaining - middleHeight }
+    };
+  }
+
+  private drawPane(pane: PaneId, rect: Rect, title: string, lines: PaneLine[], focused: boolean): void {
+    const border = focused ? chalk.cyan.bold : chalk.gray;
+    const innerWidth = rect.width - 2;
+    const innerHeight = rect.height - 2;
+
+    const maxScroll = Math.max(lines.length - innerHeight, 0);
+    const offset = Math.min(this.scroll.get(pane) ?? 0, maxScroll);
+    this.scroll.set(pane, offset);
+
+    const label = truncateString(` ${title} `, innerWidth);
+    terminal.moveTo(rect.x, rect.y);
+    terminal.noFormat(border(`┌${label}${'─'.repeat(innerWidth - stringWidth(label))}┐`));
+
+    for (let row = 0; row < innerHeight; row++) {
+      const line = lines[offset + row];
+      const text = this.fit(line?.text ?? '', innerWidth);
+      terminal.moveTo(rect.x, rect.y + 1 + row);
+      terminal.noFormat(border('│') + (line?.style ? line.style(text) : text) + border('│'));
+    }
+
+    // Show where we are when the pane scrolls
+    const position = maxScroll > 0
+      ? truncateString(` ${offset + 1}-${Math.min(offset + innerHeight, lines.length)} of ${lines.length} `, innerWidth)
+      : '';
+    terminal.moveTo(rect.x, rect.y + rect.height - 1);
+    terminal.noFormat(border(`└${'─'.repeat(innerWidth - stringWidth(position))}${position}┘`));
+  }
+
+  private getLines(pane: PaneId, width: number): PaneLine[] {
+    const snapshot = this.snapshot;
+    if (!snapshot) return [];
+
+    switch (pane) {
+    case 'level': {
+      const { level, todayXp, dailyGoal, user } = snapshot;
+      const barWidth = Math.max(Math.min(width - 8, 30), 5);
+      return [
+        { text: `Level ${level.level} · ${level.title}`, style: chalk.yellow.bold },
+        {
+          text: `${this.drawBar(level.progress / (level.nextLevelXP || 1), barWidth)} ${this.percent(level.progress, level.nextLevelXP)}`,
+          style: chalk.green
+        },
+        { text: `${level.progress} / ${level.nextLevelXP} XP to level ${level.level + 1}`, style: chalk.gray },
+        { text: `Total: ${user.totalXp} XP` },
+        {
+          text: `Today: ${todayXp} / ${dailyGoal} XP`,
+          ...(dailyGoal > 0 && todayXp >= dailyGoal ? { style: chalk.green } : {})
+        },
+        { text: this.drawBar(dailyGoal > 0 ? todayXp / dailyGoal : 0, barWidth), style: chalk.green }
+      ];
+    }
+    case 'streak': {
+      const { streak } = snapshot;
+      const nextToken = streak.daysUntilNextToken === null
+        ? 'at the limit'
+        : `next in ${streak.daysUntilNextToken} day${streak.daysUntilNextToken === 1 ? '' : 's'}`;
+      return [
+        { text: `${streak.currentStreak} day streak`, style: chalk.magenta.bold },
+        streak.atRisk
+          ? { text: 'At risk, be active today', style: chalk.red }
+          : { text: streak.activeToday ? 'Active today' : 'Not active yet today', style: chalk.gray },
+        { text: `Longest: ${streak.longestStreak} days` },
+        { text: `Active days: ${streak.totalActiveDays}` },
+        { text: `Freeze tokens: ${streak.freezeTokens} (${nextToken})` }
+      ];
+    }
+    case 'challenges': {
+      const lines: PaneLine[] = [];
+      for (const [period, heading] of [['daily', 'Today'], ['weekly', 'This week']] as const) {
+        const challenges = snapshot.challenges.filter(challenge => challenge.period === period);
+        if (challenges.length === 0) continue;
+
+        lines.push({ text: heading, style: chalk.bold });
+        for (const challenge of challenges) {
+          const done = challenge.status === 'completed';
+          const progress = `${Math.min(challenge.currentProgress, challenge.requiredCount)}/${challenge.requiredCount}`;
+          lines.push({
+            text: `${done ? '✔' : '○'} ${this.fit(challenge.name, width - progress.length - 3)} ${progress}`,
+            ...(done ? { style: chalk.green } : {})
+          });
+        }
+      }
+      return lines.length > 0 ? lines : [{ text: 'No challenges right now', style: chalk.gray }];
+    }
+    case 'leaderboard': {
+      const lines: PaneLine[] = [{ text: snapshot.leaderboardTeamId ? 'This week in your team' : 'This week', style: chalk.bold }];
+      for (const entry of snapshot.leaderboard) {
+        const trend = entry.previousRank === undefined ? '+' : entry.trend === 'up' ? '▲' : entry.trend === 'down' ? '▼' : '–';
+        const xp = `${entry.periodXP} XP ${trend}`;
+        const name = this.fit(`${entry.rank}. ${entry.displayName}`, width - xp.length - 1);
+        lines.push({
+          text: `${name} ${xp}`,
+          ...(entry.userId === snapshot.user.id ? { style: chalk.yellow.bold } : {})
+        });
+      }
+      if (snapshot.leaderboard.length === 0) {
+        lines.push({ text: 'No XP earned this week yet', style: chalk.gray });
+      }
+      return lines;
+    }
+    case 'activity': {
+      if (snapshot.recentActivities.length === 0) {
+        return [{ text: 'Nothing tracked yet', style: chalk.gray }];
+      }
+      return snapshot.recentActivities.map(activity => {
+        const time = new Date(activity.timestamp).toLocaleString('en-GB', {
+          timeZone: this.timeZone,
+          day: '2-digit',
+          month: 'short',
+          hour: '2-digit',
+          minute: '2-digit'
+        });
+        const xp = `+${activity.xpEarned} XP`;
+        return { text: `${time}  ${this.fit(activity.description, width - time.length - xp.length - 3)} ${xp}` };
+      });
+    }
+    }
+  }
+
+  private scrollBy(rows: number): void {
+    const pane = PANES[this.focus];
+    if (!pane) return;
+    // Clamped to the content when the pane is drawn
+    this.scroll.set(pane.id, Math.max((this.scroll.get(pane.id) ?? 0) + rows, 0));
+  }
+
+  private getPageSize(): number {
+    const pane = PANES[this.focus];
+    return pane ? Math.max(this.getLayout(terminal.width, terminal.height)[pane.id].height - 3, 1) : 1;
+  }
+
+  // Truncate or pad to exactly the given width
+  private fit(text: string, width: number): string {
+    if (width <= 0) return '';
+    const truncated = truncateString(text, width);
+    return truncated + ' '.repeat(Math.max(width - stringWidth(truncated), 0));
+  }
+
+  private drawBar(fraction: number, width: number): string {
+    const filled = Math.round(Math.min(Math.max(fraction, 0), 1) * width);
+    return '█'.repeat(filled) + '░'.repeat(width - filled);
+  }
+
+  private percent(value: number, total: number): string {
+    return `${total > 0 ? Math.floor((value / total) * 100) : 0}%`;
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    const intervalIndex = args.indexOf('--interval');
+    if (intervalIndex !== -1) {
+      const interval = parseFloat(args[intervalIndex + 1] ?? '');
+      if (isNaN(interval) || interval < 0.5) {
+        console.error('--interval must be at least 0.5 seconds');
+        return false;
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Database command - Inspect and run schema migrations
+ */
+import type { Command } from '../types/command';
+import { database } from '../modules/database';
+import { MigrationPlan, MigrationRunner, MigrationState, MigrationStatus } from '../modules/migrations';
+import chalk from 'chalk';
+import ora from 'ora';
+
+const SUBCOMMANDS = ['migrate'];
+const MIGRATE_ACTIONS = ['status', 'up', 'down'];
+
+const STATE_LABELS: Record<MigrationState, string> = {
+  applied: chalk.green('applied'),
+  pending: chalk.yellow('pending'),
+  modified: chalk.red('edited since it was applied'),
+  unknown: chalk.red('applied by a newer devxp')
+};
+
+export class DbCommand implements Command {
+  readonly name = 'db';
+  readonly description = 'Inspect and run database migrations';
+  readonly help = `
+Usage: devxp db migrate [status|up|down] [options]
+
+Every devxp command applies pending migrations when it starts. Use these to
+check the schema, upgrade it step by step or roll it back, for example
+before going back to an older version of devxp.
+
+Subcommands:
+  migrate status     List migrations and whether they are applied (default)
+  migrate up         Apply pending migrations
+  migrate down       Roll back applied migrations, dropping their data
+
+Options:
+  --to <version>     Version to stop at (default for up: the latest,
+                     required for down, 0 rolls back everything)
+  --dry-run          Show the SQL that would run without changing anything
+  --json             Output in JSON format
+
+Each migration runs in its own transaction, so a failing one leaves the
+database as it was. If an applied migration was edited afterwards, or was
+applied by a newer devxp, nothing runs until that is resolved.
+`;
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const action = args[1] && MIGRATE_ACTIONS.includes(args[1]) ? args[1] : 'status';
+    const isJson = args.includes('--json');
+
+    try {
+      // Migrations are what this command manages, so none run on open
+      await database.initialize({ migrate: false });
+      const runner = database.getMigrationRunner();
+
+      if (action === 'status') {
+        await this.status(runner, isJson);
+      } else {
+        await this.migrate(runner, action === 'up' ? 'up' : 'down', this.getTarget(args), args.includes('--dry-run'), isJson);
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exitCode = 1;
+    } finally {
+      await database.close();
+    }
+  }
+
+  private async status(runner: MigrationRunner, isJson: boolean): Promise<void> {
+    const statuses = await runner.getStatus();
+    const current = await runner.getCurrentVersion();
+
+    if (isJson) {
+      console.log(JSON.stringify({ current, latest: runner.getLatestVersion(), migrations: statuses }, null, 2));
+      return;
+    }
+
+    console.log(chalk.bold(`Schema version ${current} of ${runner.getLatestVersion()}`));
+    for (const status of statuses) {
+      this.outputStatus(status);
+    }
+
+    if (statuses.some(status => status.state === 'modified' || status.state === 'unknown')) {
+      console.log(chalk.red('\nMigrations cannot run until the edited or unknown migrations are resolved.'));
+      console.log(chalk.gray('Restore a backup, or use the devxp version that applied them.'));
+      process.exitCode = 1;
+    } else if (statuses.some(status => status.state === 'pending')) {
+      console.log(chalk.gray('\nApply pending migrations with devxp db migrate up'));
+    }
+  }
+
+  private outputStatus(status: MigrationStatus): void {
+    const appliedAt = status.appliedAt ? chalk.gray(` ${new Date(status.appliedAt).toLocaleString()}`) : '';
+    console.log(`  ${String(status.version).padStart(3)}  ${status.name.padEnd(32)} ${STATE_LABELS[status.state]}${appliedAt}`);
+  }
+
+  private async migrate(
+    runner: MigrationRunner,
+    direction: 'up' | 'down',
+    to: number | undefined,
+    dryRun: boolean,
+    isJson: boolean
+  ): Promise<void> {
+    if (dryRun) {
+      const plan = await runner[direction]({ dryRun, ...(to !== undefined ? { to } : {}) });
+      this.outputPlan(plan, isJson);
+      return;
+    }
+
+    const spinner = isJson ? null : ora(direction === 'up' ? 'Applying migrations...' : 'Rolling back migrations...').start();
+    try {
+      const plan = await runner[direction]({
+        ...(to !== undefined ? { to } : {}),
+        onMigration: migration => {
+          if (spinner) spinner.text = `${direction === 'up' ? 'Applying' : 'Rolling back'} migration ${migration.version}: ${migration.name}`;
+        }
+      });
+
+      if (isJson) {
+        console.log(JSON.stringify(this.toJson(plan), null, 2));
+      } else if (plan.migrations.length === 0) {
+        spinner?.info(`Nothing to do, the schema is at version ${plan.from}`);
+      } else {
+        spinner?.succeed(`Schema migrated from version ${plan.from} to ${plan.to} (${plan.migrations.length} migration${plan.migrations.length === 1 ? '' : 's'})`);
+      }
+    } catch (error) {
+      spinner?.fail('Migration failed');
+      throw error;
+    }
+  }
+
+  private outputPlan(plan: MigrationPlan, isJson: boolean): void {
+    if (isJson) {
+      console.log(JSON.stringify({ ...this.toJson(plan), dryRun: true }, null, 2));
+      return;
+    }
+
+    if (plan.migrations.length === 0) {
+      console.log(chalk.gray(`Nothing to do, the schema is at version ${plan.from}`));
+      return;
+    }
+
+    const verb = plan.direction === 'up' ? 'migrate' : 'roll back';
+    console.log(chalk.bold(`Dry run: would ${verb} the schema from version ${plan.from} to ${plan.to}`));
+
+    for (const migration of plan.migrations) {
+      console.log(`\n${plan.direction === 'up' ? chalk.green('+') : chalk.red('-')} ${migration.version} ${migration.name}`);
+      console.log(chalk.gray(this.formatSql(plan.direction === 'up' ? migration.up : migration.down)));
+    }
+
+    console.log(chalk.gray('\nNo changes were made.'));
+  }
+
+  private toJson(plan: MigrationPlan): object {
+    return {
+      direction: plan.direction,
+      from: plan.from,
+      to: plan.to,
+      migrations: plan.migrations.map(migration => ({ version: migration.version, name: migration.name }))
+    };
+  }
+
+  // Re-indent the SQL under its migration
+  private formatSql(sql: string): string {
+    const lines = sql.split('\n');
+    while (lines.length > 0 && !lines[0]?.trim()) lines.shift();
+    while (lines.length > 0 && !lines[lines.length - 1]?.trim()) lines.pop();
+
+    const indent = Math.min(...lines.filter(line => line.trim()).map(line => line.length - line.trimStart().length));
+    return lines.map(line => `    ${line.slice(indent)}`.trimEnd()).join('\n');
+  }
+
+  private getTarget(args: ReadonlyArray<string>): number | undefined {
+    const index = args.indexOf('--to');
+    return index !== -1 ? parseInt(args[index + 1] ?? '', 10) : undefined;
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    if (args[0] && !args[0].startsWith('--') && !SUBCOMMANDS.includes(args[0])) {
+      console.error(`Unknown subcommand: ${args[0]}`);
+      return false;
+    }
+    if (args[1] && !args[1].startsWith('--') && !MIGRATE_ACTIONS.includes(args[1])) {
+      console.error(`Unknown migrate subcommand: ${args[1]}`);
+      return false;
+    }
+
+    const index = args.indexOf('--to');
+    if (index !== -1 && !/^\d+$/.test(args[index + 1] ?? '')) {
+      console.error('--to must be a migration version, such as 0 or 10');
+      return false;
+    }
+    if (args[1] === 'down' && index === -1) {
+      console.error('migrate down needs --to <version>, the version to roll back to');
+      return false;
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Events command - List and schedule bonus XP events
+ */
+import type { Command } from '../types/command';
+import { bonusEventScheduler, ScheduledBonusEvent } from '../modules/bonus-events';
+import { database } from '../modules/database';
+import { AuditRecord } from '../modules/audit';
+import { BonusXPEvent } from '../types/Config';
+import chalk from 'chalk';
+
+const SUBCOMMANDS = ['list', 'create', 'remove'];
+const RECURRENCE_TYPES = ['daily', 'weekly', 'monthly', 'yearly'];
+
+export class EventsCommand implements Command {
+  readonly name = 'events';
+  readonly description = 'List and schedule bonus XP events';
+  readonly help = `
+Usage: devxp events [list|create|remove] [options]
+
+Bonus events multiply the XP earned while they run, e.g. double XP during a
+hackathon. Several events running at once stack, up to the multiplier cap.
+
+Subcommands:
+  list                     Show active and upcoming events (default)
+  create                   Schedule a new event
+  remove <id>              Delete an event
+
+Options for list:
+  --days <n>               How far ahead to look for upcoming events (default: 30)
+  --json                   Output in JSON format
+
+Options for create:
+  --name <name>            Event name (required)
+  --start <date>           Start, e.g. 2025-06-06 or 2025-06-06T18:00 (required)
+  --end <date>             End, exclusive (required)
+  --multiplier <x>         XP multiplier (default: 2)
+  --activities <a,b>       Only boost these activity types (default: all)
+  --repeat <type>          Repeat daily, weekly, monthly or yearly
+  --interval <n>           Repeat every n days/weeks/months/years (default: 1)
+  --id <id>                Event id (default: derived from the name)
+
+Dates without a timezone are in local time. Repeating events start at the same
+time of day in your timezone setting; monthly events starting on the 29th-31st
+fall on the last day of shorter months.
+
+Examples:
+  devxp events create --name "Spring Hackathon" --start 2025-04-04T17:00 --end 2025-04-06T17:00
+  devxp events create --name "Double XP Weekend" --start 2025-03-15 --end 2025-03-17 --repeat weekly
+`;
+  readonly aliases = ['event'];
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const subcommand = args[0] && SUBCOMMANDS.includes(args[0]) ? args[0] : 'list';
+    const isJson = args.includes('--json');
+
+    try {
+      switch (subcommand) {
+      case 'create': {
+        const event = bonusEventScheduler.addEvent(this.buildEvent(args));
+        await this.audit({ action: 'event.create', entityType: 'bonus_event', entityId: event.id, newValues: event });
+
+        if (isJson) {
+          console.log(JSON.stringify(event, null, 2));
+        } else {
+          console.log(chalk.green(`✅ Scheduled ${chalk.bold(event.name)} (${event.id})`));
+          this.outputEvent({ event, start: event.startDate, end: event.endDate });
+        }
+        break;
+      }
+      case 'remove': {
+        const id = args[1] ?? '';
+        const event = bonusEventScheduler.getEvents().find(candidate => candidate.id === id);
+        if (!bonusEventScheduler.removeEvent(id)) {
+          console.error(chalk.red(`No bonus event with id '${id}'`));
+          process.exitCode = 1;
+          break;
+        }
+        await this.audit({ action: 'event.remove', entityType: 'bonus_event', entityId: id, oldValues: event });
+        console.log(chalk.green(`✅ Removed bonus event ${id}`));
+        break;
+      }
+      default: {
+        const daysIndex = args.indexOf('--days');
+        const days = daysIndex !== -1 ? parseInt(args[daysIndex + 1] ?? '', 10) : 30;
+        const now = new Date();
+        const active = bonusEventScheduler.getActiveEvents(now);
+        const upcoming = bonusEventScheduler.getUpcomingEvents(now, days);
+
+        if (isJson) {
+          console.log(JSON.stringify({ active, upcoming }, null, 2));
+        } else {
+          this.outputList(active, upcoming, days);
+        }
+      }
+      }
+    } catch (error) {
+      console.error(chalk.red('Failed to manage bonus events'));
+      console.error(error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    }
+  }
+
+  // Turn the create options into an event for the scheduler to validate
+  private buildEvent(args: ReadonlyArray<string>): Record<string, unknown> {
+    const name = this.getOption(args, '--name') ?? '';
+    const activities = this.getOption(args, '--activities');
+    const repeat = this.getOption(args, '--repeat');
+    const interval = this.getOption(args, '--interval');
+
+    return {
+      id: this.getOption(args, '--id') ?? this.slugify(name),
+      name,
+      multiplier: parseFloat(this.getOption(args, '--multiplier') ?? '2'),
+      startDate: this.parseDate(this.getOption(args, '--start') ?? ''),
+      endDate: this.parseDate(this.getOption(args, '--end') ?? ''),
+      ...(activities ? { affectedActivities: activities.split(',').map(a => a.trim()).filter(Boolean) } : {}),
+      ...(repeat ? { recurring: { type: repeat, interval: interval ? parseInt(interval, 10) : 1 } } : {})
+    };
+  }
+
+  // Events are configuration, but changing them is recorded in the database's audit log
+  private async audit(record: AuditRecord): Promise<void> {
+    try {
+      await database.initialize();
+      await database.getAuditLog().record(record);
+    } finally {
+      await database.close();
+    }
+  }
+
+  private getOption(args: ReadonlyArray<string>, option: string): string | undefined {
+    const index = args.indexOf(option);
+    return index !== -1 ? args[index + 1] : undefined;
+  }
+
+  // Date-only and timezone-less values are local time, unlike Date.parse
+  private parseDate(value: string): string {
+    const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?$/.exec(value);
+    const date = match
+      ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), Number(match[4] ?? 0), Number(match[5] ?? 0))
+      : new Date(value);
+    return isNaN(date.getTime()) ? value : date.toISOString();
+  }
+
+  private slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+
+  private outputList(active: ScheduledBonusEvent[], upcoming: ScheduledBonusEvent[], days: number): void {
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.cyan.bold('  🎉 Bonus XP Events'));
+    console.log(chalk.cyan.bold('═'.repeat(60)));
+
+    console.log('\n' + chalk.yellow.bold('🔥 Active now'));
+    console.log(chalk.gray('─'.repeat(40)));
+    if (active.length === 0) {
+      console.log(chalk.gray('  No events running'));
+    }
+    active.forEach(scheduled => this.outputEvent(scheduled));
+
+    console.log('\n' + chalk.yellow.bold(`📅 Upcoming (next ${days} days)`));
+    console.log(chalk.gray('─'.repeat(40)));
+    if (upcoming.length === 0) {
+      console.log(chalk.gray('  Nothing scheduled'));
+    }
+    upcoming.forEach(scheduled => this.outputEvent(scheduled));
+
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)) + '\n');
+  }
+
+  private outputEvent({ event, start, end }: ScheduledBonusEvent): void {
+    console.log(`  ${chalk.bold(event.name)} ${chalk.yellow(`${event.multiplier}x XP`)} ${chalk.gray(`(${event.id})`)}`);
+    console.log(`     ${chalk.gray(`${start.toLocaleString()} → ${end.toLocaleString()}`)}`);
+    if (event.recurring) {
+      console.log(`     ${chalk.gray(`Repeats ${this.describeRecurrence(event.recurring)}`)}`);
+    }
+    if (event.affectedActivities?.length) {
+      console.log(`     ${chalk.gray(`Activities: ${event.affectedActivities.join(', ')}`)}`);
+    }
+  }
+
+  private describeRecurrence(recurring: NonNullable<BonusXPEvent['recurring']>): string {
+    if (recurring.interval === 1) return recurring.type;
+
+    const unit = { daily: 'days', weekly: 'weeks', monthly: 'months', yearly: 'years' }[recurring.type];
+    return `every ${recurring.interval} ${unit}`;
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    if (args[0] === 'remove' && (!args[1] || args[1].startsWith('--'))) {
+      console.error('Please specify the event to remove, e.g. devxp events remove spring-hackathon');
+      return false;
+    }
+
+    if (args[0] === 'create') {
+      for (const option of ['--name', '--start', '--end']) {
+        const value = this.getOption(args, option);
+        if (!value || value.startsWith('--')) {
+          console.error(`${option} is required to create an event`);
+          return false;
+        }
+      }
+
+      const repeat = this.getOption(args, '--repeat');
+      if (repeat !== undefined && !RECURRENCE_TYPES.includes(repeat)) {
+        console.error(`--repeat must be one of: ${RECURRENCE_TYPES.join(', ')}`);
+        return false;
+      }
+
+      const multiplier = this.getOption(args, '--multiplier');
+      if (multiplier !== undefined && !(parseFloat(multiplier) > 0)) {
+        console.error('--multiplier must be a positive number');
+        return false;
+      }
+    }
+
+    const daysIndex = args.indexOf('--days');
+    if (daysIndex !== -1) {
+      const days = parseInt(args[daysIndex + 1] ?? '', 10);
+      if (isNaN(days) || days < 1) {
+        console.error('--days must be a positive number');
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Export command - Export data as JSON, NDJSON or CSV
+ */
+import type { Command } from '../types/command';
+import { database, EXPORT_TABLES, ExportTable } from '../modules/database';
+import { dataExporter, EXPORT_FORMATS, ExportCounts, ExportFormat, getExportJsonSchema } from '../modules/data-export';
+import { defaultConfigManager } from '../modules/config';
+import { addDays, fromDateKey, resolveTimeZone } from '../utils/time';
+import { createWriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { finished } from 'stream/promises';
+import chalk from 'chalk';
+
+const FORMAT_EXTENSIONS: Record<string, ExportFormat> = {
+  '.json': 'json',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+  '.csv': 'csv'
+};
+
+export class ExportCommand implements Command {
+  readonly name = 'export';
+  readonly description = 'Export your data as JSON, NDJSON or CSV';
+  readonly help = `
+Usage: devxp export [options]
+
+Exports users, projects, sessions, activities, achievements and XP history,
+streaming them so large histories export in constant memory. Exports carry
+a format version and can be brought into another machine with devxp import.
+
+Formats:
+  json                 One document with a list per table (default)
+  ndjson               A header line, then one {"table", "record"} per line
+  csv                  A single table with a header row, for spreadsheets
+
+Options:
+  --output <file>      Write to a file instead of standard output, the
+                       format follows its extension unless given
+  --format <format>    json, ndjson or csv
+  --table <table>      With csv, the table to export (default: activities)
+  --user <username>    Only this user's data and the projects they worked on
+  --since <date>       Only records from this date (YYYY-MM-DD)
+  --until <date>       Only records up to and including this date
+  --schema             Print the JSON Schema of the json format and exit
+
+Dates are days in your timezone. Users and projects are not dated, so a
+date range only narrows the other tables.
+`;
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    if (args.includes('--schema')) {
+      console.log(JSON.stringify(getExportJsonSchema(), null, 2));
+      return;
+    }
+
+    const outputPath = this.getOption(args, '--output');
+    const format = this.getFormat(args, outputPath);
+    const username = this.getOption(args, '--user');
+    const table = this.getOption(args, '--table') as ExportTable | undefined;
+    const since = this.getOption(args, '--since');
+    const until = this.getOption(args, '--until');
+    const timeZone = resolveTimeZone(defaultConfigManager.getConfig().timezone);
+
+    try {
+      await database.initialize();
+
+      const output = outputPath ? createWriteStream(outputPath) : process.stdout;
+      let counts: ExportCounts;
+      try {
+        counts = await dataExporter.export(output, {
+          format,
+          ...(username ? { username } : {}),
+          ...(table ? { table } : {}),
+          ...(since ? { since: fromDateKey(since, timeZone).toISOString() } : {}),
+          ...(until ? { until: addDays(fromDateKey(until, timeZone), 1, timeZone).toISOString() } : {})
+        });
+      } catch (error) {
+        if (outputPath) {
+          output.destroy();
+          await fs.rm(outputPath, { force: true });
+        }
+        throw error;
+      }
+
+      if (outputPath) {
+        output.end();
+        await finished(output);
+        this.outputSummary(path.resolve(outputPath), counts);
+      }
+    } catch (error) {
+      // The reader went away, as with devxp export | head
+      if ((error as NodeJS.ErrnoException).code === 'EPIPE') return;
+
+      console.error(chalk.red(`Failed to export data: ${error instanceof Error ? error.message : error}`));
+      process.exitCode = 1;
+    } finally {
+      await database.close();
+    }
+  }
+
+  private outputSummary(outputPath: string, counts: ExportCounts): void {
+    console.log(chalk.green(`Data exported to ${outputPath}`));
+
+    const exported = EXPORT_TABLES
+      .filter(table => counts[table] > 0)
+      .map(table => `${counts[table]} ${table}`);
+    console.log(chalk.gray(`  ${exported.length > 0 ? exported.join(', ') : 'No records matched'}`));
+  }
+
+  private getFormat(args: ReadonlyArray<string>, outputPath: string | undefined): ExportFormat {
+    const format = this.getOption(args, '--format');
+    if (format) {
+      return format as ExportFormat;
+    }
+    return (outputPath && FORMAT_EXTENSIONS[path.extname(outputPath).toLowerCase()]) || 'json';
+  }
+
+  private getOption(args: ReadonlyArray<string>, option: string): string | undefined {
+    const index = args.indexOf(option);
+    return index !== -1 ? args[index + 1] : undefined;
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    for (const option of ['--output', '--user']) {
+      const value = this.getOption(args, option);
+      if (args.includes(option) && (!value || value.startsWith('--'))) {
+        console.error(`${option} needs a value`);
+        return false;
+      }
+    }
+
+    const format = this.getOption(args, '--format');
+    if (args.includes('--format') && !EXPORT_FORMATS.includes(format as ExportFormat)) {
+      console.error(`Invalid format. Must be one of: ${EXPORT_FORMATS.join(', ')}`);
+      return false;
+    }
+
+    const table = this.getOption(args, '--table');
+    if (args.includes('--table')) {
+      if (!EXPORT_TABLES.includes(table as ExportTable)) {
+        console.error(`Invalid table. Must be one of: ${EXPORT_TABLES.join(', ')}`);
+        return false;
+      }
+      if (this.getFormat(args, this.getOption(args, '--output')) !== 'csv') {
+        console.error('--table only applies to csv, the other formats hold every table');
+        return false;
+      }
+    }
+
+    const since = this.getOption(args, '--since');
+    const until = this.getOption(args, '--until');
+    for (const [option, value] of [['--since', since], ['--until', until]] as const) {
+      if (args.includes(option) && (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value)))) {
+        console.error(`${option} needs a date in YYYY-MM-DD format`);
+        return false;
+      }
+    }
+
+    if (since && until && since > until) {
+      console.error('--since must not be after --until');
+      return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Import command - Validate and merge exported data
+ */
+import type { Command } from '../types/command';
+import { database, EXPORT_TABLES } from '../modules/database';
+import { dataImporter, ImportReport, MERGE_STRATEGIES, MergeStrategy } from '../modules/data-import';
+import chalk from 'chalk';
+import ora from 'ora';
+
+// Listing every problem in a large file helps nobody
+const MAX_LISTED_ERRORS = 20;
+
+export class ImportCommand implements Command {
+  readonly name = 'import';
+  readonly description = 'Import data exported by devxp export';
+  readonly help = `
+Usage: devxp import <file> [options]
+
+Imports a JSON or NDJSON export, including exports from older versions of
+devxp. Every record is validated first, and nothing is imported unless all
+of them are valid.
+
+Users are matched by ID, then by username, and projects by ID, remote or
+name, so data from another machine lands on the same user and projects.
+
+Options:
+  --strategy <name>    What to do with records that already exist:
+                         skip       keep the existing record (default)
+                         overwrite  replace it with the imported one
+                         sum        add imported users' XP to the existing
+                                    users, keep the longer streaks, and
+                                    skip other existing records; a file
+                                    whose activities or XP history are
+                                    already here is refused
+  --dry-run            Show what would change without importing
+  --json               Output the report in JSON format
+`;
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const file = args[0] ?? '';
+    const strategyIndex = args.indexOf('--strategy');
+    const strategy = (strategyIndex !== -1 ? args[strategyIndex + 1] : 'skip') as MergeStrategy;
+    const dryRun = args.includes('--dry-run');
+    const isJson = args.includes('--json');
+
+    const spinner = isJson ? null : ora(dryRun ? 'Checking import...' : 'Importing data...').start();
+    try {
+      await database.initialize();
+      const report = await dataImporter.import(file, { strategy, dryRun });
+      spinner?.stop();
+
+      if (report.errors.length > 0) {
+        process.exitCode = 1;
+      }
+
+      if (isJson) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      this.outputReport(file, report);
+    } catch (error) {
+      spinner?.fail('Failed to import data');
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exitCode = 1;
+    } finally {
+      await database.close();
+    }
+  }
+
+  private outputReport(file: string, report: ImportReport): void {
+    const version = report.version === 0 ? 'unversioned' : `version ${report.version}`;
+
+    if (report.errors.length > 0) {
+      console.log(chalk.red(`${file} has ${report.errors.length} problem${report.errors.length === 1 ? '' : 's'}, nothing was imported:`));
+      for (const issue of report.errors.slice(0, MAX_LISTED_ERRORS)) {
+        console.log(chalk.red(`  ${issue.location}: ${issue.message}`));
+      }
+      if (report.errors.length > MAX_LISTED_ERRORS) {
+        console.log(chalk.red(`  ...and ${report.errors.length - MAX_LISTED_ERRORS} more, see --json for all of them`));
+      }
+      return;
+    }
+
+    if (report.dryRun) {
+      console.log(chalk.bold(`Importing ${file} (${report.format}, ${version}) with ${report.strategy} would change:`));
+    } else {
+      console.log(chalk.green(`Data imported from ${file} (${report.format}, ${version}) with ${report.strategy}`));
+    }
+
+    console.log(chalk.bold(`\n${''.padEnd(14)}${'Added'.padStart(8)}${'Updated'.padStart(9)}${'Skipped'.padStart(9)}`));
+    for (const table of EXPORT_TABLES) {
+      const counts = report.tables[table];
+      if (counts.added + counts.updated + counts.skipped === 0) continue;
+
+      console.log(`${table.padEnd(14)}${String(counts.added).padStart(8)}${String(counts.updated).padStart(9)}${chalk.gray(String(counts.skipped).padStart(9))}`);
+    }
+
+    if (report.users.length > 0) {
+      console.log(chalk.bold('\nUser XP'));
+      for (const user of report.users) {
+        const before = user.xpBefore === null ? chalk.gray('new') : user.xpBefore.toLocaleString();
+        console.log(`  ${user.username.padEnd(20)} ${before} → ${chalk.cyan(user.xpAfter.toLocaleString())}`);
+      }
+    }
+
+    if (report.dryRun) {
+      console.log(chalk.gray('\nDry run, nothing was imported'));
+    }
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    if (!args[0] || args[0].startsWith('--')) {
+      console.error('Please specify the file to import');
+      return false;
+    }
+
+    const strategyIndex = args.indexOf('--strategy');
+    if (strategyIndex !== -1 && !MERGE_STRATEGIES.includes(args[strategyIndex + 1] as MergeStrategy)) {
+      console.error(`Invalid strategy. Must be one of: ${MERGE_STRATEGIES.join(', ')}`);
+      return false;
+    }
+    return true;
+  }
+}
@@ -8,6 +8,7 @@ import os from 'os';
 import chalk from 'chalk';
 import ora from 'ora';
 import { execSync } from 'child_process';
+import { detectShell, SHELL_TYPES, shellIntegration } from '../modules/shell-integration';
 
 export class InstallCommand implements Command {
   readonly name = 'install';
@@ -129,113 +130,23 @@ fi
   private async installShellIntegration(args: ReadonlyArray<string>): Promise<void> {
     const spinner = ora('Installing shell integration...').start();
 
-    try {
-      let shell = await this.detectShell();
-      
-      // Override with user preference
-      if (args.includes('--zsh')) shell = 'zsh';
-      if (args.includes('--bash')) shell = 'bash';
-      if (args.includes('--fish')) shell = 'fish';
+    // Override with user preference
+    const shell = SHELL_TYPES.find(type => args.includes(`--${type}`)) ?? detectShell();
+    if (!shell) {
+      spinner.warn(`Unknown shell: ${process.env['SHELL'] ?? 'none'}. Run devxp shell-integration install --shell <shell>.`);
+      return;
+    }
 
-      switch (shell) {
-      case 'zsh':
-        await this.installZshIntegration();
-        spinner.succeed('Zsh integration installed');
-        break;
-      case 'bash':
-        await this.installBashIntegration();
-        spinner.succeed('Bash integration installed');
-        break;
-      case 'fish':
-        await this.installFishIntegration();
-        spinner.succeed('Fish integration installed');
-        break;
-      default:
-        spinner.warn(`Unknown shell: ${shell}. Please install manually.`);
-      }
+    try {
+      await shellIntegration.initialize(shell);
+      await shellIntegration.addToRcFile(shell);
+      spinner.succeed(`Shell integration installed for ${shell}`);
     } catch (error) {
       spinner.fail('Failed to install shell integration');
       console.error(error);
     }
   }
 
-  private async installZshIntegration(): Promise<void> {
-    const zshrcPath = path.join(os.homedir(), '.zshrc');
-    const integration = `
-# DevXP Shell Integration
-if command -v devxp &> /dev/null; then
-  # Track directory changes
-  function chpwd() {
-    devxp track --type cd --auto &> /dev/null &
-  }
-  
-  # Track command execution
-  function preexec() {
-    devxp track --type command --cmd "$1" --auto &> /dev/null &
-  }
-fi
-`;
-
-    await this.appendToFile(zshrcPath, integration, 'DevXP Shell Integration');
-  }
-
-  private async installBashIntegration(): Promise<void> {
-    const bashrcPath = path.join(os.homedir(), '.bashrc');
-    const integration = `
-# DevXP Shell Integration
-if command -v devxp &> /dev/null; then
-  # Track command execution
-  export PROMPT_COMMAND='devxp track --type command --auto &> /dev/null &'
-  
-  # Track directory changes
-  function cd() {
-    builtin cd "$@"
-    devxp track --type cd --auto &> /dev/null &
-  }
-fi
-`;
-
-    await this.appendToFile(bashrcPath, integration, 'DevXP Shell Integration');
-  }
-
-  private async installFishIntegration(): Promise<void> {
-    const fishConfigDir = path.join(os.homedir(), '.config', 'fish');
-    const fishConfigPath = path.join(fishConfigDir, 'config.fish');
-    
-    await fs.mkdir(fishConfigDir, { recursive: true });
-    
-    const integration = `
-# DevXP Shell Integration
-if command -v devxp &> /dev/null
-  # Track directory changes
-  function __devxp_cd --on-variable PWD
-    devxp track --type cd --auto &> /dev/null &
-  end
-  
-  # Track command execution
-  function __devxp_preexec --on-event fish_preexec
-    devxp track --type command --cmd "$argv" --auto &> /dev/null &
-  end
-end
-`;
-
-    await this.appendToFile(fishConfigPath, integration, 'DevXP Shell Integration');
-  }
-
-  private async appendToFile(filePath: string, content: string, marker: string): Promise<void> {
-    try {
-      const existingContent = await fs.readFile(filePath, 'utf-8');
-      if (existingContent.includes(marker)) {
-        console.log(chalk.yellow(`  ⚠️  ${path.basename(filePath)} already contains DevXP integration`));
-        return;
-      }
-      await fs.appendFile(filePath, content);
-    } catch {
-      // File doesn't exist, create it
-      await fs.writeFile(filePath, content);
-    }
-  }
-
   private async uninstall(): Promise<void> {
     console.log(chalk.red.bold('\n🗑️  DevXP Uninstallation\n'));
     
@@ -250,9 +161,9 @@ end
       }
 
       // Remove shell integrations
-      await this.removeFromFile(path.join(os.homedir(), '.zshrc'), 'DevXP Shell Integration');
-      await this.removeFromFile(path.join(os.homedir(), '.bashrc'), 'DevXP Shell Integration');
-      await this.removeFromFile(path.join(os.homedir(), '.config', 'fish', 'config.fish'), 'DevXP Shell Integration');
+      for (const shell of SHELL_TYPES) {
+        await shellIntegration.uninstall(shell);
+      }
 
       spinner.succeed('Integrations removed');
       console.log(chalk.gray('\nNote: Local git hooks were not removed. Remove them manually if needed.'));
@@ -262,41 +173,6 @@ end
     }
   }
 
-  private async removeFromFile(filePath: string, marker: string): Promise<void> {
-    try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      const lines = content.split('\n');
-      const newLines: string[] = [];
-      let inBlock = false;
-
-      for (const line of lines) {
-        if (line.includes(marker)) {
-          inBlock = true;
-          continue;
-        }
-        if (inBlock && line.trim() === '') {
-          inBlock = false;
-          continue;
-        }
-        if (!inBlock) {
-          newLines.push(line);
-        }
-      }
-
-      await fs.writeFile(filePath, newLines.join('\n'));
-    } catch {
-      // File doesn't exist, that's fine
-    }
-  }
-
-  private async detectShell(): Promise<string> {
-    const shell = process.env.SHELL || '';
-    if (shell.includes('zsh')) return 'zsh';
-    if (shell.includes('bash')) return 'bash';
-    if (shell.includes('fish')) return 'fish';
-    return 'unknown';
-  }
-
   private async findGitDirectory(): Promise<string | null> {
     try {
       const gitDir = execSync('git rev-parse --git-dir', { encoding: 'utf-8' }).trim();
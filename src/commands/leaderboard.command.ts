@@ -2,7 +2,12 @@
  * Leaderboard command - Show global or time-based leaderboards
  */
 import type { Command } from '../types/command.js';
-import { database } from '../modules/database.js';
+import { database, Project, Team } from '../modules/database.js';
+import { projectManager } from '../modules/projects.js';
+import { teamManager } from '../modules/teams.js';
+import { leaderboardManager, parseLeaderboardPeriod, LeaderboardPeriod, PeriodLeaderboard, RankedLeaderboardEntry } from '../modules/leaderboards.js';
+import { defaultConfigManager } from '../modules/config.js';
+import { resolveTimeZone, toDateKey } from '../utils/time.js';
 import chalk from 'chalk';
 import ora from 'ora';
 
@@ -12,12 +17,17 @@ export class LeaderboardCommand implements Command {
   readonly help = `
 Usage: devxp leaderboard [options]
 
-Display the leaderboard showing top developers.
+Display the leaderboard showing top developers. Periods follow the calendar
+in your timezone, and arrows show how each rank moved since the previous
+period.
 
 Options:
-  --period <period>  Time period: all, weekly, monthly (default: weekly)
+  --period <period>  Time period: day, week, month, year, all (default: week)
+  --since <date>     Rank by XP earned from this date (YYYY-MM-DD)
+  --until <date>     Rank by XP earned up to and including this date
   --limit <number>   Number of entries to show (default: 10)
-  --team <name>      Show team-specific leaderboard
+  --team <name>      Rank the members of a team
+  --project <name>   Rank by XP earned in one project ('.' for the current repository)
   --me               Highlight your position
   --json             Output in JSON format
 `;
@@ -29,9 +39,11 @@ Options:
     try {
       // Parse arguments
       const periodIndex = args.indexOf('--period');
-      const period = periodIndex !== -1 && args[periodIndex + 1] 
-        ? args[periodIndex + 1] 
-        : 'weekly';
+      const since = this.getDateOption(args, '--since');
+      const until = this.getDateOption(args, '--until');
+      const period: LeaderboardPeriod = since || until
+        ? 'custom'
+        : parseLeaderboardPeriod(periodIndex !== -1 ? args[periodIndex + 1] ?? '' : 'week') ?? 'week';
       
       const limitIndex = args.indexOf('--limit');
       const limit = limitIndex !== -1 && args[limitIndex + 1] 
@@ -39,27 +51,43 @@ Options:
         : 10;
       
       const teamIndex = args.indexOf('--team');
-      const team = teamIndex !== -1 && args[teamIndex + 1] 
-        ? args[teamIndex + 1] 
-        : null;
+      const teamRef = teamIndex !== -1 ? args[teamIndex + 1] : undefined;
       
+      const projectIndex = args.indexOf('--project');
+      const projectRef = projectIndex !== -1 ? args[projectIndex + 1] : undefined;
+
       const highlightMe = args.includes('--me');
       const isJson = args.includes('--json');
 
       // Initialize database
       await database.initialize();
 
-      // Get leaderboard data
-      let leaderboard;
-      if (period === 'weekly') {
-        leaderboard = await database.getWeeklyLeaderboard(limit);
-      } else if (period === 'all' || period === 'global') {
-        leaderboard = await database.getGlobalLeaderboard(limit);
-      } else {
-        // For monthly, we'd need to implement a new method
-        leaderboard = await database.getGlobalLeaderboard(limit);
+      const project = projectRef ? await projectManager.find(projectRef) : null;
+      if (projectRef && !project) {
+        spinner.fail(projectRef === '.' ? 'This repository is not a tracked project yet' : `Project '${projectRef}' not found`);
+        process.exitCode = 1;
+        await database.close();
+        return;
+      }
+
+      const team = teamRef ? await teamManager.find(teamRef) : null;
+      if (teamRef && !team) {
+        spinner.fail(`Team '${teamRef}' not found`);
+        process.exitCode = 1;
+        await database.close();
+        return;
       }
 
+      // Get leaderboard data
+      const leaderboard = await leaderboardManager.getLeaderboard({
+        period,
+        limit,
+        ...(since ? { since } : {}),
+        ...(until ? { until } : {}),
+        ...(project ? { projectId: project.id } : {}),
+        ...(team ? { teamId: team.id } : {})
+      });
+
       // Get current user for highlighting
       let currentUsername = null;
       if (highlightMe) {
@@ -69,9 +97,9 @@ Options:
       spinner.stop();
 
       if (isJson) {
-        this.outputJson(leaderboard, period);
+        this.outputJson(leaderboard, project, team);
       } else {
-        this.outputDetailed(leaderboard, period, currentUsername);
+        this.outputDetailed(leaderboard, currentUsername, project, team);
       }
 
       await database.close();
@@ -82,10 +110,13 @@ Options:
     }
   }
 
-  private outputDetailed(leaderboard: any[], period: string, currentUsername: string | null): void {
+  private outputDetailed(board: PeriodLeaderboard, currentUsername: string | null, project: Project | null, team: Team | null): void {
+    const leaderboard = board.entries;
+
     // Header
+    const scope = project ? `${project.name} ` : team ? `${team.name} ` : '';
     console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
-    console.log(chalk.cyan.bold(`  🏆 Leaderboard - ${this.formatPeriod(period)}`));
+    console.log(chalk.cyan.bold(`  🏆 ${scope}Leaderboard - ${this.formatPeriod(board)}`));
     console.log(chalk.cyan.bold('═'.repeat(60)));
 
     if (leaderboard.length === 0) {
@@ -100,7 +131,8 @@ Options:
       chalk.gray('Developer'.padEnd(25)) +
       chalk.gray('Level'.padEnd(8)) +
       chalk.gray('XP'.padEnd(12)) +
-      chalk.gray('Streak')
+      chalk.gray('Streak'.padEnd(8)) +
+      (board.previousRange ? chalk.gray('Trend') : '')
     );
     console.log(chalk.gray('─'.repeat(60)));
 
@@ -113,8 +145,11 @@ Options:
       line += rankDisplay.padEnd(6);
       line += this.formatUsername(entry.displayName || entry.username, isCurrentUser).padEnd(25);
       line += this.formatLevel(entry.level).padEnd(8);
-      line += this.formatXP(entry.totalXp).padEnd(12);
-      line += this.formatStreak(entry.streak);
+      line += this.formatXP(entry.periodXP).padEnd(12);
+      line += this.formatStreak(entry.streak).padEnd(8);
+      if (board.previousRange) {
+        line += this.formatTrend(entry);
+      }
 
       if (isCurrentUser) {
         console.log(chalk.yellow.bold('→ ' + line));
@@ -130,24 +165,32 @@ Options:
 
     // Footer stats
     console.log('\n' + chalk.gray('─'.repeat(60)));
-    const totalXP = leaderboard.reduce((sum, entry) => sum + entry.totalXp, 0);
+    const totalXP = leaderboard.reduce((sum, entry) => sum + entry.periodXP, 0);
     const avgLevel = Math.round(leaderboard.reduce((sum, entry) => sum + entry.level, 0) / leaderboard.length);
     console.log(chalk.gray(`Total XP: ${totalXP.toLocaleString()} | Average Level: ${avgLevel}`));
 
     console.log(chalk.cyan.bold('═'.repeat(60)) + '\n');
   }
 
-  private outputJson(leaderboard: any[], period: string): void {
+  private outputJson(board: PeriodLeaderboard, project: Project | null, team: Team | null): void {
     console.log(JSON.stringify({
-      period,
+      period: board.period,
+      start: board.range.start?.toISOString() ?? null,
+      end: board.range.end?.toISOString() ?? null,
+      project: project ? { id: project.id, name: project.name } : null,
+      team: team ? { id: team.id, name: team.name } : null,
       timestamp: new Date().toISOString(),
-      entries: leaderboard.map(entry => ({
+      entries: board.entries.map(entry => ({
         rank: entry.rank,
+        previousRank: entry.previousRank ?? null,
+        rankChange: entry.rankChange,
+        trend: entry.trend,
         userId: entry.userId,
         username: entry.username,
         displayName: entry.displayName,
         level: entry.level,
-        totalXp: entry.totalXp,
+        periodXp: entry.periodXP,
+        totalXp: entry.totalXP,
         streak: entry.streak
       }))
     }, null, 2));
@@ -207,18 +250,44 @@ Options:
     return chalk.gray('-');
   }
 
-  private formatPeriod(period: string): string {
-    switch (period) {
-    case 'weekly':
+  private formatTrend(entry: RankedLeaderboardEntry): string {
+    if (entry.previousRank === undefined) {
+      return chalk.cyan('new');
+    }
+    if (entry.trend === 'up') {
+      return chalk.green(`▲ ${entry.rankChange}`);
+    }
+    if (entry.trend === 'down') {
+      return chalk.red(`▼ ${-entry.rankChange}`);
+    }
+    return chalk.gray('–');
+  }
+
+  private formatPeriod(board: PeriodLeaderboard): string {
+    switch (board.period) {
+    case 'day':
+      return 'Today';
+    case 'week':
       return 'This Week';
-    case 'monthly':
+    case 'month':
       return 'This Month';
+    case 'year':
+      return 'This Year';
     case 'all':
-    case 'global':
       return 'All Time';
-    default:
-      return period;
+    default: {
+      // Custom ranges end at the start of the day after --until
+      const timeZone = resolveTimeZone(defaultConfigManager.getConfig().timezone);
+      const start = board.range.start ? toDateKey(board.range.start, timeZone) : 'the beginning';
+      const end = board.range.end ? toDateKey(new Date(board.range.end.getTime() - 1), timeZone) : 'now';
+      return `${start} to ${end}`;
     }
+    }
+  }
+
+  private getDateOption(args: ReadonlyArray<string>, option: string): string | undefined {
+    const index = args.indexOf(option);
+    return index !== -1 ? args[index + 1] : undefined;
   }
 
   private async getCurrentUsername(): Promise<string> {
@@ -233,14 +302,30 @@ Options:
 
   validate(args: ReadonlyArray<string>): boolean {
     const periodIndex = args.indexOf('--period');
-    if (periodIndex !== -1 && args[periodIndex + 1]) {
-      const validPeriods = ['all', 'global', 'weekly', 'monthly'];
-      if (!validPeriods.includes(args[periodIndex + 1])) {
-        console.error(`Invalid period. Must be one of: ${validPeriods.join(', ')}`);
+    if (periodIndex !== -1 && !parseLeaderboardPeriod(args[periodIndex + 1] ?? '')) {
+      console.error('Invalid period. Must be one of: day, week, month, year, all');
+      return false;
+    }
+
+    const since = this.getDateOption(args, '--since');
+    const until = this.getDateOption(args, '--until');
+    for (const [option, value] of [['--since', since], ['--until', until]] as const) {
+      if (args.includes(option) && (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value)))) {
+        console.error(`${option} needs a date in YYYY-MM-DD format`);
         return false;
       }
     }
 
+    if (periodIndex !== -1 && (since || until)) {
+      console.error('Use either --period or --since/--until, not both');
+      return false;
+    }
+
+    if (since && until && since > until) {
+      console.error('--since must not be after --until');
+      return false;
+    }
+
     const limitIndex = args.indexOf('--limit');
     if (limitIndex !== -1 && args[limitIndex + 1]) {
       const limit = parseInt(args[limitIndex + 1], 10);
@@ -250,6 +335,23 @@ Options:
       }
     }
 
+    const projectIndex = args.indexOf('--project');
+    if (projectIndex !== -1 && !args[projectIndex + 1]) {
+      console.error('Please specify a project name, or . for the current repository');
+      return false;
+    }
+
+    const teamIndex = args.indexOf('--team');
+    if (teamIndex !== -1 && !args[teamIndex + 1]) {
+      console.error('Please specify a team name');
+      return false;
+    }
+
+    if (projectIndex !== -1 && teamIndex !== -1) {
+      console.error('Use either --project or --team, not both');
+      return false;
+    }
+
     return true;
   }
 }
@@ -0,0 +1,212 @@
+/**
+ * Ledger command - Inspect, verify and repair the XP ledger
+ */
+import type { Command } from '../types/command';
+import { database } from '../modules/database';
+import { LedgerVerification } from '../modules/ledger';
+import { XPTransaction } from '../types/XPEvent';
+import chalk from 'chalk';
+
+const SUBCOMMANDS = ['verify', 'repair', 'list', 'reverse'];
+
+export class LedgerCommand implements Command {
+  readonly name = 'ledger';
+  readonly description = 'Verify and repair XP totals against the XP ledger';
+  readonly help = `
+Usage: devxp ledger [subcommand] [options]
+
+Every XP change is a ledger transaction, and each user's XP and level are
+derived from their transactions. These commands check that the totals
+shown everywhere else still match the ledger, and fix them if not.
+
+Subcommands:
+  verify               Compare each user's XP and level with the ledger and
+                       check that every transaction balances (default)
+  repair               Set XP and levels that drifted back to the ledger's
+  list                 Show your recent transactions
+  reverse <id>         Undo a transaction with an opposite one that
+                       references it
+
+Options:
+  --dry-run            With repair, only show what would change
+  --user <username>    With list, show another user's transactions
+  --limit <n>          With list, how many to show (default: 20)
+  --reason <text>      With reverse, why it is undone
+  --json               Output in JSON format
+`;
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const subcommand = args[0] && SUBCOMMANDS.includes(args[0]) ? args[0] : 'verify';
+    const isJson = args.includes('--json');
+
+    try {
+      await database.initialize();
+
+      switch (subcommand) {
+      case 'repair':
+        await this.repair(args.includes('--dry-run'), isJson);
+        break;
+      case 'list':
+        await this.list(args, isJson);
+        break;
+      case 'reverse':
+        await this.reverse(args[1] ?? '', this.getOption(args, '--reason'), isJson);
+        break;
+      default:
+        await this.verify(isJson);
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exitCode = 1;
+    } finally {
+      await database.close();
+    }
+  }
+
+  private async verify(isJson: boolean): Promise<void> {
+    const verification = await database.getLedger().verify();
+    if (!verification.ok) {
+      process.exitCode = 1;
+    }
+
+    if (isJson) {
+      console.log(JSON.stringify(verification, null, 2));
+      return;
+    }
+
+    this.outputVerification(verification);
+    if (verification.discrepancies.length > 0) {
+      console.log(chalk.gray('\nRun devxp ledger repair to set them from the ledger'));
+    }
+  }
+
+  private async repair(dryRun: boolean, isJson: boolean): Promise<void> {
+    const verification = await database.getLedger().repair({ dryRun });
+
+    // Unbalanced transactions need a person to look at them
+    if (verification.unbalanced.length > 0) {
+      process.exitCode = 1;
+    }
+
+    if (isJson) {
+      console.log(JSON.stringify({ dryRun, ...verification }, null, 2));
+      return;
+    }
+
+    if (verification.discrepancies.length === 0) {
+      console.log(chalk.green('Nothing to repair, every user\'s XP matches the ledger'));
+    } else {
+      console.log(chalk.bold(dryRun ? 'Would repair:' : 'Repaired:'));
+      for (const discrepancy of verification.discrepancies) {
+        console.log(`  ${discrepancy.username.padEnd(24)} ${discrepancy.cachedXp.toLocaleString()} XP → ${chalk.cyan(discrepancy.ledgerXp.toLocaleString())} XP, level ${discrepancy.cachedLevel} → ${chalk.cyan(discrepancy.level)}`);
+      }
+    }
+    this.outputUnbalanced(verification.unbalanced);
+  }
+
+  private async list(args: ReadonlyArray<string>, isJson: boolean): Promise<void> {
+    const username = this.getOption(args, '--user') ?? await this.getCurrentUsername();
+    const user = await database.getUserByUsername(username);
+    if (!user) {
+      throw new Error(`User not found: ${username}`);
+    }
+
+    const limit = parseInt(this.getOption(args, '--limit') ?? '20', 10);
+    const transactions = await database.getLedger().getTransactions(user.id, limit);
+
+    if (isJson) {
+      console.log(JSON.stringify(transactions, null, 2));
+      return;
+    }
+
+    if (transactions.length === 0) {
+      console.log(chalk.gray(`No transactions for ${username} yet`));
+      return;
+    }
+
+    console.log(chalk.bold(`Recent transactions of ${username}`));
+    for (const transaction of transactions) {
+      this.outputTransaction(transaction);
+    }
+  }
+
+  private async reverse(transactionId: string, reason: string | undefined, isJson: boolean): Promise<void> {
+    const reversal = await database.getLedger().reverse(transactionId, reason);
+
+    if (isJson) {
+      console.log(JSON.stringify(reversal, null, 2));
+      return;
+    }
+
+    console.log(chalk.green(`Reversed ${transactionId} with ${reversal.id}`));
+    console.log(chalk.gray(`  ${reversal.amount > 0 ? '+' : ''}${reversal.amount} XP, balance ${reversal.newBalance.toLocaleString()} XP`));
+  }
+
+  private outputVerification(verification: LedgerVerification): void {
+    if (verification.ok) {
+      console.log(chalk.green(`✔ ${verification.users} user${verification.users === 1 ? '' : 's'} and ${verification.transactions} transactions match the ledger`));
+      return;
+    }
+
+    if (verification.discrepancies.length > 0) {
+      console.log(chalk.red(`✖ ${verification.discrepancies.length} user${verification.discrepancies.length === 1 ? ' differs' : 's differ'} from the ledger:`));
+      for (const discrepancy of verification.discrepancies) {
+        console.log(`  ${discrepancy.username.padEnd(24)} shows ${discrepancy.cachedXp.toLocaleString()} XP at level ${discrepancy.cachedLevel}, ledger has ${discrepancy.ledgerXp.toLocaleString()} XP at level ${discrepancy.level}`);
+      }
+    }
+    this.outputUnbalanced(verification.unbalanced);
+  }
+
+  private outputUnbalanced(unbalanced: string[]): void {
+    if (unbalanced.length === 0) return;
+
+    console.log(chalk.red(`✖ ${unbalanced.length} transaction${unbalanced.length === 1 ? ' does' : 's do'} not balance, restore a backup from before they were written:`));
+    for (const id of unbalanced) {
+      console.log(chalk.red(`  ${id}`));
+    }
+  }
+
+  private outputTransaction(transaction: XPTransaction): void {
+    const amount = `${transaction.amount > 0 ? '+' : ''}${transaction.amount}`;
+    const color = transaction.amount < 0 ? chalk.red : chalk.green;
+    const status = transaction.status === 'reversed' ? chalk.yellow(' (reversed)') : '';
+    const reversal = transaction.relatedTransactionId && transaction.status !== 'reversed'
+      ? chalk.gray(` reverses ${transaction.relatedTransactionId}`)
+      : '';
+
+    console.log(`  ${chalk.gray(transaction.id)} ${color(amount.padStart(7))} ${transaction.newBalance.toLocaleString().padStart(8)}  ${transaction.reason}${status}${reversal}`);
+  }
+
+  private getOption(args: ReadonlyArray<string>, option: string): string | undefined {
+    const index = args.indexOf(option);
+    return index !== -1 ? args[index + 1] : undefined;
+  }
+
+  private async getCurrentUsername(): Promise<string> {
+    const { execSync } = await import('child_process');
+    try {
+      const gitUser = execSync('git config user.name', { encoding: 'utf-8' }).trim();
+      return gitUser || 'default';
+    } catch {
+      return 'default';
+    }
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    if (args[0] && !args[0].startsWith('--') && !SUBCOMMANDS.includes(args[0])) {
+      console.error(`Unknown subcommand: ${args[0]}`);
+      return false;
+    }
+    if (args[0] === 'reverse' && (!args[1] || args[1].startsWith('--'))) {
+      console.error('reverse needs the ID of the transaction to undo, see devxp ledger list');
+      return false;
+    }
+
+    const limit = this.getOption(args, '--limit');
+    if (args.includes('--limit') && (!limit || isNaN(parseInt(limit, 10)) || parseInt(limit, 10) < 1)) {
+      console.error('--limit needs a positive number');
+      return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Projects command - List the repositories activity was tracked in
+ */
+import type { Command } from '../types/command';
+import { database, Project, ProjectSummary, LeaderboardEntry } from '../modules/database';
+import { projectManager } from '../modules/projects';
+import chalk from 'chalk';
+import ora from 'ora';
+
+const SUBCOMMANDS = ['list', 'show', 'rename', 'archive', 'unarchive'];
+
+export class ProjectsCommand implements Command {
+  readonly name = 'projects';
+  readonly description = 'List projects and the XP earned in each';
+  readonly help = `
+Usage: devxp projects [list|show|rename|archive|unarchive] [options]
+
+Repositories are registered as projects the first time activity is tracked
+in them. Clones of the same repository share a project, matched by their
+origin URL; repositories without a remote are matched by their path. The
+primary language is worked out from the lines each commit changes.
+
+Subcommands:
+  list                     Show projects, most recently active first (default)
+  show <project>           Show a project's languages and top contributors
+  rename <project> <name>  Change the name used in --project filters
+  archive <project>        Hide a project from the list
+  unarchive <project>      Show an archived project again
+
+<project> is a project name or id, or . for the current repository.
+
+Options:
+  --all                    Include archived projects in the list
+  --json                   Output in JSON format
+
+Examples:
+  devxp projects
+  devxp projects show .
+  devxp stats --project devxp-cli
+  devxp leaderboard --project . --period all
+`;
+  readonly aliases = ['project', 'repos'];
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const [first = '', ref = '', newName = ''] = args.filter(arg => !arg.startsWith('--'));
+    const subcommand = SUBCOMMANDS.includes(first) ? first : 'list';
+    const isJson = args.includes('--json');
+    const spinner = ora('Loading projects...').start();
+
+    try {
+      await database.initialize();
+
+      if (subcommand === 'list') {
+        const projects = await database.getProjectSummaries({ includeArchived: args.includes('--all') });
+        spinner.stop();
+
+        if (isJson) {
+          console.log(JSON.stringify(projects, null, 2));
+        } else {
+          this.outputList(projects);
+        }
+        await database.close();
+        return;
+      }
+
+      const project = await projectManager.find(ref);
+      if (!project) {
+        spinner.fail(ref === '.' ? 'This repository is not a tracked project yet' : `Project '${ref}' not found`);
+        process.exitCode = 1;
+        await database.close();
+        return;
+      }
+
+      switch (subcommand) {
+      case 'show': {
+        const summaries = await database.getProjectSummaries({ includeArchived: true });
+        const summary = summaries.find(s => s.id === project.id);
+        const contributors = await database.getProjectLeaderboard(project.id, 5);
+        spinner.stop();
+
+        if (isJson) {
+          console.log(JSON.stringify({ ...summary, topContributors: contributors }, null, 2));
+        } else if (summary) {
+          this.outputProject(summary, contributors);
+        }
+        break;
+      }
+      case 'rename': {
+        const renamed = await projectManager.rename(project, newName.trim());
+        spinner.stop();
+        this.outputChange(renamed, `Renamed ${chalk.gray(project.name)} to ${chalk.bold(renamed.name)}`, isJson);
+        break;
+      }
+      case 'archive':
+      case 'unarchive': {
+        const isArchived = subcommand === 'archive';
+        const updated = (await database.updateProject(project.id, { isArchived })) ?? project;
+        spinner.stop();
+        this.outputChange(updated, `${isArchived ? 'Archived' : 'Unarchived'} ${chalk.bold(updated.name)}`, isJson);
+        break;
+      }
+      }
+
+      await database.close();
+    } catch (error) {
+      spinner.fail('Failed to load projects');
+      console.error(error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+      await database.close();
+    }
+  }
+
+  private outputList(projects: ProjectSummary[]): void {
+    if (projects.length === 0) {
+      console.log(chalk.gray('No projects yet. Projects are added when you track activity in a git repository.'));
+      return;
+    }
+
+    console.log('\n' + chalk.cyan.bold('📁 Projects'));
+    console.log(chalk.gray('─'.repeat(60)));
+
+    for (const project of projects) {
+      const name = project.isArchived ? chalk.gray(`${project.name} (archived)`) : chalk.bold(project.name);
+      const language = project.primaryLanguage ? chalk.blue(project.primaryLanguage) : chalk.gray('unknown');
+      console.log(`  ${name} ${chalk.yellow(`${project.totalXp} XP`)} ${chalk.gray('·')} ${language}`);
+      console.log(chalk.gray(`    ${project.gitUrl ?? project.path} · ${project.activityCount} activities · last active ${this.formatDate(project.lastActivityAt)}`));
+    }
+    console.log();
+  }
+
+  private outputProject(project: ProjectSummary, contributors: LeaderboardEntry[]): void {
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.cyan.bold(`  📁 ${project.name}${project.isArchived ? ' (archived)' : ''}`));
+    console.log(chalk.cyan.bold('═'.repeat(60)));
+
+    console.log(`\n  ${chalk.magenta('Path:')} ${project.path}`);
+    if (project.gitUrl) {
+      console.log(`  ${chalk.magenta('Remote:')} ${project.gitUrl}`);
+    }
+    console.log(`  ${chalk.magenta('XP:')} ${project.totalXp} from ${project.activityCount} activities`);
+    console.log(`  ${chalk.magenta('Last active:')} ${this.formatDate(project.lastActivityAt)}`);
+
+    const languages = Object.entries(project.languages).sort(([, a], [, b]) => b - a);
+    if (languages.length > 0) {
+      const total = languages.reduce((sum, [, lines]) => sum + lines, 0);
+      console.log('\n' + chalk.yellow.bold('🗂️  Languages') + chalk.gray(' (lines changed)'));
+      console.log(chalk.gray('─'.repeat(40)));
+      for (const [language, lines] of languages.slice(0, 8)) {
+        const percentage = Math.round((lines / total) * 100);
+        console.log(`  ${language.padEnd(14)} ${this.drawBar(lines, total, 20)} ${percentage}% ${chalk.gray(`(${lines})`)}`);
+      }
+    }
+
+    if (contributors.length > 0) {
+      console.log('\n' + chalk.yellow.bold('🏆 Top Contributors'));
+      console.log(chalk.gray('─'.repeat(40)));
+      for (const entry of contributors) {
+        console.log(`  ${chalk.gray(`#${entry.rank}`)} ${entry.displayName || entry.username} ${chalk.yellow(`${entry.totalXp} XP`)}`);
+      }
+    }
+
+    console.log(chalk.cyan.bold('═'.repeat(60)) + '\n');
+  }
+
+  private outputChange(project: Project, message: string, isJson: boolean): void {
+    if (isJson) {
+      console.log(JSON.stringify(project, null, 2));
+    } else {
+      console.log(chalk.green(`✅ ${message}`));
+    }
+  }
+
+  private formatDate(timestamp?: string): string {
+    return timestamp ? new Date(timestamp).toLocaleDateString() : 'never';
+  }
+
+  private drawBar(value: number, max: number, width: number): string {
+    const filled = Math.round(width * value / max);
+    return chalk.green('█'.repeat(filled)) + chalk.gray('░'.repeat(width - filled));
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    const [subcommand, ref, name] = args.filter(arg => !arg.startsWith('--'));
+    if (!subcommand || subcommand === 'list') return true;
+
+    if (!SUBCOMMANDS.includes(subcommand)) {
+      console.error(`Unknown subcommand: ${subcommand}`);
+      return false;
+    }
+
+    if (!ref) {
+      console.error(`Please specify a project, e.g. devxp projects ${subcommand} .`);
+      return false;
+    }
+
+    if (subcommand === 'rename' && !name?.trim()) {
+      console.error('Please specify the new name, e.g. devxp projects rename . my-project');
+      return false;
+    }
+
+    return true;
+  }
+}
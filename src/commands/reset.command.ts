@@ -2,8 +2,10 @@
  * Reset command - Reset progress with confirmation
  */
 import type { Command } from '../types/command.js';
-import { database } from '../modules/database.js';
+import { database, User } from '../modules/database.js';
 import { achievementManager } from '../modules/achievements.js';
+import { streakManager } from '../modules/streaks.js';
+import { backupManager } from '../modules/backups.js';
 import chalk from 'chalk';
 import ora from 'ora';
 import * as readline from 'readline';
@@ -33,6 +35,11 @@ Options:
     const resetStreak = args.includes('--streak');
     const resetAll = args.includes('--all') || (!resetAchievements && !resetXP && !resetStreak);
     const createBackup = args.includes('--backup');
+    const scope = resetAll ? ['all'] : [
+      ...(resetAchievements ? ['achievements'] : []),
+      ...(resetXP ? ['xp'] : []),
+      ...(resetStreak ? ['streak'] : [])
+    ];
 
     // Show warning
     console.log(chalk.red.bold('\n⚠️  WARNING: Reset Progress\n'));
@@ -65,11 +72,13 @@ Options:
     await database.initialize();
 
     // Create backup if requested
+    let backupPath: string | undefined;
     if (createBackup) {
       const backupSpinner = ora('Creating backup...').start();
       try {
-        const backupPath = await database.backup();
-        backupSpinner.succeed(`Backup created: ${backupPath}`);
+        const { backup } = await backupManager.create('pre-reset');
+        backupPath = backup.path;
+        backupSpinner.succeed(`Backup created: ${backup.path}`);
       } catch (error) {
         backupSpinner.fail('Failed to create backup');
         console.error(error);
@@ -92,13 +101,15 @@ Options:
         return;
       }
 
+      await achievementManager.loadForUser(user.id);
+
       if (resetAll) {
+        // Reset achievements
+        await achievementManager.resetAllAchievements();
+
         // Delete all user data
         await database.deleteUser(user.id);
         
-        // Reset achievements
-        achievementManager.resetAllAchievements();
-        
         // Recreate user with default values
         await database.createUser({
           username: user.username,
@@ -117,7 +128,7 @@ Options:
         const updates: any = {};
         
         if (resetAchievements) {
-          achievementManager.resetAllAchievements();
+          await achievementManager.resetAllAchievements();
           console.log(chalk.green('  ✓ Achievements reset'));
         }
         
@@ -128,6 +139,7 @@ Options:
         }
         
         if (resetStreak) {
+          await streakManager.reset(user.id);
           updates.streak = 0;
           updates.longestStreak = 0;
           console.log(chalk.green('  ✓ Streaks reset'));
@@ -140,6 +152,17 @@ Options:
         resetSpinner.succeed('Selected progress reset');
       }
 
+      const resetUser = await database.getUserByUsername(username);
+      await database.getAuditLog().record({
+        action: 'progress.reset',
+        entityType: 'user',
+        entityId: user.id,
+        userId: resetUser?.id ?? user.id,
+        oldValues: this.getProgress(user),
+        ...(resetUser ? { newValues: this.getProgress(resetUser) } : {}),
+        metadata: { scope, ...(backupPath ? { backup: backupPath } : {}) }
+      });
+
       // Show summary
       console.log('\n' + chalk.cyan.bold('═'.repeat(50)));
       console.log(chalk.cyan.bold('  Reset Complete'));
@@ -151,14 +174,11 @@ Options:
         console.log(`  ${chalk.green('XP:')} 0`);
         console.log(`  ${chalk.magenta('Streak:')} 0 days`);
         console.log(`  ${chalk.blue('Achievements:')} 0 unlocked`);
-      } else {
-        const updatedUser = await database.getUserByUsername(username);
-        if (updatedUser) {
-          console.log('\n' + chalk.gray('Current status:'));
-          console.log(`  ${chalk.yellow('Level:')} ${updatedUser.level}`);
-          console.log(`  ${chalk.green('XP:')} ${updatedUser.totalXp}`);
-          console.log(`  ${chalk.magenta('Streak:')} ${updatedUser.streak} days`);
-        }
+      } else if (resetUser) {
+        console.log('\n' + chalk.gray('Current status:'));
+        console.log(`  ${chalk.yellow('Level:')} ${resetUser.level}`);
+        console.log(`  ${chalk.green('XP:')} ${resetUser.totalXp}`);
+        console.log(`  ${chalk.magenta('Streak:')} ${resetUser.streak} days`);
       }
       
       console.log('\n' + chalk.gray('Start earning XP again with your next activity!'));
@@ -168,10 +188,29 @@ Options:
     } catch (error) {
       resetSpinner.fail('Failed to reset progress');
       console.error(error);
+
+      // Best effort, the database may be what failed
+      await database.getAuditLog().record({
+        action: 'progress.reset',
+        entityType: 'user',
+        status: 'failure',
+        errorMessage: error instanceof Error ? error.message : String(error),
+        metadata: { scope }
+      }).catch(() => undefined);
       await database.close();
     }
   }
 
+  // What a reset changes, for the audit log
+  private getProgress(user: User): Record<string, number> {
+    return {
+      totalXp: user.totalXp,
+      level: user.level,
+      streak: user.streak,
+      longestStreak: user.longestStreak
+    };
+  }
+
   private async getConfirmation(): Promise<boolean> {
     const rl = readline.createInterface({
       input: process.stdin,
@@ -0,0 +1,203 @@
+/**
+ * Sessions command - List recent coding sessions with their timelines
+ */
+import type { Command } from '../types/command';
+import { database, Activity } from '../modules/database';
+import { sessionManager, Session, SessionTimelineSlot } from '../modules/sessions';
+import { activityTracker } from '../modules/tracker';
+import { defaultConfigManager } from '../modules/config';
+import { getZonedDate, resolveTimeZone } from '../utils/time';
+import chalk from 'chalk';
+import ora from 'ora';
+
+const SUBCOMMANDS = ['list', 'show'];
+const TIMELINE_SLOTS = 40;
+const BLOCKS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+export class SessionsCommand implements Command {
+  readonly name = 'sessions';
+  readonly description = 'List recent coding sessions';
+  readonly help = `
+Usage: devxp sessions [list|show] [options]
+
+A session starts with the first activity you track and ends once you have
+been idle for longer than sessions.idleTimeout (30 minutes by default).
+Once a session has ended, its length counts towards the Quick Session and
+Marathon Coder achievements.
+
+Subcommands:
+  list               Show recent sessions with a timeline of each (default)
+  show <number>      Show every activity in a session (1 is the latest)
+
+Options:
+  --limit <n>        Number of sessions to list (default: 10)
+  --json             Output in JSON format
+
+Examples:
+  devxp sessions
+  devxp sessions show 1
+  devxp config set sessions.idleTimeout 45
+`;
+  readonly aliases = ['session'];
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const subcommand = args[0] && SUBCOMMANDS.includes(args[0]) ? args[0] : 'list';
+    const ref = args[1] ?? '';
+    const isJson = args.includes('--json');
+    const limitIndex = args.indexOf('--limit');
+    const limit = limitIndex !== -1 ? parseInt(args[limitIndex + 1] ?? '', 10) : 10;
+    const spinner = ora('Loading sessions...').start();
+
+    try {
+      await database.initialize();
+      const user = await activityTracker.resolveUser();
+
+      if (subcommand === 'show') {
+        const session = await this.findSession(user.id, ref);
+        if (!session) {
+          spinner.fail(`No session matches '${ref}'`);
+          process.exitCode = 1;
+          await database.close();
+          return;
+        }
+
+        const activities = await sessionManager.getActivities(session.id);
+        spinner.stop();
+
+        if (isJson) {
+          console.log(JSON.stringify({ ...session, activities }, null, 2));
+        } else {
+          this.outputSession(session, activities);
+        }
+      } else {
+        const sessions = await sessionManager.getRecentSessions(user.id, limit);
+        const timelines = new Map<string, SessionTimelineSlot[]>();
+        for (const session of sessions) {
+          const activities = await sessionManager.getActivities(session.id);
+          timelines.set(session.id, sessionManager.buildTimeline(session, activities, TIMELINE_SLOTS));
+        }
+        spinner.stop();
+
+        if (isJson) {
+          console.log(JSON.stringify(sessions.map(session => ({ ...session, timeline: timelines.get(session.id) })), null, 2));
+        } else {
+          this.outputList(sessions, timelines);
+        }
+      }
+
+      await database.close();
+    } catch (error) {
+      spinner.fail('Failed to load sessions');
+      console.error(error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+      await database.close();
+    }
+  }
+
+  // Match by list number or id prefix
+  private async findSession(userId: string, ref: string): Promise<Session | null> {
+    if (/^\d+$/.test(ref)) {
+      const sessions = await sessionManager.getRecentSessions(userId, parseInt(ref, 10));
+      return sessions[parseInt(ref, 10) - 1] ?? null;
+    }
+
+    const recent = await sessionManager.getRecentSessions(userId, 100);
+    return recent.find(session => session.id.startsWith(ref)) ?? (await sessionManager.getSession(ref));
+  }
+
+  private outputList(sessions: Session[], timelines: Map<string, SessionTimelineSlot[]>): void {
+    if (sessions.length === 0) {
+      console.log(chalk.gray('No sessions yet. A session starts with the first activity you track.'));
+      return;
+    }
+
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.cyan.bold('  ⏱️  Recent Sessions'));
+    console.log(chalk.cyan.bold('═'.repeat(60)));
+
+    sessions.forEach((session, index) => {
+      const status = session.isActive ? chalk.green(' ● active') : '';
+      console.log(`\n  ${chalk.gray(`${index + 1}.`)} ${chalk.bold(this.formatRange(session))}${status}`);
+      console.log(`     ${this.formatDuration(session.duration)} · ${session.activityCount} activities · ${chalk.yellow(`+${session.totalXp} XP`)}`);
+
+      const timeline = timelines.get(session.id) ?? [];
+      if (session.duration >= 60 && timeline.length > 0) {
+        console.log(`     ${this.drawTimeline(timeline)}`);
+      }
+    });
+
+    console.log('\n' + chalk.gray(`Sessions end after ${sessionManager.getIdleTimeout()} idle minutes (devxp sessions show <number> for details)`));
+    console.log(chalk.cyan.bold('═'.repeat(60)) + '\n');
+  }
+
+  private outputSession(session: Session, activities: Activity[]): void {
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.cyan.bold(`  ⏱️  Session ${this.formatRange(session)}${session.isActive ? ' (active)' : ''}`));
+    console.log(chalk.cyan.bold('═'.repeat(60)));
+
+    console.log(`\n  ${chalk.magenta('Duration:')} ${this.formatDuration(session.duration)}`);
+    console.log(`  ${chalk.magenta('Activities:')} ${session.activityCount}`);
+    console.log(`  ${chalk.magenta('XP:')} ${chalk.yellow(`+${session.totalXp}`)}`);
+
+    console.log('\n' + chalk.yellow.bold('📋 Timeline'));
+    console.log(chalk.gray('─'.repeat(40)));
+    for (const activity of activities) {
+      console.log(`  ${chalk.gray(this.formatTime(activity.timestamp))}  ${activity.description} ${chalk.green(`+${activity.xpEarned} XP`)}`);
+    }
+
+    console.log(chalk.cyan.bold('═'.repeat(60)) + '\n');
+  }
+
+  private drawTimeline(timeline: SessionTimelineSlot[]): string {
+    const max = Math.max(...timeline.map(slot => slot.activityCount));
+    return timeline.map(slot => {
+      if (slot.activityCount === 0) return chalk.gray('·');
+      const level = Math.ceil((slot.activityCount / max) * BLOCKS.length) - 1;
+      return chalk.green(BLOCKS[Math.max(level, 0)]);
+    }).join('');
+  }
+
+  private formatRange(session: Session): string {
+    const start = getZonedDate(new Date(session.startTime), this.getTimeZone());
+    const date = `${start.year}-${String(start.month).padStart(2, '0')}-${String(start.day).padStart(2, '0')}`;
+    return `${date} ${this.formatTime(session.startTime)}–${this.formatTime(session.endTime)}`;
+  }
+
+  private formatTime(timestamp: string): string {
+    const { hour, minute } = getZonedDate(new Date(timestamp), this.getTimeZone());
+    return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+  }
+
+  private formatDuration(seconds: number): string {
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+
+  private getTimeZone(): string {
+    return resolveTimeZone(defaultConfigManager.getConfig().timezone);
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    if (args[0] && !args[0].startsWith('--') && !SUBCOMMANDS.includes(args[0])) {
+      console.error(`Unknown subcommand: ${args[0]}`);
+      return false;
+    }
+
+    if (args[0] === 'show' && (!args[1] || args[1].startsWith('--'))) {
+      console.error('Please specify the session to show, e.g. devxp sessions show 1');
+      return false;
+    }
+
+    const limitIndex = args.indexOf('--limit');
+    if (limitIndex !== -1) {
+      const limit = parseInt(args[limitIndex + 1] ?? '', 10);
+      if (isNaN(limit) || limit < 1) {
+        console.error('--limit must be a positive number');
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
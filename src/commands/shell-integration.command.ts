@@ -0,0 +1,161 @@
+/**
+ * Shell integration command - Install the zsh, bash or fish command tracking
+ */
+import type { Command } from '../types/command';
+import { detectShell, SHELL_TYPES, shellIntegration, ShellType } from '../modules/shell-integration';
+import chalk from 'chalk';
+import ora from 'ora';
+
+const SUBCOMMANDS = ['status', 'install', 'uninstall', 'script'];
+
+export class ShellIntegrationCommand implements Command {
+  readonly name = 'shell-integration';
+  readonly description = 'Track productive commands run in zsh, bash or fish';
+  readonly help = `
+Usage: devxp shell-integration [subcommand] [options]
+
+Record productive commands (git, npm, cargo, make, ...) run in your shell,
+with their exit code and duration. The integration is a script generated in
+~/.config/devxp that your shell's startup file sources.
+
+Subcommands:
+  status             Show whether the integration is installed (default)
+  install            Generate the script and source it on startup
+  uninstall          Remove the script and the line sourcing it
+  script             Print the integration script
+
+Options:
+  --shell <shell>    zsh, bash or fish (default: your login shell)
+  --no-rc            Only generate the script, leave the startup file alone
+  --json             Output status in JSON format
+
+Startup files are ~/.zshrc, ~/.bashrc and ~/.config/fish/config.fish. In
+the shell, devxp-toggle pauses tracking and devxp-privacy on stops it until
+you turn privacy mode off.
+`;
+  readonly aliases = ['shell'];
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const subcommand = args[0] && SUBCOMMANDS.includes(args[0]) ? args[0] : 'status';
+    const shell = this.getShell(args);
+
+    if (!shell) {
+      console.error(chalk.red('Could not detect your shell, please pass --shell zsh, bash or fish'));
+      process.exitCode = 1;
+      return;
+    }
+
+    switch (subcommand) {
+    case 'install':
+      await this.install(shell, !args.includes('--no-rc'));
+      break;
+    case 'uninstall':
+      await this.uninstall(shell);
+      break;
+    case 'script':
+      process.stdout.write(shellIntegration.generateScript(shell));
+      break;
+    default:
+      await this.status(shell, args.includes('--json'));
+    }
+  }
+
+  private async install(shell: ShellType, editRcFile: boolean): Promise<void> {
+    const spinner = ora(`Installing ${shell} integration...`).start();
+    const rcFile = shellIntegration.getRcFile(shell);
+
+    try {
+      // Regenerate even when installed, so the script picks up updates
+      await shellIntegration.initialize(shell);
+
+      if (!editRcFile) {
+        spinner.succeed(`Created ${shellIntegration.getIntegrationFile(shell)}`);
+        console.log(chalk.cyan(`Add this line to ${rcFile} to enable it:`));
+        console.log(`  source "${shellIntegration.getIntegrationFile(shell)}"`);
+        return;
+      }
+
+      const added = await shellIntegration.addToRcFile(shell);
+      spinner.succeed(added ? `Shell integration added to ${rcFile}` : `Shell integration updated, ${rcFile} already sources it`);
+
+      if (!(await shellIntegration.test(shell))) {
+        console.log(chalk.yellow(`Could not load the integration in ${shell} (this is normal if ${shell} is not installed here)`));
+      }
+
+      console.log(chalk.cyan(`\nRestart your shell or run: source ${rcFile}`));
+      console.log(chalk.gray('\nAvailable commands in your shell:'));
+      console.log(chalk.gray('  devxp-toggle     Enable/disable tracking'));
+      console.log(chalk.gray('  devxp-privacy    Toggle privacy mode'));
+      console.log(chalk.gray('  devxp-status     View your level and progress'));
+      console.log(chalk.gray('  devxp-stats      View your stats'));
+      console.log(chalk.gray('  devxp-daemon     Check whether the DevXP daemon is running'));
+    } catch (error) {
+      spinner.fail('Failed to install shell integration');
+      console.error(error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    }
+  }
+
+  private async uninstall(shell: ShellType): Promise<void> {
+    const spinner = ora(`Removing ${shell} integration...`).start();
+
+    try {
+      const removed = await shellIntegration.uninstall(shell);
+      spinner.succeed(removed
+        ? `Shell integration removed from ${shellIntegration.getRcFile(shell)}, restart your shell to finish`
+        : 'Shell integration removed');
+    } catch (error) {
+      spinner.fail('Failed to uninstall shell integration');
+      console.error(error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    }
+  }
+
+  private async status(shell: ShellType, isJson: boolean): Promise<void> {
+    const installed = await shellIntegration.isInstalled(shell);
+    const config = shellIntegration.getConfig();
+
+    if (isJson) {
+      console.log(JSON.stringify({
+        shell,
+        installed,
+        script: shellIntegration.getIntegrationFile(shell),
+        rcFile: shellIntegration.getRcFile(shell),
+        productiveCommands: config.productiveCommands,
+        ignoredCommands: config.ignoredCommands
+      }, null, 2));
+      return;
+    }
+
+    if (installed) {
+      console.log(chalk.green(`✅ ${shell} integration is installed`));
+      console.log(`  ${chalk.gray('Script:')}   ${shellIntegration.getIntegrationFile(shell)}`);
+      console.log(`  ${chalk.gray('Sourced:')}  ${shellIntegration.getRcFile(shell)}`);
+    } else {
+      console.log(chalk.gray(`${shell} integration is not installed`));
+      console.log(chalk.gray(`Set it up with devxp shell-integration install --shell ${shell}`));
+    }
+
+    console.log(chalk.gray(`\n${config.productiveCommands.length} productive commands are tracked, ${config.ignoredCommands.length} are ignored`));
+  }
+
+  private getShell(args: ReadonlyArray<string>): ShellType | undefined {
+    const index = args.indexOf('--shell');
+    return index !== -1 ? args[index + 1] as ShellType : detectShell();
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    if (args[0] && !args[0].startsWith('--') && !SUBCOMMANDS.includes(args[0])) {
+      console.error(`Unknown subcommand: ${args[0]}`);
+      return false;
+    }
+
+    const index = args.indexOf('--shell');
+    if (index !== -1 && !SHELL_TYPES.includes(args[index + 1] as ShellType)) {
+      console.error(`--shell must be one of: ${SHELL_TYPES.join(', ')}`);
+      return false;
+    }
+
+    return true;
+  }
+}
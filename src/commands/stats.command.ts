@@ -2,10 +2,30 @@
  * Stats command - Display detailed statistics and charts
  */
 import type { Command } from '../types/command';
-import { database } from '../modules/database';
+import { database, Activity, Project, User } from '../modules/database';
+import { projectManager } from '../modules/projects';
+import { Heatmap, summaryBuilder, SummaryChange, SummaryComparison } from '../modules/summaries';
+import { defaultConfigManager } from '../modules/config';
+import { displayManager } from '../modules/display';
+import { ActivitySummary } from '../types/Activity';
+import { XPSummary } from '../types/XPEvent';
+import {
+  addDays,
+  CalendarPeriod,
+  DateRange,
+  fromDateKey,
+  getPeriodRange,
+  getPreviousRange,
+  resolveTimeZone,
+  toDateKey,
+  WeekStart
+} from '../utils/time';
 import chalk from 'chalk';
 import ora from 'ora';
 
+const CALENDAR_PERIODS: CalendarPeriod[] = ['day', 'week', 'month', 'year'];
+const HEATMAP_WEEKS = 52;
+
 export class StatsCommand implements Command {
   readonly name = 'stats';
   readonly description = 'Display detailed statistics and charts';
@@ -18,11 +38,20 @@ Display detailed statistics about your development activity:
 - XP progression over time
 - Productivity metrics
 
+Periods follow the calendar in your timezone, so "week" is this week from
+Monday (or Sunday, with the weekStart setting) and "month" starts on the 1st.
+
 Options:
   --user <username>    Show stats for specific user (default: current user)
   --period <period>    Time period: day, week, month, year, all (default: month)
-  --type <type>        Focus on specific activity type
+  --since <date>       Only count activity from this date (YYYY-MM-DD)
+  --until <date>       Only count activity up to and including this date
+  --compare            Compare with the previous period, e.g. this week vs last week
+  --type <type>        Only count one activity type
+  --project <name>     Only count activity in one project ('.' for the current repository)
   --chart              Show ASCII charts
+  --heatmap            Show a calendar heatmap of the XP earned each day in
+                       the last 52 weeks, up to today or --until
   --json               Output in JSON format
 `;
   readonly aliases = ['statistics', 'metrics'];
@@ -37,17 +66,24 @@ Options:
         ? args[userIndex + 1] 
         : await this.getCurrentUsername();
       
+      const since = this.getOption(args, '--since');
+      const until = this.getOption(args, '--until');
       const periodIndex = args.indexOf('--period');
-      const period = periodIndex !== -1 && args[periodIndex + 1] 
-        ? args[periodIndex + 1] 
-        : 'month';
+      const period = since || until
+        ? 'custom'
+        : (periodIndex !== -1 ? args[periodIndex + 1] : undefined) ?? 'month';
       
       const typeIndex = args.indexOf('--type');
       const activityType = typeIndex !== -1 && args[typeIndex + 1] 
         ? args[typeIndex + 1] 
         : null;
       
+      const projectIndex = args.indexOf('--project');
+      const projectRef = projectIndex !== -1 ? args[projectIndex + 1] : undefined;
+
       const showChart = args.includes('--chart');
+      const showHeatmap = args.includes('--heatmap');
+      const compare = args.includes('--compare');
       const isJson = args.includes('--json');
 
       // Initialize database
@@ -61,17 +97,79 @@ Options:
         return;
       }
 
+      const project = projectRef ? await projectManager.find(projectRef) : null;
+      if (projectRef && !project) {
+        spinner.fail(projectRef === '.' ? 'This repository is not a tracked project yet' : `Project '${projectRef}' not found`);
+        process.exitCode = 1;
+        await database.close();
+        return;
+      }
+
+      const config = defaultConfigManager.getConfig();
+      const timeZone = resolveTimeZone(config.timezone);
+      const now = new Date();
+      const scope = {
+        ...(activityType ? { type: activityType } : {}),
+        ...(project ? { projectId: project.id } : {})
+      };
+
+      if (showHeatmap) {
+        const today = until ?? toDateKey(now, timeZone);
+        const heatmap = await summaryBuilder.getHeatmap(user.id, {
+          ...scope,
+          today,
+          weeks: HEATMAP_WEEKS,
+          timeZone,
+          weekStart: config.weekStart
+        });
+        spinner.stop();
+
+        if (isJson) {
+          this.outputJson({ ...heatmap, weekStart: config.weekStart, project });
+        } else {
+          this.outputHeatmap(user, heatmap, config.weekStart, project);
+        }
+        await database.close();
+        return;
+      }
+
+      const range = this.getRange(period, since, until, timeZone, now, config.weekStart);
+
       // Get statistics
-      const stats = await database.getUserStats(user.id);
-      const activities = await this.getActivitiesForPeriod(user.id, period);
-      const xpHistory = await database.getUserXpHistory(user.id, 100);
+      const stats = await database.getUserStats(user.id, { ...scope, ...this.toFilter(range) });
+      const current = await this.loadRange(user, range, scope, timeZone, now);
+      const projects = project ? [] : await this.getProjectBreakdown(user.id, current.activities);
+
+      let comparison: SummaryComparison | null = null;
+      let previousRange: DateRange | null = null;
+      if (compare) {
+        previousRange = getPreviousRange(range, timeZone, this.toCalendarPeriod(period), now, config.weekStart);
+        if (previousRange) {
+          const previous = await this.loadRange(user, previousRange, scope, timeZone, now);
+          comparison = summaryBuilder.compare(current.summaries, previous.summaries);
+        }
+      }
 
       spinner.stop();
 
       if (isJson) {
-        this.outputJson({ stats, activities, xpHistory, period });
+        this.outputJson({
+          period,
+          start: range.start?.toISOString() ?? null,
+          end: range.end?.toISOString() ?? null,
+          stats,
+          activitySummary: current.summaries.activities,
+          xpSummary: current.summaries.xp,
+          ...(compare ? { comparison, previousStart: previousRange?.start?.toISOString() ?? null } : {}),
+          activities: current.activities,
+          project,
+          projects
+        });
       } else {
-        this.outputDetailed(user, stats, activities, xpHistory, period, activityType, showChart);
+        this.outputDetailed(
+          user, stats, current.activities, current.summaries, this.formatRange(period, range, timeZone),
+          showChart, project, projects, comparison
+        );
       }
 
       await database.close();
@@ -82,59 +180,176 @@ Options:
     }
   }
 
-  private async getActivitiesForPeriod(userId: string, period: string): Promise<any[]> {
-    let limit = 100;
+  // Calendar period containing now, the --since/--until range, or all time
+  private getRange(
+    period: string,
+    since: string | undefined,
+    until: string | undefined,
+    timeZone: string,
+    now: Date,
+    weekStart: WeekStart
+  ): DateRange {
+    if (period === 'custom') {
+      return {
+        ...(since ? { start: fromDateKey(since, timeZone) } : {}),
+        ...(until ? { end: addDays(fromDateKey(until, timeZone), 1, timeZone) } : {})
+      };
+    }
+
+    const calendarPeriod = this.toCalendarPeriod(period);
+    return calendarPeriod ? getPeriodRange(calendarPeriod, now, timeZone, weekStart) : {};
+  }
+
+  private toCalendarPeriod(period: string): CalendarPeriod | undefined {
+    return CALENDAR_PERIODS.find(calendarPeriod => calendarPeriod === period);
+  }
+
+  private toFilter(range: DateRange): { since?: string; until?: string } {
+    return {
+      ...(range.start ? { since: range.start.toISOString() } : {}),
+      ...(range.end ? { until: range.end.toISOString() } : {})
+    };
+  }
+
+  // Activities, XP history and their summaries for one range
+  private async loadRange(
+    user: User,
+    range: DateRange,
+    scope: { type?: string; projectId?: string },
+    timeZone: string,
+    now: Date
+  ): Promise<{ activities: Activity[]; summaries: { activities: ActivitySummary; xp: XPSummary } }> {
+    const filter = { ...scope, ...this.toFilter(range) };
+    const activities = await database.getActivitiesInRange(user.id, filter);
+    const history = await database.getXpHistoryInRange(user.id, filter);
+
+    // Open-ended ranges run from the first activity until now
+    const first = activities[0]?.timestamp ?? history[0]?.timestamp;
+    const period = {
+      start: range.start ?? (first ? new Date(first) : now),
+      end: range.end ?? now
+    };
+
+    return {
+      activities,
+      summaries: {
+        activities: summaryBuilder.buildActivitySummary(activities, period),
+        xp: summaryBuilder.buildXPSummary(user, history, activities, period, timeZone)
+      }
+    };
+  }
+
+  // XP per project from the activities in the range
+  private async getProjectBreakdown(userId: string, activities: Activity[]): Promise<Array<{ name: string; primaryLanguage?: string; totalXp: number }>> {
+    const xpByProject = new Map<string, number>();
+    for (const activity of activities) {
+      if (activity.projectId) {
+        xpByProject.set(activity.projectId, (xpByProject.get(activity.projectId) ?? 0) + activity.xpEarned);
+      }
+    }
+    if (xpByProject.size === 0) return [];
+
+    const summaries = await database.getProjectSummaries({ userId, includeArchived: true });
+    return summaries
+      .filter(summary => xpByProject.has(summary.id))
+      .map(summary => ({
+        name: summary.name,
+        ...(summary.primaryLanguage ? { primaryLanguage: summary.primaryLanguage } : {}),
+        totalXp: xpByProject.get(summary.id) ?? 0
+      }));
+  }
+
+  private formatRange(period: string, range: DateRange, timeZone: string): string {
     switch (period) {
     case 'day':
-      limit = 50;
-      break;
+      return 'today';
     case 'week':
-      limit = 200;
-      break;
+      return 'this week';
     case 'month':
-      limit = 500;
-      break;
+      return 'this month';
     case 'year':
-      limit = 2000;
-      break;
+      return 'this year';
     case 'all':
-      limit = undefined;
-      break;
+      return 'all time';
+    default: {
+      // Custom ranges end at the start of the day after --until
+      const start = range.start ? toDateKey(range.start, timeZone) : 'the beginning';
+      const end = range.end ? toDateKey(new Date(range.end.getTime() - 1), timeZone) : 'now';
+      return `${start} to ${end}`;
+    }
+    }
+  }
+
+  private getOption(args: ReadonlyArray<string>, option: string): string | undefined {
+    const index = args.indexOf(option);
+    return index !== -1 ? args[index + 1] : undefined;
+  }
+
+  private outputHeatmap(
+    user: User,
+    heatmap: Heatmap,
+    weekStart: WeekStart,
+    project: Project | null
+  ): void {
+    const scope = project ? ` in ${project.name}` : '';
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.cyan.bold(`  Activity Heatmap - ${user.displayName}${scope} (${heatmap.start} to ${heatmap.end})`));
+    console.log(chalk.cyan.bold('═'.repeat(60)) + '\n');
+
+    console.log(displayManager.getTerminalChart().renderHeatmap(heatmap.days, { today: heatmap.end, weeks: HEATMAP_WEEKS, weekStart }));
+
+    const [bestDate, bestXp] = Object.entries(heatmap.days).sort(([, a], [, b]) => b - a)[0] ?? [];
+    console.log(`\n  ${chalk.green(`${heatmap.totalXp} XP`)} on ${heatmap.activeDays} active day${heatmap.activeDays === 1 ? '' : 's'}`);
+    if (bestDate) {
+      console.log(`  ${chalk.magenta('Best day:')} ${bestDate} (${bestXp} XP)`);
     }
-    return database.getUserActivities(userId, limit);
+    console.log();
   }
 
   private outputDetailed(
     user: any,
     stats: any,
-    activities: any[],
-    xpHistory: any[],
-    period: string,
-    activityType: string | null,
-    showChart: boolean
+    activities: Activity[],
+    summaries: { activities: ActivitySummary; xp: XPSummary },
+    periodLabel: string,
+    showChart: boolean,
+    project: Project | null,
+    projects: Array<{ name: string; primaryLanguage?: string; totalXp: number }>,
+    comparison: SummaryComparison | null
   ): void {
     // Header
+    const scope = project ? ` in ${project.name}` : '';
     console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
-    console.log(chalk.cyan.bold(`  Statistics - ${user.displayName} (${period})`));
+    console.log(chalk.cyan.bold(`  Statistics - ${user.displayName}${scope} (${periodLabel})`));
     console.log(chalk.cyan.bold('═'.repeat(60)));
 
     // Overview
     console.log('\n' + chalk.yellow.bold('📊 Overview'));
     console.log(chalk.gray('─'.repeat(40)));
     console.log(`  ${chalk.yellow('Total Activities:')} ${stats.totalActivities}`);
+    console.log(`  ${chalk.green('XP Earned:')} ${summaries.xp.totalXP}${summaries.xp.levelUps > 0 ? chalk.gray(` (${summaries.xp.levelUps} level-ups)`) : ''}`);
     console.log(`  ${chalk.green('Total Achievements:')} ${stats.totalAchievements}`);
     console.log(`  ${chalk.blue('Average XP/Day:')} ${stats.averageXpPerDay}`);
     console.log(`  ${chalk.magenta('Most Productive Day:')} ${stats.mostProductiveDay}`);
     console.log(`  ${chalk.cyan('Favorite Activity:')} ${stats.favoriteActivityType}`);
 
+    // Period comparison
+    if (comparison) {
+      console.log('\n' + chalk.yellow.bold('📅 Compared with the Previous Period'));
+      console.log(chalk.gray('─'.repeat(40)));
+      console.log(`  ${'Activities'.padEnd(20)} ${this.formatChange(comparison.activities)}`);
+      console.log(`  ${'XP'.padEnd(20)} ${this.formatChange(comparison.xp)}`);
+      console.log(`  ${'Average XP'.padEnd(20)} ${this.formatChange(comparison.averageXP)}`);
+      console.log(`  ${'Active Days'.padEnd(20)} ${this.formatChange(comparison.activeDays)}`);
+    }
+
     // Activity breakdown
     if (Object.keys(stats.xpByActivityType).length > 0) {
       console.log('\n' + chalk.green.bold('🎯 XP by Activity Type'));
       console.log(chalk.gray('─'.repeat(40)));
       
-      const sortedTypes = Object.entries(stats.xpByActivityType)
-        .sort(([, a], [, b]) => b - a)
-        .filter(([type]) => !activityType || type === activityType);
+      const sortedTypes = Object.entries(stats.xpByActivityType as Record<string, number>)
+        .sort(([, a], [, b]) => b - a);
       
       const maxXp = Math.max(...Object.values(stats.xpByActivityType));
       
@@ -145,6 +360,19 @@ Options:
       }
     }
 
+    // Project breakdown
+    if (projects.length > 0) {
+      console.log('\n' + chalk.green.bold('📁 XP by Project'));
+      console.log(chalk.gray('─'.repeat(40)));
+
+      const maxProjectXp = Math.max(...projects.map(summary => summary.totalXp), 1);
+      for (const summary of [...projects].sort((a, b) => b.totalXp - a.totalXp)) {
+        const bar = this.drawBar(summary.totalXp, maxProjectXp, 20);
+        const language = summary.primaryLanguage ? chalk.gray(` ${summary.primaryLanguage}`) : '';
+        console.log(`  ${summary.name.padEnd(20)} ${bar} ${chalk.green(`${summary.totalXp} XP`)}${language}`);
+      }
+    }
+
     // Time-based analysis
     if (activities.length > 0) {
       console.log('\n' + chalk.blue.bold('⏰ Activity Timeline'));
@@ -184,35 +412,23 @@ Options:
       }
     }
 
-    // XP progression chart
-    if (showChart && xpHistory.length > 0) {
+    // XP progression chart, the last 7 days with XP in the period
+    const sortedDays = summaries.xp.dailyBreakdown.slice(-7);
+    if (showChart && sortedDays.length > 0) {
       console.log('\n' + chalk.magenta.bold('📈 XP Progression'));
       console.log(chalk.gray('─'.repeat(40)));
-      
-      // Group by day and show last 7 days
-      const dailyXp = new Map<string, number>();
-      for (const entry of xpHistory) {
-        const date = new Date(entry.timestamp).toLocaleDateString();
-        dailyXp.set(date, (dailyXp.get(date) || 0) + entry.xpChange);
-      }
-      
-      const sortedDays = Array.from(dailyXp.entries())
-        .sort((a, b) => new Date(a[0]).getTime() - new Date(b[0]).getTime())
-        .slice(-7);
-      
-      if (sortedDays.length > 0) {
-        const maxDailyXp = Math.max(...sortedDays.map(([, xp]) => xp));
-        
-        for (const [date, xp] of sortedDays) {
-          const bar = this.drawBar(xp, maxDailyXp, 30);
-          const shortDate = new Date(date).toLocaleDateString('en', { month: 'short', day: 'numeric' });
-          console.log(`  ${shortDate.padEnd(8)} ${bar} ${chalk.green(`+${xp} XP`)}`);
-        }
+
+      const maxDailyXp = Math.max(...sortedDays.map(day => day.totalXP), 1);
+      const timeZone = resolveTimeZone(defaultConfigManager.getConfig().timezone);
+      for (const day of sortedDays) {
+        const bar = this.drawBar(Math.max(day.totalXP, 0), maxDailyXp, 30);
+        const shortDate = day.date.toLocaleDateString('en', { month: 'short', day: 'numeric', timeZone });
+        console.log(`  ${shortDate.padEnd(8)} ${bar} ${chalk.green(`+${day.totalXP} XP`)}`);
       }
     }
 
     // Recent milestones
-    const milestones = this.calculateMilestones(user, activities, xpHistory);
+    const milestones = this.calculateMilestones(user, activities);
     if (milestones.length > 0) {
       console.log('\n' + chalk.purple.bold('🏆 Recent Milestones'));
       console.log(chalk.gray('─'.repeat(40)));
@@ -234,7 +450,15 @@ Options:
     return chalk.green('█'.repeat(filled)) + chalk.gray('░'.repeat(empty));
   }
 
-  private calculateMilestones(user: any, activities: any[], _xpHistory: any[]): string[] {
+  private formatChange(change: SummaryChange): string {
+    const percent = change.percent !== null ? ` (${change.percent > 0 ? '+' : ''}${change.percent}%)` : '';
+    const text = `${change.current} vs ${change.previous}`;
+    if (change.change > 0) return `${text} ${chalk.green(`▲ ${change.change}${percent}`)}`;
+    if (change.change < 0) return `${text} ${chalk.red(`▼ ${-change.change}${percent}`)}`;
+    return `${text} ${chalk.gray('–')}`;
+  }
+
+  private calculateMilestones(user: any, activities: Activity[]): string[] {
     const milestones: string[] = [];
     
     // Check for level milestones
@@ -291,6 +515,41 @@ Options:
         return false;
       }
     }
+
+    const projectIndex = args.indexOf('--project');
+    if (projectIndex !== -1 && !args[projectIndex + 1]) {
+      console.error('Please specify a project name, or . for the current repository');
+      return false;
+    }
+
+    const since = this.getOption(args, '--since');
+    const until = this.getOption(args, '--until');
+    for (const [option, value] of [['--since', since], ['--until', until]] as const) {
+      if (args.includes(option) && (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value)))) {
+        console.error(`${option} needs a date in YYYY-MM-DD format`);
+        return false;
+      }
+    }
+
+    if (periodIndex !== -1 && (since || until)) {
+      console.error('Use either --period or --since/--until, not both');
+      return false;
+    }
+
+    if (since && until && since > until) {
+      console.error('--since must not be after --until');
+      return false;
+    }
+
+    if (args.includes('--heatmap') && (periodIndex !== -1 || since || args.includes('--compare'))) {
+      console.error('--heatmap always covers the last 52 weeks; use --until to end it on another day');
+      return false;
+    }
+
+    if (args.includes('--compare') && periodIndex !== -1 && args[periodIndex + 1] === 'all') {
+      console.error('--compare needs a period with a start, not all');
+      return false;
+    }
     return true;
   }
 }
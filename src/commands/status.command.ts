@@ -5,6 +5,13 @@ import type { Command } from '../types/command';
 import { database } from '../modules/database';
 import { xpSystem } from '../modules/xp-system';
 import { achievementManager } from '../modules/achievements';
+import { challengeManager } from '../modules/challenges';
+import { xpDecay } from '../modules/decay';
+import { streakManager } from '../modules/streaks';
+import { summaryBuilder } from '../modules/summaries';
+import { defaultConfigManager } from '../modules/config';
+import { displayManager } from '../modules/display';
+import { resolveTimeZone, toDateKey } from '../utils/time';
 import chalk from 'chalk';
 import ora from 'ora';
 
@@ -17,6 +24,7 @@ Usage: devxp status [options]
 Display your current development status including:
 - Current level and XP progress
 - Active streak
+- A heatmap of the XP earned each day in the last year
 - Recent activities
 - Next achievements to unlock
 
@@ -51,6 +59,8 @@ Options:
         return;
       }
 
+      await achievementManager.loadForUser(user.id);
+
       spinner.stop();
 
       if (isJson) {
@@ -65,6 +75,7 @@ Options:
     } catch (error) {
       spinner.fail('Failed to load status');
       console.error(error);
+      process.exitCode = 1;
       await database.close();
     }
   }
@@ -76,7 +87,8 @@ Options:
     console.log(chalk.cyan.bold(`${user.displayName} (${user.username})`));
     console.log(`${chalk.yellow('Level:')} ${user.level} - ${levelTitle}`);
     console.log(`${chalk.green('XP:')} ${user.totalXp} (${levelProgress.toFixed(1)}% to next level)`);
-    console.log(`${chalk.magenta('Streak:')} ${user.streak} days`);
+    const streak = await streakManager.getStatus(user.id);
+    console.log(`${chalk.magenta('Streak:')} ${streak.currentStreak} days${streak.atRisk ? chalk.red(' (at risk)') : ''}`);
   }
 
   private async outputDetailed(user: any): Promise<void> {
@@ -100,10 +112,48 @@ Options:
     // Streak
     console.log('\n' + chalk.magenta.bold('🔥 Streak'));
     console.log(chalk.gray('─'.repeat(40)));
-    console.log(`  ${chalk.magenta('Current:')} ${user.streak} days`);
-    console.log(`  ${chalk.magenta('Longest:')} ${user.longestStreak} days`);
+    const streak = await streakManager.getStatus(user.id);
+    console.log(`  ${chalk.magenta('Current:')} ${streak.currentStreak} days${streak.atRisk ? chalk.red(' (at risk, be active today)') : ''}`);
+    console.log(`  ${chalk.magenta('Longest:')} ${streak.longestStreak} days`);
+    console.log(`  ${chalk.blue('Freeze tokens:')} ${streak.freezeTokens}`);
     console.log(`  ${chalk.gray('Last active:')} ${new Date(user.lastActiveDate).toLocaleDateString()}`);
 
+    // Activity heatmap
+    const config = defaultConfigManager.getConfig();
+    const timeZone = resolveTimeZone(config.timezone);
+    const heatmap = await summaryBuilder.getHeatmap(user.id, {
+      today: toDateKey(new Date(), timeZone),
+      weeks: 52,
+      timeZone,
+      weekStart: config.weekStart
+    });
+    console.log('\n' + chalk.green.bold('📅 Activity'));
+    console.log(chalk.gray('─'.repeat(40)));
+    console.log(displayManager.getTerminalChart().renderHeatmap(heatmap.days, {
+      today: heatmap.end,
+      weekStart: config.weekStart
+    }));
+    console.log(`  ${chalk.gray(`${heatmap.totalXp} XP on ${heatmap.activeDays} active days in the last year`)}`);
+
+    // Pending XP decay
+    const decay = await xpDecay.getStatus(user);
+    if (decay.enabled && decay.nextDecayAt) {
+      console.log('\n' + chalk.red.bold('⏳ XP Decay'));
+      console.log(chalk.gray('─'.repeat(40)));
+      if (decay.nextDecayXp === 0) {
+        console.log(`  ${chalk.gray('At the decay floor of')} ${decay.floorXp} XP`);
+      } else if (decay.decayStartsAt && decay.decayStartsAt > new Date()) {
+        const days = Math.ceil((decay.nextDecayAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+        console.log(`  ${chalk.gray('Starts in:')} ${days} day${days === 1 ? '' : 's'} without activity`);
+      } else {
+        console.log(`  ${chalk.red('Inactive:')} ${decay.daysInactive} days`);
+      }
+      if (decay.nextDecayXp > 0) {
+        console.log(`  ${chalk.red('Next decay:')} -${decay.nextDecayXp} XP on ${decay.nextDecayAt.toLocaleString()}`);
+        console.log(`  ${chalk.gray('Floor:')} ${decay.floorXp} XP`);
+      }
+    }
+
     // Recent activities
     const activities = await database.getUserActivities(user.id, 5);
     if (activities.length > 0) {
@@ -131,13 +181,13 @@ Options:
     }
 
     // Active challenges
-    const challenges = xpSystem.getActiveChallenges(user.id);
+    const challenges = await challengeManager.getCurrentChallenges(user.id);
     if (challenges.length > 0) {
       console.log('\n' + chalk.green.bold('⚡ Active Challenges'));
       console.log(chalk.gray('─'.repeat(40)));
       for (const challenge of challenges) {
         const progress = (challenge.currentProgress / challenge.requiredCount * 100).toFixed(0);
-        const emoji = challenge.isCompleted ? '✅' : '🎯';
+        const emoji = challenge.status === 'completed' ? '✅' : '🎯';
         console.log(`  ${emoji} ${challenge.name}`);
         console.log(`     ${chalk.gray(challenge.description)}`);
         console.log(`     Progress: ${challenge.currentProgress}/${challenge.requiredCount} (${progress}%)`);
@@ -152,7 +202,7 @@ Options:
     const activities = await database.getUserActivities(user.id, 10);
     const stats = await database.getUserStats(user.id);
     const achievements = achievementManager.getStatistics();
-    const challenges = xpSystem.getActiveChallenges(user.id);
+    const challenges = await challengeManager.getCurrentChallenges(user.id);
 
     const output = {
       user: {
@@ -172,7 +222,9 @@ Options:
       recentActivities: activities,
       stats,
       achievements,
-      activeChallenges: challenges
+      activeChallenges: challenges,
+      decay: await xpDecay.getStatus(user),
+      streak: await streakManager.getStatus(user.id)
     };
 
     console.log(JSON.stringify(output, null, 2));
@@ -0,0 +1,122 @@
+/**
+ * Streak command - Show the streak calendar and freeze tokens
+ */
+import type { Command } from '../types/command';
+import { database } from '../modules/database';
+import { streakManager, StreakStatus, StreakCalendarDay, StreakDayStatus } from '../modules/streaks';
+import { activityTracker } from '../modules/tracker';
+import { defaultConfigManager } from '../modules/config';
+import { getDateKeyWeekday } from '../utils/time';
+import chalk from 'chalk';
+import ora from 'ora';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_SYMBOLS: Record<StreakDayStatus, string> = {
+  active: chalk.green('■'),
+  frozen: chalk.blue('❄'),
+  missed: chalk.red('·'),
+  rest: chalk.gray('-'),
+  today: chalk.yellow('□'),
+  future: ' '
+};
+
+export class StreakCommand implements Command {
+  readonly name = 'streak';
+  readonly description = 'Show your streak calendar and freeze tokens';
+  readonly help = `
+Usage: devxp streak [options]
+
+Days are counted in your configured timezone. You earn a freeze token every
+few streak days (7 by default). When you miss a day, tokens are used
+automatically the next time you are active to keep the streak going. With
+streaks.includeWeekends set to false, missing a Saturday or Sunday doesn't
+break the streak.
+
+Options:
+  --weeks <n>        Number of weeks to show (default: 4)
+  --json             Output in JSON format
+`;
+  readonly aliases = ['streaks'];
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const isJson = args.includes('--json');
+    const weeksIndex = args.indexOf('--weeks');
+    const weeks = weeksIndex !== -1 ? parseInt(args[weeksIndex + 1] ?? '', 10) : 4;
+    const spinner = ora('Loading streak...').start();
+
+    try {
+      await database.initialize();
+      const user = await activityTracker.resolveUser();
+      const status = await streakManager.getStatus(user.id);
+      const calendar = await streakManager.getCalendar(user.id, weeks);
+      spinner.stop();
+
+      if (isJson) {
+        console.log(JSON.stringify({ ...status, calendar }, null, 2));
+      } else {
+        this.outputStreak(status, calendar);
+      }
+
+      await database.close();
+    } catch (error) {
+      spinner.fail('Failed to load streak');
+      console.error(error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+      await database.close();
+    }
+  }
+
+  private outputStreak(status: StreakStatus, calendar: StreakCalendarDay[]): void {
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.cyan.bold(`  🔥 ${status.currentStreak} Day Streak`));
+    console.log(chalk.cyan.bold('═'.repeat(60)));
+
+    console.log(`\n  ${chalk.magenta('Longest:')} ${status.longestStreak} days`);
+    console.log(`  ${chalk.magenta('Active days:')} ${status.totalActiveDays}`);
+    if (status.streakStartDate) {
+      console.log(`  ${chalk.magenta('Started:')} ${status.streakStartDate}`);
+    }
+
+    const nextToken = status.daysUntilNextToken === null
+      ? chalk.gray('(maximum)')
+      : chalk.gray(`(next in ${status.daysUntilNextToken} streak day${status.daysUntilNextToken === 1 ? '' : 's'})`);
+    console.log(`  ${chalk.blue('Freeze tokens:')} ${'❄ '.repeat(status.freezeTokens) || '0 '}${nextToken}`);
+
+    if (status.activeToday) {
+      console.log('\n  ' + chalk.green('✅ Active today'));
+    } else if (status.atRisk) {
+      console.log('\n  ' + chalk.red('⚠️  Be active today to keep your streak'));
+    } else if (status.missedDays > 0 && status.currentStreak > 0) {
+      console.log('\n  ' + chalk.blue(`❄️  ${status.missedDays} missed day${status.missedDays === 1 ? '' : 's'} will use freeze tokens`));
+    }
+
+    // Weeks start on the configured weekStart day
+    const weekdays = calendar.slice(0, 7).map(day => WEEKDAYS[getDateKeyWeekday(day.date)]!);
+    console.log('\n  ' + chalk.gray(' '.repeat(7) + weekdays.map(day => day.padEnd(4)).join('')));
+    for (let i = 0; i < calendar.length; i += 7) {
+      const week = calendar.slice(i, i + 7);
+      const label = week[0]?.date.slice(5) ?? '';
+      console.log(`  ${chalk.gray(label.padEnd(7))}${week.map(day => `${DAY_SYMBOLS[day.status]}   `).join('')}`);
+    }
+
+    const restLegend = defaultConfigManager.getConfig().streaks.includeWeekends ? '' : `  ${DAY_SYMBOLS.rest} rest day`;
+    console.log('\n  ' + chalk.gray(
+      `${DAY_SYMBOLS.active} active  ${DAY_SYMBOLS.frozen} frozen  ${DAY_SYMBOLS.missed} missed  ${DAY_SYMBOLS.today} today${restLegend}`
+    ));
+    console.log(chalk.cyan.bold('═'.repeat(60)) + '\n');
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    const weeksIndex = args.indexOf('--weeks');
+    if (weeksIndex !== -1) {
+      const weeks = parseInt(args[weeksIndex + 1] ?? '', 10);
+      if (isNaN(weeks) || weeks < 1 || weeks > 52) {
+        console.error('--weeks must be a number between 1 and 52');
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Team command - Create, join and manage teams
+ */
+import type { Command } from '../types/command';
+import { database, Team, TeamMember, TeamRole, TeamSummary, User } from '../modules/database';
+import { teamManager, TeamGoalProgress, TEAM_ROLES } from '../modules/teams';
+import { activityTracker } from '../modules/tracker';
+import chalk from 'chalk';
+import ora from 'ora';
+
+const SUBCOMMANDS = ['list', 'show', 'create', 'join', 'leave', 'switch', 'role', 'remove'];
+const ROLE_LABELS: Record<TeamRole, string> = { owner: 'the owner', admin: 'an admin', member: 'a member' };
+
+export class TeamCommand implements Command {
+  readonly name = 'team';
+  readonly description = 'Create, join and manage teams';
+  readonly help = `
+Usage: devxp team [subcommand] [options]
+
+Teams share a leaderboard, and once enough members reach the daily XP goal
+everyone on the team earns bonus XP for the rest of the day
+(teams.goalMembers and teams.bonusMultiplier).
+
+Subcommands:
+  list                     List your teams (default)
+  show [team]              Show members, XP and today's goal progress
+  create <name>            Create a team and become its owner
+  join <team>              Join a team
+  leave [team]             Leave a team
+  switch <team>            Make a team your current team
+  role <user> <role>       Set a member's role: owner, admin or member
+  remove <user>            Remove a member from the team
+
+Options:
+  --description <text>     Description for a new team
+  --team <name>            Team for role and remove (default: current team)
+  --all                    List every team, not only yours
+  --json                   Output in JSON format
+
+Examples:
+  devxp team create platform --description "Platform squad"
+  devxp team join platform
+  devxp team role alice admin
+  devxp leaderboard --team platform
+`;
+  readonly aliases = ['teams'];
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const subcommand = args[0] && SUBCOMMANDS.includes(args[0]) ? args[0] : 'list';
+    const ref = args[1] && !args[1].startsWith('--') ? args[1] : undefined;
+    const isJson = args.includes('--json');
+    const spinner = ora('Loading teams...').start();
+
+    try {
+      await database.initialize();
+      const user = await activityTracker.resolveUser();
+
+      switch (subcommand) {
+      case 'create': {
+        const descriptionIndex = args.indexOf('--description');
+        const description = descriptionIndex !== -1 ? args[descriptionIndex + 1] : undefined;
+        const team = await teamManager.create(user.id, ref!, description);
+        spinner.succeed(`Created ${chalk.bold(team.name)}, you are its owner`);
+        break;
+      }
+
+      case 'join': {
+        const team = await teamManager.join(user.id, ref!);
+        spinner.succeed(`Joined ${chalk.bold(team.name)}`);
+        break;
+      }
+
+      case 'leave': {
+        const team = await this.resolveTeam(user, ref);
+        const result = await teamManager.leave(user.id, team.id);
+        if (result.deleted) {
+          spinner.succeed(`Left ${chalk.bold(team.name)}, the team was deleted as you were its last member`);
+        } else {
+          spinner.succeed(`Left ${chalk.bold(team.name)}`);
+          if (result.newOwner) {
+            console.log(chalk.gray(`${result.newOwner.displayName} is now the owner`));
+          }
+        }
+        break;
+      }
+
+      case 'switch': {
+        const team = await teamManager.switchTo(user.id, ref!);
+        spinner.succeed(`${chalk.bold(team.name)} is now your current team`);
+        break;
+      }
+
+      case 'role': {
+        const team = await this.resolveTeam(user, this.getOption(args, '--team'));
+        const member = await teamManager.setRole(user.id, team.id, ref!, args[2] as TeamRole);
+        spinner.succeed(`${member.displayName} is now ${ROLE_LABELS[member.role]} of ${chalk.bold(team.name)}`);
+        break;
+      }
+
+      case 'remove': {
+        const team = await this.resolveTeam(user, this.getOption(args, '--team'));
+        const member = await teamManager.removeMember(user.id, team.id, ref!);
+        spinner.succeed(`Removed ${member.displayName} from ${chalk.bold(team.name)}`);
+        break;
+      }
+
+      case 'show': {
+        const team = await this.resolveTeam(user, ref);
+        const members = await database.getTeamMembers(team.id);
+        const progress = await teamManager.getGoalProgress(team);
+        spinner.stop();
+
+        if (isJson) {
+          console.log(JSON.stringify({ ...team, members, goal: { ...progress, team: undefined } }, null, 2));
+        } else {
+          this.outputTeam(team, members, progress, user);
+        }
+        break;
+      }
+
+      default: {
+        const teams = await database.getTeamSummaries(args.includes('--all') ? undefined : user.id);
+        spinner.stop();
+
+        if (isJson) {
+          console.log(JSON.stringify(teams, null, 2));
+        } else {
+          this.outputList(teams, user);
+        }
+      }
+      }
+
+      await database.close();
+    } catch (error) {
+      spinner.fail(error instanceof Error ? error.message : 'Team command failed');
+      process.exitCode = 1;
+      await database.close();
+    }
+  }
+
+  // An explicit team, otherwise the user's current team
+  private async resolveTeam(user: User, ref?: string): Promise<Team> {
+    if (ref) {
+      const team = await teamManager.find(ref);
+      if (!team) {
+        throw new Error(`Team '${ref}' not found`);
+      }
+      return team;
+    }
+
+    const current = await teamManager.getCurrentTeam(user.id);
+    if (!current) {
+      throw new Error('You are not in a team yet. Create one with devxp team create <name>');
+    }
+    return current;
+  }
+
+  private getOption(args: ReadonlyArray<string>, option: string): string | undefined {
+    const index = args.indexOf(option);
+    return index !== -1 ? args[index + 1] : undefined;
+  }
+
+  private outputList(teams: TeamSummary[], user: User): void {
+    if (teams.length === 0) {
+      console.log(chalk.gray('No teams yet. Create one with devxp team create <name> or join one with devxp team join <name>.'));
+      return;
+    }
+
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.cyan.bold('  👥 Teams'));
+    console.log(chalk.cyan.bold('═'.repeat(60)));
+
+    console.log('\n' +
+      chalk.gray('Team'.padEnd(28)) +
+      chalk.gray('Members'.padEnd(10)) +
+      chalk.gray('Avg Lv'.padEnd(10)) +
+      chalk.gray('Total XP')
+    );
+    console.log(chalk.gray('─'.repeat(60)));
+
+    for (const team of teams) {
+      const current = team.id === user.currentTeamId;
+      const name = `${current ? '● ' : '  '}${team.name}`;
+      console.log(
+        (current ? chalk.green.bold(name.padEnd(28)) : name.padEnd(28)) +
+        String(team.memberCount).padEnd(10) +
+        `Lv.${team.averageLevel}`.padEnd(10) +
+        chalk.yellow(`${team.totalXp.toLocaleString()} XP`)
+      );
+    }
+
+    console.log('\n' + chalk.gray('● current team (devxp team show <name> for details)'));
+    console.log(chalk.cyan.bold('═'.repeat(60)) + '\n');
+  }
+
+  private outputTeam(team: Team, members: TeamMember[], progress: TeamGoalProgress, user: User): void {
+    const totalXp = members.reduce((sum, member) => sum + member.totalXp, 0);
+    const averageLevel = members.length > 0
+      ? Math.round(members.reduce((sum, member) => sum + member.level, 0) / members.length)
+      : 0;
+
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.cyan.bold(`  👥 ${team.name}${team.id === user.currentTeamId ? ' (current)' : ''}`));
+    console.log(chalk.cyan.bold('═'.repeat(60)));
+
+    if (team.description) {
+      console.log('\n  ' + chalk.gray(team.description));
+    }
+
+    console.log(`\n  ${chalk.magenta('Members:')} ${members.length}`);
+    console.log(`  ${chalk.magenta('Total XP:')} ${chalk.yellow(totalXp.toLocaleString())}`);
+    console.log(`  ${chalk.magenta('Average Level:')} ${averageLevel}`);
+
+    console.log('\n' + chalk.yellow.bold('🧑‍💻 Members'));
+    console.log(chalk.gray('─'.repeat(40)));
+    for (const member of members) {
+      const xpToday = progress.xpToday[member.userId] ?? 0;
+      const atGoal = progress.membersAtGoal.includes(member.userId) ? chalk.green(' ✓') : '';
+      const role = member.role === 'member' ? '' : chalk.cyan(` (${member.role})`);
+      console.log(`  ${member.displayName}${role}  Lv.${member.level} · ${member.totalXp.toLocaleString()} XP · ${chalk.gray(`today ${xpToday}/${progress.dailyGoal}`)}${atGoal}`);
+    }
+
+    console.log('\n' + chalk.yellow.bold('🎯 Daily Goal'));
+    console.log(chalk.gray('─'.repeat(40)));
+    console.log(`  ${progress.membersAtGoal.length}/${progress.membersNeeded} members reached ${progress.dailyGoal} XP today`);
+    if (progress.reached) {
+      console.log('  ' + chalk.green(`Team bonus active: ${progress.bonusMultiplier}x XP for the rest of the day`));
+    } else if (members.length < progress.membersNeeded) {
+      console.log('  ' + chalk.gray(`The team bonus needs ${progress.membersNeeded} members at the goal, invite more teammates`));
+    } else {
+      console.log('  ' + chalk.gray(`${progress.membersNeeded - progress.membersAtGoal.length} more to unlock ${progress.bonusMultiplier}x XP`));
+    }
+
+    console.log(chalk.cyan.bold('═'.repeat(60)) + '\n');
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    if (args[0] && !args[0].startsWith('--') && !SUBCOMMANDS.includes(args[0])) {
+      console.error(`Unknown subcommand: ${args[0]}`);
+      return false;
+    }
+
+    const needsRef = ['create', 'join', 'switch', 'role', 'remove'];
+    if (args[0] && needsRef.includes(args[0]) && (!args[1] || args[1].startsWith('--'))) {
+      const what = args[0] === 'create' ? 'a team name' : args[0] === 'role' || args[0] === 'remove' ? 'a username' : 'a team';
+      console.error(`Please specify ${what}, e.g. devxp team ${args[0]} <${what.split(' ').pop()}>`);
+      return false;
+    }
+
+    if (args[0] === 'role' && !TEAM_ROLES.includes(args[2] as TeamRole)) {
+      console.error(`Role must be one of: ${TEAM_ROLES.join(', ')}`);
+      return false;
+    }
+
+    for (const option of ['--description', '--team']) {
+      const index = args.indexOf(option);
+      if (index !== -1 && (!args[index + 1] || args[index + 1]!.startsWith('--'))) {
+        console.error(`${option} needs a value`);
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Track-command command - Record a shell command reported by the shell integration
+ */
+import type { Command } from '../types/command';
+import { database } from '../modules/database';
+import { activityTracker } from '../modules/tracker';
+import { mapShellCommand } from '../modules/activity-mapper';
+import { daemonClient } from '../modules/daemon';
+
+export class TrackCommandCommand implements Command {
+  readonly name = 'track-command';
+  readonly description = 'Record a shell command (used by shell integration)';
+  readonly help = `
+Usage: devxp track-command <command> [exit-code] [duration]
+
+Record a command run in an integrated shell. Called by the shell
+integration after each productive command; prints nothing. The command is
+handed to the daemon when it is running and recorded directly otherwise.
+
+Arguments:
+  command      The command that was run (only the first word is stored)
+  exit-code    Exit status of the command (non-zero commands earn no XP)
+  duration     How long the command ran, in seconds
+`;
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const [command = '', exitCodeArg, durationArg] = args;
+    const exitCode = exitCodeArg !== undefined ? parseInt(exitCodeArg, 10) : undefined;
+    const duration = durationArg !== undefined ? parseFloat(durationArg) : undefined;
+    const mapped = mapShellCommand(command, exitCode, duration);
+
+    if (!mapped) {
+      return;
+    }
+
+    const handedOff = await daemonClient.send({
+      type: 'command',
+      command,
+      ...(exitCode !== undefined ? { exitCode } : {}),
+      ...(duration !== undefined && !isNaN(duration) ? { duration } : {}),
+      cwd: process.cwd(),
+      timestamp: new Date().toISOString()
+    });
+    if (handedOff) {
+      return;
+    }
+
+    try {
+      await database.initialize();
+      await activityTracker.track(mapped, { quiet: true });
+    } catch {
+      // Never disturb the shell; failures are silently dropped
+      process.exitCode = 1;
+    } finally {
+      await database.close();
+    }
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    if (!args[0]) {
+      console.error('Please specify the command to track');
+      return false;
+    }
+    return true;
+  }
+}
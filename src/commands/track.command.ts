@@ -0,0 +1,154 @@
+/**
+ * Track command - Record an activity reported by git hooks or shell integrations
+ */
+import type { Command } from '../types/command';
+import { database } from '../modules/database';
+import { activityTracker, TrackResult } from '../modules/tracker';
+import { mapTrackPayload, parseTrackArgs } from '../modules/activity-mapper';
+import chalk from 'chalk';
+
+export class TrackCommand implements Command {
+  readonly name = 'track';
+  readonly description = 'Record an activity and award XP';
+  readonly help = `
+Usage: devxp track <activity> [options]
+
+Record an activity for the current user. This is what the git hooks and
+shell integrations call; you rarely need to run it by hand.
+
+Activities:
+  git-commit           --hash --message --author --files --insertions --deletions --merge
+  git-merge            --branch --hash --message
+  git-branch-create    --branch
+  git-checkout         --branch --from --to
+  git-push             --remote --branch --commits
+  command              --cmd <command> [--exit-code <code>] [--duration <seconds>]
+  <activity type>      Any activity type, e.g. code_test or pr-review
+
+Options:
+  --type <type>        Legacy form of <activity> (commit, merge, checkout, command, cd)
+  --description <text> Description for custom activities
+  --auto               Called from a hook: fill in missing details, print nothing
+  --quiet              Print nothing
+  --dry-run            Show the XP that would be awarded without saving
+  --json               Output in JSON format
+`;
+  readonly aliases = ['log-activity'];
+
+  async execute(args: ReadonlyArray<string>): Promise<void> {
+    const isJson = args.includes('--json');
+    const isQuiet = args.includes('--quiet') || args.includes('--auto');
+
+    try {
+      await database.initialize();
+
+      const payload = await activityTracker.enrichPayload(parseTrackArgs(args));
+      const mapped = mapTrackPayload(payload);
+
+      if (!mapped) {
+        if (isJson) {
+          console.log(JSON.stringify({ tracked: false, reason: 'ignored' }, null, 2));
+        }
+        await database.close();
+        return;
+      }
+
+      const result = await activityTracker.track(mapped, {
+        dryRun: args.includes('--dry-run'),
+        quiet: isQuiet || isJson
+      });
+      await database.close();
+
+      if (isJson) {
+        this.outputJson(result);
+      } else if (!isQuiet) {
+        this.outputResult(result);
+      }
+    } catch (error) {
+      await database.close();
+      if (!isQuiet) {
+        console.error(chalk.red('Failed to track activity:'), error instanceof Error ? error.message : error);
+      }
+      process.exitCode = 1;
+    }
+  }
+
+  private outputJson(result: TrackResult): void {
+    console.log(JSON.stringify({
+      tracked: result.activity !== null,
+      skipped: result.skipped,
+      activity: result.activity,
+      project: result.project ? { id: result.project.id, name: result.project.name } : null,
+      session: result.session ? { id: result.session.session.id, started: result.session.started, duration: result.session.session.duration } : null,
+      xp: result.calculation.finalXP,
+      breakdown: result.calculation.breakdown,
+      level: result.newLevel,
+      leveledUp: result.newLevel > result.previousLevel,
+      achievementsUnlocked: result.achievementsUnlocked,
+      challengesCompleted: result.challenges.completed.map(c => ({ id: c.id, name: c.name, reward: c.reward })),
+      challengeBonuses: result.challenges.bonuses,
+      streak: result.streak?.streak.currentStreak,
+      streakFreezesUsed: result.streak?.freezesUsed ?? [],
+      freezeTokensEarned: result.streak?.tokensEarned ?? 0
+    }, null, 2));
+  }
+
+  private outputResult(result: TrackResult): void {
+    const xp = result.calculation.finalXP;
+
+    if (result.skipped) {
+      console.log(chalk.gray(`Not recorded: ${result.skipped} (${xp} XP)`));
+      return;
+    }
+
+    const project = result.project ? chalk.gray(` [${result.project.name}]`) : '';
+    console.log(`${chalk.green(`+${xp} XP`)} ${result.activity?.description ?? ''}${project}`);
+
+    const multipliers = result.calculation.multipliers.filter(m => m.value !== 1);
+    if (multipliers.length > 0) {
+      console.log(chalk.gray(`  ${multipliers.map(m => `${m.description} ×${m.value}`).join(', ')}`));
+    }
+
+    for (const challenge of result.challenges.completed) {
+      console.log(chalk.cyan(`🎯 Challenge complete: ${challenge.name} (+${challenge.reward} XP)`));
+    }
+    for (const bonus of result.challenges.bonuses) {
+      console.log(chalk.cyan.bold(`🎯 All ${bonus.period} challenges complete! (+${bonus.xp} XP)`));
+    }
+
+    if (result.streak?.counted) {
+      const { streak, freezesUsed, tokensEarned, brokenStreak } = result.streak;
+      if (freezesUsed.length > 0) {
+        console.log(chalk.blue(`❄️  Used ${freezesUsed.length} freeze token${freezesUsed.length === 1 ? '' : 's'} to save your streak`));
+      }
+      if (brokenStreak > 1) {
+        console.log(chalk.gray(`💔 Your ${brokenStreak} day streak ended, starting a new one`));
+      }
+      console.log(chalk.magenta(`🔥 ${streak.currentStreak} day streak`));
+      if (tokensEarned > 0) {
+        console.log(chalk.blue(`🧊 Earned a streak freeze token (${streak.freezeTokens} available)`));
+      }
+    }
+
+    if (result.newLevel > result.previousLevel) {
+      console.log(chalk.yellow.bold(`🎉 Level up! You are now level ${result.newLevel}`));
+    }
+  }
+
+  validate(args: ReadonlyArray<string>): boolean {
+    const payload = parseTrackArgs(args);
+    if (!payload.event) {
+      console.error('Please specify an activity to track');
+      return false;
+    }
+
+    try {
+      mapTrackPayload(payload);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      return false;
+    }
+
+    return true;
+  }
+}
@@ -1,5 +1,7 @@
 /**
- * Configuration management for the CLI
+ * Static CLI metadata. User settings are loaded and validated by the
+ * ConfigManager in modules/config, which uses the file name and environment
+ * prefix defined here.
  */
 
 export interface CliConfig {
@@ -42,24 +44,3 @@ export const defaultConfig: CliConfig = {
   debug: false,
   verbose: false,
 };
-
-/**
- * Load configuration from various sources
- */
-export async function loadConfig(): Promise<CliConfig> {
-  // TODO: Implement configuration loading from:
-  // 1. Environment variables
-  // 2. Configuration file
-  // 3. Command line arguments
-  // 4. Default values
-
-  return { ...defaultConfig };
-}
-
-/**
- * Save configuration to file
- */
-export async function saveConfig(config: Partial<CliConfig>, path?: string): Promise<void> {
-  // TODO: Implement configuration saving
-  console.log('Saving configuration...', config, path);
-}
@@ -5,50 +5,166 @@
  * Main entry point for the CLI application
  */
 
+import chalk from 'chalk';
+import type { Command } from './types/command';
+import { findSimilarCommands, loadCommands } from './modules/command-loader';
+import { applyPendingDecay } from './modules/decay';
+import { runScheduledBackup } from './modules/backups';
+import { defaultConfigManager, parseConfigValue } from './modules/config';
+
 // CLI metadata
 const CLI_NAME = 'devxp';
 const CLI_VERSION = '1.0.0';
 const CLI_DESCRIPTION = 'Developer Experience Command Line Interface';
 
+// Exit codes
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+// Commands run by the shell integration and git hooks
+const TRACKING_COMMANDS = new Set(['track', 'track-command']);
+
 /**
  * Main CLI function
+ * @returns The process exit code
  */
-async function main(): Promise<void> {
+async function main(argv: ReadonlyArray<string> = process.argv.slice(2)): Promise<number> {
   try {
-    // Parse command line arguments
-    const args = process.argv.slice(2);
+    // `--set key=value` overrides settings for this run
+    const overrides: Record<string, unknown> = {};
+    let index = 0;
+    while (argv[index] === '--set') {
+      const assignment = argv[index + 1] ?? '';
+      const separator = assignment.indexOf('=');
+      if (separator <= 0) {
+        console.error(chalk.red(`Expected --set <key>=<value>, got '${assignment}'`));
+        return EXIT_USAGE;
+      }
+      overrides[assignment.slice(0, separator)] = parseConfigValue(assignment.slice(separator + 1));
+      index += 2;
+    }
+
+    if (Object.keys(overrides).length > 0) {
+      try {
+        defaultConfigManager.setCliOverrides(overrides);
+      } catch (error) {
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        return EXIT_USAGE;
+      }
+    }
+
+    const [commandName, ...commandArgs] = argv.slice(index);
 
-    // Display help if no arguments or help flag
-    if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
-      displayHelp();
-      process.exit(0);
+    // Global flags are only honoured before the command name
+    if (commandName === undefined || commandName === '--help' || commandName === '-h') {
+      displayHelp(await loadCommands());
+      return EXIT_SUCCESS;
     }
 
-    // Display version if version flag
-    if (args.includes('--version') || args.includes('-v')) {
+    if (commandName === '--version' || commandName === '-v') {
       console.log(`${CLI_NAME} version ${CLI_VERSION}`);
-      process.exit(0);
+      return EXIT_SUCCESS;
+    }
+
+    const commands = await loadCommands();
+
+    // `devxp help [command]`
+    if (commandName === 'help' && !commands.has('help')) {
+      const topic = commandArgs[0];
+      if (!topic) {
+        displayHelp(commands);
+        return EXIT_SUCCESS;
+      }
+
+      const command = commands.get(topic);
+      if (!command) {
+        reportUnknownCommand(topic, commands);
+        return EXIT_USAGE;
+      }
+
+      displayCommandHelp(command);
+      return EXIT_SUCCESS;
+    }
+
+    if (commandName.startsWith('-')) {
+      console.error(chalk.red(`Unknown option: ${commandName}`));
+      console.error(`Run '${CLI_NAME} --help' for usage.`);
+      return EXIT_USAGE;
+    }
+
+    const command = commands.get(commandName);
+    if (!command) {
+      reportUnknownCommand(commandName, commands);
+      return EXIT_USAGE;
+    }
+
+    if (commandArgs.includes('--help') || commandArgs.includes('-h')) {
+      displayCommandHelp(command);
+      return EXIT_SUCCESS;
+    }
+
+    if (command.validate && !command.validate(commandArgs)) {
+      console.error(`Run '${CLI_NAME} ${command.name} --help' for usage.`);
+      return EXIT_USAGE;
     }
 
-    // Get the command
-    const commandName = args[0];
-    const commandArgs = args.slice(1);
+    // Decay is computed lazily, before the command can record new activity.
+    // The shell and git hooks track on every prompt and commit, so they skip
+    // this work and leave it to the daemon or the next interactive command.
+    if (!TRACKING_COMMANDS.has(command.name)) {
+      await applyPendingDecay();
 
-    console.log(`Executing command: ${commandName}`);
-    console.log('With arguments:', commandArgs);
+      // A manual backup or restore replaces the scheduled one
+      if (command.name !== 'backup') {
+        await runScheduledBackup();
+      }
+    }
+
+    await command.execute(commandArgs);
 
-    // TODO: Load and execute commands from the commands directory
-    console.log('Command execution will be implemented soon...');
+    // Commands may flag a failure without throwing
+    return typeof process.exitCode === 'number' ? process.exitCode : EXIT_SUCCESS;
   } catch (error) {
-    console.error('Error executing CLI:', error);
-    process.exit(1);
+    console.error(chalk.red('Error executing CLI:'), error instanceof Error ? error.message : error);
+    return EXIT_FAILURE;
+  }
+}
+
+/**
+ * Print an unknown command error with suggestions
+ */
+function reportUnknownCommand(name: string, commands: Map<string, Command>): void {
+  console.error(chalk.red(`Unknown command: ${name}`));
+
+  const suggestions = findSimilarCommands(name, commands);
+  if (suggestions.length > 0) {
+    console.error(`\nDid you mean ${suggestions.map(s => chalk.cyan(s)).join(', ')}?`);
   }
+
+  console.error(`\nRun '${CLI_NAME} --help' to see available commands.`);
 }
 
 /**
  * Display help information
  */
-function displayHelp(): void {
+function displayHelp(commands: Map<string, Command>): void {
+  // Aliases share the command instance, keep the primary registration only
+  const unique = [...commands.entries()]
+    .filter(([key, command]) => key === command.name)
+    .map(([, command]) => command)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const width = Math.max(0, ...unique.map(command => command.name.length)) + 2;
+  const commandLines = unique.length > 0
+    ? unique.map(command => {
+      const aliases = command.aliases && command.aliases.length > 0
+        ? chalk.gray(` (${command.aliases.join(', ')})`)
+        : '';
+      return `  ${command.name.padEnd(width)} ${command.description}${aliases}`;
+    }).join('\n')
+    : '  (no commands found)';
+
   console.log(`
 ${CLI_NAME} - ${CLI_DESCRIPTION}
 Version: ${CLI_VERSION}
@@ -57,25 +173,53 @@ Usage:
   ${CLI_NAME} <command> [options]
 
 Options:
-  -h, --help     Show help
-  -v, --version  Show version
+  -h, --help               Show help
+  -v, --version            Show version
+  --set <key>=<value>      Override a setting for this run (repeatable)
 
 Commands:
-  (Commands will be loaded dynamically from the commands directory)
+${commandLines}
 
 Examples:
   ${CLI_NAME} --version
   ${CLI_NAME} --help
+  ${CLI_NAME} --set decay.enabled=false status
+  ${CLI_NAME} help <command>
   ${CLI_NAME} <command> --help
 `);
 }
 
+/**
+ * Display help for a single command
+ */
+function displayCommandHelp(command: Command): void {
+  if (command.help) {
+    console.log(`${command.name} - ${command.description}`);
+    console.log(command.help.trimEnd());
+  } else {
+    console.log(`
+${command.name} - ${command.description}
+
+Usage:
+  ${CLI_NAME} ${command.name} [options]`);
+  }
+
+  if (command.aliases && command.aliases.length > 0) {
+    console.log(`\nAliases: ${command.aliases.join(', ')}`);
+  }
+  console.log('');
+}
+
 // Run the CLI
-if (import.meta.url === `file://${process.argv[1]}`) {
-  main().catch((error) => {
-    console.error('Fatal error:', error);
-    process.exit(1);
-  });
+if (require.main === module) {
+  main()
+    .then((code) => {
+      process.exitCode = code;
+    })
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      process.exit(EXIT_FAILURE);
+    });
 }
 
 export { main };
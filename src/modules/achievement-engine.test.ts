@@ -0,0 +1,315 @@
+/**
+ * Unit tests for the declarative achievement engine
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  ActivityQuery,
+  ConditionDataSource,
+  evaluateCondition,
+  evaluateConditions,
+  loadAchievementDefinitions,
+  summarizeProgress
+} from './achievement-engine';
+import { ActivityType } from '../types/Activity';
+import { UnlockCondition, UnlockConditionType } from '../types/Achievement';
+
+function createSource(
+  counts: Partial<Record<ActivityType, number>>,
+  profile = { totalXp: 0, level: 1, streak: 0 },
+  commands: Record<string, number> = {},
+  recentXp = 0,
+  profileSince = { levelsGained: 0, streakDays: 0 }
+): ConditionDataSource {
+  return {
+    countActivities: async (query: ActivityQuery) => {
+      if (query.command !== undefined) return commands[query.command] ?? 0;
+      const types = query.types ?? (Object.keys(counts) as ActivityType[]);
+      return types.reduce((sum, type) => sum + (counts[type] ?? 0), 0);
+    },
+    getXpEarnedSince: async () => recentXp,
+    getProfile: async () => profile,
+    getProfileSince: async () => profileSince
+  };
+}
+
+const testCount = (count: number): UnlockCondition => ({
+  type: UnlockConditionType.ACTIVITY_COUNT,
+  parameters: { activityType: ActivityType.CODE_TEST, activityCount: count }
+});
+
+describe('loadAchievementDefinitions', () => {
+  let testDir: string;
+
+  beforeAll(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'devxp-definitions-'));
+
+    fs.writeFileSync(path.join(testDir, 'team.yaml'), [
+      'achievements:',
+      '  - id: team_tester',
+      '    name: Team Tester',
+      '    description: Run the test suite 25 times',
+      '    category: productivity',
+      '    rarity: RARE',
+      '    unlockConditions:',
+      '      - type: ACTIVITY_COUNT',
+      '        parameters:',
+      '          activityType: code-test',
+      '          activityCount: 25',
+      '      - type: combination',
+      '        parameters:',
+      '          requireAll: false',
+      '          subConditions:',
+      '            - type: level_reached',
+      '              parameters: { level: 5 }',
+      '            - type: streak_days',
+      '              parameters: { streakDays: 3 }'
+    ].join('\n'));
+
+    fs.writeFileSync(path.join(testDir, 'upcoming.json'), JSON.stringify([
+      {
+        id: 'launch_day',
+        name: 'Launch Day',
+        xpReward: 300,
+        unlockConditions: [{ type: 'time_based', parameters: { specificDate: '2025-03-14' } }]
+      },
+      { id: 'team_tester', name: 'Duplicate', unlockConditions: [{ type: 'manual' }] },
+      { id: 'broken', name: 'Broken', unlockConditions: [{ type: 'activity_count', parameters: { activityType: 'nope' } }] }
+    ]));
+
+    fs.writeFileSync(path.join(testDir, 'invalid.yml'), 'achievements: [unclosed');
+    fs.writeFileSync(path.join(testDir, 'notes.txt'), 'ignored');
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('should load JSON and YAML definitions from a directory', () => {
+    const { definitions } = loadAchievementDefinitions(testDir);
+    const tester = definitions.find(d => d.id === 'team_tester');
+    const launch = definitions.find(d => d.id === 'launch_day');
+
+    expect(definitions.map(d => d.id).sort()).toEqual(['launch_day', 'team_tester']);
+    expect(tester?.rarity).toBe('rare');
+    expect(tester?.unlockConditions[0]).toEqual({
+      type: UnlockConditionType.ACTIVITY_COUNT,
+      parameters: { activityType: ActivityType.CODE_TEST, activityCount: 25 }
+    });
+    expect(tester?.unlockConditions[1]?.parameters.subConditions).toHaveLength(2);
+    expect(launch?.xpReward).toBe(300);
+    expect(launch?.unlockConditions[0]?.parameters.specificDate).toBeInstanceOf(Date);
+  });
+
+  test('should report invalid files and definitions without failing', () => {
+    const { errors } = loadAchievementDefinitions(testDir);
+
+    expect(errors).toHaveLength(3);
+    expect(errors.some(e => e.includes('invalid.yml'))).toBe(true);
+    expect(errors.some(e => e.includes("Duplicate achievement id 'team_tester'"))).toBe(true);
+    expect(errors.some(e => e.includes("Unknown activity type 'nope'"))).toBe(true);
+  });
+
+  test('should parse repeatable and seasonal definitions', () => {
+    const file = path.join(testDir, 'seasonal.json');
+    fs.writeFileSync(file, JSON.stringify([
+      {
+        id: 'daily_tester',
+        name: 'Daily Tester',
+        isRepeatable: true,
+        maxRepetitions: 30,
+        expirationDate: '2025-12-31T23:59:59Z',
+        unlockConditions: [{ type: 'activity_count', parameters: { activityType: 'code-test', activityCount: 5 } }]
+      },
+      { id: 'limited', name: 'Limited', maxRepetitions: 3, unlockConditions: [{ type: 'manual' }] }
+    ]));
+
+    try {
+      const { definitions, errors } = loadAchievementDefinitions(file);
+
+      expect(definitions).toHaveLength(1);
+      expect(definitions[0]).toMatchObject({ isRepeatable: true, maxRepetitions: 30 });
+      expect(definitions[0]?.expirationDate?.toISOString()).toBe('2025-12-31T23:59:59.000Z');
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain('maxRepetitions requires isRepeatable');
+    } finally {
+      fs.rmSync(file);
+    }
+  });
+
+  test('should accept a single file and ignore a missing path', () => {
+    expect(loadAchievementDefinitions(path.join(testDir, 'team.yaml')).definitions).toHaveLength(1);
+    expect(loadAchievementDefinitions(path.join(testDir, 'missing'))).toEqual({ definitions: [], errors: [] });
+  });
+});
+
+describe('evaluateConditions', () => {
+  test('should report progress for each condition', async () => {
+    const result = await evaluateConditions(
+      [testCount(10), { type: UnlockConditionType.STREAK_DAYS, parameters: { streakDays: 3 } }],
+      createSource({ [ActivityType.CODE_TEST]: 4 }, { totalXp: 0, level: 1, streak: 5 })
+    );
+
+    expect(result.isMet).toBe(false);
+    expect(result.progress).toEqual([
+      { conditionIndex: 0, isMet: false, currentValue: 4, targetValue: 10 },
+      { conditionIndex: 1, isMet: true, currentValue: 5, targetValue: 3 }
+    ]);
+  });
+
+  test('should never unlock without conditions', async () => {
+    expect((await evaluateConditions([], createSource({}))).isMet).toBe(false);
+  });
+
+  test('should evaluate nested AND/OR combinations', async () => {
+    const condition: UnlockCondition = {
+      type: UnlockConditionType.COMBINATION,
+      parameters: {
+        requireAll: true,
+        subConditions: [
+          testCount(2),
+          {
+            type: UnlockConditionType.COMBINATION,
+            parameters: {
+              requireAll: false,
+              subConditions: [
+                { type: UnlockConditionType.LEVEL_REACHED, parameters: { level: 10 } },
+                { type: UnlockConditionType.SPECIFIC_ACTION, parameters: { action: 'docker', actionCount: 3 } }
+              ]
+            }
+          }
+        ]
+      }
+    };
+
+    const locked = await evaluateCondition(condition, 0, createSource({ [ActivityType.CODE_TEST]: 2 }, undefined, { docker: 1 }));
+    const unlocked = await evaluateCondition(condition, 0, createSource({ [ActivityType.CODE_TEST]: 2 }, undefined, { docker: 3 }));
+
+    expect(locked).toMatchObject({ isMet: false, currentValue: 1, targetValue: 2 });
+    expect(unlocked).toMatchObject({ isMet: true, currentValue: 2, targetValue: 2 });
+    expect(unlocked.details?.['subConditions']).toHaveLength(2);
+  });
+
+  test('should enforce required sub-conditions in OR combinations', async () => {
+    const condition: UnlockCondition = {
+      type: UnlockConditionType.COMBINATION,
+      parameters: {
+        requireAll: false,
+        subConditions: [
+          { ...testCount(1), required: true },
+          { type: UnlockConditionType.LEVEL_REACHED, parameters: { level: 1 } }
+        ]
+      }
+    };
+
+    expect((await evaluateCondition(condition, 0, createSource({}))).isMet).toBe(false);
+    expect((await evaluateCondition(condition, 0, createSource({ [ActivityType.CODE_TEST]: 1 }))).isMet).toBe(true);
+  });
+
+  test('should keep hidden condition details secret', async () => {
+    const result = await evaluateCondition(
+      { type: UnlockConditionType.HIDDEN, parameters: { subConditions: [testCount(1)] } },
+      0,
+      createSource({ [ActivityType.CODE_TEST]: 1 })
+    );
+
+    expect(result.isMet).toBe(true);
+    expect(result.details).toBeUndefined();
+  });
+
+  test('should use the XP earned within the timeframe', async () => {
+    const condition: UnlockCondition = {
+      type: UnlockConditionType.XP_THRESHOLD,
+      parameters: { xpAmount: 500, xpTimeframe: 86400 }
+    };
+    const source = createSource({}, { totalXp: 10000, level: 20, streak: 0 }, {}, 200);
+
+    expect(await evaluateCondition(condition, 0, source)).toMatchObject({ isMet: false, currentValue: 200 });
+  });
+
+  test('should match time windows that wrap past midnight', async () => {
+    const condition: UnlockCondition = {
+      type: UnlockConditionType.TIME_BASED,
+      parameters: { timeOfDay: { start: '22:00', end: '04:00' }, dayOfWeek: [5, 6] }
+    };
+    const source = createSource({});
+
+    const isMet = async (now: string, timeZone = 'UTC') =>
+      (await evaluateCondition(condition, 0, source, { now: new Date(now), timeZone })).isMet;
+
+    // 2025-03-14 is a Friday
+    expect(await isMet('2025-03-14T23:30:00Z')).toBe(true);
+    expect(await isMet('2025-03-15T03:59:00Z')).toBe(true);
+    expect(await isMet('2025-03-14T12:00:00Z')).toBe(false);
+    expect(await isMet('2025-03-13T23:30:00Z')).toBe(false);
+
+    // The configured timezone decides, not the system one
+    expect(await isMet('2025-03-14T23:30:00Z', 'Pacific/Auckland')).toBe(false);
+    expect(await isMet('2025-03-14T10:30:00Z', 'Pacific/Auckland')).toBe(true);
+  });
+
+  test('should match a specific date in the configured timezone', async () => {
+    const condition: UnlockCondition = {
+      type: UnlockConditionType.TIME_BASED,
+      parameters: { specificDate: new Date('2025-12-25') }
+    };
+    const source = createSource({});
+    const isMet = async (now: string, timeZone: string) =>
+      (await evaluateCondition(condition, 0, source, { now: new Date(now), timeZone })).isMet;
+
+    expect(await isMet('2025-12-25T20:00:00Z', 'America/New_York')).toBe(true);
+    expect(await isMet('2025-12-25T20:00:00Z', 'Asia/Tokyo')).toBe(false);
+    expect(await isMet('2025-12-24T20:00:00Z', 'Asia/Tokyo')).toBe(true);
+  });
+
+  test('should only count activities since the last unlock', async () => {
+    const since = new Date(2025, 2, 1);
+    const queries: ActivityQuery[] = [];
+    const source: ConditionDataSource = {
+      ...createSource({}),
+      countActivities: async (query: ActivityQuery) => {
+        queries.push(query);
+        return query.since ? 1 : 10;
+      }
+    };
+
+    const result = await evaluateCondition(testCount(5), 0, source, { since });
+
+    expect(result).toMatchObject({ isMet: false, currentValue: 1 });
+    expect(queries[0]?.since).toBe(since);
+  });
+
+  test('should only count levels and streak days since the last unlock', async () => {
+    const since = new Date(2025, 2, 1);
+    const source = createSource({}, { totalXp: 5000, level: 12, streak: 30 }, {}, 0, { levelsGained: 1, streakDays: 2 });
+    const level: UnlockCondition = { type: UnlockConditionType.LEVEL_REACHED, parameters: { level: 5 } };
+    const streak: UnlockCondition = { type: UnlockConditionType.STREAK_DAYS, parameters: { streakDays: 7 } };
+
+    expect(await evaluateCondition(level, 0, source)).toMatchObject({ isMet: true, currentValue: 12 });
+    expect(await evaluateCondition(level, 0, source, { since })).toMatchObject({ isMet: false, currentValue: 1 });
+    expect(await evaluateCondition(streak, 0, source, { since })).toMatchObject({ isMet: false, currentValue: 2 });
+  });
+
+  test('should never unlock manual conditions', async () => {
+    const result = await evaluateCondition({ type: UnlockConditionType.MANUAL, parameters: {} }, 0, createSource({}));
+    expect(result.isMet).toBe(false);
+  });
+});
+
+describe('summarizeProgress', () => {
+  test('should use the target of a single condition as the goal', () => {
+    expect(summarizeProgress([testCount(10)], [
+      { conditionIndex: 0, isMet: false, currentValue: 4, targetValue: 10 }
+    ])).toEqual({ current: 4, goal: 10 });
+  });
+
+  test('should count met conditions when there are several', () => {
+    expect(summarizeProgress([testCount(10), testCount(1)], [
+      { conditionIndex: 0, isMet: false, currentValue: 4, targetValue: 10 },
+      { conditionIndex: 1, isMet: true, currentValue: 4, targetValue: 1 }
+    ])).toEqual({ current: 1, goal: 2 });
+  });
+});
@@ -0,0 +1,526 @@
+/**
+ * Achievement Engine Module
+ * Loads declarative achievement definitions and evaluates their unlock conditions
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { ActivityType } from '../types/Activity';
+import {
+  AchievementRarity,
+  ConditionProgress,
+  UnlockCondition,
+  UnlockConditionParameters,
+  UnlockConditionType
+} from '../types/Achievement';
+import { resolveActivityType } from './activity-mapper';
+import { getZonedDate, resolveTimeZone, toDateKey } from '../utils/time';
+
+/**
+ * Achievement loaded from a definition file
+ */
+export interface AchievementDefinition {
+  /** Unique identifier, must not clash with a built-in achievement */
+  id: string;
+
+  /** Display name */
+  name: string;
+
+  /** Description shown in `devxp achievements` */
+  description: string;
+
+  /** Category name, resolved by the achievement manager */
+  category?: string;
+
+  /** Rarity level */
+  rarity?: AchievementRarity;
+
+  /** Base XP reward before the rarity multiplier */
+  xpReward?: number;
+
+  /** Whether the achievement is hidden until unlocked */
+  hidden: boolean;
+
+  /** Whether the achievement can be earned again */
+  isRepeatable: boolean;
+
+  /** Maximum number of times a repeatable achievement can be earned */
+  maxRepetitions?: number;
+
+  /** After this date the achievement can no longer be earned */
+  expirationDate?: Date;
+
+  /** Conditions that must all be met */
+  unlockConditions: UnlockCondition[];
+
+  /** File the definition was loaded from */
+  source: string;
+}
+
+/**
+ * Result of loading the definition files
+ */
+export interface DefinitionLoadResult {
+  definitions: AchievementDefinition[];
+
+  /** Problems found while loading, one per file or definition */
+  errors: string[];
+}
+
+/**
+ * Filter for counting stored activities
+ */
+export interface ActivityQuery {
+  types?: ActivityType[];
+  since?: Date;
+  command?: string;
+  descriptionContains?: string;
+}
+
+/**
+ * Stored data the conditions are evaluated against
+ */
+export interface ConditionDataSource {
+  countActivities(query: ActivityQuery): Promise<number>;
+  getXpEarnedSince(since: Date): Promise<number>;
+  getProfile(): Promise<{ totalXp: number; level: number; streak: number }>;
+
+  /** Levels gained, and streak days kept, after a point in time */
+  getProfileSince(since: Date): Promise<{ levelsGained: number; streakDays: number }>;
+}
+
+/**
+ * Options for evaluating conditions
+ */
+export interface EvaluationOptions {
+  /** Evaluation time, used by time-based conditions (defaults to now) */
+  now?: Date;
+
+  /** Timezone time-based conditions are checked in (defaults to the system timezone) */
+  timeZone?: string;
+
+  /**
+   * Only count activities, XP, levels and streak days from this point on,
+   * e.g. the last unlock of a repeatable achievement
+   */
+  since?: Date;
+}
+
+/**
+ * Result of evaluating an achievement's conditions
+ */
+export interface ConditionEvaluation {
+  /** Whether every condition is met */
+  isMet: boolean;
+
+  /** Progress for each top-level condition */
+  progress: ConditionProgress[];
+}
+
+const DEFINITION_EXTENSIONS = new Set(['.json', '.yaml', '.yml']);
+
+const TimeSchema = z.string().regex(/^([01]?\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+const ActivityTypeSchema = z.string().transform((value, ctx) => {
+  const type = resolveActivityType(value);
+  if (!type) {
+    ctx.addIssue({ code: 'custom', message: `Unknown activity type '${value}'` });
+    return z.NEVER;
+  }
+  return type;
+});
+
+const ConditionSchema: z.ZodType<unknown> = z.lazy(() => z.object({
+  type: z.preprocess(
+    value => typeof value === 'string' ? value.toLowerCase() : value,
+    z.enum(UnlockConditionType)
+  ),
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+  parameters: z.object({
+    activityType: ActivityTypeSchema.optional(),
+    activityCount: z.number().int().min(1).optional(),
+    xpAmount: z.number().min(0).optional(),
+    xpTimeframe: z.number().positive().optional(),
+    level: z.number().int().min(1).optional(),
+    streakDays: z.number().int().min(1).optional(),
+    timeOfDay: z.object({ start: TimeSchema, end: TimeSchema }).optional(),
+    dayOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
+    specificDate: z.coerce.date().optional(),
+    action: z.string().min(1).optional(),
+    actionTarget: z.string().min(1).optional(),
+    actionCount: z.number().int().min(1).optional(),
+    subConditions: z.array(ConditionSchema).optional(),
+    requireAll: z.boolean().optional(),
+    custom: z.record(z.string(), z.unknown()).optional()
+  }).default({})
+}));
+
+const DefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_.-]+$/i, 'Use letters, digits, dots, dashes and underscores'),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  category: z.string().optional(),
+  rarity: z.preprocess(
+    value => typeof value === 'string' ? value.toLowerCase() : value,
+    z.enum(AchievementRarity)
+  ).optional(),
+  xpReward: z.number().int().min(0).optional(),
+  hidden: z.boolean().default(false),
+  isRepeatable: z.boolean().default(false),
+  maxRepetitions: z.number().int().min(1).optional(),
+  expirationDate: z.coerce.date().optional(),
+  unlockConditions: z.array(ConditionSchema).min(1)
+}).refine(
+  definition => definition.maxRepetitions === undefined || definition.isRepeatable,
+  { message: 'maxRepetitions requires isRepeatable: true', path: ['maxRepetitions'] }
+);
+
+const DefinitionFileSchema = z.union([
+  z.array(z.unknown()),
+  z.object({ achievements: z.array(z.unknown()) })
+]);
+
+/**
+ * Load achievement definitions from a JSON/YAML file or a directory of them
+ */
+export function loadAchievementDefinitions(definitionsPath: string): DefinitionLoadResult {
+  const result: DefinitionLoadResult = { definitions: [], errors: [] };
+
+  if (!fs.existsSync(definitionsPath)) {
+    return result;
+  }
+
+  const files = fs.statSync(definitionsPath).isDirectory()
+    ? fs.readdirSync(definitionsPath)
+      .filter(file => DEFINITION_EXTENSIONS.has(path.extname(file).toLowerCase()))
+      .sort()
+      .map(file => path.join(definitionsPath, file))
+    : [definitionsPath];
+
+  const seen = new Set<string>();
+
+  for (const file of files) {
+    let entries: unknown[];
+    try {
+      const raw = fs.readFileSync(file, 'utf-8');
+      const parsed = DefinitionFileSchema.parse(
+        path.extname(file).toLowerCase() === '.json' ? JSON.parse(raw) : parseYaml(raw)
+      );
+      entries = Array.isArray(parsed) ? parsed : parsed.achievements;
+    } catch (error) {
+      result.errors.push(`${file}: ${formatError(error)}`);
+      continue;
+    }
+
+    entries.forEach((entry, index) => {
+      const parsed = DefinitionSchema.safeParse(entry);
+      if (!parsed.success) {
+        result.errors.push(`${file} [${index}]: ${formatError(parsed.error)}`);
+        return;
+      }
+
+      const {
+        id, name, description, category, rarity, xpReward, hidden, isRepeatable, maxRepetitions, expirationDate
+      } = parsed.data;
+      if (seen.has(id)) {
+        result.errors.push(`${file} [${index}]: Duplicate achievement id '${id}'`);
+        return;
+      }
+      seen.add(id);
+
+      result.definitions.push({
+        id,
+        name,
+        description,
+        hidden,
+        isRepeatable,
+        unlockConditions: parsed.data.unlockConditions.map(toCondition),
+        source: file,
+        ...(category !== undefined ? { category } : {}),
+        ...(rarity !== undefined ? { rarity } : {}),
+        ...(xpReward !== undefined ? { xpReward } : {}),
+        ...(maxRepetitions !== undefined ? { maxRepetitions } : {}),
+        ...(expirationDate !== undefined ? { expirationDate } : {})
+      });
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Evaluate conditions against stored data, all of them must be met
+ */
+export async function evaluateConditions(
+  conditions: ReadonlyArray<UnlockCondition>,
+  source: ConditionDataSource,
+  options: EvaluationOptions = {}
+): Promise<ConditionEvaluation> {
+  const progress: ConditionProgress[] = [];
+  for (const [index, condition] of conditions.entries()) {
+    progress.push(await evaluateCondition(condition, index, source, options));
+  }
+
+  return {
+    isMet: progress.length > 0 && progress.every(p => p.isMet),
+    progress
+  };
+}
+
+/**
+ * Evaluate a single condition
+ */
+export async function evaluateCondition(
+  condition: UnlockCondition,
+  conditionIndex: number,
+  source: ConditionDataSource,
+  options: EvaluationOptions = {}
+): Promise<ConditionProgress> {
+  const { now = new Date(), since, timeZone } = options;
+  const params = condition.parameters;
+  const target = getConditionTarget(condition);
+  const progress = (currentValue: number): ConditionProgress => ({
+    conditionIndex,
+    isMet: currentValue >= target,
+    currentValue,
+    targetValue: target
+  });
+
+  switch (condition.type) {
+  case UnlockConditionType.ACTIVITY_COUNT:
+    return progress(await source.countActivities({
+      ...(params.activityType ? { types: [params.activityType] } : {}),
+      ...(since ? { since } : {})
+    }));
+
+  case UnlockConditionType.XP_THRESHOLD: {
+    const windowStart = params.xpTimeframe !== undefined
+      ? new Date(now.getTime() - params.xpTimeframe * 1000)
+      : undefined;
+    // Use whichever window starts last
+    const start = windowStart && since
+      ? (windowStart > since ? windowStart : since)
+      : windowStart ?? since;
+
+    return progress(start
+      ? await source.getXpEarnedSince(start)
+      : (await source.getProfile()).totalXp);
+  }
+
+  // Counted from the last unlock too, or a repeatable one would be earned again every day
+  case UnlockConditionType.LEVEL_REACHED:
+    return progress(since
+      ? (await source.getProfileSince(since)).levelsGained
+      : (await source.getProfile()).level);
+
+  case UnlockConditionType.STREAK_DAYS:
+    return progress(since
+      ? (await source.getProfileSince(since)).streakDays
+      : (await source.getProfile()).streak);
+
+  case UnlockConditionType.TIME_BASED:
+    return progress(matchesTime(params, now, resolveTimeZone(timeZone)) ? 1 : 0);
+
+  case UnlockConditionType.SPECIFIC_ACTION: {
+    if (!params.action) {
+      return progress(0);
+    }
+    const type = resolveActivityType(params.action);
+    return progress(await source.countActivities({
+      ...(type ? { types: [type] } : { command: params.action }),
+      ...(params.actionTarget ? { descriptionContains: params.actionTarget } : {}),
+      ...(since ? { since } : {})
+    }));
+  }
+
+  case UnlockConditionType.COMBINATION:
+  case UnlockConditionType.HIDDEN: {
+    const subConditions = params.subConditions ?? [];
+    const results: ConditionProgress[] = [];
+    for (const [index, sub] of subConditions.entries()) {
+      results.push(await evaluateCondition(sub, index, source, options));
+    }
+
+    const metCount = results.filter(r => r.isMet).length;
+    // Sub-conditions flagged as required must hold even when any one would do
+    const requiredMet = results.every((r, i) => r.isMet || subConditions[i]?.required !== true);
+    const isMet = subConditions.length > 0 && requiredMet && metCount >= target;
+
+    return {
+      conditionIndex,
+      isMet,
+      currentValue: Math.min(metCount, target),
+      targetValue: target,
+      // Hidden conditions keep their parts secret
+      ...(condition.type === UnlockConditionType.COMBINATION ? { details: { subConditions: results } } : {})
+    };
+  }
+
+  case UnlockConditionType.MANUAL:
+  default:
+    // Only unlocked by hand
+    return { conditionIndex, isMet: false, currentValue: 0, targetValue: target };
+  }
+}
+
+/**
+ * Value a condition has to reach to be met
+ */
+export function getConditionTarget(condition: UnlockCondition): number {
+  const params = condition.parameters;
+
+  switch (condition.type) {
+  case UnlockConditionType.ACTIVITY_COUNT:
+    return params.activityCount ?? 1;
+  case UnlockConditionType.XP_THRESHOLD:
+    return params.xpAmount ?? 0;
+  case UnlockConditionType.LEVEL_REACHED:
+    return params.level ?? 1;
+  case UnlockConditionType.STREAK_DAYS:
+    return params.streakDays ?? 1;
+  case UnlockConditionType.SPECIFIC_ACTION:
+    return params.actionCount ?? 1;
+  case UnlockConditionType.COMBINATION:
+  case UnlockConditionType.HIDDEN: {
+    const count = params.subConditions?.length ?? 0;
+    return params.requireAll === false ? Math.min(1, count) : count;
+  }
+  default:
+    return 1;
+  }
+}
+
+/**
+ * Collapse per-condition progress into a single progress/goal pair
+ */
+export function summarizeProgress(
+  conditions: ReadonlyArray<UnlockCondition>,
+  progress: ReadonlyArray<ConditionProgress> = []
+): { current: number; goal: number } {
+  const [condition] = conditions;
+  if (conditions.length === 1 && condition) {
+    const goal = getConditionTarget(condition);
+    return { current: Math.min(progress[0]?.currentValue ?? 0, goal), goal };
+  }
+
+  return {
+    current: progress.filter(p => p.isMet).length,
+    goal: conditions.length
+  };
+}
+
+/**
+ * Human readable summary of a condition
+ */
+export function describeCondition(condition: UnlockCondition): string {
+  if (condition.description) {
+    return condition.description;
+  }
+
+  const params = condition.parameters;
+  const target = getConditionTarget(condition);
+
+  switch (condition.type) {
+  case UnlockConditionType.ACTIVITY_COUNT: {
+    const activity = params.activityType ? `${params.activityType.replace(/_/g, ' ')} activit` : 'activit';
+    return `Log ${target} ${activity}${target === 1 ? 'y' : 'ies'}`;
+  }
+  case UnlockConditionType.XP_THRESHOLD:
+    return params.xpTimeframe !== undefined
+      ? `Earn ${target} XP within ${formatDuration(params.xpTimeframe)}`
+      : `Reach ${target} total XP`;
+  case UnlockConditionType.LEVEL_REACHED:
+    return `Reach level ${target}`;
+  case UnlockConditionType.STREAK_DAYS:
+    return `Keep a ${target} day streak`;
+  case UnlockConditionType.TIME_BASED: {
+    const parts: string[] = [];
+    if (params.timeOfDay) parts.push(`between ${params.timeOfDay.start} and ${params.timeOfDay.end}`);
+    if (params.dayOfWeek) parts.push(`on ${params.dayOfWeek.map(day => DAY_NAMES[day] ?? day).join('/')}`);
+    if (params.specificDate) parts.push(`on ${params.specificDate.toISOString().slice(0, 10)}`);
+    return `Be active ${parts.join(' ') || 'at the right time'}`;
+  }
+  case UnlockConditionType.SPECIFIC_ACTION:
+    return `Run ${params.action ?? 'an action'}${params.actionTarget ? ` on ${params.actionTarget}` : ''} ${target} time${target === 1 ? '' : 's'}`;
+  case UnlockConditionType.COMBINATION:
+    return params.requireAll === false ? 'Any of the following' : 'All of the following';
+  case UnlockConditionType.HIDDEN:
+    return '???';
+  default:
+    return 'Unlocked manually';
+  }
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Check the local time against a time-based condition, windows may wrap past midnight
+ */
+function matchesTime(params: UnlockConditionParameters, now: Date, timeZone: string): boolean {
+  const local = getZonedDate(now, timeZone);
+  if (params.dayOfWeek && !params.dayOfWeek.includes(local.weekday)) {
+    return false;
+  }
+
+  // A date without a time parses as UTC midnight, so its UTC date is the one meant
+  if (params.specificDate && params.specificDate.toISOString().slice(0, 10) !== toDateKey(now, timeZone)) {
+    return false;
+  }
+
+  if (params.timeOfDay) {
+    const minutes = local.hour * 60 + local.minute;
+    const start = toMinutes(params.timeOfDay.start);
+    const end = toMinutes(params.timeOfDay.end);
+    const inWindow = start <= end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+    if (!inWindow) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function toMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds % 86400 === 0) return `${seconds / 86400} day${seconds === 86400 ? '' : 's'}`;
+  if (seconds % 3600 === 0) return `${seconds / 3600} hour${seconds === 3600 ? '' : 's'}`;
+  return `${Math.round(seconds / 60)} minutes`;
+}
+
+/**
+ * Turn a validated condition into an UnlockCondition, dropping absent fields
+ */
+function toCondition(value: unknown): UnlockCondition {
+  const raw = value as UnlockCondition & { parameters: Record<string, unknown> };
+  const parameters: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(raw.parameters)) {
+    if (entry !== undefined) {
+      parameters[key] = key === 'subConditions' ? (entry as unknown[]).map(toCondition) : entry;
+    }
+  }
+
+  return {
+    type: raw.type,
+    parameters: parameters as UnlockConditionParameters,
+    ...(raw.description !== undefined ? { description: raw.description } : {}),
+    ...(raw.required !== undefined ? { required: raw.required } : {})
+  };
+}
+
+function formatError(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return error.issues
+      .map(issue => `${issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''}${issue.message}`)
+      .join('; ');
+  }
+  return error instanceof Error ? error.message : String(error);
+}
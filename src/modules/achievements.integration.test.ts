@@ -0,0 +1,290 @@
+/**
+ * Integration tests for achievement persistence
+ */
+
+import { describe, test, expect, jest, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createTestUser, useTempHome } from '../test-utils/temp-home';
+
+type AchievementsModule = typeof import('./achievements');
+type DatabaseModule = typeof import('./database');
+
+describe('AchievementManager persistence', () => {
+  const testDir = useTempHome('achievements');
+  let achievementManager: AchievementsModule['achievementManager'];
+  let database: DatabaseModule['database'];
+  let userId: string;
+
+  beforeAll(async () => {
+    // Custom definitions are read from the default achievements.definitionsPath
+    const definitionsDir = path.join(testDir, '.config', 'devxp', 'achievements');
+    await fs.mkdir(definitionsDir, { recursive: true });
+    await fs.writeFile(path.join(definitionsDir, 'team.yaml'), [
+      '- id: team_tester',
+      '  name: Team Tester',
+      '  description: Run the tests twice, with npm or at level 50',
+      '  xpReward: 75',
+      '  unlockConditions:',
+      '    - type: activity_count',
+      '      parameters: { activityType: code_test, activityCount: 2 }',
+      '    - type: combination',
+      '      parameters:',
+      '        requireAll: false',
+      '        subConditions:',
+      '          - type: level_reached',
+      '            parameters: { level: 50 }',
+      '          - type: specific_action',
+      '            parameters: { action: npm }',
+      '- id: daily_builder',
+      '  name: Daily Builder',
+      '  rarity: rare',
+      '  isRepeatable: true',
+      '  maxRepetitions: 2',
+      '  unlockConditions:',
+      '    - type: activity_count',
+      '      parameters: { activityType: code_build, activityCount: 1 }',
+      '- id: steady_streak',
+      '  name: Steady Streak',
+      '  isRepeatable: true',
+      '  unlockConditions:',
+      '    - type: streak_days',
+      '      parameters: { streakDays: 3 }',
+      '- id: last_season',
+      '  name: Last Season',
+      '  expirationDate: 2020-01-01',
+      '  unlockConditions:',
+      '    - type: manual'
+    ].join('\n'));
+
+    ({ achievementManager } = await import('./achievements'));
+    ({ database } = await import('./database'));
+  });
+
+  beforeEach(async () => {
+    await database.initialize();
+    userId = (await createTestUser(database)).id;
+    await achievementManager.loadForUser(userId);
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  test('should persist unlocks across loads', async () => {
+    await achievementManager.checkAllAchievements({ gitCommitCount: 1, sessionDuration: 60 });
+
+    await achievementManager.loadForUser(userId);
+    const firstCommit = achievementManager.getAchievement('git_commit_1');
+
+    expect(firstCommit?.unlocked).toBe(true);
+    expect(firstCommit?.timesEarned).toBe(1);
+    expect(firstCommit?.unlockTimestamp).toBeDefined();
+  });
+
+  test('should only judge session length once the session has ended', async () => {
+    // The first commit's session is still going, so there is no length yet
+    await achievementManager.checkAllAchievements({ gitCommitCount: 1 });
+    expect(achievementManager.getAchievement('speed_quick_session')?.unlocked).toBe(false);
+
+    await achievementManager.checkAllAchievements({ gitCommitCount: 2, sessionDuration: 20, sessionCommitCount: 1 });
+    expect(achievementManager.getAchievement('speed_quick_session')?.unlocked).toBe(true);
+  });
+
+  test('should not unlock the same achievement twice', async () => {
+    await achievementManager.checkAllAchievements({ gitCommitCount: 1, sessionDuration: 60 });
+    await achievementManager.loadForUser(userId);
+    await achievementManager.checkAllAchievements({ gitCommitCount: 2, sessionDuration: 60 });
+
+    const unlocks = await database.getUserAchievements(userId);
+    expect(unlocks.filter(a => a.type === 'git_commit_1')).toHaveLength(1);
+  });
+
+  test('should write unlock rewards to xp history', async () => {
+    await achievementManager.checkAllAchievements({ gitCommitCount: 1, sessionDuration: 60 });
+
+    const history = await database.getUserXpHistory(userId);
+    const entry = history.find(h => h.reason === 'Achievement unlocked: First Commit');
+    const user = await database.getUser(userId);
+
+    expect(entry).toBeDefined();
+    expect(entry?.achievementId).toBeDefined();
+    expect(entry?.xpChange).toBeGreaterThan(0);
+    expect(user?.totalXp).toBeGreaterThanOrEqual(entry?.xpChange ?? 0);
+  });
+
+  test('should print nothing for unlocks when quiet', async () => {
+    const printed: unknown[][] = [];
+    const log = jest.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      printed.push(args);
+    });
+    try {
+      achievementManager.setQuiet(true);
+      await achievementManager.checkAllAchievements({ gitCommitCount: 1, sessionDuration: 60 });
+    } finally {
+      achievementManager.setQuiet(false);
+      log.mockRestore();
+    }
+
+    expect(achievementManager.getAchievement('git_commit_1')?.unlocked).toBe(true);
+    expect(printed).toEqual([]);
+  });
+
+  test('should persist progress towards locked achievements', async () => {
+    await achievementManager.checkAllAchievements({ gitCommitCount: 4, sessionDuration: 60 });
+
+    await achievementManager.loadForUser(userId);
+    const apprentice = achievementManager.getAchievement('git_commit_10');
+
+    expect(apprentice?.unlocked).toBe(false);
+    expect(apprentice?.progress).toBe(4);
+  });
+
+  test('should evaluate custom definitions against stored activities', async () => {
+    const runTests = () => database.createActivity({
+      userId,
+      type: 'code_test',
+      description: 'Ran npm',
+      xpEarned: 10,
+      metadata: JSON.stringify({ command: 'npm' }),
+      timestamp: new Date().toISOString()
+    });
+
+    await runTests();
+    await achievementManager.checkAllAchievements({});
+    await achievementManager.loadForUser(userId);
+
+    const inProgress = achievementManager.getAchievement('team_tester');
+    expect(inProgress?.unlocked).toBe(false);
+    expect(inProgress?.progress).toBe(1);
+    expect(inProgress?.conditionProgress).toEqual([
+      { conditionIndex: 0, isMet: false, currentValue: 1, targetValue: 2 },
+      expect.objectContaining({ conditionIndex: 1, isMet: true })
+    ]);
+
+    await runTests();
+    expect(await achievementManager.checkAllAchievements({})).toBeGreaterThanOrEqual(1);
+
+    const unlocks = await database.getUserAchievements(userId);
+    expect(unlocks.find(a => a.type === 'team_tester')?.xpReward).toBe(75);
+  });
+
+  test('should earn repeatable achievements once a day up to the limit', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const start = Date.now();
+    const build = (timestamp: number) => database.createActivity({
+      userId,
+      type: 'code_build',
+      description: 'Ran build',
+      xpEarned: 10,
+      metadata: '{}',
+      timestamp: new Date(timestamp).toISOString()
+    });
+    const clock = jest.spyOn(Date, 'now');
+
+    try {
+      await build(start);
+      await achievementManager.checkAllAchievements({});
+      await build(start + 1000);
+      await achievementManager.checkAllAchievements({});
+      expect(achievementManager.getAchievement('daily_builder')?.timesEarned).toBe(1);
+
+      clock.mockReturnValue(start + day);
+      await achievementManager.checkAllAchievements({});
+      await build(start + day + 1000);
+      clock.mockReturnValue(start + day + 2000);
+      await achievementManager.checkAllAchievements({});
+
+      clock.mockReturnValue(start + 2 * day);
+      await build(start + 2 * day + 1000);
+      clock.mockReturnValue(start + 3 * day);
+      await achievementManager.checkAllAchievements({});
+    } finally {
+      clock.mockRestore();
+    }
+
+    await achievementManager.loadForUser(userId);
+    const builder = achievementManager.getAchievement('daily_builder');
+    const unlocks = await database.getUserAchievements(userId);
+
+    expect(builder?.timesEarned).toBe(2);
+    expect(builder?.rarity).toBe('rare');
+    expect(unlocks.filter(a => a.type === 'daily_builder').map(a => a.xpReward)).toEqual([250, 250]);
+  });
+
+  test('should start a new day for repeatable achievements in the configured timezone', async () => {
+    const { defaultConfigManager } = await import('./config');
+    const timezone = defaultConfigManager.getConfig().timezone;
+    defaultConfigManager.set('timezone', 'Pacific/Auckland');
+    const clock = jest.spyOn(Date, 'now');
+    const build = (timestamp: string) => database.createActivity({
+      userId,
+      type: 'code_build',
+      description: 'Ran build',
+      xpEarned: 10,
+      metadata: '{}',
+      timestamp
+    });
+
+    try {
+      // 22:00 and then 01:00 the next day in Auckland, the same day in UTC
+      clock.mockReturnValue(Date.parse('2025-06-10T10:00:00Z'));
+      await build('2025-06-10T10:00:00Z');
+      await achievementManager.checkAllAchievements({});
+
+      clock.mockReturnValue(Date.parse('2025-06-10T13:00:00Z'));
+      await build('2025-06-10T12:30:00Z');
+      await achievementManager.checkAllAchievements({});
+    } finally {
+      clock.mockRestore();
+      defaultConfigManager.set('timezone', timezone);
+    }
+
+    expect(achievementManager.getAchievement('daily_builder')?.timesEarned).toBe(2);
+  });
+
+  test('should earn a repeatable streak achievement again only for new streak days', async () => {
+    const { streakManager } = await import('./streaks');
+    const clock = jest.spyOn(Date, 'now');
+    const activeOn = async (...days: string[]) => {
+      for (const day of days) {
+        await streakManager.recordActivity(userId, new Date(`${day}T12:00:00Z`));
+      }
+    };
+    const checkOn = async (day: string) => {
+      clock.mockReturnValue(Date.parse(`${day}T18:00:00Z`));
+      await achievementManager.checkAllAchievements({});
+      return achievementManager.getAchievement('steady_streak')?.timesEarned;
+    };
+
+    try {
+      await activeOn('2025-06-09', '2025-06-10', '2025-06-11');
+      expect(await checkOn('2025-06-11')).toBe(1);
+
+      // A day later the streak is still 3 days long, but none of them are new
+      expect(await checkOn('2025-06-12')).toBe(1);
+
+      await activeOn('2025-06-12', '2025-06-13');
+      expect(await checkOn('2025-06-13')).toBe(1);
+      await activeOn('2025-06-14');
+      expect(await checkOn('2025-06-14')).toBe(2);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  test('should hide expired seasonal achievements that were never earned', () => {
+    expect(achievementManager.getAchievement('last_season')).toBeDefined();
+    expect(achievementManager.getAchievements().some(a => a.id === 'last_season')).toBe(false);
+  });
+
+  test('should clear saved state on reset', async () => {
+    await achievementManager.checkAllAchievements({ gitCommitCount: 1, sessionDuration: 60 });
+    await achievementManager.resetAllAchievements();
+
+    await achievementManager.loadForUser(userId);
+
+    expect(achievementManager.getAchievement('git_commit_1')?.unlocked).toBe(false);
+    expect(await database.getUserAchievements(userId)).toHaveLength(0);
+  });
+});
@@ -5,6 +5,20 @@
 // Achievement system for DevXP CLI
 // Tracks user progress and gamifies the terminal experience
 
+import { database } from './database';
+import { emit } from './events';
+import { defaultConfigManager } from './config';
+import {
+  AchievementDefinition,
+  ConditionDataSource,
+  evaluateConditions,
+  loadAchievementDefinitions,
+  summarizeProgress
+} from './achievement-engine';
+import { AchievementRarity } from '../types/Achievement';
+import type { ConditionProgress, UnlockCondition } from '../types/Achievement';
+import { getDateKeyDistance, resolveTimeZone, toDateKey } from '../utils/time';
+
 // 1. Achievement Categories
 export enum AchievementCategory {
   GIT_MASTER = 'Git Master',
@@ -14,6 +28,7 @@ export enum AchievementCategory {
   PRODUCTIVITY = 'Productivity',
   EXPLORER = 'Explorer',
   SPEEDRUNNER = 'Speedrunner',
+  CUSTOM = 'Custom',
 }
 
 // 2. Achievement Definition
@@ -26,7 +41,15 @@ export interface Achievement {
   unlockTimestamp?: number;
   progress: number; // Current progress
   goal: number;     // Goal for multi-step achievements
+  timesEarned: number;
   hidden: boolean;
+  rarity: AchievementRarity;
+  isRepeatable: boolean;
+  maxRepetitions?: number;
+  expirationDate?: number; // Seasonal achievements can't be earned after this timestamp
+  xpReward?: number; // Base reward before the rarity multiplier
+  unlockConditions?: UnlockCondition[]; // Set for achievements loaded from definition files
+  conditionProgress?: ConditionProgress[];
   checkCondition: (context: AchievementContext) => boolean;
 }
 
@@ -39,7 +62,8 @@ export interface AchievementContext {
   totalCommands?: number;
   uniqueCommands?: number;
   commandHistory?: string[];
-  sessionDuration?: number; // in minutes
+  sessionDuration?: number; // in minutes, set once a session has ended
+  sessionCommitCount?: number; // commits in that session
   filesCreated?: number;
   filesModified?: number;
   linesOfCode?: number;
@@ -53,6 +77,9 @@ export interface AchievementContext {
 // 3. Special achievements and milestones
 const achievements: Map<string, Achievement> = new Map();
 
+// Base XP for an achievement, scaled by the configured rarity multiplier
+const BASE_ACHIEVEMENT_XP = 50;
+
 function defineAchievement(
   id: string,
   name: string,
@@ -70,11 +97,23 @@ function defineAchievement(
     unlocked: false,
     progress: 0,
     goal,
+    timesEarned: 0,
     hidden,
+    rarity: deriveRarity(goal, hidden),
+    isRepeatable: false,
     checkCondition,
   });
 }
 
+// Rarity of achievements that don't declare one follows their goal
+function deriveRarity(goal: number, hidden: boolean): AchievementRarity {
+  if (hidden) return AchievementRarity.LEGENDARY;
+  if (goal >= 1000) return AchievementRarity.EPIC;
+  if (goal >= 100) return AchievementRarity.RARE;
+  if (goal >= 10) return AchievementRarity.UNCOMMON;
+  return AchievementRarity.COMMON;
+}
+
 // --- Achievement Definitions ---
 
 // Git Master Achievements
@@ -271,8 +310,9 @@ defineAchievement(
   AchievementCategory.SPEEDRUNNER,
   1,
   (ctx) => {
-    return (ctx.sessionDuration || 0) < 30 && 
-           (ctx.gitCommitCount || 0) >= 1;
+    return ctx.sessionDuration !== undefined &&
+           ctx.sessionDuration < 30 &&
+           (ctx.sessionCommitCount || 0) >= 1;
   }
 );
 
@@ -336,7 +376,7 @@ defineAchievement(
   1,
   (ctx) => {
     // Check if custom metrics contain the konami code sequence
-    return ctx.customMetrics?.konamiCode === true;
+    return ctx.customMetrics?.['konamiCode'] === true;
   },
   true
 );
@@ -367,40 +407,181 @@ defineAchievement(
   true
 );
 
+// Register an achievement loaded from a definition file
+function defineFromDefinition(definition: AchievementDefinition): boolean {
+  if (achievements.has(definition.id)) return false;
+
+  const goal = summarizeProgress(definition.unlockConditions).goal;
+  achievements.set(definition.id, {
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    category: resolveCategory(definition.category),
+    unlocked: false,
+    progress: 0,
+    goal,
+    timesEarned: 0,
+    hidden: definition.hidden,
+    rarity: definition.rarity ?? deriveRarity(goal, definition.hidden),
+    isRepeatable: definition.isRepeatable,
+    ...(definition.maxRepetitions !== undefined ? { maxRepetitions: definition.maxRepetitions } : {}),
+    ...(definition.expirationDate ? { expirationDate: definition.expirationDate.getTime() } : {}),
+    ...(definition.xpReward !== undefined ? { xpReward: definition.xpReward } : {}),
+    unlockConditions: definition.unlockConditions,
+    // Conditions need stored data, the manager evaluates them instead
+    checkCondition: () => false,
+  });
+  return true;
+}
+
+// Match a category by name ('git_master', 'Git Master'), defaulting to Custom
+function resolveCategory(name: string | undefined): AchievementCategory {
+  const normalize = (value: string) => value.toLowerCase().replace(/[\s_-]/g, '');
+  const wanted = normalize(name ?? '');
+  const match = Object.entries(AchievementCategory)
+    .find(([key, value]) => normalize(key) === wanted || normalize(value) === wanted);
+  return match ? match[1] : AchievementCategory.CUSTOM;
+}
+
+// Stored activity data for a user, as read by declarative conditions
+function createConditionSource(userId: string): ConditionDataSource {
+  return {
+    countActivities: (query) => database.countActivities(userId, {
+      ...(query.types ? { types: query.types } : {}),
+      ...(query.since ? { since: query.since.toISOString() } : {}),
+      ...(query.command !== undefined ? { command: query.command } : {}),
+      ...(query.descriptionContains !== undefined ? { descriptionContains: query.descriptionContains } : {}),
+    }),
+    getXpEarnedSince: (since) => database.getXpEarnedSince(userId, since.toISOString()),
+    getProfile: async () => {
+      const user = await database.getUser(userId);
+      return { totalXp: user?.totalXp ?? 0, level: user?.level ?? 1, streak: user?.streak ?? 0 };
+    },
+    getProfileSince: async (since) => {
+      const user = await database.getUser(userId);
+      const streak = await database.getStreak(userId);
+      const earned = await database.getXpEarnedSince(userId, since.toISOString());
+      const levelBefore = defaultConfigManager.getLevelFromXP(Math.max(0, (user?.totalXp ?? 0) - earned)).level;
+
+      // Only the streak days after the day of `since` count
+      const timeZone = resolveTimeZone(defaultConfigManager.getConfig().timezone);
+      const streakDays = streak?.lastStreakDate
+        ? Math.min(streak.currentStreak, Math.max(0, getDateKeyDistance(toDateKey(since, timeZone), streak.lastStreakDate)))
+        : 0;
+
+      return { levelsGained: Math.max(0, (user?.level ?? 1) - levelBefore), streakDays };
+    },
+  };
+}
+
 // 4. Achievement unlocking and progress tracking logic
 class AchievementManager {
   private userAchievements: Map<string, Omit<Achievement, 'checkCondition'>> = new Map();
+  private userId: string | null = null;
+  private dirtyAchievements: Set<string> = new Set();
+  private definitionsLoaded = false;
+  private definitionErrors: string[] = [];
+  private quiet = false;
 
   constructor() {
-    // Here you would load user's saved achievements
-    // For now, we'll initialize from the base definitions
+    // Start from the base definitions until a user's saved state is loaded
     this.initializeAchievements();
   }
 
   private initializeAchievements() {
-    achievements.forEach(ach => {
-      this.userAchievements.set(ach.id, {
-        id: ach.id,
-        name: ach.name,
-        description: ach.description,
-        category: ach.category,
-        unlocked: false,
-        progress: 0,
-        goal: ach.goal,
-        hidden: ach.hidden,
-      });
+    this.userAchievements.clear();
+    this.dirtyAchievements.clear();
+    achievements.forEach(ach => this.addUserAchievement(ach));
+  }
+
+  private addUserAchievement(ach: Achievement) {
+    this.userAchievements.set(ach.id, {
+      id: ach.id,
+      name: ach.name,
+      description: ach.description,
+      category: ach.category,
+      unlocked: false,
+      progress: 0,
+      goal: ach.goal,
+      timesEarned: 0,
+      hidden: ach.hidden,
+      rarity: ach.rarity,
+      isRepeatable: ach.isRepeatable,
+      ...(ach.maxRepetitions !== undefined ? { maxRepetitions: ach.maxRepetitions } : {}),
+      ...(ach.expirationDate !== undefined ? { expirationDate: ach.expirationDate } : {}),
+      ...(ach.xpReward !== undefined ? { xpReward: ach.xpReward } : {}),
+      ...(ach.unlockConditions ? { unlockConditions: ach.unlockConditions } : {}),
     });
   }
 
+  // Register the custom achievements found at achievements.definitionsPath (once per process)
+  loadDefinitions(): string[] {
+    if (this.definitionsLoaded) return this.definitionErrors;
+    this.definitionsLoaded = true;
+
+    const { definitions, errors } = loadAchievementDefinitions(defaultConfigManager.getAchievementDefinitionsPath());
+    this.definitionErrors = errors;
+
+    for (const definition of definitions) {
+      if (!defineFromDefinition(definition)) {
+        this.definitionErrors.push(`${definition.source}: Achievement id '${definition.id}' is already taken`);
+        continue;
+      }
+      const registered = achievements.get(definition.id);
+      if (registered) this.addUserAchievement(registered);
+    }
+
+    return this.definitionErrors;
+  }
+
+  getDefinitionErrors(): string[] {
+    return [...this.definitionErrors];
+  }
+
+  // Suppress console output, e.g. while tracking from hooks
+  setQuiet(quiet: boolean) {
+    this.quiet = quiet;
+  }
+
+  // Load a user's saved unlocks and progress from the database
+  async loadForUser(userId: string): Promise<void> {
+    this.userId = userId;
+    this.notifications = [];
+    this.loadDefinitions();
+    this.initializeAchievements();
+
+    const savedProgress = await database.getUserAchievementProgress(userId);
+    for (const saved of savedProgress) {
+      const achievement = this.userAchievements.get(saved.achievementId);
+      if (!achievement) continue; // Definition no longer exists
+
+      achievement.progress = Math.min(saved.currentProgress, achievement.goal);
+      achievement.timesEarned = saved.timesEarned;
+      if (saved.unlockedAt) {
+        achievement.unlocked = true;
+        achievement.unlockTimestamp = Date.parse(saved.unlockedAt);
+      }
+      if (saved.conditionProgress) {
+        try {
+          achievement.conditionProgress = JSON.parse(saved.conditionProgress);
+        } catch {
+          // Recomputed on the next check
+        }
+      }
+    }
+  }
+
   // 6. Progress tracking for multi-step achievements
   updateProgress(achievementId: string, progress: number) {
     const achievement = this.userAchievements.get(achievementId);
-    if (achievement && !achievement.unlocked) {
+    if (achievement && (!achievement.unlocked || achievement.isRepeatable)) {
       const oldProgress = achievement.progress;
       achievement.progress = Math.min(progress, achievement.goal);
       
       // Only log if progress actually changed
       if (oldProgress !== achievement.progress) {
+        this.dirtyAchievements.add(achievementId);
+        if (this.quiet) return;
         console.log(`Achievement progress for '${achievement.name}': ${achievement.progress}/${achievement.goal}`);
         
         // Check if we should show a progress notification
@@ -424,30 +605,57 @@ class AchievementManager {
   }
 
   // 5. Achievement notification system
-  private notify(achievement: Achievement) {
+  private notify(achievement: Achievement, timesEarned: number) {
+    // Store notification for later retrieval
+    this.storeNotification(achievement);
+    if (this.quiet) return;
+
     const rarity = this.getAchievementRarity(achievement);
     const emoji = this.getAchievementEmoji(achievement.category);
     
     // Enhanced notification with rarity and category-specific emoji
-    console.log(`\n${emoji} Achievement Unlocked! ${emoji}`);
-    console.log(`[${rarity}] ${achievement.name}`);
+    console.log(`\n${emoji} Achievement ${timesEarned > 1 ? `Earned Again (×${timesEarned})` : 'Unlocked'}! ${emoji}`);
+    console.log(`[${rarity}] ${achievement.name} (+${this.getXpReward(achievement)} XP)`);
     console.log(`Category: ${achievement.category}`);
     console.log(`${achievement.description}`);
     console.log(`Unlocked at: ${new Date().toLocaleString()}\n`);
     
-    // Store notification for later retrieval
-    this.storeNotification(achievement);
-    
     // In a real app, this would trigger a UI notification
     // eventEmitter.emit('achievement_unlocked', achievement);
   }
 
   private getAchievementRarity(achievement: Achievement): string {
-    if (achievement.hidden) return '🌟 LEGENDARY';
-    if (achievement.goal >= 1000) return '💎 EPIC';
-    if (achievement.goal >= 100) return '💜 RARE';
-    if (achievement.goal >= 10) return '💚 UNCOMMON';
-    return '⚪ COMMON';
+    const labels: Record<AchievementRarity, string> = {
+      [AchievementRarity.LEGENDARY]: '🌟 LEGENDARY',
+      [AchievementRarity.EPIC]: '💎 EPIC',
+      [AchievementRarity.RARE]: '💜 RARE',
+      [AchievementRarity.UNCOMMON]: '💚 UNCOMMON',
+      [AchievementRarity.COMMON]: '⚪ COMMON',
+    };
+    return labels[achievement.rarity];
+  }
+
+  // Base reward scaled by the configured rarity multiplier
+  getXpReward(achievement: Pick<Achievement, 'rarity' | 'xpReward'>): number {
+    const multipliers = defaultConfigManager.getConfig().achievements.rarityMultipliers;
+    return Math.round((achievement.xpReward ?? BASE_ACHIEVEMENT_XP) * (multipliers[achievement.rarity] ?? 1));
+  }
+
+  // Seasonal achievements can't be earned after their expiration date
+  isExpired(achievement: Pick<Achievement, 'expirationDate'>, now = Date.now()): boolean {
+    return achievement.expirationDate !== undefined && now > achievement.expirationDate;
+  }
+
+  // Whether the achievement can be earned (again) right now
+  private canEarn(achievement: Omit<Achievement, 'checkCondition'>, now: number): boolean {
+    if (this.isExpired(achievement, now)) return false;
+    if (!achievement.unlocked) return true;
+    if (!achievement.isRepeatable) return false;
+    if (achievement.maxRepetitions !== undefined && achievement.timesEarned >= achievement.maxRepetitions) return false;
+
+    // Repeatable achievements are earned at most once a day, in the configured timezone
+    const timeZone = resolveTimeZone(defaultConfigManager.getConfig().timezone);
+    return toDateKey(new Date(achievement.unlockTimestamp ?? 0), timeZone) !== toDateKey(new Date(now), timeZone);
   }
 
   private getAchievementEmoji(category: AchievementCategory): string {
@@ -459,6 +667,7 @@ class AchievementManager {
       [AchievementCategory.PRODUCTIVITY]: '📈',
       [AchievementCategory.EXPLORER]: '🗺️',
       [AchievementCategory.SPEEDRUNNER]: '⚡',
+      [AchievementCategory.CUSTOM]: '🏅',
     };
     return emojiMap[category] || '🎉';
   }
@@ -478,36 +687,83 @@ class AchievementManager {
   }
 
   // Check all achievements against the current context
-  checkAllAchievements(context: AchievementContext): number {
+  async checkAllAchievements(context: AchievementContext): Promise<number> {
     let unlockedCount = 0;
+    const now = Date.now();
+    const source = this.userId ? createConditionSource(this.userId) : null;
     
-    achievements.forEach(achievementDef => {
+    for (const achievementDef of achievements.values()) {
       const userAchievement = this.userAchievements.get(achievementDef.id);
 
-      if (userAchievement && !userAchievement.unlocked) {
-        // Update progress for various achievement types
-        this.updateProgressFromContext(achievementDef, context);
+      if (userAchievement && this.canEarn(userAchievement, now)) {
+        let conditionMet: boolean;
+        if (achievementDef.unlockConditions) {
+          // Declarative achievements are evaluated against the stored activity data
+          conditionMet = source ? await this.evaluateDefinition(achievementDef, userAchievement, source) : false;
+        } else {
+          // Update progress for various achievement types
+          this.updateProgressFromContext(achievementDef, context);
+          conditionMet = achievementDef.checkCondition(context);
+        }
         
         // Check unlock condition
-        if (achievementDef.checkCondition(context)) {
+        if (conditionMet) {
           userAchievement.unlocked = true;
-          userAchievement.unlockTimestamp = Date.now();
-          userAchievement.progress = userAchievement.goal; // Max out progress
-          this.notify(achievementDef);
+          userAchievement.unlockTimestamp = now; // Most recent unlock for repeatable achievements
+          userAchievement.timesEarned++;
+          if (userAchievement.isRepeatable) {
+            // Progress towards the next repetition starts over
+            userAchievement.progress = 0;
+            delete userAchievement.conditionProgress;
+          } else {
+            userAchievement.progress = userAchievement.goal; // Max out progress
+          }
+          this.notify(achievementDef, userAchievement.timesEarned);
           unlockedCount++;
 
-          // Save the updated achievement state
-          this.saveAchievementState(userAchievement);
+          // Record the unlock and its XP reward
+          await this.recordUnlock(achievementDef, userAchievement);
           
           // Check for combo achievements
           this.checkComboAchievements();
         }
       }
-    });
+    }
+
+    // Persist progress made towards locked achievements
+    for (const id of this.dirtyAchievements) {
+      const userAchievement = this.userAchievements.get(id);
+      if (userAchievement) {
+        await this.saveAchievementState(userAchievement);
+      }
+    }
     
     return unlockedCount;
   }
 
+  private async evaluateDefinition(
+    definition: Achievement,
+    achievement: Omit<Achievement, 'checkCondition'>,
+    source: ConditionDataSource
+  ): Promise<boolean> {
+    const conditions = definition.unlockConditions ?? [];
+    // Repeatable achievements only count what happened since they were last earned
+    const evaluation = await evaluateConditions(conditions, source, {
+      timeZone: resolveTimeZone(defaultConfigManager.getConfig().timezone),
+      ...(achievement.unlocked && achievement.unlockTimestamp !== undefined
+        ? { since: new Date(achievement.unlockTimestamp) }
+        : {})
+    });
+
+    if (JSON.stringify(evaluation.progress) !== JSON.stringify(achievement.conditionProgress ?? [])) {
+      achievement.conditionProgress = evaluation.progress;
+      this.dirtyAchievements.add(achievement.id);
+    }
+    this.updateProgress(achievement.id, summarizeProgress(conditions, evaluation.progress).current);
+
+    return evaluation.isMet;
+  }
+
   private updateProgressFromContext(achievement: Achievement, context: AchievementContext) {
     // Git achievements
     if (achievement.id.startsWith('git_commit_') && context.gitCommitCount !== undefined) {
@@ -549,10 +805,51 @@ class AchievementManager {
     }
   }
 
-  private saveAchievementState(achievement: Omit<Achievement, 'checkCondition'>) {
-    // In a real implementation, this would persist to storage
-    // localStorage.setItem(`achievement_${achievement.id}`, JSON.stringify(achievement));
-    console.log(`Saved achievement state for: ${achievement.name}`);
+  private async recordUnlock(definition: Achievement, achievement: Omit<Achievement, 'checkCondition'>) {
+    await this.saveAchievementState(achievement);
+    if (!this.userId) return;
+
+    const xpReward = this.getXpReward(definition);
+    const unlockedAt = new Date(achievement.unlockTimestamp ?? Date.now()).toISOString();
+
+    // Writes the reward to xp_history
+    const record = await database.createAchievement({
+      userId: this.userId,
+      type: achievement.id,
+      name: achievement.name,
+      description: achievement.description,
+      xpReward,
+      unlockedAt,
+      metadata: JSON.stringify({
+        category: achievement.category,
+        rarity: achievement.rarity,
+        timesEarned: achievement.timesEarned
+      })
+    });
+
+    await emit('achievement:unlock', { ...record, category: achievement.category });
+  }
+
+  private async saveAchievementState(achievement: Omit<Achievement, 'checkCondition'>) {
+    this.dirtyAchievements.delete(achievement.id);
+
+    // Without a loaded user, state only lives for this process
+    if (!this.userId) return;
+
+    await database.saveUserAchievementProgress({
+      userId: this.userId,
+      achievementId: achievement.id,
+      currentProgress: achievement.progress,
+      requiredProgress: achievement.goal,
+      timesEarned: achievement.timesEarned,
+      ...(achievement.conditionProgress
+        ? { conditionProgress: JSON.stringify(achievement.conditionProgress) }
+        : {}),
+      ...(achievement.unlockTimestamp !== undefined
+        ? { unlockedAt: new Date(achievement.unlockTimestamp).toISOString() }
+        : {}),
+      lastProgressUpdate: new Date().toISOString()
+    });
   }
 
   private checkComboAchievements() {
@@ -566,14 +863,20 @@ class AchievementManager {
       .filter(a => a.category === AchievementCategory.GIT_MASTER)
       .map(a => a.id);
     
-    if (gitMasterAchievements.every(id => unlockedIds.includes(id))) {
+    if (!this.quiet && gitMasterAchievements.every(id => unlockedIds.includes(id))) {
       console.log('🎊 Special Combo: Git Master Collection Complete!');
     }
   }
 
+  // Expired seasonal achievements disappear unless they were earned
+  private getAvailableAchievements(): Array<Omit<Achievement, 'checkCondition'>> {
+    return Array.from(this.userAchievements.values())
+      .filter(ach => ach.unlocked || !this.isExpired(ach));
+  }
+
   // Getters to expose data to the UI
   getAchievements(includeHidden = false): Achievement[] {
-    return Array.from(this.userAchievements.values())
+    return this.getAvailableAchievements()
       .filter(ach => !ach.hidden || includeHidden)
       .map(userAch => {
         const definition = achievements.get(userAch.id);
@@ -596,7 +899,7 @@ class AchievementManager {
 
   // Get statistics about achievements
   getStatistics() {
-    const allAchievements = Array.from(this.userAchievements.values());
+    const allAchievements = this.getAvailableAchievements();
     const unlocked = allAchievements.filter(a => a.unlocked);
     const byCategory = new Map<AchievementCategory, number>();
     
@@ -618,20 +921,25 @@ class AchievementManager {
     return {
       total: allAchievements.filter(a => !a.hidden).length,
       unlocked: unlocked.length,
+      timesEarned: unlocked.reduce((sum, a) => sum + a.timesEarned, 0),
       percentage: Math.round((unlocked.length / allAchievements.filter(a => !a.hidden).length) * 100),
       byCategory: Object.fromEntries(byCategory),
       totalByCategory: Object.fromEntries(totalByCategory),
-      recentUnlocks: this.notifications.slice(-5).map(n => ({
-        name: n.achievement.name,
-        timestamp: n.timestamp
-      })),
+      recentUnlocks: unlocked
+        .filter(a => a.unlockTimestamp !== undefined)
+        .sort((a, b) => (b.unlockTimestamp ?? 0) - (a.unlockTimestamp ?? 0))
+        .slice(0, 5)
+        .map(a => ({
+          name: a.name,
+          timestamp: a.unlockTimestamp ?? 0
+        })),
       nextToUnlock: this.getNextAchievements(3)
     };
   }
 
   // Get achievements that are close to being unlocked
   private getNextAchievements(count: number): Array<{name: string; progress: number; goal: number}> {
-    return Array.from(this.userAchievements.values())
+    return this.getAvailableAchievements()
       .filter(a => !a.unlocked && !a.hidden && a.progress > 0)
       .sort((a, b) => {
         const aPercent = a.progress / a.goal;
@@ -647,13 +955,13 @@ class AchievementManager {
   }
 
   // Reset all achievements (for testing or user request)
-  resetAllAchievements() {
-    this.userAchievements.forEach((achievement) => {
-      achievement.unlocked = false;
-      achievement.unlockTimestamp = undefined;
-      achievement.progress = 0;
-    });
+  async resetAllAchievements() {
+    this.initializeAchievements();
     this.notifications = [];
+
+    if (this.userId) {
+      await database.deleteUserAchievements(this.userId);
+    }
     console.log('All achievements have been reset.');
   }
 
@@ -665,6 +973,3 @@ class AchievementManager {
 
 export const achievementManager = new AchievementManager();
 
-// Export types for use in other modules
-export type { Achievement, AchievementContext };
-
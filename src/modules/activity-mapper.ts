@@ -0,0 +1,319 @@
+/**
+ * Activity Mapper Module
+ * Turns the payloads sent by git hooks and shell integrations into activities
+ */
+
+import { ActivityType, ActivityMetadata } from '../types/Activity';
+
+/**
+ * Raw payload received by `devxp track`
+ */
+export interface TrackPayload {
+  /** Event name, e.g. `git-commit`, `command` or an ActivityType value */
+  event: string;
+
+  /** Options passed as `--name value` */
+  options: Record<string, string>;
+
+  /** Bare flags such as `--auto` */
+  flags: string[];
+}
+
+/**
+ * Activity resolved from a payload, ready for XP calculation
+ */
+export interface MappedActivity {
+  /** Activity type */
+  type: ActivityType;
+
+  /** Human readable description */
+  description: string;
+
+  /** Metadata persisted with the activity */
+  metadata: ActivityMetadata;
+
+  /** Difficulty hint for the XP calculation */
+  difficulty?: 'easy' | 'medium' | 'hard' | 'expert';
+
+  /** Key used to avoid recording the same event twice (e.g. a commit hash) */
+  dedupeKey?: string;
+}
+
+/**
+ * Flags that never take a value
+ */
+const BARE_FLAGS = new Set(['auto', 'quiet', 'json', 'dry-run']);
+
+/**
+ * Legacy `--type` names used by the hooks written by `devxp install`
+ */
+const LEGACY_TYPES: Record<string, string> = {
+  commit: 'git-commit',
+  merge: 'git-merge',
+  checkout: 'git-checkout',
+  push: 'git-push',
+  command: 'command',
+  cd: 'cd'
+};
+
+/**
+ * Events understood in addition to the raw ActivityType values
+ */
+const EVENT_TYPES: Record<string, ActivityType> = {
+  'git-commit': ActivityType.GIT_COMMIT,
+  'git-merge': ActivityType.GIT_MERGE,
+  'git-branch-create': ActivityType.GIT_BRANCH_CREATE,
+  'git-checkout': ActivityType.GIT_CHECKOUT,
+  'git-push': ActivityType.GIT_PUSH
+};
+
+/**
+ * Shell command patterns, first match wins
+ */
+const COMMAND_RULES: Array<{ pattern: RegExp; type: ActivityType }> = [
+  { pattern: /^(npm|yarn|pnpm|bun)\s+(run\s+)?test\b|^(jest|vitest|mocha|pytest|rspec)\b|^(go|cargo)\s+test\b/, type: ActivityType.CODE_TEST },
+  { pattern: /^(npm|yarn|pnpm|bun)\s+(run\s+)?lint\b|^(eslint|pylint|flake8|rubocop|golangci-lint)\b/, type: ActivityType.CODE_LINT },
+  { pattern: /^(npm|yarn|pnpm|bun)\s+(run\s+)?format\b|^(prettier|black|gofmt|rustfmt)\b/, type: ActivityType.CODE_FORMAT },
+  { pattern: /^(npm|yarn|pnpm|bun)\s+(run\s+)?build\b|^(make|cmake|gradle|mvn|webpack|vite)\b|^(go|cargo)\s+build\b/, type: ActivityType.CODE_BUILD },
+  { pattern: /^(tsc|javac|gcc|g\+\+|clang|rustc)\b/, type: ActivityType.CODE_COMPILE },
+  { pattern: /^(gdb|lldb|pdb|dlv)\b/, type: ActivityType.CODE_DEBUG },
+  { pattern: /^(npm|yarn|pnpm|bun)\s+(install|i|add|ci)\b|^pip3?\s+install\b|^brew\s+install\b|^cargo\s+add\b/, type: ActivityType.PACKAGE_INSTALL },
+  { pattern: /^(npm|yarn|pnpm|bun)\s+(update|upgrade|up)\b|^brew\s+upgrade\b/, type: ActivityType.PACKAGE_UPDATE },
+  { pattern: /^(npm|yarn|pnpm|cargo)\s+publish\b/, type: ActivityType.PACKAGE_PUBLISH },
+  { pattern: /^docker\s+build\b/, type: ActivityType.DOCKER_BUILD },
+  { pattern: /^docker(-compose|\s+compose)\b/, type: ActivityType.DOCKER_COMPOSE },
+  { pattern: /^docker\s+run\b/, type: ActivityType.DOCKER_RUN },
+  { pattern: /^(psql|mysql|sqlite3|mongosh|redis-cli)\b/, type: ActivityType.DATABASE_QUERY },
+  { pattern: /\|/, type: ActivityType.TERMINAL_PIPE },
+  { pattern: /^(\.\/|(bash|sh|zsh)\s+)\S+/, type: ActivityType.TERMINAL_SCRIPT }
+];
+
+/**
+ * Commands that are already tracked elsewhere (git hooks) or are our own
+ */
+const IGNORED_COMMANDS = /^(git|devxp)\b/;
+
+/**
+ * Parse `devxp track` arguments into a payload
+ */
+export function parseTrackArgs(args: ReadonlyArray<string>): TrackPayload {
+  const options: Record<string, string> = {};
+  const flags: string[] = [];
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? '';
+
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const [rawName, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    const name = rawName ?? '';
+    const next = args[i + 1];
+
+    if (inlineValue !== undefined) {
+      options[name] = inlineValue;
+    } else if (!BARE_FLAGS.has(name) && next !== undefined && !next.startsWith('--')) {
+      options[name] = next;
+      i++;
+    } else {
+      flags.push(name);
+    }
+  }
+
+  const legacyType = options['type'];
+  const event = positional[0]
+    ?? (legacyType !== undefined ? LEGACY_TYPES[legacyType] ?? legacyType : '');
+
+  return { event, options, flags };
+}
+
+/**
+ * Map a payload onto an activity
+ * @returns The mapped activity, or null when the event earns nothing
+ */
+export function mapTrackPayload(payload: TrackPayload): MappedActivity | null {
+  const { event, options } = payload;
+
+  if (!event) {
+    throw new Error('No activity given. Usage: devxp track <activity> [options]');
+  }
+
+  switch (event) {
+  case 'cd':
+    // Directory changes are only used for context, never rewarded
+    return null;
+
+  case 'command':
+    return options['cmd'] !== undefined
+      ? mapShellCommand(options['cmd'], parseInteger(options['exit-code']), parseNumber(options['duration']))
+      : null;
+
+  case 'git-commit':
+    return mapGitCommit(options);
+
+  case 'git-merge':
+    return {
+      type: ActivityType.GIT_MERGE,
+      description: options['branch'] ? `Merged into ${options['branch']}` : 'Merged changes',
+      metadata: {
+        git: compact({
+          branch: options['branch'],
+          commitHash: options['hash'],
+          commitMessage: firstLine(options['message']),
+          isMergeCommit: true
+        })
+      },
+      ...(options['hash'] ? { dedupeKey: options['hash'] } : {})
+    };
+
+  case 'git-branch-create':
+    return {
+      type: ActivityType.GIT_BRANCH_CREATE,
+      description: options['branch'] ? `Created branch ${options['branch']}` : 'Created a branch',
+      metadata: { git: compact({ branch: options['branch'] }) }
+    };
+
+  case 'git-checkout':
+    return {
+      type: ActivityType.GIT_CHECKOUT,
+      description: options['branch'] ? `Switched to ${options['branch']}` : 'Switched branches',
+      metadata: { git: compact({ branch: options['branch'] }) }
+    };
+
+  case 'git-push': {
+    const commits = parseInteger(options['commits']) ?? 0;
+    return {
+      type: ActivityType.GIT_PUSH,
+      description: `Pushed ${commits} commit${commits === 1 ? '' : 's'}${options['branch'] ? ` to ${options['branch']}` : ''}`,
+      metadata: {
+        linesAffected: commits,
+        git: compact({ branch: options['branch'], remote: options['remote'] })
+      },
+      difficulty: commits >= 20 ? 'hard' : commits >= 5 ? 'medium' : 'easy'
+    };
+  }
+
+  default: {
+    const type = resolveActivityType(event);
+    if (!type) {
+      throw new Error(`Unknown activity: ${event}`);
+    }
+
+    return {
+      type,
+      description: options['description'] ?? type.replace(/_/g, ' '),
+      metadata: compact({ command: options['cmd'] })
+    };
+  }
+  }
+}
+
+/**
+ * Map a command reported by the shell integration
+ * @returns The mapped activity, or null when the command earns nothing
+ */
+export function mapShellCommand(command: string, exitCode?: number, duration?: number): MappedActivity | null {
+  const trimmed = command.trim();
+
+  // Failed commands and commands tracked by git hooks earn nothing
+  if (!trimmed || (exitCode !== undefined && exitCode !== 0) || IGNORED_COMMANDS.test(trimmed)) {
+    return null;
+  }
+
+  const rule = COMMAND_RULES.find(r => r.pattern.test(trimmed));
+  const type = rule ? rule.type : ActivityType.TERMINAL_COMMAND;
+  const baseCommand = trimmed.split(/\s+/)[0] ?? trimmed;
+
+  return {
+    type,
+    description: `Ran ${baseCommand}`,
+    metadata: compact({
+      // Only the base command is stored to keep arguments (paths, secrets) private
+      command: baseCommand,
+      duration,
+      success: true
+    })
+  };
+}
+
+/**
+ * Resolve an ActivityType from its value or a dashed alias (`code-test`)
+ */
+export function resolveActivityType(name: string): ActivityType | undefined {
+  if (EVENT_TYPES[name]) {
+    return EVENT_TYPES[name];
+  }
+
+  const normalized = name.toLowerCase().replace(/-/g, '_');
+  return Object.values(ActivityType).find(type => type === normalized);
+}
+
+/**
+ * Map a commit payload
+ */
+function mapGitCommit(options: Record<string, string>): MappedActivity {
+  const filesChanged = parseInteger(options['files']) ?? 0;
+  const insertions = parseInteger(options['insertions']) ?? 0;
+  const deletions = parseInteger(options['deletions']) ?? 0;
+  const isMerge = options['merge'] === 'true';
+  const linesAffected = insertions + deletions;
+  const subject = firstLine(options['message']);
+
+  return {
+    type: isMerge ? ActivityType.GIT_MERGE : ActivityType.GIT_COMMIT,
+    description: subject ? `Committed: ${subject}` : 'Made a commit',
+    metadata: {
+      linesAffected,
+      git: compact({
+        commitHash: options['hash'],
+        commitMessage: options['message'],
+        filesChanged,
+        insertions,
+        deletions,
+        isMergeCommit: isMerge
+      })
+    },
+    difficulty: commitDifficulty(linesAffected, filesChanged),
+    ...(options['hash'] ? { dedupeKey: options['hash'] } : {})
+  };
+}
+
+/**
+ * Estimate commit difficulty from its size
+ */
+function commitDifficulty(linesAffected: number, filesChanged: number): NonNullable<MappedActivity['difficulty']> {
+  if (linesAffected >= 1000 || filesChanged >= 30) return 'expert';
+  if (linesAffected >= 300 || filesChanged >= 10) return 'hard';
+  if (linesAffected >= 20) return 'medium';
+  return 'easy';
+}
+
+/**
+ * Drop undefined and empty values so optional metadata stays absent
+ */
+function compact<T extends object>(value: T): { [K in keyof T]?: Exclude<T[K], undefined> } {
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry !== undefined && entry !== '') {
+      result[key] = entry;
+    }
+  }
+  return result as { [K in keyof T]?: Exclude<T[K], undefined> };
+}
+
+function firstLine(text: string | undefined): string | undefined {
+  return text?.split('\n')[0]?.trim() || undefined;
+}
+
+function parseInteger(value: string | undefined): number | undefined {
+  const parsed = value === undefined ? NaN : parseInt(value.trim(), 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  const parsed = value === undefined ? NaN : parseFloat(value.trim());
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
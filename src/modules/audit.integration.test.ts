@@ -0,0 +1,64 @@
+/**
+ * Integration tests for the audit log
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import * as sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { AuditLog, isAuditActionFilter } from './audit';
+import { MigrationRunner } from './migrations';
+
+describe('AuditLog', () => {
+  let db: Database<sqlite3.Database, sqlite3.Statement>;
+  let auditLog: AuditLog;
+
+  beforeEach(async () => {
+    db = await open({ filename: ':memory:', driver: sqlite3.Database });
+    await new MigrationRunner(db).up();
+    auditLog = new AuditLog(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  test('should record who changed what with the values before and after', async () => {
+    const entry = await auditLog.record({
+      action: 'config.set',
+      entityType: 'config',
+      entityId: 'decay.enabled',
+      actor: 'alice',
+      oldValues: { 'decay.enabled': false },
+      newValues: { 'decay.enabled': true },
+      metadata: { layer: 'global' }
+    });
+
+    expect(entry).toMatchObject({ actor: 'alice', status: 'success' });
+    expect(await auditLog.list()).toEqual([entry]);
+  });
+
+  test('should filter by action or group of actions and by time', async () => {
+    await auditLog.record({ action: 'config.set', entityType: 'config', actor: 'alice' });
+    await auditLog.record({ action: 'config.reset', entityType: 'config', actor: 'bob' });
+    await auditLog.record({ action: 'progress.reset', entityType: 'user', actor: 'bob', status: 'failure', errorMessage: 'Disk full' });
+
+    expect((await auditLog.list({ action: 'config' })).map(entry => entry.action)).toEqual(['config.reset', 'config.set']);
+    expect((await auditLog.list({ action: 'progress.reset' }))[0]).toMatchObject({ status: 'failure', errorMessage: 'Disk full' });
+    expect(await auditLog.list({ limit: 1 })).toHaveLength(1);
+    expect(await auditLog.list({ since: new Date(Date.now() + 60000).toISOString() })).toEqual([]);
+
+    expect(isAuditActionFilter('config')).toBe(true);
+    expect(isAuditActionFilter('con')).toBe(false);
+  });
+
+  test('should refuse to change or remove entries', async () => {
+    const entry = await auditLog.record({ action: 'xp.repair', entityType: 'user', actor: 'alice' });
+
+    await expect(db.run('UPDATE audit_log SET actor = ?', 'mallory')).rejects.toThrow('append-only');
+    await expect(db.run('DELETE FROM audit_log')).rejects.toThrow('append-only');
+
+    // Entries already present are left as they are
+    expect(await auditLog.merge([{ ...entry, actor: 'mallory' }])).toBe(0);
+    expect(await auditLog.list()).toEqual([entry]);
+  });
+});
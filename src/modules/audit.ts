@@ -0,0 +1,207 @@
+/**
+ * Audit Log Module
+ * Records who changed what and when for operations that change data
+ * outside of normal tracking: resets, configuration changes, imports,
+ * restores and XP adjustments. Entries are only ever added.
+ */
+
+import * as sqlite3 from 'sqlite3';
+import { Database } from 'sqlite';
+import { randomBytes } from 'crypto';
+import { execSync } from 'child_process';
+import * as os from 'os';
+
+export const AUDIT_ACTIONS = [
+  'config.set',
+  'config.unset',
+  'config.reset',
+  'event.create',
+  'event.remove',
+  'data.import',
+  'backup.restore',
+  'progress.reset',
+  'xp.reverse',
+  'xp.repair',
+  'team.role',
+  'team.remove'
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export type AuditStatus = 'success' | 'failure';
+
+/**
+ * An operation to record. Values are stored as JSON.
+ */
+export interface AuditRecord {
+  action: AuditAction;
+  entityType: string;
+  entityId?: string;
+
+  /** The devxp user acting, when known */
+  userId?: string;
+
+  /** Who acted (default: the git user name) */
+  actor?: string;
+
+  oldValues?: unknown;
+  newValues?: unknown;
+  metadata?: Record<string, unknown>;
+  status?: AuditStatus;
+  errorMessage?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  actor: string;
+  userId?: string;
+  action: AuditAction;
+  entityType: string;
+  entityId?: string;
+  oldValues?: unknown;
+  newValues?: unknown;
+  metadata?: Record<string, unknown>;
+  status: AuditStatus;
+  errorMessage?: string;
+  createdAt: string;
+}
+
+export interface AuditFilter {
+  /** Entries from this time on (ISO timestamp) */
+  since?: string;
+
+  /** An action such as config.set, or a group of them such as config */
+  action?: string;
+
+  limit?: number;
+}
+
+type AuditDatabase = Database<sqlite3.Database, sqlite3.Statement>;
+
+let currentActor: string | undefined;
+
+/**
+ * Who is running devxp: the git user name, or the login name without one
+ */
+export function getAuditActor(): string {
+  if (currentActor === undefined) {
+    try {
+      currentActor = execSync('git config user.name', { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+    } catch {
+      currentActor = '';
+    }
+    if (!currentActor) {
+      try {
+        currentActor = os.userInfo().username;
+      } catch {
+        currentActor = 'unknown';
+      }
+    }
+  }
+  return currentActor;
+}
+
+/**
+ * Whether an --action filter names an action or a group of actions
+ */
+export function isAuditActionFilter(action: string): boolean {
+  return AUDIT_ACTIONS.some(known => known === action || known.startsWith(`${action}.`));
+}
+
+export class AuditLog {
+  constructor(private readonly db: AuditDatabase) {}
+
+  async record(record: AuditRecord): Promise<AuditEntry> {
+    const entry: AuditEntry = {
+      id: randomBytes(8).toString('hex'),
+      actor: record.actor ?? getAuditActor(),
+      action: record.action,
+      entityType: record.entityType,
+      status: record.status ?? 'success',
+      createdAt: new Date().toISOString(),
+      ...(record.userId ? { userId: record.userId } : {}),
+      ...(record.entityId ? { entityId: record.entityId } : {}),
+      ...(record.oldValues !== undefined ? { oldValues: record.oldValues } : {}),
+      ...(record.newValues !== undefined ? { newValues: record.newValues } : {}),
+      ...(record.metadata ? { metadata: record.metadata } : {}),
+      ...(record.errorMessage ? { errorMessage: record.errorMessage } : {})
+    };
+
+    await this.insert(entry);
+    return entry;
+  }
+
+  // Most recent first
+  async list(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.since !== undefined) {
+      conditions.push('created_at >= ?');
+      params.push(filter.since);
+    }
+    if (filter.action !== undefined) {
+      conditions.push('(action = ? OR action LIKE ?)');
+      params.push(filter.action, `${filter.action}.%`);
+    }
+
+    const rows = await this.db.all<any[]>(
+      `SELECT * FROM audit_log
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY created_at DESC, rowid DESC
+       LIMIT ?`,
+      ...params,
+      filter.limit ?? -1
+    );
+    return rows.map(row => this.mapEntry(row));
+  }
+
+  /**
+   * Add entries from another copy of the log, such as the one a restore
+   * replaced, leaving out those already present. Returns how many were added.
+   */
+  async merge(entries: AuditEntry[]): Promise<number> {
+    let added = 0;
+    for (const entry of entries) {
+      added += await this.insert(entry, true);
+    }
+    return added;
+  }
+
+  private async insert(entry: AuditEntry, ignoreExisting: boolean = false): Promise<number> {
+    const result = await this.db.run(
+      `INSERT ${ignoreExisting ? 'OR IGNORE ' : ''}INTO audit_log (id, actor, user_id, action, entity_type, entity_id, old_values, new_values, metadata, status, error_message, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      entry.id,
+      entry.actor,
+      entry.userId ?? null,
+      entry.action,
+      entry.entityType,
+      entry.entityId ?? null,
+      entry.oldValues !== undefined ? JSON.stringify(entry.oldValues) : null,
+      entry.newValues !== undefined ? JSON.stringify(entry.newValues) : null,
+      entry.metadata ? JSON.stringify(entry.metadata) : null,
+      entry.status,
+      entry.errorMessage ?? null,
+      entry.createdAt
+    );
+    return result.changes ?? 0;
+  }
+
+  private mapEntry(row: any): AuditEntry {
+    return {
+      id: row.id,
+      actor: row.actor,
+      action: row.action,
+      entityType: row.entity_type,
+      status: row.status,
+      createdAt: row.created_at,
+      ...(row.user_id ? { userId: row.user_id } : {}),
+      ...(row.entity_id ? { entityId: row.entity_id } : {}),
+      ...(row.old_values !== null ? { oldValues: JSON.parse(row.old_values) } : {}),
+      ...(row.new_values !== null ? { newValues: JSON.parse(row.new_values) } : {}),
+      ...(row.metadata !== null ? { metadata: JSON.parse(row.metadata) } : {}),
+      ...(row.error_message ? { errorMessage: row.error_message } : {})
+    };
+  }
+}
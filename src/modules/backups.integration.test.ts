@@ -0,0 +1,130 @@
+/**
+ * Integration tests for database backups
+ */
+
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import * as sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createTestUser, useTempHome } from '../test-utils/temp-home';
+
+type BackupsModule = typeof import('./backups');
+type DatabaseModule = typeof import('./database');
+
+describe('BackupManager', () => {
+  const testDir = useTempHome('backups');
+  let backupManager: BackupsModule['backupManager'];
+  let database: DatabaseModule['database'];
+
+  const createUser = (totalXp: number) => createTestUser(database, { totalXp });
+
+  // A copy of a backup, named as if taken daysAgo
+  const ageBackup = async (source: string, daysAgo: number, kind: string = 'scheduled') => {
+    const createdAt = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000);
+    const name = `backup-${createdAt.toISOString().replace(/[:.]/g, '-')}-${kind}.db`;
+    await fs.copyFile(source, path.join(backupManager.getDirectory(), name));
+    return name;
+  };
+
+  beforeAll(async () => {
+    ({ backupManager } = await import('./backups'));
+    ({ database } = await import('./database'));
+  });
+
+  beforeEach(async () => {
+    await database.initialize();
+  });
+
+  afterEach(async () => {
+    await database.close();
+    await fs.rm(backupManager.getDirectory(), { recursive: true, force: true });
+  });
+
+  test('should create verified backups while the database stays open', async () => {
+    const before = await backupManager.getCurrentContents();
+    await createUser(120);
+
+    const { backup, verification } = await backupManager.create();
+    expect(backup.kind).toBe('manual');
+    expect(verification.contents).toMatchObject({
+      schemaVersion: 12,
+      users: before.users + 1,
+      totalXp: before.totalXp + 120
+    });
+
+    // The connection is still usable, no close and reopen
+    await createUser(5);
+    expect((await backupManager.list()).map(listed => listed.name)).toEqual([backup.name]);
+    expect(await backupManager.resolve('latest')).toBe(backup.path);
+    expect(await backupManager.resolve(backup.name)).toBe(backup.path);
+  });
+
+  test('should report damaged and foreign files', async () => {
+    const { backup } = await backupManager.create();
+
+    // Overwrite pages past the header
+    const handle = await fs.open(backup.path, 'r+');
+    await handle.write(Buffer.alloc(8192, 0xff), 0, 8192, 4096);
+    await handle.close();
+    expect((await backupManager.verify(backup.path)).ok).toBe(false);
+
+    const foreign = path.join(testDir, 'other.db');
+    const other = await open({ filename: foreign, driver: sqlite3.Database });
+    await other.exec('CREATE TABLE notes (body TEXT)');
+    await other.close();
+    const result = await backupManager.verify(foreign);
+    expect(result.ok).toBe(false);
+    expect(result.errors[0]).toContain('no such table');
+  });
+
+  test('should restore a backup in place and keep the replaced data', async () => {
+    const { backup } = await backupManager.create();
+    const backedUp = await backupManager.getCurrentContents();
+
+    await createUser(300);
+    expect((await backupManager.getCurrentContents()).totalXp).toBe(backedUp.totalXp + 300);
+
+    // Another process with the database open sees the restored data
+    const other = await open({ filename: database.getPath(), driver: sqlite3.Database });
+    const safety = await backupManager.restore(backup.path);
+    const row = await other.get<{ xp: number }>('SELECT COALESCE(SUM(total_xp), 0) AS xp FROM users');
+    await other.close();
+
+    expect(row?.xp).toBe(backedUp.totalXp);
+    expect(await backupManager.getCurrentContents()).toEqual(backedUp);
+    expect(safety.kind).toBe('pre-restore');
+    expect((await backupManager.verify(safety.path)).contents?.totalXp).toBe(backedUp.totalXp + 300);
+  });
+
+  test('should keep audit entries made after the backup when restoring it', async () => {
+    const { backup } = await backupManager.create();
+    const entry = await database.getAuditLog().record({ action: 'config.set', entityType: 'config', entityId: 'timezone', newValues: { timezone: 'UTC' } });
+
+    await backupManager.restore(backup.path);
+
+    const [restore, ...earlier] = await database.getAuditLog().list();
+    expect(restore).toMatchObject({ action: 'backup.restore', entityId: backup.path });
+    expect(earlier).toContainEqual(entry);
+  });
+
+  test('should prune by count and age but always keep the newest', async () => {
+    const { backup } = await backupManager.create();
+    const recent = await ageBackup(backup.path, 1);
+    const older = await ageBackup(backup.path, 2);
+    const expired = await ageBackup(backup.path, 45, 'pre-restore');
+
+    const preview = await backupManager.prune({ maxBackups: 2, maxAge: 30 }, { dryRun: true });
+    expect(preview.removed.map(removed => removed.name)).toEqual([older, expired]);
+    expect(await backupManager.list()).toHaveLength(4);
+
+    await backupManager.prune({ maxBackups: 2, maxAge: 30 });
+    expect((await backupManager.list()).map(listed => listed.name)).toEqual([backup.name, recent]);
+
+    // Only a stale backup left
+    const stale = await ageBackup(backup.path, 60);
+    await fs.rm(backup.path);
+    await fs.rm(path.join(backupManager.getDirectory(), recent));
+    expect((await backupManager.prune({ maxBackups: 2, maxAge: 30 })).kept.map(kept => kept.name)).toEqual([stale]);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Backups Module
+ * Online backups of the database that are verified once written, rotated
+ * by count and age, and taken automatically on a schedule
+ */
+
+import * as sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { database } from './database';
+import { defaultConfigManager } from './config';
+import { MIGRATIONS } from './migrations';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// backup-2026-01-31T09-30-00-000Z-manual.db
+const BACKUP_FILE_PATTERN = /^backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z-([a-z-]+)\.db$/;
+
+export const BACKUP_KINDS = ['manual', 'scheduled', 'pre-restore', 'pre-reset'] as const;
+
+/**
+ * Why a backup was taken
+ */
+export type BackupKind = typeof BACKUP_KINDS[number];
+
+export interface BackupInfo {
+  name: string;
+  path: string;
+  kind: BackupKind;
+  createdAt: Date;
+  size: number;
+}
+
+/**
+ * What a database holds, to compare a backup with the live data
+ */
+export interface BackupContents {
+  schemaVersion: number;
+  users: number;
+  totalXp: number;
+  activities: number;
+  achievements: number;
+}
+
+export interface BackupVerification {
+  ok: boolean;
+  errors: string[];
+  contents?: BackupContents;
+}
+
+export interface BackupSettings {
+  maxBackups: number;
+  maxAge: number; // days
+}
+
+export interface PruneResult {
+  kept: BackupInfo[];
+  removed: BackupInfo[];
+}
+
+export class BackupManager {
+  /**
+   * Back up the open database and verify the copy. A copy that fails
+   * verification is removed.
+   */
+  async create(kind: BackupKind = 'manual'): Promise<{ backup: BackupInfo; verification: BackupVerification }> {
+    const createdAt = new Date();
+    const name = `backup-${createdAt.toISOString().replace(/[:.]/g, '-')}-${kind}.db`;
+    const backupPath = path.join(this.getDirectory(), name);
+
+    await database.backup(backupPath);
+
+    const verification = await this.verify(backupPath);
+    if (!verification.ok) {
+      await fs.rm(backupPath, { force: true });
+      throw new Error(`Backup failed verification: ${verification.errors.join(', ')}`);
+    }
+
+    const { size } = await fs.stat(backupPath);
+    return { backup: { name, path: backupPath, kind, createdAt, size }, verification };
+  }
+
+  /**
+   * Backups in the backup directory, newest first
+   */
+  async list(): Promise<BackupInfo[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.getDirectory());
+    } catch {
+      return [];
+    }
+
+    const backups: BackupInfo[] = [];
+    for (const name of files) {
+      const match = BACKUP_FILE_PATTERN.exec(name);
+      const kind = match?.[6] as BackupKind | undefined;
+      if (!match || !kind || !BACKUP_KINDS.includes(kind)) continue;
+
+      const backupPath = path.join(this.getDirectory(), name);
+      const { size } = await fs.stat(backupPath);
+      backups.push({
+        name,
+        path: backupPath,
+        kind,
+        createdAt: new Date(`${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z`),
+        size
+      });
+    }
+
+    return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Find a backup by name, by path or as "latest"
+   */
+  async resolve(nameOrPath: string): Promise<string> {
+    if (nameOrPath === 'latest') {
+      const latest = (await this.list())[0];
+      if (!latest) throw new Error('There are no backups yet');
+      return latest.path;
+    }
+
+    const candidates = [path.join(this.getDirectory(), nameOrPath), path.resolve(nameOrPath)];
+    for (const candidate of candidates) {
+      try {
+        await fs.access(candidate);
+        return candidate;
+      } catch {
+        // Try the next location
+      }
+    }
+
+    throw new Error(`Backup not found: ${nameOrPath}`);
+  }
+
+  /**
+   * Check a backup's integrity and read what it holds
+   */
+  async verify(backupPath: string): Promise<BackupVerification> {
+    let db;
+    try {
+      db = await open({ filename: backupPath, driver: sqlite3.Database, mode: sqlite3.OPEN_READONLY });
+    } catch (error) {
+      return { ok: false, errors: [`cannot open: ${error instanceof Error ? error.message : error}`] };
+    }
+
+    try {
+      const integrity = await db.all<{ integrity_check: string }[]>('PRAGMA integrity_check');
+      const problems = integrity.map(row => row.integrity_check).filter(result => result !== 'ok');
+      if (problems.length > 0) {
+        return { ok: false, errors: problems };
+      }
+
+      const contents = await this.readContents(db);
+      const latest = Math.max(0, ...MIGRATIONS.map(migration => migration.version));
+      if (contents.schemaVersion > latest) {
+        return { ok: false, errors: [`schema version ${contents.schemaVersion} is newer than this devxp supports (${latest})`], contents };
+      }
+
+      return { ok: true, errors: [], contents };
+    } catch (error) {
+      return { ok: false, errors: [error instanceof Error ? error.message : String(error)] };
+    } finally {
+      await db.close();
+    }
+  }
+
+  /**
+   * What the live database holds, for comparison with a backup
+   */
+  async getCurrentContents(): Promise<BackupContents> {
+    const db = await open({ filename: database.getPath(), driver: sqlite3.Database, mode: sqlite3.OPEN_READONLY });
+    try {
+      return await this.readContents(db);
+    } finally {
+      await db.close();
+    }
+  }
+
+  /**
+   * Replace the open database with a verified backup, keeping a backup of
+   * the current data first. Returns that safety backup.
+   */
+  async restore(backupPath: string): Promise<BackupInfo> {
+    const verification = await this.verify(backupPath);
+    if (!verification.ok) {
+      throw new Error(`Refusing to restore a backup that failed verification: ${verification.errors.join(', ')}`);
+    }
+
+    const before = await this.getCurrentContents();
+    const auditEntries = await database.getAuditLog().list();
+
+    const { backup: safety } = await this.create('pre-restore');
+    await database.restore(backupPath);
+
+    // Backups of an older schema are brought up to date right away
+    await database.getMigrationRunner().up();
+
+    // The backup's log ends when it was taken, so the entries since are kept
+    const auditLog = database.getAuditLog();
+    await auditLog.merge(auditEntries);
+    await auditLog.record({
+      action: 'backup.restore',
+      entityType: 'database',
+      entityId: backupPath,
+      oldValues: before,
+      newValues: verification.contents,
+      metadata: { safetyBackup: safety.path }
+    });
+
+    return safety;
+  }
+
+  /**
+   * Remove backups beyond the newest maxBackups or older than maxAge days.
+   * The newest backup is always kept.
+   */
+  async prune(
+    settings: BackupSettings = defaultConfigManager.getConfig().backup,
+    options: { dryRun?: boolean } = {}
+  ): Promise<PruneResult> {
+    const cutoff = Date.now() - settings.maxAge * DAY_MS;
+    const result: PruneResult = { kept: [], removed: [] };
+
+    for (const [index, backup] of (await this.list()).entries()) {
+      const expired = index >= settings.maxBackups || backup.createdAt.getTime() < cutoff;
+      if (index === 0 || !expired) {
+        result.kept.push(backup);
+        continue;
+      }
+
+      if (!options.dryRun) {
+        await fs.rm(backup.path, { force: true });
+      }
+      result.removed.push(backup);
+    }
+
+    return result;
+  }
+
+  /**
+   * Whether the interval since the newest backup has passed
+   */
+  async isBackupDue(): Promise<boolean> {
+    const latest = (await this.list())[0];
+    const interval = defaultConfigManager.getConfig().backup.interval * HOUR_MS;
+    return !latest || Date.now() - latest.createdAt.getTime() >= interval;
+  }
+
+  getDirectory(): string {
+    return defaultConfigManager.getBackupPath();
+  }
+
+  private async readContents(db: Database): Promise<BackupContents> {
+    const migrations = await db.get<{ version: number | null }>('SELECT MAX(version) AS version FROM migrations');
+    const users = await db.get<{ count: number; xp: number }>('SELECT COUNT(*) AS count, COALESCE(SUM(total_xp), 0) AS xp FROM users');
+    const activities = await db.get<{ count: number }>('SELECT COUNT(*) AS count FROM activities');
+    const achievements = await db.get<{ count: number }>('SELECT COUNT(*) AS count FROM achievements');
+
+    return {
+      schemaVersion: migrations?.version ?? 0,
+      users: users?.count ?? 0,
+      totalXp: users?.xp ?? 0,
+      activities: activities?.count ?? 0,
+      achievements: achievements?.count ?? 0
+    };
+  }
+}
+
+// Export singleton instance
+export const backupManager = new BackupManager();
+
+/**
+ * Take the scheduled backup before a command runs, once the configured
+ * interval has passed. Like decay, it must never get in the way of the
+ * command, so failures are ignored.
+ */
+export async function runScheduledBackup(): Promise<void> {
+  if (!defaultConfigManager.getConfig().backup.enabled) return;
+
+  try {
+    if (!(await backupManager.isBackupDue())) return;
+
+    // Nothing to back up before the first run
+    await fs.access(database.getPath());
+
+    // The schema is left for the command itself to migrate
+    await database.initialize({ migrate: false });
+    await backupManager.create('scheduled');
+    await backupManager.prune();
+  } catch {
+    // Try again on the next invocation
+  } finally {
+    await database.close();
+  }
+}
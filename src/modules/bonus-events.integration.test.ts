@@ -0,0 +1,151 @@
+/**
+ * Integration tests for scheduled bonus XP events
+ */
+
+import { describe, test, expect, beforeAll } from '@jest/globals';
+import { ActivityType } from '../types/Activity';
+import { XPMultiplierType } from '../types/XPEvent';
+import { useTempHome } from '../test-utils/temp-home';
+
+type BonusEventsModule = typeof import('./bonus-events');
+type XPSystemModule = typeof import('./xp-system');
+type ConfigModule = typeof import('./config');
+
+describe('BonusEventScheduler', () => {
+  useTempHome('events');
+  let bonusEventScheduler: BonusEventsModule['bonusEventScheduler'];
+  let XPSystem: XPSystemModule['XPSystem'];
+  let defaultConfigManager: ConfigModule['defaultConfigManager'];
+
+  // A Wednesday, so weekend bonuses stay out of the way
+  const now = new Date('2025-06-11T12:00:00Z');
+
+  beforeAll(async () => {
+    ({ bonusEventScheduler } = await import('./bonus-events'));
+    ({ XPSystem } = await import('./xp-system'));
+    ({ defaultConfigManager } = await import('./config'));
+
+    bonusEventScheduler.addEvent({
+      id: 'hackathon',
+      name: 'Spring Hackathon',
+      multiplier: 2,
+      startDate: '2025-06-10T09:00:00Z',
+      endDate: '2025-06-12T09:00:00Z',
+      affectedActivities: [ActivityType.GIT_COMMIT, ActivityType.CODE_TEST]
+    });
+    bonusEventScheduler.addEvent({
+      id: 'double-weekend',
+      name: 'Double XP Weekend',
+      multiplier: 2,
+      startDate: '2025-05-31T00:00:00Z',
+      endDate: '2025-06-02T00:00:00Z',
+      recurring: { type: 'weekly', interval: 1 }
+    });
+  });
+
+  test('should persist events in the config', () => {
+    expect(bonusEventScheduler.getEvents().map(e => e.id)).toEqual(['hackathon', 'double-weekend']);
+    expect(bonusEventScheduler.getEvents()[0]?.startDate).toEqual(new Date('2025-06-10T09:00:00Z'));
+  });
+
+  test('should reject invalid and duplicate events', () => {
+    expect(() => bonusEventScheduler.addEvent({
+      id: 'backwards',
+      name: 'Backwards',
+      multiplier: 2,
+      startDate: '2025-03-13T00:00:00Z',
+      endDate: '2025-03-12T00:00:00Z'
+    })).toThrow('endDate: endDate must be after startDate');
+
+    expect(() => bonusEventScheduler.addEvent({
+      id: 'hackathon',
+      name: 'Another Hackathon',
+      multiplier: 3,
+      startDate: '2025-04-01T00:00:00Z',
+      endDate: '2025-04-02T00:00:00Z'
+    })).toThrow("A bonus event with id 'hackathon' already exists");
+  });
+
+  test('should find active and upcoming occurrences of recurring events', () => {
+    expect(bonusEventScheduler.getActiveEvents(now).map(e => e.event.id)).toEqual(['hackathon']);
+
+    const upcoming = bonusEventScheduler.getUpcomingEvents(now, 7);
+    expect(upcoming).toHaveLength(1);
+    expect(upcoming[0]).toMatchObject({
+      start: new Date('2025-06-14T00:00:00Z'),
+      end: new Date('2025-06-16T00:00:00Z')
+    });
+
+    const weekend = bonusEventScheduler.getActiveEvents(new Date('2025-06-15T12:00:00Z'));
+    expect(weekend.map(e => e.event.id)).toEqual(['double-weekend']);
+  });
+
+  test('should repeat events at the same local time, on the last day of shorter months', () => {
+    const timezone = defaultConfigManager.getConfig().timezone;
+    defaultConfigManager.set('timezone', 'America/New_York');
+    bonusEventScheduler.addEvent({
+      id: 'month-end',
+      name: 'Month-End Cleanup',
+      multiplier: 1.5,
+      // 09:00 to 11:00 in New York, before daylight saving time starts
+      startDate: '2025-01-31T14:00:00Z',
+      endDate: '2025-01-31T16:00:00Z',
+      recurring: { type: 'monthly', interval: 1 }
+    });
+
+    try {
+      const starts = (after: string) => bonusEventScheduler.getUpcomingEvents(new Date(after), 31)
+        .filter(e => e.event.id === 'month-end')
+        .map(e => e.start);
+
+      expect(starts('2025-02-01T00:00:00Z')).toEqual([new Date('2025-02-28T14:00:00Z')]);
+      expect(starts('2025-03-01T00:00:00Z')).toEqual([new Date('2025-03-31T13:00:00Z')]);
+      expect(starts('2025-04-01T00:00:00Z')).toEqual([new Date('2025-04-30T13:00:00Z')]);
+
+      const active = bonusEventScheduler.getActiveEvents(new Date('2025-04-30T14:30:00Z'));
+      expect(active.find(e => e.event.id === 'month-end')?.end).toEqual(new Date('2025-04-30T15:00:00Z'));
+    } finally {
+      bonusEventScheduler.removeEvent('month-end');
+      defaultConfigManager.set('timezone', timezone);
+    }
+  });
+
+  test('should remove events', () => {
+    bonusEventScheduler.addEvent({
+      id: 'temporary',
+      name: 'Temporary',
+      multiplier: 1.5,
+      startDate: '2025-05-01T00:00:00Z',
+      endDate: '2025-05-02T00:00:00Z'
+    });
+
+    expect(bonusEventScheduler.removeEvent('temporary')).toBe(true);
+    expect(bonusEventScheduler.removeEvent('temporary')).toBe(false);
+    expect(bonusEventScheduler.getEvents().map(e => e.id)).not.toContain('temporary');
+  });
+
+  test('should apply the event multiplier to matching activities only', () => {
+    const system = new XPSystem({ bonusEvents: bonusEventScheduler.getEvents() });
+    const calculate = (activityType: ActivityType) => system.calculateXP({
+      activityType,
+      baseXP: 0,
+      user: { id: 'tester', level: 1, streakDays: 0 },
+      context: { timeOfDay: now }
+    });
+
+    const commit = calculate(ActivityType.GIT_COMMIT);
+    const events = commit.multipliers.filter(m => m.type === XPMultiplierType.EVENT);
+    expect(events).toEqual([{
+      type: XPMultiplierType.EVENT,
+      value: 2,
+      description: 'Spring Hackathon',
+      isActive: true,
+      expiresAt: new Date('2025-06-12T09:00:00Z')
+    }]);
+    expect(commit.breakdown).toContainEqual({ step: 'Event', value: 2, description: 'Spring Hackathon (2x)' });
+
+    const push = calculate(ActivityType.GIT_PUSH);
+    expect(push.multipliers.some(m => m.type === XPMultiplierType.EVENT)).toBe(false);
+    expect(commit.totalMultiplier).toBeCloseTo(push.totalMultiplier * 2);
+  });
+});
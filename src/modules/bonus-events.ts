@@ -0,0 +1,126 @@
+/**
+ * Bonus Events Module
+ * Schedules bonus XP events such as double-XP weekends and hackathon windows
+ */
+
+import { defaultConfigManager, BonusEventSchema, BonusEventConfig } from './config';
+import { BonusXPEvent } from '../types/Config';
+import { getCurrentOccurrence, getNextOccurrence, resolveTimeZone } from '../utils/time';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * An occurrence of a bonus event
+ */
+export interface ScheduledBonusEvent {
+  event: BonusXPEvent;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Loads bonus events from the configuration and works out when they run
+ */
+export class BonusEventScheduler {
+  /**
+   * All configured events
+   */
+  getEvents(): BonusXPEvent[] {
+    return defaultConfigManager.getConfig().bonusEvents.map(event => this.toBonusEvent(event));
+  }
+
+  /**
+   * Events running at the given time
+   */
+  getActiveEvents(at: Date = new Date()): ScheduledBonusEvent[] {
+    const timeZone = this.getTimeZone();
+    const active: ScheduledBonusEvent[] = [];
+
+    for (const event of this.getEvents()) {
+      const occurrence = getCurrentOccurrence(this.getWindow(event), at, timeZone);
+      if (occurrence) {
+        active.push({ event, ...occurrence });
+      }
+    }
+
+    return active;
+  }
+
+  /**
+   * The next occurrence of each event starting within the given number of days
+   */
+  getUpcomingEvents(at: Date = new Date(), withinDays = 30): ScheduledBonusEvent[] {
+    const until = new Date(at.getTime() + withinDays * DAY_MS);
+    const timeZone = this.getTimeZone();
+    const upcoming: ScheduledBonusEvent[] = [];
+
+    for (const event of this.getEvents()) {
+      const occurrence = getNextOccurrence(this.getWindow(event), at, timeZone);
+      if (occurrence && occurrence.start <= until) {
+        upcoming.push({ event, ...occurrence });
+      }
+    }
+
+    return upcoming.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Validate and save a new event
+   */
+  addEvent(input: unknown): BonusXPEvent {
+    const result = BonusEventSchema.safeParse(input);
+    if (!result.success) {
+      const issues = result.error.issues
+        .map(issue => `${issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''}${issue.message}`)
+        .join('; ');
+      throw new Error(`Invalid bonus event: ${issues}`);
+    }
+
+    const events = defaultConfigManager.getConfig().bonusEvents;
+    if (events.some(event => event.id === result.data.id)) {
+      throw new Error(`A bonus event with id '${result.data.id}' already exists`);
+    }
+
+    defaultConfigManager.set('bonusEvents', [...events, result.data]);
+    return this.toBonusEvent(result.data);
+  }
+
+  /**
+   * Remove an event, returning whether it existed
+   */
+  removeEvent(id: string): boolean {
+    const events = defaultConfigManager.getConfig().bonusEvents;
+    const remaining = events.filter(event => event.id !== id);
+    if (remaining.length === events.length) return false;
+
+    defaultConfigManager.set('bonusEvents', remaining);
+    return true;
+  }
+
+  private toBonusEvent(event: BonusEventConfig): BonusXPEvent {
+    return {
+      id: event.id,
+      name: event.name,
+      multiplier: event.multiplier,
+      startDate: new Date(event.startDate),
+      endDate: new Date(event.endDate),
+      ...(event.affectedActivities ? { affectedActivities: event.affectedActivities } : {}),
+      ...(event.recurring ? { recurring: event.recurring } : {})
+    };
+  }
+
+  private getWindow(event: BonusXPEvent) {
+    return {
+      start: event.startDate,
+      end: event.endDate,
+      ...(event.recurring ? { recurring: event.recurring } : {})
+    };
+  }
+
+  private getTimeZone(): string {
+    return resolveTimeZone(defaultConfigManager.getConfig().timezone);
+  }
+}
+
+// Export singleton instance
+export const bonusEventScheduler = new BonusEventScheduler();
@@ -0,0 +1,151 @@
+/**
+ * Integration tests for persisted challenges
+ */
+
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import { createTestUser, useTempHome } from '../test-utils/temp-home';
+
+type ChallengesModule = typeof import('./challenges');
+type DatabaseModule = typeof import('./database');
+type ConfigModule = typeof import('./config');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('ChallengeManager', () => {
+  useTempHome('challenges');
+  let ChallengeManager: ChallengesModule['ChallengeManager'];
+  let database: DatabaseModule['database'];
+  let defaultConfigManager: ConfigModule['defaultConfigManager'];
+  let userId: string;
+
+  // Wednesday noon UTC, far from any period boundary
+  const now = new Date('2025-03-12T12:00:00Z');
+
+  const addActivities = async (type: string, count: number, at: Date) => {
+    for (let i = 0; i < count; i++) {
+      await database.createActivity({
+        userId,
+        type,
+        description: `${type} ${i}`,
+        xpEarned: 0,
+        timestamp: new Date(at.getTime() + i * 1000).toISOString()
+      });
+    }
+  };
+
+  beforeAll(async () => {
+    ({ ChallengeManager } = await import('./challenges'));
+    ({ database } = await import('./database'));
+
+    ({ defaultConfigManager } = await import('./config'));
+    defaultConfigManager.set('timezone', 'UTC');
+  });
+
+  beforeEach(async () => {
+    await database.initialize();
+    userId = (await createTestUser(database, { lastActiveDate: now.toISOString() })).id;
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  test('should use local day and week boundaries', () => {
+    const manager = new ChallengeManager();
+
+    expect(manager.getPeriodBounds('daily', now)).toEqual({
+      start: new Date('2025-03-12T00:00:00Z'),
+      end: new Date('2025-03-13T00:00:00Z')
+    });
+    expect(manager.getPeriodBounds('weekly', now)).toEqual({
+      start: new Date('2025-03-10T00:00:00Z'),
+      end: new Date('2025-03-17T00:00:00Z')
+    });
+  });
+
+  test('should start weekly challenges on the configured week start day', () => {
+    defaultConfigManager.set('weekStart', 'sunday');
+    try {
+      expect(new ChallengeManager().getPeriodBounds('weekly', now)).toEqual({
+        start: new Date('2025-03-09T00:00:00Z'),
+        end: new Date('2025-03-16T00:00:00Z')
+      });
+    } finally {
+      defaultConfigManager.set('weekStart', 'monday');
+    }
+  });
+
+  test('should persist the challenges of the current period', async () => {
+    const first = await new ChallengeManager().getCurrentChallenges(userId, now);
+    const second = await new ChallengeManager().getCurrentChallenges(userId, now);
+
+    expect(first.filter(c => c.period === 'daily')).toHaveLength(3);
+    expect(first.filter(c => c.period === 'weekly')).toHaveLength(2);
+    expect(second.map(c => c.id)).toEqual(first.map(c => c.id));
+    expect(first.every(c => c.expiresAt > now.toISOString())).toBe(true);
+  });
+
+  test('should pick challenges from the recent activity mix', async () => {
+    await addActivities('code_test', 70, new Date(now.getTime() - 7 * DAY));
+
+    // A roll in the middle of the range lands on the heavily weighted template
+    const current = await new ChallengeManager(() => 0.5).getCurrentChallenges(userId, now);
+    const tests = current.find(c => c.templateId === 'daily_tests');
+
+    expect(tests).toBeDefined();
+    // 70 tests over 14 days is 5 a day, asked for with a little extra
+    expect(tests?.requiredCount).toBe(6);
+  });
+
+  test('should rotate challenges at the day boundary', async () => {
+    const manager = new ChallengeManager();
+    const today = await manager.getCurrentChallenges(userId, now);
+    const tomorrow = await manager.getCurrentChallenges(userId, new Date(now.getTime() + DAY));
+
+    const daily = (list: typeof today) => list.filter(c => c.period === 'daily').map(c => c.id);
+    const weekly = (list: typeof today) => list.filter(c => c.period === 'weekly').map(c => c.id);
+
+    expect(daily(tomorrow)).toHaveLength(3);
+    expect(daily(tomorrow)).not.toEqual(daily(today));
+    expect(weekly(tomorrow)).toEqual(weekly(today));
+
+    const history = await manager.getHistory(userId);
+    expect(history.filter(c => c.status === 'expired').map(c => c.id).sort()).toEqual([...daily(today)].sort());
+  });
+
+  test('should award challenge rewards and the completion bonus once', async () => {
+    const manager = new ChallengeManager();
+    const daily = (await manager.getCurrentChallenges(userId, now)).filter(c => c.period === 'daily');
+
+    for (const challenge of daily) {
+      await addActivities(challenge.activityTypes[0]!, challenge.requiredCount, now);
+    }
+
+    const update = await manager.refresh(userId, now);
+    const again = await manager.refresh(userId, now);
+    const history = await database.getUserXpHistory(userId);
+    const bonus = history.filter(h => h.reason === 'All daily challenges completed');
+
+    expect(update.completed.map(c => c.id).sort()).toEqual(daily.map(c => c.id).sort());
+    expect(update.bonuses).toEqual([{ period: 'daily', xp: 200 }]);
+    expect(again).toEqual({ completed: [], bonuses: [] });
+    expect(history.filter(h => h.reason.startsWith('Challenge completed:'))).toHaveLength(3);
+    expect(bonus).toHaveLength(1);
+    expect(bonus[0]?.xpChange).toBe(200);
+  });
+
+  test('should reroll a challenge once per period', async () => {
+    const manager = new ChallengeManager();
+    const [first, second] = (await manager.getCurrentChallenges(userId, now)).filter(c => c.period === 'daily');
+
+    const replacement = await manager.reroll(userId, first!.id, now);
+    const current = await manager.getCurrentChallenges(userId, now);
+
+    expect(current.map(c => c.id)).not.toContain(first!.id);
+    expect(current.map(c => c.id)).toContain(replacement.id);
+    expect(current.filter(c => c.period === 'daily').map(c => c.templateId)).not.toContain(first!.templateId);
+    expect(replacement.startsAt).toBe(now.toISOString());
+    expect(await manager.getRerollsLeft(userId, 'daily', now)).toBe(0);
+    await expect(manager.reroll(userId, second!.id, now)).rejects.toThrow('No daily rerolls left');
+  });
+});
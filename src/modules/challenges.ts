@@ -0,0 +1,306 @@
+/**
+ * Challenges Module
+ * Persistent daily and weekly challenges that rotate at the local day/week boundary
+ */
+
+import { database, ChallengePeriod, ChallengeRecord } from './database';
+import { defaultConfigManager } from './config';
+import { xpSystem } from './xp-system';
+import { ActivityType } from '../types/Activity';
+import { addDays, resolveTimeZone, startOfDay, startOfWeek } from '../utils/time';
+
+/**
+ * Template a challenge is generated from
+ */
+export interface ChallengeTemplate {
+  id: string;
+  period: ChallengePeriod;
+  name: string;
+
+  /** Description, `{count}` is replaced with the required count */
+  description: string;
+
+  /** Activities that count towards the challenge */
+  activityTypes: ActivityType[];
+
+  /** Bounds for the required count, scaled to the user's recent activity */
+  minCount: number;
+  maxCount: number;
+}
+
+/**
+ * Result of refreshing a user's challenges
+ */
+export interface ChallengeUpdate {
+  /** Challenges completed by this refresh */
+  completed: ChallengeRecord[];
+
+  /** Completion bonuses awarded by this refresh */
+  bonuses: Array<{ period: ChallengePeriod; xp: number }>;
+}
+
+const CHALLENGES_PER_PERIOD: Record<ChallengePeriod, number> = {
+  daily: 3,
+  weekly: 2
+};
+
+const REROLLS_PER_PERIOD = 1;
+
+// Days of activity used to weight and size new challenges
+const RECENT_ACTIVITY_DAYS = 14;
+
+const DEVELOPMENT_TYPES = [
+  ActivityType.CODE_BUILD,
+  ActivityType.CODE_COMPILE,
+  ActivityType.CODE_TEST,
+  ActivityType.CODE_LINT,
+  ActivityType.CODE_FORMAT,
+  ActivityType.CODE_DEBUG
+];
+
+export const CHALLENGE_TEMPLATES: ChallengeTemplate[] = [
+  // Daily challenges
+  { id: 'daily_commits', period: 'daily', name: 'Commit Streaker', description: 'Make {count} commits', activityTypes: [ActivityType.GIT_COMMIT], minCount: 3, maxCount: 15 },
+  { id: 'daily_push', period: 'daily', name: 'Ship It', description: 'Push {count} times', activityTypes: [ActivityType.GIT_PUSH], minCount: 1, maxCount: 5 },
+  { id: 'daily_branches', period: 'daily', name: 'Branch Out', description: 'Create or switch branches {count} times', activityTypes: [ActivityType.GIT_BRANCH_CREATE, ActivityType.GIT_CHECKOUT], minCount: 2, maxCount: 8 },
+  { id: 'daily_tests', period: 'daily', name: 'Test Driven', description: 'Run the tests {count} times', activityTypes: [ActivityType.CODE_TEST], minCount: 3, maxCount: 20 },
+  { id: 'daily_builds', period: 'daily', name: 'Builder', description: 'Build or compile {count} times', activityTypes: [ActivityType.CODE_BUILD, ActivityType.CODE_COMPILE], minCount: 2, maxCount: 15 },
+  { id: 'daily_quality', period: 'daily', name: 'Clean Code', description: 'Lint or format {count} times', activityTypes: [ActivityType.CODE_LINT, ActivityType.CODE_FORMAT], minCount: 2, maxCount: 10 },
+  { id: 'daily_terminal', period: 'daily', name: 'Terminal Regular', description: 'Run {count} terminal commands', activityTypes: [ActivityType.TERMINAL_COMMAND, ActivityType.TERMINAL_PIPE, ActivityType.TERMINAL_SCRIPT], minCount: 10, maxCount: 100 },
+  { id: 'daily_docker', period: 'daily', name: 'Container Day', description: 'Run {count} docker commands', activityTypes: [ActivityType.DOCKER_BUILD, ActivityType.DOCKER_RUN, ActivityType.DOCKER_COMPOSE], minCount: 2, maxCount: 10 },
+  { id: 'daily_reviews', period: 'daily', name: 'Reviewer', description: 'Create or review {count} pull requests', activityTypes: [ActivityType.PR_CREATE, ActivityType.PR_REVIEW], minCount: 1, maxCount: 5 },
+
+  // Weekly challenges
+  { id: 'weekly_commits', period: 'weekly', name: 'Git Master', description: 'Make {count} commits', activityTypes: [ActivityType.GIT_COMMIT], minCount: 15, maxCount: 75 },
+  { id: 'weekly_merges', period: 'weekly', name: 'Merge Maestro', description: 'Merge {count} branches', activityTypes: [ActivityType.GIT_MERGE, ActivityType.PR_MERGE], minCount: 2, maxCount: 15 },
+  { id: 'weekly_tests', period: 'weekly', name: 'Test Champion', description: 'Run the tests {count} times', activityTypes: [ActivityType.CODE_TEST], minCount: 15, maxCount: 100 },
+  { id: 'weekly_development', period: 'weekly', name: 'Code Warrior', description: 'Complete {count} development activities', activityTypes: DEVELOPMENT_TYPES, minCount: 25, maxCount: 150 },
+  { id: 'weekly_terminal', period: 'weekly', name: 'Shell Sorcerer', description: 'Run {count} terminal commands', activityTypes: [ActivityType.TERMINAL_COMMAND, ActivityType.TERMINAL_PIPE, ActivityType.TERMINAL_SCRIPT], minCount: 50, maxCount: 500 },
+  { id: 'weekly_docs', period: 'weekly', name: 'Documentation Hero', description: 'Write documentation {count} times', activityTypes: [ActivityType.DOCUMENTATION_WRITE], minCount: 2, maxCount: 10 },
+  { id: 'weekly_collaboration', period: 'weekly', name: 'Team Player', description: 'Complete {count} pull request activities', activityTypes: [ActivityType.PR_CREATE, ActivityType.PR_REVIEW, ActivityType.PR_MERGE], minCount: 3, maxCount: 20 }
+];
+
+/**
+ * Manages the daily and weekly challenges stored in the database
+ */
+export class ChallengeManager {
+  constructor(private random: () => number = Math.random) {}
+
+  /**
+   * Start and end of the challenge period containing `now`, in the configured
+   * timezone. Weeks begin on the configured week start day.
+   */
+  getPeriodBounds(period: ChallengePeriod, now: Date = new Date()): { start: Date; end: Date } {
+    const timeZone = this.getTimeZone();
+    const start = period === 'daily'
+      ? startOfDay(now, timeZone)
+      : startOfWeek(now, timeZone, defaultConfigManager.getConfig().weekStart);
+    return { start, end: addDays(start, period === 'daily' ? 1 : 7, timeZone) };
+  }
+
+  /**
+   * Rotate challenges, update their progress and award completion rewards
+   */
+  async refresh(userId: string, now: Date = new Date()): Promise<ChallengeUpdate> {
+    await this.rotate(userId, now);
+
+    const update: ChallengeUpdate = { completed: [], bonuses: [] };
+    const active = await database.getChallenges(userId, { status: ['active'] });
+
+    for (const challenge of active) {
+      const progress = await database.countActivities(userId, {
+        types: challenge.activityTypes,
+        since: challenge.startsAt
+      });
+
+      if (progress >= challenge.requiredCount) {
+        if (await database.completeChallenge(challenge, now.toISOString())) {
+          update.completed.push({ ...challenge, currentProgress: challenge.requiredCount, status: 'completed', completedAt: now.toISOString() });
+        }
+      } else if (progress !== challenge.currentProgress) {
+        await database.updateChallengeProgress(challenge.id, progress);
+      }
+    }
+
+    const { dailyCompletionBonus, weeklyCompletionBonus } = xpSystem.exportConfig().challengeConfig;
+    const completionBonuses: Record<ChallengePeriod, number> = {
+      daily: dailyCompletionBonus,
+      weekly: weeklyCompletionBonus
+    };
+
+    for (const period of new Set(update.completed.map(c => c.period))) {
+      const periodStart = this.getPeriodBounds(period, now).start.toISOString();
+      const challenges = await database.getChallenges(userId, { period, periodStart, status: ['active', 'completed'] });
+
+      if (challenges.length > 0 && challenges.every(c => c.status === 'completed')) {
+        const xp = completionBonuses[period];
+        if (await database.awardChallengeBonus(userId, period, periodStart, xp)) {
+          update.bonuses.push({ period, xp });
+        }
+      }
+    }
+
+    return update;
+  }
+
+  /**
+   * Get the current challenges, rotating and refreshing them first
+   */
+  async getCurrentChallenges(userId: string, now: Date = new Date()): Promise<ChallengeRecord[]> {
+    await this.refresh(userId, now);
+
+    const current: ChallengeRecord[] = [];
+    for (const period of ['daily', 'weekly'] as const) {
+      const periodStart = this.getPeriodBounds(period, now).start.toISOString();
+      current.push(...await database.getChallenges(userId, { period, periodStart, status: ['active', 'completed'] }));
+    }
+    return current;
+  }
+
+  /**
+   * Rerolls left in the current period
+   */
+  async getRerollsLeft(userId: string, period: ChallengePeriod, now: Date = new Date()): Promise<number> {
+    const periodStart = this.getPeriodBounds(period, now).start.toISOString();
+    const rerolled = await database.getChallenges(userId, { period, periodStart, status: ['rerolled'] });
+    return Math.max(0, REROLLS_PER_PERIOD - rerolled.length);
+  }
+
+  /**
+   * Replace an active challenge with a different one
+   */
+  async reroll(userId: string, challengeId: string, now: Date = new Date()): Promise<ChallengeRecord> {
+    const current = await this.getCurrentChallenges(userId, now);
+    const challenge = current.find(c => c.id === challengeId);
+
+    if (!challenge) {
+      throw new Error(`Challenge not found: ${challengeId}`);
+    }
+    if (challenge.status !== 'active') {
+      throw new Error(`Challenge '${challenge.name}' is already ${challenge.status}`);
+    }
+    if (await this.getRerollsLeft(userId, challenge.period, now) === 0) {
+      throw new Error(`No ${challenge.period} rerolls left, try again next ${challenge.period === 'daily' ? 'day' : 'week'}`);
+    }
+
+    const [replacement] = await this.pickTemplates(
+      userId,
+      challenge.period,
+      1,
+      current.filter(c => c.period === challenge.period).map(c => c.templateId),
+      now
+    );
+    if (!replacement) {
+      throw new Error(`No other ${challenge.period} challenges available`);
+    }
+
+    await database.setChallengeStatus(challenge.id, 'rerolled');
+    return this.createChallenge(userId, replacement.template, replacement.count, {
+      periodStart: challenge.periodStart,
+      startsAt: now.toISOString(),
+      expiresAt: challenge.expiresAt
+    });
+  }
+
+  /**
+   * Past challenges, most recent first
+   */
+  async getHistory(userId: string, limit = 20): Promise<ChallengeRecord[]> {
+    return database.getChallenges(userId, { status: ['completed', 'expired'], limit });
+  }
+
+  // Expire finished challenges and generate the ones for the current periods
+  private async rotate(userId: string, now: Date): Promise<void> {
+    await database.expireChallenges(userId, now.toISOString());
+
+    for (const period of ['daily', 'weekly'] as const) {
+      const { start, end } = this.getPeriodBounds(period, now);
+      const periodStart = start.toISOString();
+      const existing = await database.getChallenges(userId, { period, periodStart });
+      if (existing.length > 0) continue;
+
+      const picks = await this.pickTemplates(userId, period, CHALLENGES_PER_PERIOD[period], [], now);
+      for (const { template, count } of picks) {
+        await this.createChallenge(userId, template, count, {
+          periodStart,
+          startsAt: periodStart,
+          expiresAt: end.toISOString()
+        });
+      }
+    }
+  }
+
+  private async createChallenge(
+    userId: string,
+    template: ChallengeTemplate,
+    requiredCount: number,
+    window: { periodStart: string; startsAt: string; expiresAt: string }
+  ): Promise<ChallengeRecord> {
+    const { dailyReward, weeklyReward } = xpSystem.exportConfig().challengeConfig;
+
+    return database.createChallenge({
+      userId,
+      period: template.period,
+      templateId: template.id,
+      name: template.name,
+      description: template.description.replace('{count}', String(requiredCount)),
+      activityTypes: template.activityTypes,
+      requiredCount,
+      currentProgress: 0,
+      reward: template.period === 'daily' ? dailyReward : weeklyReward,
+      status: 'active',
+      ...window
+    });
+  }
+
+  /**
+   * Pick templates weighted by how often the user did each kind of activity recently,
+   * sizing the required count from their recent daily average
+   */
+  private async pickTemplates(
+    userId: string,
+    period: ChallengePeriod,
+    count: number,
+    excludeIds: string[],
+    now: Date
+  ): Promise<Array<{ template: ChallengeTemplate; count: number }>> {
+    const since = new Date(now.getTime() - RECENT_ACTIVITY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const candidates: Array<{ template: ChallengeTemplate; weight: number; count: number }> = [];
+
+    for (const template of CHALLENGE_TEMPLATES) {
+      if (template.period !== period || excludeIds.includes(template.id)) continue;
+
+      const recent = await database.countActivities(userId, { types: template.activityTypes, since });
+      const expected = (recent / RECENT_ACTIVITY_DAYS) * (period === 'daily' ? 1 : 7);
+      candidates.push({
+        template,
+        // Activities the user never does still show up now and then
+        weight: recent + 1,
+        // Ask for a little more than usual
+        count: Math.min(template.maxCount, Math.max(template.minCount, Math.ceil(expected * 1.2)))
+      });
+    }
+
+    const picks: Array<{ template: ChallengeTemplate; count: number }> = [];
+    while (picks.length < count && candidates.length > 0) {
+      const total = candidates.reduce((sum, c) => sum + c.weight, 0);
+      let roll = this.random() * total;
+      let index = candidates.findIndex(c => (roll -= c.weight) < 0);
+      if (index === -1) index = candidates.length - 1;
+
+      const [picked] = candidates.splice(index, 1);
+      if (picked) {
+        picks.push({ template: picked.template, count: picked.count });
+      }
+    }
+
+    return picks;
+  }
+
+  private getTimeZone(): string {
+    return resolveTimeZone(defaultConfigManager.getConfig().timezone);
+  }
+}
+
+// Export singleton instance
+export const challengeManager = new ChallengeManager();
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for command loader module
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { findSimilarCommands } from './command-loader';
+import type { Command } from '../types/command';
+
+function createCommand(name: string, aliases: string[] = []): Command {
+  return {
+    name,
+    description: `${name} command`,
+    aliases,
+    execute: async () => undefined
+  };
+}
+
+function register(...commands: Command[]): Map<string, Command> {
+  const map = new Map<string, Command>();
+  for (const command of commands) {
+    map.set(command.name, command);
+    for (const alias of command.aliases ?? []) {
+      map.set(alias, command);
+    }
+  }
+  return map;
+}
+
+describe('findSimilarCommands', () => {
+  const commands = register(
+    createCommand('status', ['s', 'info']),
+    createCommand('stats', ['statistics', 'metrics']),
+    createCommand('leaderboard', ['lb', 'rank', 'top'])
+  );
+
+  test('should suggest commands for a typo', () => {
+    expect(findSimilarCommands('stauts', commands)).toEqual(['stats', 'status']);
+  });
+
+  test('should suggest the command when an alias is mistyped', () => {
+    expect(findSimilarCommands('metrix', commands)).toEqual(['stats']);
+  });
+
+  test('should suggest commands matching a prefix', () => {
+    expect(findSimilarCommands('leader', commands)).toEqual(['leaderboard']);
+  });
+
+  test('should return nothing for unrelated input', () => {
+    expect(findSimilarCommands('deploy', commands)).toEqual([]);
+  });
+});
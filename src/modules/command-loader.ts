@@ -4,13 +4,8 @@
 
 import { readdir } from 'node:fs/promises';
 import { join } from 'node:path';
-import { fileURLToPath } from 'node:url';
-import { dirname } from 'node:path';
 import type { Command } from '../types/command.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
 /**
  * Load all commands from the commands directory
  */
@@ -103,3 +98,53 @@ export async function listCommands(): Promise<Command[]> {
 
   return Array.from(uniqueCommands.values());
 }
+
+/**
+ * Find command names (or aliases) that look like a mistyped `input`
+ */
+export function findSimilarCommands(
+  input: string,
+  commands: Map<string, Command>,
+  maxSuggestions = 3
+): string[] {
+  const needle = input.toLowerCase();
+  const threshold = Math.max(2, Math.floor(needle.length / 3));
+  const scored: Array<{ name: string; distance: number }> = [];
+
+  for (const [key, command] of commands) {
+    const distance = key.startsWith(needle) && needle.length > 0
+      ? 0
+      : levenshtein(needle, key.toLowerCase());
+
+    if (distance <= threshold) {
+      scored.push({ name: command.name, distance });
+    }
+  }
+
+  scored.sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name));
+
+  // Aliases resolve to their command, so keep the first hit per command
+  return [...new Set(scored.map(entry => entry.name))].slice(0, maxSuggestions);
+}
+
+/**
+ * Edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (current[j - 1] ?? 0) + 1,
+        (previous[j] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length] ?? 0;
+}
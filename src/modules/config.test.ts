@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the layered configuration manager
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ConfigManager } from './config';
+import { ActivityType } from '../types/Activity';
+
+describe('ConfigManager', () => {
+  let testDir: string;
+  let globalPath: string;
+  let repoDir: string;
+  const originalEnv = { ...process.env };
+
+  const writeJson = (filePath: string, value: unknown) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(value));
+  };
+
+  const readJson = (filePath: string) => JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'devxp-config-test-'));
+    globalPath = path.join(testDir, 'global', 'config.json');
+    repoDir = path.join(testDir, 'repo');
+    fs.mkdirSync(path.join(repoDir, 'src'), { recursive: true });
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('should layer defaults, global, project, env and cli values', () => {
+    writeJson(globalPath, { version: '2', decay: { enabled: true, decayRate: 5 }, streakGoal: 10 });
+    writeJson(path.join(repoDir, '.devxprc.json'), { version: '2', decay: { decayRate: 3 }, timezone: 'Europe/Oslo' });
+    process.env['DEVXP_DECAY__MINIMUM_XP'] = '500';
+    process.env['DEVXP_DAILY_XP_GOAL'] = '300';
+
+    const manager = new ConfigManager(globalPath, path.join(repoDir, 'src'));
+    manager.setCliOverrides({ streakGoal: 14 });
+
+    expect(manager.getConfig().decay).toEqual({
+      enabled: true,
+      daysUntilDecay: 7,
+      decayRate: 3,
+      minimumXP: 500,
+      keepLevel: true
+    });
+    expect(manager.getEntries('decay').map(entry => [entry.key, entry.source])).toEqual([
+      ['decay.enabled', 'global'],
+      ['decay.daysUntilDecay', 'default'],
+      ['decay.decayRate', 'project'],
+      ['decay.minimumXP', 'env'],
+      ['decay.keepLevel', 'default']
+    ]);
+    expect(manager.get('dailyXPGoal')).toBe(300);
+    expect(manager.getSource('timezone')).toBe('project');
+    expect(manager.get('streakGoal')).toBe(14);
+    expect(manager.getSource('streakGoal')).toBe('cli');
+  });
+
+  test('should skip invalid values and reject invalid updates', () => {
+    writeJson(globalPath, { version: '2', decay: { decayRate: 500, enabled: true }, unknown: 1 });
+    const manager = new ConfigManager(globalPath, repoDir);
+
+    expect(manager.get('decay.decayRate')).toBe(2);
+    expect(manager.get('decay.enabled')).toBe(true);
+    expect(manager.getWarnings()).toEqual([
+      'Ignoring decay.decayRate from global config: Too big: expected number to be <=100',
+      'Ignoring unknown from global config: unknown setting'
+    ]);
+
+    expect(() => manager.set('leveling.maxLevel', 0)).toThrow('Invalid value for leveling.maxLevel');
+    expect(() => manager.setCliOverrides({ nope: true })).toThrow('Invalid value for nope: unknown setting');
+  });
+
+  test('should save only the values that were set to the chosen layer', () => {
+    const manager = new ConfigManager(globalPath, repoDir);
+    manager.set('decay', { enabled: true, decayRate: 4 });
+    manager.set('timezone', 'Asia/Tokyo', 'project');
+
+    expect(readJson(globalPath)).toEqual({ version: '2', decay: { enabled: true, decayRate: 4 } });
+    expect(readJson(path.join(repoDir, '.devxprc.json'))).toEqual({ version: '2', timezone: 'Asia/Tokyo' });
+
+    expect(manager.unset('decay.decayRate')).toBe(true);
+    expect(manager.get('decay.decayRate')).toBe(2);
+    expect(manager.getSource('decay.decayRate')).toBe('default');
+    expect(manager.unset('decay.decayRate')).toBe(false);
+  });
+
+  test('should start from the preset of the chosen difficulty', () => {
+    writeJson(globalPath, { version: '2', difficulty: 'hard', activities: { review: 30 } });
+    const manager = new ConfigManager(globalPath, repoDir);
+
+    expect(manager.getActivityBaseXP(ActivityType.GIT_COMMIT)).toEqual({ xp: 5, key: 'activities.commit' });
+    expect(manager.getSource('activities.commit')).toBe('difficulty');
+    expect(manager.getSource('activities.review')).toBe('global');
+    // Types without a setting scale with the activities section: 525 / 725
+    expect(manager.getActivityBaseXP(ActivityType.GIT_MERGE)).toEqual({ xp: 54, standardXP: 75, scale: 0.72 });
+    expect(manager.getTotalXPForLevel(3)).toBe(150 + 270);
+    expect(manager.getLevelFromXP(420)).toEqual({ level: 3, progress: 0, nextLevelXP: 486 });
+
+    manager.setDifficulty('custom');
+    expect(manager.get('activities.commit')).toBe(5);
+    expect(manager.getSource('activities.commit')).toBe('global');
+
+    manager.setDifficulty('easy');
+    expect(manager.get('leveling.multiplier')).toBe(1.3);
+    expect(manager.get('activities.commit')).toBe(15);
+    expect(readJson(globalPath)).toEqual({ version: '2', difficulty: 'easy' });
+  });
+
+  test('should upgrade full legacy config files to the values that differ from the defaults', () => {
+    const legacy = new ConfigManager(path.join(testDir, 'unused.json'), repoDir).getConfig();
+    writeJson(globalPath, { ...legacy, version: '1.0.0', streakGoal: 21, user: { name: 'legacy' } });
+
+    const manager = new ConfigManager(globalPath, repoDir);
+
+    expect(manager.get('streakGoal')).toBe(21);
+    expect(manager.getEntries().filter(entry => entry.source !== 'default').map(entry => entry.key)).toEqual(['streakGoal']);
+    expect(readJson(globalPath)).toEqual({ version: '2', streakGoal: 21, user: { name: 'legacy' } });
+  });
+});
@@ -2,6 +2,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { z } from 'zod';
+import { ActivityType } from '../types/Activity';
+import { defaultConfig as cliConfig } from '../config/config';
 
 // Configuration schema
 const ActivityXPSchema = z.object({
@@ -42,6 +44,76 @@ const ThemeSchema = z.object({
   animations: z.boolean(),
 });
 
+const DEFAULT_RARITY_MULTIPLIERS = {
+  common: 1,
+  uncommon: 2,
+  rare: 5,
+  epic: 10,
+  legendary: 20,
+};
+
+const RarityMultipliersSchema = z.object({
+  common: z.number().min(0).default(DEFAULT_RARITY_MULTIPLIERS.common),
+  uncommon: z.number().min(0).default(DEFAULT_RARITY_MULTIPLIERS.uncommon),
+  rare: z.number().min(0).default(DEFAULT_RARITY_MULTIPLIERS.rare),
+  epic: z.number().min(0).default(DEFAULT_RARITY_MULTIPLIERS.epic),
+  legendary: z.number().min(0).default(DEFAULT_RARITY_MULTIPLIERS.legendary),
+});
+
+const AchievementsSchema = z.object({
+  definitionsPath: z.string().default('~/.config/devxp/achievements'),
+  rarityMultipliers: RarityMultipliersSchema.default(DEFAULT_RARITY_MULTIPLIERS),
+});
+
+const DecaySchema = z.object({
+  enabled: z.boolean().default(false),
+  daysUntilDecay: z.number().int().min(0).default(7),
+  decayRate: z.number().min(0).max(100).default(2), // percentage per day
+  minimumXP: z.number().min(0).default(0),
+  keepLevel: z.boolean().default(true), // never decay below the start of the current level
+});
+
+const StreaksSchema = z.object({
+  includeWeekends: z.boolean().default(true), // false: missing a weekend day doesn't break the streak
+  freezeTokenInterval: z.number().int().min(1).default(7), // earn a freeze token every N streak days
+  maxFreezeTokens: z.number().int().min(0).default(3),
+});
+
+const TeamsSchema = z.object({
+  goalMembers: z.number().int().min(1).default(2), // members who must reach the daily XP goal to unlock the bonus
+  bonusMultiplier: z.number().min(1).max(5).default(1.1), // XP multiplier for the whole team for the rest of the day
+});
+
+const SessionsSchema = z.object({
+  idleTimeout: z.number().int().min(1).default(30), // minutes without activity before a session ends
+});
+
+const BackupSchema = z.object({
+  enabled: z.boolean().default(true), // back up automatically when a command runs
+  interval: z.number().min(1).default(24), // hours between automatic backups
+  maxBackups: z.number().int().min(1).default(10),
+  maxAge: z.number().int().min(1).default(30), // days before a backup is pruned, the newest is always kept
+  path: z.string().default('~/.config/devxp/backups'),
+});
+
+const DateStringSchema = z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date');
+
+export const BonusEventSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'Use lowercase letters, digits, dashes and underscores'),
+  name: z.string().min(1),
+  multiplier: z.number().positive(),
+  startDate: DateStringSchema,
+  endDate: DateStringSchema,
+  affectedActivities: z.array(z.enum(ActivityType)).optional(), // all activities when omitted
+  recurring: z.object({
+    type: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+    interval: z.number().int().min(1).default(1),
+  }).optional(),
+}).refine(event => Date.parse(event.endDate) > Date.parse(event.startDate), {
+  message: 'endDate must be after startDate',
+  path: ['endDate'],
+});
+
 const ConfigSchema = z.object({
   version: z.string(),
   difficulty: z.enum(['easy', 'normal', 'hard', 'custom']),
@@ -49,15 +121,24 @@ const ConfigSchema = z.object({
   leveling: LevelingSchema,
   notifications: NotificationSchema,
   theme: ThemeSchema,
+  achievements: AchievementsSchema,
+  decay: DecaySchema,
+  streaks: StreaksSchema,
+  sessions: SessionsSchema,
+  teams: TeamsSchema,
+  backup: BackupSchema,
+  bonusEvents: z.array(BonusEventSchema),
   streakGoal: z.number().min(1),
   dailyXPGoal: z.number().min(0),
   weeklyXPGoal: z.number().min(0),
   timezone: z.string(),
+  weekStart: z.enum(['monday', 'sunday']),
   language: z.string(),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
 export type ActivityXP = z.infer<typeof ActivityXPSchema>;
+export type BonusEventConfig = z.infer<typeof BonusEventSchema>;
 export type DifficultyLevel = 'easy' | 'normal' | 'hard' | 'custom';
 
 // Difficulty presets
@@ -143,9 +224,120 @@ const DIFFICULTY_PRESETS: Record<DifficultyLevel, Partial<Config>> = {
   custom: {}, // User-defined values
 };
 
+// Activity types whose base XP comes straight from the activities section
+export const ACTIVITY_XP_KEYS: Partial<Record<ActivityType, keyof ActivityXP>> = {
+  [ActivityType.GIT_COMMIT]: 'commit',
+  [ActivityType.PR_CREATE]: 'pullRequest',
+  [ActivityType.PR_REVIEW]: 'review',
+  [ActivityType.ISSUE_CREATE]: 'issue',
+  [ActivityType.ISSUE_CLOSE]: 'issue',
+  [ActivityType.CODE_TEST]: 'test',
+  [ActivityType.CODE_DEBUG]: 'debugging',
+  [ActivityType.DOCUMENTATION_WRITE]: 'documentation',
+  [ActivityType.DOCUMENTATION_READ]: 'learning',
+  [ActivityType.DEPLOY_STAGING]: 'deployment',
+  [ActivityType.DEPLOY_PRODUCTION]: 'deployment',
+};
+
+// Base XP at normal difficulty for activity types without a setting of their
+// own; these are scaled with the activities section
+const STANDARD_ACTIVITY_XP: Record<ActivityType, number> = {
+  // Git activities
+  [ActivityType.GIT_COMMIT]: 50,
+  [ActivityType.GIT_PUSH]: 30,
+  [ActivityType.GIT_PULL]: 20,
+  [ActivityType.GIT_MERGE]: 75,
+  [ActivityType.GIT_BRANCH_CREATE]: 25,
+  [ActivityType.GIT_BRANCH_DELETE]: 15,
+  [ActivityType.GIT_CHECKOUT]: 5,
+  [ActivityType.GIT_STASH]: 10,
+  [ActivityType.GIT_TAG]: 40,
+  [ActivityType.GIT_REBASE]: 100,
+
+  // Terminal activities
+  [ActivityType.TERMINAL_COMMAND]: 5,
+  [ActivityType.TERMINAL_PIPE]: 15,
+  [ActivityType.TERMINAL_SCRIPT]: 50,
+  [ActivityType.TERMINAL_ALIAS]: 30,
+
+  // File operations
+  [ActivityType.FILE_CREATE]: 20,
+  [ActivityType.FILE_EDIT]: 15,
+  [ActivityType.FILE_DELETE]: 10,
+  [ActivityType.FILE_RENAME]: 10,
+  [ActivityType.DIRECTORY_CREATE]: 15,
+
+  // Development activities
+  [ActivityType.CODE_COMPILE]: 25,
+  [ActivityType.CODE_BUILD]: 40,
+  [ActivityType.CODE_TEST]: 60,
+  [ActivityType.CODE_LINT]: 20,
+  [ActivityType.CODE_FORMAT]: 15,
+  [ActivityType.CODE_DEBUG]: 80,
+
+  // Package management
+  [ActivityType.PACKAGE_INSTALL]: 20,
+  [ActivityType.PACKAGE_UPDATE]: 30,
+  [ActivityType.PACKAGE_PUBLISH]: 200,
+
+  // Docker activities
+  [ActivityType.DOCKER_BUILD]: 50,
+  [ActivityType.DOCKER_RUN]: 30,
+  [ActivityType.DOCKER_COMPOSE]: 40,
+
+  // Database activities
+  [ActivityType.DATABASE_QUERY]: 15,
+  [ActivityType.DATABASE_MIGRATION]: 100,
+  [ActivityType.DATABASE_BACKUP]: 75,
+
+  // Deployment activities
+  [ActivityType.DEPLOY_STAGING]: 150,
+  [ActivityType.DEPLOY_PRODUCTION]: 300,
+  [ActivityType.DEPLOY_ROLLBACK]: 200,
+
+  // Learning activities
+  [ActivityType.DOCUMENTATION_READ]: 25,
+  [ActivityType.DOCUMENTATION_WRITE]: 100,
+  [ActivityType.TUTORIAL_COMPLETE]: 150,
+
+  // Collaboration
+  [ActivityType.PR_CREATE]: 100,
+  [ActivityType.PR_REVIEW]: 75,
+  [ActivityType.PR_MERGE]: 125,
+  [ActivityType.ISSUE_CREATE]: 50,
+  [ActivityType.ISSUE_CLOSE]: 60,
+
+  // Custom
+  [ActivityType.CUSTOM]: 10
+};
+
+const sumActivityXP = (activities: ActivityXP): number =>
+  Object.values(activities).reduce((total, xp) => total + xp, 0);
+
+const NORMAL_ACTIVITY_XP_TOTAL = sumActivityXP(DIFFICULTY_PRESETS.normal.activities!);
+
+/**
+ * Base XP of an activity type and where it comes from
+ */
+export interface ActivityBaseXP {
+  xp: number;
+
+  /** Setting that supplies the value, e.g. activities.commit */
+  key?: string;
+
+  /** Normal difficulty value, for activity types without a setting */
+  standardXP?: number;
+
+  /** Factor applied to standardXP */
+  scale?: number;
+}
+
+// Version of the config file format
+const CONFIG_VERSION = '2';
+
 // Default configuration
 const DEFAULT_CONFIG: Config = {
-  version: '1.0.0',
+  version: CONFIG_VERSION,
   difficulty: 'normal',
   activities: DIFFICULTY_PRESETS.normal.activities!,
   leveling: DIFFICULTY_PRESETS.normal.leveling!,
@@ -161,112 +353,314 @@ const DEFAULT_CONFIG: Config = {
     accentColor: '#3B82F6',
     animations: true,
   },
+  achievements: {
+    definitionsPath: '~/.config/devxp/achievements',
+    rarityMultipliers: { ...DEFAULT_RARITY_MULTIPLIERS },
+  },
+  decay: {
+    enabled: false,
+    daysUntilDecay: 7,
+    decayRate: 2,
+    minimumXP: 0,
+    keepLevel: true,
+  },
+  streaks: {
+    includeWeekends: true,
+    freezeTokenInterval: 7,
+    maxFreezeTokens: 3,
+  },
+  sessions: {
+    idleTimeout: 30,
+  },
+  teams: {
+    goalMembers: 2,
+    bonusMultiplier: 1.1,
+  },
+  backup: {
+    enabled: true,
+    interval: 24,
+    maxBackups: 10,
+    maxAge: 30,
+    path: '~/.config/devxp/backups',
+  },
+  bonusEvents: [],
   streakGoal: 7,
   dailyXPGoal: DIFFICULTY_PRESETS.normal.dailyXPGoal!,
   weeklyXPGoal: DIFFICULTY_PRESETS.normal.weeklyXPGoal!,
   timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  weekStart: 'monday',
   language: 'en',
 };
 
+/**
+ * Where a configuration value comes from, lowest precedence first
+ */
+export type ConfigSource = 'default' | 'difficulty' | 'global' | 'project' | 'env' | 'cli';
+
+/**
+ * Layers that can be saved to a file
+ */
+export type ConfigFileLayer = 'global' | 'project';
+
+/**
+ * A resolved setting and the layer that supplied it
+ */
+export interface ConfigEntry {
+  key: string;
+  value: unknown;
+  source: ConfigSource;
+}
+
+const OVERRIDE_LAYERS = ['global', 'project', 'env', 'cli'] as const;
+type OverrideLayer = typeof OVERRIDE_LAYERS[number];
+
+// Leaf settings by dotted path; arrays such as bonusEvents are single values
+const DEFAULT_VALUES = new Map(
+  Object.entries(flattenConfig(DEFAULT_CONFIG)).filter(([key]) => key !== 'version')
+);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function flattenConfig(value: unknown, prefix = '', result: Record<string, unknown> = {}): Record<string, unknown> {
+  if (!isPlainObject(value)) {
+    if (prefix) result[prefix] = value;
+    return result;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    flattenConfig(child, prefix ? `${prefix}.${key}` : key, result);
+  }
+  return result;
+}
+
+function unflattenConfig(values: Map<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of values) {
+    const keys = key.split('.');
+    const lastKey = keys.pop()!;
+    let target = result;
+    for (const part of keys) {
+      if (!isPlainObject(target[part])) target[part] = {};
+      target = target[part] as Record<string, unknown>;
+    }
+    target[lastKey] = value;
+  }
+  return result;
+}
+
+// decay.daysUntilDecay -> DEVXP_DECAY__DAYS_UNTIL_DECAY
+function toEnvName(key: string): string {
+  return cliConfig.envPrefix + key
+    .split('.')
+    .map(part => part
+      .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+      .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+      .toUpperCase())
+    .join('__');
+}
+
+/**
+ * Parse a value typed on the command line or set in the environment
+ */
+export function parseConfigValue(value: string): unknown {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Find the nearest per-repository config file, looking upwards from a directory
+ */
+export function findProjectConfig(startDir: string = process.cwd()): string | null {
+  let dir = path.resolve(startDir);
+  for (;;) {
+    const candidate = path.join(dir, cliConfig.configFileName);
+    if (fs.existsSync(candidate)) return candidate;
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Layered configuration: defaults, then the global file, the project's
+ * .devxprc.json, DEVXP_* environment variables and finally --set flags.
+ * Every value is validated before it is accepted.
+ */
 export class ConfigManager {
   private configPath: string;
   private config: Config;
   private configDir: string;
+  private cwd: string;
+  private layers: Record<OverrideLayer, Map<string, unknown>>;
+  private sources = new Map<string, ConfigSource>();
+  private warnings: string[] = [];
 
-  constructor(customPath?: string) {
+  constructor(customPath?: string, cwd: string = process.cwd()) {
     this.configDir = path.join(os.homedir(), '.config', 'devxp');
     this.configPath = customPath || path.join(this.configDir, 'config.json');
-    this.config = this.loadConfig();
+    this.cwd = cwd;
+    this.layers = {
+      global: this.loadFile(this.configPath, 'global'),
+      project: this.loadProjectFile(),
+      env: this.loadEnv(),
+      cli: new Map()
+    };
+    this.config = this.resolve();
   }
 
   /**
-   * Load configuration from file or create default
+   * Load the settings saved in a config file, upgrading older formats
    */
-  private loadConfig(): Config {
+  private loadFile(filePath: string, layer: ConfigFileLayer): Map<string, unknown> {
     try {
-      if (fs.existsSync(this.configPath)) {
-        const rawConfig = fs.readFileSync(this.configPath, 'utf-8');
-        const parsedConfig = JSON.parse(rawConfig);
-        
-        // Validate and merge with defaults
-        const validatedConfig = this.validateConfig(parsedConfig);
-        return { ...DEFAULT_CONFIG, ...validatedConfig };
+      if (fs.existsSync(filePath)) {
+        const parsedConfig = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        const values = this.migrateConfig(parsedConfig);
+
+        if (layer === 'global' && parsedConfig.version !== CONFIG_VERSION) {
+          this.writeFile(filePath, values);
+        }
+        return values;
       }
     } catch (error) {
-      console.warn(`Failed to load config from ${this.configPath}:`, error);
+      console.warn(`Failed to load config from ${filePath}:`, error);
     }
+    return new Map();
+  }
+
+  private loadProjectFile(): Map<string, unknown> {
+    const projectPath = findProjectConfig(this.cwd);
+    return projectPath ? this.loadFile(projectPath, 'project') : new Map();
+  }
 
-    // Create default config if doesn't exist
-    this.saveConfig(DEFAULT_CONFIG);
-    return DEFAULT_CONFIG;
+  private loadEnv(): Map<string, unknown> {
+    const values = new Map<string, unknown>();
+    for (const key of DEFAULT_VALUES.keys()) {
+      const value = process.env[toEnvName(key)];
+      if (value !== undefined) {
+        values.set(key, parseConfigValue(value));
+      }
+    }
+    return values;
   }
 
   /**
-   * Validate configuration against schema
+   * Turn a config file into settings by path. Before version 2 the whole
+   * configuration was written out, so values equal to the defaults are
+   * dropped to let them follow future default changes.
    */
-  private validateConfig(config: unknown): Partial<Config> {
-    try {
-      // Try to parse as full config
-      return ConfigSchema.parse(config);
-    } catch {
-      // If full validation fails, validate individual parts
-      const partialConfig: Partial<Config> = {};
-      const configObj = config as any;
-
-      // Validate each section individually
-      if (configObj.version) partialConfig.version = configObj.version;
-      if (configObj.difficulty) {
-        try {
-          partialConfig.difficulty = z.enum(['easy', 'normal', 'hard', 'custom']).parse(configObj.difficulty);
-        } catch {}
-      }
-      if (configObj.activities) {
-        try {
-          partialConfig.activities = ActivityXPSchema.parse(configObj.activities);
-        } catch {}
-      }
-      if (configObj.leveling) {
-        try {
-          partialConfig.leveling = LevelingSchema.parse(configObj.leveling);
-        } catch {}
-      }
-      if (configObj.notifications) {
-        try {
-          partialConfig.notifications = NotificationSchema.parse(configObj.notifications);
-        } catch {}
+  private migrateConfig(raw: unknown): Map<string, unknown> {
+    const values = new Map<string, unknown>();
+    if (!isPlainObject(raw)) return values;
+
+    const isLegacy = parseInt(String(raw['version'] ?? '1'), 10) < parseInt(CONFIG_VERSION, 10);
+    for (const [key, value] of Object.entries(flattenConfig(raw))) {
+      if (key === 'version') continue;
+      if (isLegacy && JSON.stringify(value) === JSON.stringify(DEFAULT_VALUES.get(key))) continue;
+      values.set(key, value);
+    }
+    return values;
+  }
+
+  /**
+   * Merge the layers over the defaults and the difficulty preset, skipping
+   * values that fail validation
+   */
+  private resolve(): Config {
+    const config: Config = JSON.parse(JSON.stringify(DEFAULT_CONFIG));
+    this.sources = new Map([...DEFAULT_VALUES.keys()].map(key => [key, 'default' as ConfigSource]));
+    this.warnings = [];
+
+    const difficulty = this.resolveDifficulty();
+    if (difficulty !== DEFAULT_CONFIG.difficulty) {
+      for (const [key, value] of Object.entries(flattenConfig(DIFFICULTY_PRESETS[difficulty]))) {
+        this.applyValue(config, key, value);
+        this.sources.set(key, 'difficulty');
       }
-      if (configObj.theme) {
-        try {
-          partialConfig.theme = ThemeSchema.parse(configObj.theme);
-        } catch {}
+    }
+
+    for (const layer of OVERRIDE_LAYERS) {
+      for (const [key, value] of this.layers[layer]) {
+        const error = this.applyValue(config, key, value);
+        if (error) {
+          this.warnings.push(`Ignoring ${key} from ${layer} config: ${error}`);
+        } else {
+          this.sources.set(key, layer);
+        }
       }
-      if (configObj.streakGoal) partialConfig.streakGoal = configObj.streakGoal;
-      if (configObj.dailyXPGoal) partialConfig.dailyXPGoal = configObj.dailyXPGoal;
-      if (configObj.weeklyXPGoal) partialConfig.weeklyXPGoal = configObj.weeklyXPGoal;
-      if (configObj.timezone) partialConfig.timezone = configObj.timezone;
-      if (configObj.language) partialConfig.language = configObj.language;
+    }
+
+    return config;
+  }
 
-      return partialConfig;
+  // The preset other values start from, taken from the highest layer setting a valid one
+  private resolveDifficulty(): DifficultyLevel {
+    for (const layer of [...OVERRIDE_LAYERS].reverse()) {
+      const result = ConfigSchema.shape.difficulty.safeParse(this.layers[layer].get('difficulty'));
+      if (result.success) return result.data;
     }
+    return DEFAULT_CONFIG.difficulty;
   }
 
-  /**
-   * Save configuration to file
-   */
-  private saveConfig(config: Config): void {
-    // Ensure directory exists
-    if (!fs.existsSync(this.configDir)) {
-      fs.mkdirSync(this.configDir, { recursive: true });
+  // Set a leaf value if its section still validates, returning the error otherwise
+  private applyValue(config: Config, key: string, value: unknown): string | null {
+    if (!DEFAULT_VALUES.has(key)) {
+      return 'unknown setting';
+    }
+
+    const [section, ...rest] = key.split('.') as [keyof Config, ...string[]];
+    let candidate: unknown = value;
+    if (rest.length > 0) {
+      const values = new Map(Object.entries(flattenConfig(config[section])));
+      values.set(rest.join('.'), value);
+      candidate = unflattenConfig(values);
+    }
+
+    const result = ConfigSchema.shape[section].safeParse(candidate);
+    if (!result.success) {
+      return result.error.issues[0]?.message ?? 'invalid value';
+    }
+
+    (config as Record<string, unknown>)[section] = result.data;
+    return null;
+  }
+
+  // Settings under a path, expanding objects into their leaves
+  private toEntries(key: string, value: unknown): [string, unknown][] {
+    if (DEFAULT_VALUES.has(key) || !isPlainObject(value)) {
+      return [[key, value]];
+    }
+    return Object.entries(flattenConfig(value)).map(([child, childValue]) => [`${key}.${child}`, childValue]);
+  }
+
+  private writeFile(filePath: string, values: Map<string, unknown>): void {
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
     }
 
-    // Write config file
     fs.writeFileSync(
-      this.configPath,
-      JSON.stringify(config, null, 2),
+      filePath,
+      JSON.stringify({ version: CONFIG_VERSION, ...unflattenConfig(values) }, null, 2),
       'utf-8'
     );
+  }
 
-    this.config = config;
+  /**
+   * Save a file layer and re-resolve the configuration
+   */
+  private saveLayer(layer: ConfigFileLayer, values: Map<string, unknown>): void {
+    this.writeFile(this.getConfigPath(layer), values);
+    this.layers[layer] = values;
+    this.config = this.resolve();
   }
 
   /**
@@ -280,6 +674,7 @@ export class ConfigManager {
    * Get a specific configuration value
    */
   get<K extends keyof Config>(key: K): Config[K];
+  get(path: string): any;
   get(path: string): any {
     const keys = path.split('.');
     let value: any = this.config;
@@ -296,70 +691,157 @@ export class ConfigManager {
   }
 
   /**
-   * Set a configuration value
+   * Resolved settings with their source, optionally only those under a path
    */
-  set<K extends keyof Config>(key: K, value: Config[K]): void;
-  set(path: string, value: any): void {
-    const keys = path.split('.');
-    const lastKey = keys.pop()!;
-    let target: any = this.config;
+  getEntries(prefix?: string): ConfigEntry[] {
+    return [...DEFAULT_VALUES.keys()]
+      .filter(key => !prefix || key === prefix || key.startsWith(`${prefix}.`))
+      .map(key => ({ key, value: this.get(key), source: this.sources.get(key) ?? 'default' }));
+  }
 
-    // Navigate to the target object
-    for (const key of keys) {
-      if (!(key in target) || typeof target[key] !== 'object') {
-        target[key] = {};
+  /**
+   * Values saved in a file layer, by dotted path
+   */
+  getLayerValues(layer: ConfigFileLayer = 'global'): Record<string, unknown> {
+    return Object.fromEntries(this.layers[layer]);
+  }
+
+  /**
+   * Layer that supplied a setting
+   */
+  getSource(key: string): ConfigSource | undefined {
+    return this.sources.get(key);
+  }
+
+  /**
+   * Problems found while loading the layers
+   */
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+
+  /**
+   * Path of the global config file, or of the project file in use (or to create)
+   */
+  getConfigPath(layer: ConfigFileLayer = 'global'): string {
+    if (layer === 'global') {
+      return this.configPath;
+    }
+    return findProjectConfig(this.cwd) ?? path.join(this.findRepoRoot() ?? this.cwd, cliConfig.configFileName);
+  }
+
+  private findRepoRoot(): string | null {
+    let dir = path.resolve(this.cwd);
+    for (;;) {
+      if (fs.existsSync(path.join(dir, '.git'))) return dir;
+
+      const parent = path.dirname(dir);
+      if (parent === dir) return null;
+      dir = parent;
+    }
+  }
+
+  /**
+   * Set a configuration value, or every value in an object, in a file layer
+   */
+  set<K extends keyof Config>(key: K, value: Config[K], layer?: ConfigFileLayer): void;
+  set(path: string, value: any, layer?: ConfigFileLayer): void;
+  set(path: string, value: any, layer: ConfigFileLayer = 'global'): void {
+    const entries = this.toEntries(path, value);
+    const candidate: Config = JSON.parse(JSON.stringify(this.config));
+
+    for (const [key, entryValue] of entries) {
+      const error = this.applyValue(candidate, key, entryValue);
+      if (error) {
+        throw new Error(`Invalid value for ${key}: ${error}`);
       }
-      target = target[key];
     }
 
-    // Set the value
-    target[lastKey] = value;
+    const values = new Map(this.layers[layer]);
+    entries.forEach(([key, entryValue]) => values.set(key, entryValue));
+    this.saveLayer(layer, values);
+  }
+
+  /**
+   * Remove saved values at or under a path so lower layers apply again
+   */
+  unset(path: string, layer: ConfigFileLayer = 'global'): boolean {
+    const values = new Map(this.layers[layer]);
+    const keys = [...values.keys()].filter(key => key === path || key.startsWith(`${path}.`));
+    if (keys.length === 0) return false;
+
+    keys.forEach(key => values.delete(key));
+    this.saveLayer(layer, values);
+    return true;
+  }
+
+  /**
+   * Apply --set overrides from the command line for this run
+   */
+  setCliOverrides(overrides: Record<string, unknown>): void {
+    const candidate: Config = JSON.parse(JSON.stringify(this.config));
+    const values = new Map<string, unknown>();
+
+    for (const [path, value] of Object.entries(overrides)) {
+      for (const [key, entryValue] of this.toEntries(path, value)) {
+        const error = this.applyValue(candidate, key, entryValue);
+        if (error) {
+          throw new Error(`Invalid value for ${key}: ${error}`);
+        }
+        values.set(key, entryValue);
+      }
+    }
 
-    // Validate and save
-    const validated = this.validateConfig(this.config);
-    this.saveConfig({ ...DEFAULT_CONFIG, ...validated });
+    this.layers.cli = values;
+    this.config = this.resolve();
   }
 
   /**
    * Update multiple configuration values
    */
   update(updates: Partial<Config>): void {
-    const merged = { ...this.config, ...updates };
-    const validated = this.validateConfig(merged);
-    this.saveConfig({ ...DEFAULT_CONFIG, ...validated });
+    for (const [key, value] of Object.entries(updates)) {
+      this.set(key, value);
+    }
   }
 
   /**
-   * Reset configuration to defaults
+   * Reset the saved configuration to defaults
    */
-  reset(): void {
-    this.saveConfig(DEFAULT_CONFIG);
+  reset(layer: ConfigFileLayer = 'global'): void {
+    this.saveLayer(layer, new Map());
   }
 
   /**
    * Reset specific section to defaults
    */
-  resetSection(section: keyof Config): void {
-    const updated = { ...this.config };
-    updated[section] = DEFAULT_CONFIG[section] as any;
-    this.saveConfig(updated);
+  resetSection(section: keyof Config, layer: ConfigFileLayer = 'global'): void {
+    this.unset(section, layer);
   }
 
   /**
-   * Apply a difficulty preset
+   * Switch to a difficulty preset, replacing the values it covers in the
+   * layer. Switching to custom keeps the current preset values by saving
+   * them to the layer.
    */
-  setDifficulty(difficulty: DifficultyLevel): void {
-    if (difficulty === 'custom') {
-      // Just set the difficulty flag, keep current values
-      this.set('difficulty', difficulty);
-      return;
+  setDifficulty(difficulty: DifficultyLevel, layer: ConfigFileLayer = 'global'): void {
+    const result = ConfigSchema.shape.difficulty.safeParse(difficulty);
+    if (!result.success) {
+      throw new Error(`Invalid value for difficulty: ${result.error.issues[0]?.message ?? 'invalid value'}`);
     }
 
-    const preset = DIFFICULTY_PRESETS[difficulty];
-    this.update({
-      difficulty,
-      ...preset,
-    });
+    const values = new Map(this.layers[layer]);
+    if (difficulty === 'custom') {
+      for (const { key, value, source } of this.getEntries()) {
+        if (source === 'difficulty') values.set(key, value);
+      }
+    } else {
+      for (const key of Object.keys(flattenConfig(DIFFICULTY_PRESETS.normal))) {
+        values.delete(key);
+      }
+    }
+    values.set('difficulty', difficulty);
+    this.saveLayer(layer, values);
   }
 
   /**
@@ -371,17 +853,23 @@ export class ConfigManager {
   }
 
   /**
-   * Import configuration from a file
+   * Replace the global settings with those from a file
    */
   importConfig(filePath: string): void {
+    let values: Map<string, unknown>;
     try {
-      const rawConfig = fs.readFileSync(filePath, 'utf-8');
-      const parsedConfig = JSON.parse(rawConfig);
-      const validated = this.validateConfig(parsedConfig);
-      this.saveConfig({ ...DEFAULT_CONFIG, ...validated });
+      values = this.migrateConfig(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
     } catch (error) {
       throw new Error(`Failed to import config from ${filePath}: ${error}`);
     }
+
+    const candidate: Config = JSON.parse(JSON.stringify(DEFAULT_CONFIG));
+    for (const [key, value] of values) {
+      if (this.applyValue(candidate, key, value)) {
+        values.delete(key);
+      }
+    }
+    this.saveLayer('global', values);
   }
 
   /**
@@ -448,30 +936,50 @@ export class ConfigManager {
    * Set activity XP value
    */
   setActivityXP(activity: keyof ActivityXP, xp: number): void {
-    const activities = { ...this.config.activities };
-    activities[activity] = xp;
-    this.set('activities', activities);
-    
     // If we're modifying activities, set difficulty to custom
     if (this.config.difficulty !== 'custom') {
-      this.set('difficulty', 'custom');
+      this.setDifficulty('custom');
     }
+
+    this.set(`activities.${activity}`, xp);
+  }
+
+  /**
+   * Factor applied to the standard XP of activity types without a setting,
+   * so they follow the activities section (and difficulty) as a whole
+   */
+  getActivityXPScale(): number {
+    return Math.round(sumActivityXP(this.config.activities) / NORMAL_ACTIVITY_XP_TOTAL * 100) / 100;
+  }
+
+  /**
+   * Base XP awarded for an activity type
+   */
+  getActivityBaseXP(type: ActivityType): ActivityBaseXP {
+    const key = ACTIVITY_XP_KEYS[type];
+    if (key) {
+      return { xp: this.config.activities[key], key: `activities.${key}` };
+    }
+
+    const standardXP = STANDARD_ACTIVITY_XP[type];
+    const scale = this.getActivityXPScale();
+    return { xp: Math.round(standardXP * scale), standardXP, scale };
   }
 
   /**
-   * Calculate XP required for a level
+   * XP needed to complete a level: baseXP * multiplier ^ (level - 1)
    */
   getXPForLevel(level: number): number {
     const { baseXP, multiplier } = this.config.leveling;
-    return Math.floor(baseXP * Math.pow(multiplier, level - 1));
+    return Math.round(baseXP * Math.pow(multiplier, level - 1));
   }
 
   /**
-   * Calculate total XP required to reach a level
+   * Total XP at which a level starts
    */
   getTotalXPForLevel(level: number): number {
     let total = 0;
-    for (let i = 1; i <= level; i++) {
+    for (let i = 1; i < level; i++) {
       total += this.getXPForLevel(i);
     }
     return total;
@@ -507,6 +1015,29 @@ export class ConfigManager {
     };
   }
 
+  /**
+   * Get the absolute path of the custom achievement definitions
+   */
+  getAchievementDefinitionsPath(): string {
+    const definitionsPath = this.config.achievements.definitionsPath;
+    if (definitionsPath === '~' || definitionsPath.startsWith('~/')) {
+      return path.join(os.homedir(), definitionsPath.slice(1));
+    }
+    // Relative paths are relative to the config directory
+    return path.resolve(this.configDir, definitionsPath);
+  }
+
+  /**
+   * Get the absolute path of the backup directory
+   */
+  getBackupPath(): string {
+    const backupPath = this.config.backup.path;
+    if (backupPath === '~' || backupPath.startsWith('~/')) {
+      return path.join(os.homedir(), backupPath.slice(1));
+    }
+    return path.resolve(this.configDir, backupPath);
+  }
+
   /**
    * Validate that all required config fields are present
    */
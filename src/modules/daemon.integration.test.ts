@@ -0,0 +1,137 @@
+/**
+ * Integration tests for the tracking daemon socket
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as path from 'path';
+import * as os from 'os';
+import { CommandEvent, DaemonClient, DaemonServer } from './daemon';
+
+describe('DaemonServer', () => {
+  let testDir: string;
+  let socketPath: string;
+  let pidPath: string;
+
+  beforeAll(async () => {
+    // Unix socket paths are short, so stay close to the root of tmp
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'devxp-daemon-'));
+    socketPath = path.join(testDir, 'daemon.sock');
+    pidPath = path.join(testDir, 'daemon.pid');
+  });
+
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should record events in order and answer pings until stopped', async () => {
+    const received: CommandEvent[] = [];
+    const server = new DaemonServer(async event => {
+      // Slow handlers must not reorder events
+      await new Promise(resolve => setTimeout(resolve, event.command === 'npm' ? 30 : 0));
+      received.push(event);
+    }, socketPath, pidPath);
+    const client = new DaemonClient(socketPath);
+
+    await server.start();
+    expect(await fs.readFile(pidPath, 'utf-8')).toBe(`${process.pid}\n`);
+
+    expect(await client.send({ type: 'command', command: 'npm', exitCode: 0, duration: 1.5, cwd: '/work' })).toBe(true);
+    expect(await client.send({ type: 'command', command: 'git' })).toBe(true);
+
+    // What the zsh integration writes: strings, no reply expected
+    await new Promise<void>(resolve => {
+      const socket = net.createConnection(socketPath, () => {
+        socket.end('{"type":"command","command":"cargo","exitCode":"0","duration":"10."}');
+      });
+      socket.on('close', () => resolve());
+    });
+
+    expect(await client.stop()).toBe(true);
+    await server.wait();
+
+    expect(received).toEqual([
+      { type: 'command', command: 'npm', exitCode: 0, duration: 1.5, cwd: '/work' },
+      { type: 'command', command: 'git' },
+      { type: 'command', command: 'cargo', exitCode: 0, duration: 10 }
+    ]);
+    expect(server.getStatus()).toMatchObject({ processed: 3, failed: 0, pending: 0 });
+    await expect(fs.access(socketPath)).rejects.toThrow();
+    await expect(fs.access(pidPath)).rejects.toThrow();
+  });
+
+  test('should count failed and invalid events without stopping', async () => {
+    const server = new DaemonServer(async event => {
+      if (event.command === 'broken') throw new Error('Database is locked');
+    }, socketPath, pidPath);
+    const client = new DaemonClient(socketPath);
+    await server.start();
+
+    await client.send({ type: 'command', command: 'broken' });
+    await new Promise<void>(resolve => {
+      const socket = net.createConnection(socketPath, () => socket.end('not json\n'));
+      // Read the error reply so the socket can close
+      socket.resume();
+      socket.on('close', () => resolve());
+    });
+    await client.send({ type: 'command', command: 'make' });
+
+    await expect(new DaemonServer(async () => undefined, socketPath, pidPath).start()).rejects.toThrow('already listening');
+
+    let status = await client.ping();
+    while (status && status.processed + status.failed < 3) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      status = await client.ping();
+    }
+    expect(status).toMatchObject({ pid: process.pid, processed: 1, failed: 2, pending: 0 });
+
+    await server.stop();
+  });
+
+  test('should run tasks between events without counting them', async () => {
+    const log: string[] = [];
+    const server = new DaemonServer(async event => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      log.push(event.command);
+    }, socketPath, pidPath);
+    const client = new DaemonClient(socketPath);
+    await server.start();
+
+    await client.send({ type: 'command', command: 'npm' });
+    let status = await client.ping();
+    while (status && status.pending === 0 && status.processed === 0) {
+      status = await client.ping();
+    }
+    await server.runTask(async () => {
+      log.push('decay');
+    });
+    await expect(server.runTask(async () => {
+      throw new Error('Database is locked');
+    })).rejects.toThrow('Database is locked');
+
+    await server.stop();
+    expect(log).toEqual(['npm', 'decay']);
+    expect(server.getStatus()).toMatchObject({ processed: 1, failed: 0 });
+    await server.runTask(async () => {
+      log.push('after stop');
+    });
+    expect(log).toEqual(['npm', 'decay']);
+  });
+
+  test('should report a missing or stale socket as not running', async () => {
+    const client = new DaemonClient(socketPath);
+    expect(await client.send({ type: 'command', command: 'npm' })).toBe(false);
+    expect(await client.ping()).toBeNull();
+    expect(await client.stop()).toBe(false);
+
+    // A crashed daemon leaves its socket file behind
+    await fs.writeFile(socketPath, '');
+    expect(await client.send({ type: 'command', command: 'npm' })).toBe(false);
+
+    const server = new DaemonServer(async () => undefined, socketPath, pidPath);
+    await server.start();
+    expect(await client.ping()).not.toBeNull();
+    await server.stop();
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * Daemon Module
+ * Background server that keeps the database open and accepts tracking
+ * events over a Unix domain socket, and the client the hooks use to reach it
+ */
+
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+
+/**
+ * Socket file of the daemon, inside the DevXP config directory
+ */
+export function getDaemonSocketPath(): string {
+  return path.join(os.homedir(), '.config', 'devxp', 'daemon.sock');
+}
+
+/**
+ * File holding the process id of the running daemon
+ */
+export function getDaemonPidPath(): string {
+  return path.join(os.homedir(), '.config', 'devxp', 'daemon.pid');
+}
+
+// Shells send everything as strings, so numbers are coerced
+const commandEventSchema = z.object({
+  type: z.literal('command'),
+  command: z.string().min(1),
+  exitCode: z.coerce.number().int().optional(),
+  duration: z.coerce.number().nonnegative().optional(),
+  cwd: z.string().optional(),
+  timestamp: z.iso.datetime().optional()
+});
+
+const requestSchema = z.discriminatedUnion('type', [
+  commandEventSchema,
+  z.object({ type: z.literal('ping') }),
+  z.object({ type: z.literal('stop') })
+]);
+
+/**
+ * A shell command reported by the shell integration
+ */
+export type CommandEvent = z.infer<typeof commandEventSchema>;
+
+/**
+ * One line sent to the daemon
+ */
+export type DaemonRequest = z.infer<typeof requestSchema>;
+
+/**
+ * What a running daemon reports about itself
+ */
+export interface DaemonStatus {
+  pid: number;
+  startedAt: string;
+
+  /** Seconds since the daemon started */
+  uptime: number;
+
+  /** Events recorded and events that failed */
+  processed: number;
+  failed: number;
+
+  /** Events received but not recorded yet */
+  pending: number;
+}
+
+/**
+ * Reply to a ping or stop request
+ */
+export interface DaemonResponse {
+  ok: boolean;
+  status?: DaemonStatus;
+  error?: string;
+}
+
+/**
+ * Records one event, called for events in the order they arrive
+ */
+export type DaemonEventHandler = (event: CommandEvent) => Promise<void>;
+
+/**
+ * Accepts newline-delimited JSON requests on a Unix domain socket.
+ * Command events get no reply; ping and stop are answered with the status.
+ */
+export class DaemonServer {
+  private server: net.Server | null = null;
+  private connections = new Set<net.Socket>();
+  private queue: Promise<void> = Promise.resolve();
+  private startedAt = new Date();
+  private processed = 0;
+  private failed = 0;
+  private pending = 0;
+  private stopping: Promise<void> | null = null;
+  private stopped: Promise<void>;
+  private resolveStopped: () => void = () => undefined;
+
+  constructor(
+    private readonly handler: DaemonEventHandler,
+    private readonly socketPath: string = getDaemonSocketPath(),
+    private readonly pidPath: string = getDaemonPidPath()
+  ) {
+    this.stopped = new Promise(resolve => {
+      this.resolveStopped = resolve;
+    });
+  }
+
+  /**
+   * Start listening. Fails when another daemon already answers on the socket.
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      throw new Error('Daemon already started');
+    }
+
+    // A socket left behind by a crashed daemon refuses connections
+    if (await new DaemonClient(this.socketPath).ping()) {
+      throw new Error(`Another daemon is already listening on ${this.socketPath}`);
+    }
+    await fs.mkdir(path.dirname(this.socketPath), { recursive: true });
+    await fs.rm(this.socketPath, { force: true });
+
+    const server = net.createServer(socket => this.accept(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    // Only the owner may send events
+    await fs.chmod(this.socketPath, 0o600);
+    await fs.writeFile(this.pidPath, `${process.pid}\n`, 'utf-8');
+
+    this.server = server;
+    this.startedAt = new Date();
+  }
+
+  /**
+   * Stop accepting connections, record the events already received and
+   * remove the socket and pid files
+   */
+  stop(): Promise<void> {
+    if (!this.stopping) {
+      this.stopping = this.shutdown();
+    }
+    return this.stopping;
+  }
+
+  /**
+   * Resolves once the daemon has stopped
+   */
+  wait(): Promise<void> {
+    return this.stopped;
+  }
+
+  /**
+   * Run a task between events, so it never overlaps recording one
+   */
+  runTask(task: () => Promise<void>): Promise<void> {
+    if (this.stopping) return Promise.resolve();
+
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  getStatus(): DaemonStatus {
+    return {
+      pid: process.pid,
+      startedAt: this.startedAt.toISOString(),
+      uptime: Math.round((Date.now() - this.startedAt.getTime()) / 1000),
+      processed: this.processed,
+      failed: this.failed,
+      pending: this.pending
+    };
+  }
+
+  private async shutdown(): Promise<void> {
+    const server = this.server;
+    if (server) {
+      await new Promise<void>(resolve => {
+        server.close(() => resolve());
+        // Idle clients would otherwise keep the server open
+        for (const socket of this.connections) {
+          socket.destroySoon();
+        }
+      });
+    }
+
+    await this.queue;
+    await fs.rm(this.socketPath, { force: true });
+    await fs.rm(this.pidPath, { force: true });
+    this.server = null;
+    this.resolveStopped();
+  }
+
+  private accept(socket: net.Socket): void {
+    this.connections.add(socket);
+    socket.setEncoding('utf-8');
+
+    let buffer = '';
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        this.receive(buffer.slice(0, newline), socket);
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+      }
+    });
+
+    // Writers may close without a trailing newline
+    socket.on('end', () => {
+      this.receive(buffer, socket);
+      buffer = '';
+    });
+    socket.on('error', () => undefined);
+    socket.on('close', () => this.connections.delete(socket));
+  }
+
+  private receive(line: string, socket: net.Socket): void {
+    if (!line.trim()) return;
+
+    let request: DaemonRequest;
+    try {
+      request = requestSchema.parse(JSON.parse(line));
+    } catch {
+      this.failed++;
+      this.reply(socket, { ok: false, error: 'Invalid request' });
+      return;
+    }
+
+    switch (request.type) {
+    case 'command':
+      this.enqueue(request);
+      break;
+    case 'ping':
+      this.reply(socket, { ok: true, status: this.getStatus() });
+      break;
+    case 'stop':
+      this.reply(socket, { ok: true, status: this.getStatus() });
+      void this.stop();
+      break;
+    }
+  }
+
+  private enqueue(event: CommandEvent): void {
+    this.pending++;
+    // One event at a time, so streaks and sessions see them in order
+    this.queue = this.queue
+      .then(() => this.handler(event))
+      .then(() => {
+        this.processed++;
+      }, () => {
+        this.failed++;
+      })
+      .finally(() => {
+        this.pending--;
+      });
+  }
+
+  private reply(socket: net.Socket, response: DaemonResponse): void {
+    if (socket.writable) {
+      socket.write(`${JSON.stringify(response)}\n`);
+    }
+  }
+}
+
+/**
+ * Talks to the daemon, treating a missing or dead socket as "not running"
+ */
+export class DaemonClient {
+  constructor(private readonly socketPath: string = getDaemonSocketPath()) {}
+
+  /**
+   * Hand an event to the daemon without waiting for it to be recorded.
+   * Returns false when the daemon is not running, so the caller can write
+   * the event itself.
+   */
+  send(event: CommandEvent, timeout: number = 500): Promise<boolean> {
+    return new Promise(resolve => {
+      const socket = net.createConnection(this.socketPath);
+      const timer = setTimeout(() => {
+        socket.destroy();
+        resolve(false);
+      }, timeout);
+
+      socket.once('connect', () => {
+        socket.end(`${JSON.stringify(event)}\n`, () => {
+          clearTimeout(timer);
+          resolve(true);
+        });
+      });
+      socket.once('error', () => {
+        clearTimeout(timer);
+        resolve(false);
+      });
+    });
+  }
+
+  /**
+   * Status of the running daemon, null when it is not running
+   */
+  async ping(timeout: number = 1000): Promise<DaemonStatus | null> {
+    return (await this.request({ type: 'ping' }, timeout))?.status ?? null;
+  }
+
+  /**
+   * Ask the daemon to stop. Returns false when it was not running.
+   */
+  async stop(timeout: number = 1000): Promise<boolean> {
+    return (await this.request({ type: 'stop' }, timeout))?.ok ?? false;
+  }
+
+  private request(request: DaemonRequest, timeout: number): Promise<DaemonResponse | null> {
+    return new Promise(resolve => {
+      const socket = net.createConnection(this.socketPath);
+      let buffer = '';
+
+      const finish = (response: DaemonResponse | null): void => {
+        clearTimeout(timer);
+        socket.destroy();
+        resolve(response);
+      };
+      const timer = setTimeout(() => finish(null), timeout);
+
+      socket.setEncoding('utf-8');
+      socket.once('connect', () => socket.write(`${JSON.stringify(request)}\n`));
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        const newline = buffer.indexOf('\n');
+        if (newline === -1) return;
+
+        try {
+          finish(JSON.parse(buffer.slice(0, newline)) as DaemonResponse);
+        } catch {
+          finish(null);
+        }
+      });
+      socket.once('error', () => finish(null));
+      socket.once('end', () => finish(null));
+    });
+  }
+}
+
+// Export singleton instance
+export const daemonClient = new DaemonClient();
@@ -0,0 +1,87 @@
+/**
+ * Integration tests for the live dashboard data
+ */
+
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import * as path from 'path';
+import * as sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import { createTestUser, recordCommit, useTempHome } from '../test-utils/temp-home';
+
+type DashboardModule = typeof import('./dashboard');
+type DatabaseModule = typeof import('./database');
+
+describe('DashboardManager', () => {
+  const testDir = useTempHome('dashboard');
+  let dashboardManager: DashboardModule['dashboardManager'];
+  let database: DatabaseModule['database'];
+
+  const createUser = (name: string) => createTestUser(database, { name });
+
+  beforeAll(async () => {
+    ({ dashboardManager } = await import('./dashboard'));
+    ({ database } = await import('./database'));
+
+    const { defaultConfigManager } = await import('./config');
+    defaultConfigManager.set('timezone', 'UTC');
+    defaultConfigManager.set('dailyXPGoal', 100);
+  });
+
+  beforeEach(async () => {
+    await database.initialize();
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  test('should load progress, challenges, activity and the weekly leaderboard', async () => {
+    const alice = await createUser('alice');
+    const bob = await createUser('bob');
+    const now = new Date('2025-06-12T15:00:00.000Z');
+
+    await recordCommit(database, alice.id, 30, '2025-06-11T10:00:00.000Z');
+    await recordCommit(database, alice.id, 40, '2025-06-12T09:00:00.000Z');
+    await recordCommit(database, alice.id, 20, '2025-06-12T11:00:00.000Z');
+    await recordCommit(database, bob.id, 100, '2025-06-10T10:00:00.000Z');
+
+    const snapshot = await dashboardManager.load(alice.id, { activityLimit: 2 }, now);
+
+    expect(snapshot.todayXp).toBe(60);
+    expect(snapshot.dailyGoal).toBe(100);
+    expect(snapshot.level.level).toBeGreaterThanOrEqual(1);
+    expect(snapshot.level.title).toBeTruthy();
+    expect(snapshot.recentActivities.map(activity => activity.xpEarned)).toEqual([20, 40]);
+
+    const periods = snapshot.challenges.map(challenge => challenge.period);
+    expect(periods.length).toBeGreaterThan(0);
+    expect(periods).toEqual([...periods].sort());
+
+    expect(snapshot.leaderboard.map(entry => [entry.userId, entry.periodXP])).toEqual([[bob.id, 100], [alice.id, 90]]);
+    expect(snapshot.leaderboardTeamId).toBeUndefined();
+  });
+
+  test('should notice writes from another connection', async () => {
+    const user = await createUser('watcher');
+    const other = await open({
+      filename: path.join(testDir, '.config', 'devxp', 'devxp.db'),
+      driver: sqlite3.Database
+    });
+
+    const changed = new Promise<void>(resolve => {
+      const stop = dashboardManager.watch(() => {
+        stop();
+        resolve();
+      }, 20);
+
+      // Give the watcher a tick to record the current version first
+      setTimeout(() => {
+        void other.run('UPDATE users SET display_name = ? WHERE id = ?', 'Watcher', user.id);
+      }, 100);
+    });
+
+    await changed;
+    await other.close();
+    expect((await database.getUser(user.id))?.displayName).toBe('Watcher');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Dashboard Module
+ * Loads everything the live dashboard shows and watches the database for
+ * activity written by other processes
+ */
+
+import { Activity, ChallengeRecord, database, User } from './database';
+import { challengeManager } from './challenges';
+import { defaultConfigManager } from './config';
+import { leaderboardManager, RankedLeaderboardEntry } from './leaderboards';
+import { StreakStatus, streakManager } from './streaks';
+import { xpSystem } from './xp-system';
+import { resolveTimeZone, startOfDay } from '../utils/time';
+
+/**
+ * One refresh of the dashboard
+ */
+export interface DashboardSnapshot {
+  user: User;
+  level: {
+    level: number;
+    title: string;
+    progress: number;
+    nextLevelXP: number;
+  };
+  todayXp: number;
+  dailyGoal: number;
+  streak: StreakStatus;
+
+  /** Daily challenges first, then weekly ones */
+  challenges: ChallengeRecord[];
+
+  /** Newest first */
+  recentActivities: Activity[];
+
+  /** This week's standings, within the user's current team if they have one */
+  leaderboard: RankedLeaderboardEntry[];
+  leaderboardTeamId?: string;
+
+  loadedAt: Date;
+}
+
+export interface DashboardOptions {
+  activityLimit?: number;
+  leaderboardLimit?: number;
+}
+
+/**
+ * Loads dashboard snapshots and notices new activity
+ */
+export class DashboardManager {
+  /**
+   * Load the dashboard for a user, refreshing their challenges first
+   */
+  async load(userId: string, options: DashboardOptions = {}, now: Date = new Date()): Promise<DashboardSnapshot> {
+    // Challenge rewards can change the user's XP, so they go first
+    const challenges = await challengeManager.getCurrentChallenges(userId, now);
+
+    const user = await database.getUser(userId);
+    if (!user) {
+      throw new Error(`User '${userId}' not found`);
+    }
+
+    const timeZone = resolveTimeZone(defaultConfigManager.getConfig().timezone);
+    const today = await database.getActivitiesInRange(userId, { since: startOfDay(now, timeZone).toISOString() });
+    const level = defaultConfigManager.getLevelFromXP(user.totalXp);
+
+    const leaderboard = await leaderboardManager.getLeaderboard({
+      period: 'week',
+      limit: options.leaderboardLimit ?? 10,
+      ...(user.currentTeamId ? { teamId: user.currentTeamId } : {})
+    }, now);
+
+    return {
+      user,
+      level: { ...level, title: xpSystem.getLevelTitle(level.level) },
+      todayXp: today.reduce((sum, activity) => sum + activity.xpEarned, 0),
+      dailyGoal: defaultConfigManager.getConfig().dailyXPGoal,
+      streak: await streakManager.getStatus(userId, now),
+      challenges,
+      recentActivities: await database.getUserActivities(userId, options.activityLimit ?? 50),
+      leaderboard: leaderboard.entries,
+      ...(user.currentTeamId ? { leaderboardTeamId: user.currentTeamId } : {}),
+      loadedAt: now
+    };
+  }
+
+  /**
+   * Call onChange whenever another process writes to the database, checking
+   * every interval milliseconds. Returns a function that stops watching.
+   */
+  watch(onChange: () => void | Promise<void>, interval: number = 2000, onError?: (error: unknown) => void): () => void {
+    let lastVersion: number | undefined;
+    let checking = false;
+
+    const check = async (): Promise<void> => {
+      // Skip a tick rather than overlap a slow refresh
+      if (checking) return;
+      checking = true;
+
+      try {
+        const version = await database.getDataVersion();
+        if (lastVersion !== undefined && version !== lastVersion) {
+          await onChange();
+        }
+        lastVersion = version;
+      } catch (error) {
+        onError?.(error);
+      } finally {
+        checking = false;
+      }
+    };
+
+    void check();
+    const timer = setInterval(() => void check(), interval);
+    return () => clearInterval(timer);
+  }
+}
+
+// Export singleton instance
+export const dashboardManager = new DashboardManager();
@@ -0,0 +1,334 @@
+/**
+ * Data Export Module
+ * The versioned export format and its schema, and exporters that stream
+ * records as JSON, NDJSON or CSV without loading whole tables
+ */
+
+import { once } from 'events';
+import { Writable } from 'stream';
+import { z } from 'zod';
+import { database, DevXpDatabase, EXPORT_TABLES, ExportFilter, ExportTable } from './database';
+
+export const EXPORT_FORMAT_NAME = 'devxp-export';
+export const EXPORT_VERSION = 1;
+
+export const EXPORT_FORMATS = ['json', 'ndjson', 'csv'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const TimestampSchema = z.iso.datetime({ offset: true });
+
+// Nullable columns come out of the database as null
+const UserRecordSchema = z.object({
+  id: z.string().min(1),
+  username: z.string().min(1),
+  email: z.string().min(1),
+  displayName: z.string(),
+  avatarUrl: z.string().nullish(),
+  totalXp: z.number().int(),
+  level: z.number().int().min(1),
+  streak: z.number().int().min(0),
+  longestStreak: z.number().int().min(0),
+  lastActiveDate: TimestampSchema.nullish(),
+  currentTeamId: z.string().nullish(),
+  createdAt: TimestampSchema,
+  updatedAt: TimestampSchema
+});
+
+const ProjectRecordSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  path: z.string(),
+  gitUrl: z.string().nullish(),
+  primaryLanguage: z.string().nullish(),
+  languages: z.record(z.string(), z.number()),
+  isArchived: z.boolean(),
+  lastActivityAt: TimestampSchema.nullish(),
+  createdAt: TimestampSchema,
+  updatedAt: TimestampSchema
+});
+
+const SessionRecordSchema = z.object({
+  id: z.string().min(1),
+  userId: z.string().min(1),
+  startTime: TimestampSchema,
+  endTime: TimestampSchema,
+  totalXp: z.number().int(),
+  activityCount: z.number().int().min(0),
+  duration: z.number().min(0),
+  createdAt: TimestampSchema,
+  updatedAt: TimestampSchema
+});
+
+const ActivityRecordSchema = z.object({
+  id: z.string().min(1),
+  userId: z.string().min(1),
+  type: z.string().min(1),
+  description: z.string(),
+  xpEarned: z.number().int(),
+  metadata: z.string().nullish(), // JSON string
+  projectId: z.string().nullish(),
+  sessionId: z.string().nullish(),
+  timestamp: TimestampSchema,
+  createdAt: TimestampSchema
+});
+
+const AchievementRecordSchema = z.object({
+  id: z.string().min(1),
+  userId: z.string().min(1),
+  type: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string(),
+  xpReward: z.number().int(),
+  unlockedAt: TimestampSchema,
+  metadata: z.string().nullish() // JSON string
+});
+
+const XpHistoryRecordSchema = z.object({
+  id: z.string().min(1),
+  userId: z.string().min(1),
+  xpChange: z.number().int(),
+  reason: z.string(),
+  activityId: z.string().nullish(),
+  achievementId: z.string().nullish(),
+  timestamp: TimestampSchema,
+  balance: z.number().int(),
+  eventType: z.string().nullish()
+});
+
+/**
+ * Schema of each record type, keyed by table
+ */
+export const EXPORT_RECORD_SCHEMAS = {
+  users: UserRecordSchema,
+  projects: ProjectRecordSchema,
+  sessions: SessionRecordSchema,
+  activities: ActivityRecordSchema,
+  achievements: AchievementRecordSchema,
+  xpHistory: XpHistoryRecordSchema
+} satisfies Record<ExportTable, z.ZodObject>;
+
+export type ExportRecord<T extends ExportTable> = z.infer<typeof EXPORT_RECORD_SCHEMAS[T]>;
+
+/**
+ * Describes an export: the format version and which data it holds
+ */
+export const ExportHeaderSchema = z.object({
+  format: z.literal(EXPORT_FORMAT_NAME),
+  version: z.number().int().min(1),
+  exportedAt: TimestampSchema,
+  filter: z.object({
+    user: z.string().optional(),
+    since: TimestampSchema.optional(),
+    until: TimestampSchema.optional()
+  }).optional()
+});
+
+export type ExportHeader = z.infer<typeof ExportHeaderSchema>;
+
+/**
+ * One NDJSON line after the header
+ */
+export const NdjsonRecordSchema = z.object({
+  table: z.enum(EXPORT_TABLES),
+  record: z.record(z.string(), z.unknown())
+});
+
+/**
+ * JSON Schema of a JSON export, for tools that read exports
+ */
+export function getExportJsonSchema(): object {
+  return z.toJSONSchema(ExportHeaderSchema.extend({
+    users: z.array(UserRecordSchema),
+    projects: z.array(ProjectRecordSchema),
+    sessions: z.array(SessionRecordSchema),
+    activities: z.array(ActivityRecordSchema),
+    achievements: z.array(AchievementRecordSchema),
+    xpHistory: z.array(XpHistoryRecordSchema)
+  }));
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+
+  /** Only this user's records, and the projects they worked on */
+  username?: string;
+
+  /** ISO timestamps bounding dated records, until is exclusive */
+  since?: string;
+  until?: string;
+
+  /** The single table a CSV export holds (default: activities) */
+  table?: ExportTable;
+}
+
+export type ExportCounts = Record<ExportTable, number>;
+
+interface ExportWriter {
+  begin(header: ExportHeader): Promise<void>;
+  beginTable(table: ExportTable): Promise<void>;
+  write(table: ExportTable, record: object): Promise<void>;
+  endTable(table: ExportTable): Promise<void>;
+  end(): Promise<void>;
+}
+
+// Wait for the stream to drain, so slow outputs don't buffer the export
+async function writeChunk(output: Writable, chunk: string): Promise<void> {
+  if (!output.write(chunk)) {
+    await once(output, 'drain');
+  }
+}
+
+// A JSON document with the header fields and one array per table
+class JsonExportWriter implements ExportWriter {
+  private first = true;
+
+  constructor(private readonly output: Writable) {}
+
+  async begin(header: ExportHeader): Promise<void> {
+    const fields = Object.entries(header).map(([key, value]) => `  ${JSON.stringify(key)}: ${JSON.stringify(value)}`);
+    await writeChunk(this.output, `{\n${fields.join(',\n')}`);
+  }
+
+  async beginTable(table: ExportTable): Promise<void> {
+    this.first = true;
+    await writeChunk(this.output, `,\n  ${JSON.stringify(table)}: [`);
+  }
+
+  async write(_table: ExportTable, record: object): Promise<void> {
+    await writeChunk(this.output, `${this.first ? '' : ','}\n    ${JSON.stringify(record)}`);
+    this.first = false;
+  }
+
+  async endTable(): Promise<void> {
+    await writeChunk(this.output, this.first ? ']' : '\n  ]');
+  }
+
+  async end(): Promise<void> {
+    await writeChunk(this.output, '\n}\n');
+  }
+}
+
+// The header on the first line, then one record per line
+class NdjsonExportWriter implements ExportWriter {
+  constructor(private readonly output: Writable) {}
+
+  async begin(header: ExportHeader): Promise<void> {
+    await writeChunk(this.output, `${JSON.stringify(header)}\n`);
+  }
+
+  async beginTable(): Promise<void> {}
+
+  async write(table: ExportTable, record: object): Promise<void> {
+    await writeChunk(this.output, `${JSON.stringify({ table, record })}\n`);
+  }
+
+  async endTable(): Promise<void> {}
+
+  async end(): Promise<void> {}
+}
+
+// One table with a header row, for spreadsheets
+class CsvExportWriter implements ExportWriter {
+  private readonly columns: string[];
+
+  constructor(private readonly output: Writable, table: ExportTable) {
+    this.columns = Object.keys(EXPORT_RECORD_SCHEMAS[table].shape);
+  }
+
+  async begin(): Promise<void> {
+    await writeChunk(this.output, `${this.columns.join(',')}\r\n`);
+  }
+
+  async beginTable(): Promise<void> {}
+
+  async write(_table: ExportTable, record: object): Promise<void> {
+    const values = record as Record<string, unknown>;
+    await writeChunk(this.output, `${this.columns.map(column => this.formatCell(values[column])).join(',')}\r\n`);
+  }
+
+  async endTable(): Promise<void> {}
+
+  async end(): Promise<void> {}
+
+  private formatCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+    let text = typeof value === 'string' ? value : JSON.stringify(value);
+
+    // Spreadsheets run cells starting with these as formulas
+    if (/^[=+\-@\t\r]/.test(text) && isNaN(Number(text))) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
+
+export class DataExporter {
+  constructor(private readonly db: DevXpDatabase = database) {}
+
+  /**
+   * Stream the selected records to the output. The output is not ended.
+   */
+  async export(output: Writable, options: ExportOptions): Promise<ExportCounts> {
+    const filter: ExportFilter = {
+      ...(options.since ? { since: options.since } : {}),
+      ...(options.until ? { until: options.until } : {})
+    };
+
+    if (options.username !== undefined) {
+      const user = await this.db.getUserByUsername(options.username);
+      if (!user) {
+        throw new Error(`User not found: ${options.username}`);
+      }
+      filter.userId = user.id;
+    }
+
+    const header: ExportHeader = {
+      format: EXPORT_FORMAT_NAME,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      ...(options.username !== undefined || options.since || options.until
+        ? {
+          filter: {
+            ...(options.username !== undefined ? { user: options.username } : {}),
+            ...(options.since ? { since: options.since } : {}),
+            ...(options.until ? { until: options.until } : {})
+          }
+        }
+        : {})
+    };
+
+    const tables = options.format === 'csv' ? [options.table ?? 'activities'] : EXPORT_TABLES;
+    const writer = this.createWriter(output, options.format, tables[0] ?? 'activities');
+    const counts = Object.fromEntries(EXPORT_TABLES.map(table => [table, 0])) as ExportCounts;
+
+    await writer.begin(header);
+    for (const table of tables) {
+      await writer.beginTable(table);
+      for await (const record of this.db.iterateRecords(table, filter)) {
+        await writer.write(table, record);
+        counts[table]++;
+      }
+      await writer.endTable(table);
+    }
+    await writer.end();
+
+    return counts;
+  }
+
+  private createWriter(output: Writable, format: ExportFormat, table: ExportTable): ExportWriter {
+    switch (format) {
+    case 'ndjson':
+      return new NdjsonExportWriter(output);
+    case 'csv':
+      return new CsvExportWriter(output, table);
+    default:
+      return new JsonExportWriter(output);
+    }
+  }
+}
+
+// Export singleton instance
+export const dataExporter = new DataExporter();
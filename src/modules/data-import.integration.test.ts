@@ -0,0 +1,202 @@
+/**
+ * Integration tests for exporting and importing data
+ */
+
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import { createWriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { finished } from 'stream/promises';
+import { useTempHome } from '../test-utils/temp-home';
+
+type DatabaseModule = typeof import('./database');
+type ExportModule = typeof import('./data-export');
+type ImportModule = typeof import('./data-import');
+
+describe('Data export and import', () => {
+  const testDir = useTempHome('data');
+  let DevXpDatabase: DatabaseModule['DevXpDatabase'];
+  let DataExporter: ExportModule['DataExporter'];
+  let DataImporter: ImportModule['DataImporter'];
+
+  // Two databases, as on two machines
+  let source: InstanceType<DatabaseModule['DevXpDatabase']>;
+  let target: InstanceType<DatabaseModule['DevXpDatabase']>;
+
+  const openDatabase = async (name: string) => {
+    process.env['HOME'] = path.join(testDir, name);
+    const db = new DevXpDatabase();
+    await db.initialize();
+    return db;
+  };
+
+  const createUser = (db: typeof source, username: string, totalXp: number) => db.createUser({
+    username,
+    email: `${username}@example.com`,
+    displayName: username,
+    totalXp,
+    level: 1,
+    streak: 2,
+    longestStreak: 4,
+    lastActiveDate: '2026-03-01T12:00:00.000Z'
+  });
+
+  const exportTo = async (db: typeof source, name: string, options: Parameters<InstanceType<ExportModule['DataExporter']>['export']>[1]) => {
+    const filePath = path.join(testDir, name);
+    const output = createWriteStream(filePath);
+    const counts = await new DataExporter(db).export(output, options);
+    output.end();
+    await finished(output);
+    return { filePath, counts, contents: await fs.readFile(filePath, 'utf-8') };
+  };
+
+  beforeAll(async () => {
+    ({ DevXpDatabase } = await import('./database'));
+    ({ DataExporter } = await import('./data-export'));
+    ({ DataImporter } = await import('./data-import'));
+  });
+
+  beforeEach(async () => {
+    source = await openDatabase('source');
+    target = await openDatabase('target');
+
+    const user = await createUser(source, 'mover', 300);
+    const project = await source.createProject({ name: 'devxp', path: '/src/devxp', languages: { TypeScript: 10 }, isArchived: false });
+    await source.createActivity({
+      userId: user.id,
+      type: 'git_commit',
+      description: 'Early commit',
+      xpEarned: 10,
+      projectId: project.id,
+      timestamp: '2026-01-15T10:00:00.000Z'
+    });
+    await source.createActivity({
+      userId: user.id,
+      type: 'git_commit',
+      description: '=HYPERLINK("x"), "quoted"',
+      xpEarned: 20,
+      projectId: project.id,
+      timestamp: '2026-02-15T10:00:00.000Z'
+    });
+
+    const other = await createUser(source, 'bystander', 50);
+    await source.createActivity({ userId: other.id, type: 'test_run', description: 'Tests', xpEarned: 5, timestamp: '2026-02-16T10:00:00.000Z' });
+  });
+
+  afterEach(async () => {
+    await source.close();
+    await target.close();
+    await fs.rm(path.join(testDir, 'source'), { recursive: true, force: true });
+    await fs.rm(path.join(testDir, 'target'), { recursive: true, force: true });
+  });
+
+  test.each(['json', 'ndjson'] as const)('should move data between databases as %s', async (format) => {
+    const { filePath, counts } = await exportTo(source, `export.${format}`, { format });
+    expect(counts).toMatchObject({ users: 2, projects: 1, activities: 3 });
+
+    const report = await new DataImporter(target).import(filePath);
+    expect(report).toMatchObject({ format, version: 1, applied: true, errors: [] });
+    expect(report.tables.users.added).toBe(2);
+    expect(report.tables.activities.added).toBe(3);
+
+    const mover = await target.getUserByUsername('mover');
+    expect(mover?.totalXp).toBe(330);
+    const activities = await target.getUserActivities(mover!.id);
+    expect(activities.map(activity => activity.projectId)).toEqual([expect.any(String), expect.any(String)]);
+
+    // Importing again changes nothing
+    const again = await new DataImporter(target).import(filePath);
+    expect(again.tables.activities).toEqual({ added: 0, updated: 0, skipped: 3, invalid: 0 });
+    expect((await target.getUserByUsername('mover'))?.totalXp).toBe(330);
+  });
+
+  test('should export one user\'s records in a date range', async () => {
+    const { contents } = await exportTo(source, 'filtered.ndjson', {
+      format: 'ndjson',
+      username: 'mover',
+      since: '2026-02-01T00:00:00.000Z',
+      until: '2026-03-01T00:00:00.000Z'
+    });
+
+    const [header, ...lines] = contents.trim().split('\n').map(line => JSON.parse(line));
+    expect(header).toMatchObject({ format: 'devxp-export', version: 1, filter: { user: 'mover', since: '2026-02-01T00:00:00.000Z' } });
+    expect(lines.filter(line => line.table === 'users').map(line => line.record.username)).toEqual(['mover']);
+    expect(lines.filter(line => line.table === 'projects')).toHaveLength(1);
+    expect(lines.filter(line => line.table === 'activities').map(line => line.record.xpEarned)).toEqual([20]);
+  });
+
+  test('should write spreadsheet-safe CSV', async () => {
+    const { contents } = await exportTo(source, 'activities.csv', { format: 'csv' });
+    const rows = contents.split('\r\n');
+
+    expect(rows[0]).toBe('id,userId,type,description,xpEarned,metadata,projectId,sessionId,timestamp,createdAt');
+    expect(rows).toHaveLength(5);
+    expect(rows.find(row => row.includes('HYPERLINK'))).toContain(',"\'=HYPERLINK(""x""), ""quoted""",20,');
+  });
+
+  test('should merge users by username with each strategy', async () => {
+    const { filePath } = await exportTo(source, 'merge.json', { format: 'json', username: 'mover' });
+    const existing = await createUser(target, 'mover', 100);
+
+    const dryRun = await new DataImporter(target).import(filePath, { strategy: 'sum', dryRun: true });
+    expect(dryRun).toMatchObject({ applied: false, errors: [] });
+    expect(dryRun.users).toEqual([{ id: existing.id, username: 'mover', xpBefore: 100, xpAfter: 430 }]);
+    expect(dryRun.tables.activities.added).toBe(2);
+    expect((await target.getUser(existing.id))?.totalXp).toBe(100);
+    expect(await target.getUserActivities(existing.id)).toHaveLength(0);
+    expect(await target.getAuditLog().list({ action: 'data.import' })).toEqual([]);
+
+    await new DataImporter(target).import(filePath, { strategy: 'sum' });
+    const summed = await target.getUser(existing.id);
+    expect(summed).toMatchObject({ totalXp: 430, streak: 2, longestStreak: 4 });
+    expect(await target.getAuditLog().list({ action: 'data.import' })).toEqual([expect.objectContaining({
+      status: 'success',
+      entityId: filePath,
+      oldValues: { mover: 100 },
+      newValues: { mover: 430 },
+      metadata: expect.objectContaining({ strategy: 'sum' })
+    })]);
+    expect(await target.getUserActivities(existing.id)).toHaveLength(2);
+
+    // Summing the same file again would add its XP twice
+    const again = await new DataImporter(target).import(filePath, { strategy: 'sum' });
+    expect(again.applied).toBe(false);
+    expect(again.tables.activities).toMatchObject({ added: 0, invalid: 2 });
+    expect(again.errors[0]?.message).toContain('already imported');
+    expect((await target.getUser(existing.id))?.totalXp).toBe(430);
+
+    const overwritten = await new DataImporter(target).import(filePath, { strategy: 'overwrite' });
+    expect(overwritten.tables.users.updated).toBe(1);
+    expect((await target.getUser(existing.id))?.totalXp).toBe(330);
+
+    const skipped = await new DataImporter(target).import(filePath, { strategy: 'skip' });
+    expect(skipped.tables.users.skipped).toBe(1);
+    expect(skipped.users).toEqual([]);
+  });
+
+  test('should import nothing when any record is invalid', async () => {
+    const filePath = path.join(testDir, 'invalid.json');
+    await fs.writeFile(filePath, JSON.stringify({
+      format: 'devxp-export',
+      version: 1,
+      exportedAt: '2026-03-01T00:00:00.000Z',
+      users: [{ id: 'u1', username: 'valid', email: 'valid@example.com', displayName: 'Valid', totalXp: 10, level: 1, streak: 0, longestStreak: 0, createdAt: '2026-03-01T00:00:00.000Z', updatedAt: '2026-03-01T00:00:00.000Z' }],
+      activities: [{ id: 'a1', userId: 'u1', type: 'git_commit', description: 'Broken', xpEarned: 'ten', timestamp: 'yesterday', createdAt: '2026-03-01T00:00:00.000Z' }]
+    }));
+
+    const report = await new DataImporter(target).import(filePath);
+    expect(report.applied).toBe(false);
+    expect(report.tables.activities.invalid).toBe(2);
+    expect(report.errors.map(issue => `${issue.location} ${issue.message.split(':')[0]}`)).toEqual([
+      'activities[0] xpEarned',
+      'activities[0] timestamp'
+    ]);
+    expect(await target.getUserByUsername('valid')).toBeNull();
+    expect(await target.getAuditLog().list()).toEqual([
+      expect.objectContaining({ action: 'data.import', status: 'failure', errorMessage: '2 invalid records' })
+    ]);
+
+    await fs.writeFile(filePath, JSON.stringify({ format: 'devxp-export', version: 99, exportedAt: '2026-03-01T00:00:00.000Z' }));
+    await expect(new DataImporter(target).import(filePath)).rejects.toThrow('format version 99');
+  });
+});
@@ -0,0 +1,434 @@
+/**
+ * Data Import Module
+ * Validates exports against their schema and merges them into the
+ * database in one transaction, or reports what an import would change
+ */
+
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as readline from 'readline';
+import { z } from 'zod';
+import { database, DevXpDatabase, EXPORT_TABLES, ExportTable } from './database';
+import { defaultConfigManager } from './config';
+import {
+  EXPORT_RECORD_SCHEMAS,
+  EXPORT_VERSION,
+  ExportHeaderSchema,
+  ExportRecord,
+  NdjsonRecordSchema
+} from './data-export';
+
+export const MERGE_STRATEGIES = ['skip', 'overwrite', 'sum'] as const;
+
+/**
+ * What to do with a record whose ID, or user's username, already exists:
+ * keep the existing one, replace it, or for users add up their XP. Other
+ * records can't be summed, so sum keeps them like skip, but refuses
+ * activities and XP history that were imported before.
+ */
+export type MergeStrategy = typeof MERGE_STRATEGIES[number];
+
+export interface ImportOptions {
+  strategy?: MergeStrategy;
+
+  /** Report what would change without changing anything */
+  dryRun?: boolean;
+}
+
+export interface ImportIssue {
+  location: string; // activities[3] or line 12
+  message: string;
+}
+
+export interface ImportTableCounts {
+  added: number;
+  updated: number;
+  skipped: number;
+  invalid: number;
+}
+
+export interface ImportUserChange {
+  id: string;
+  username: string;
+  xpBefore: number | null; // null for a new user
+  xpAfter: number;
+}
+
+export interface ImportReport {
+  format: 'json' | 'ndjson';
+  version: number; // 0 for exports from before the format was versioned
+  strategy: MergeStrategy;
+  dryRun: boolean;
+  applied: boolean;
+  tables: Record<ExportTable, ImportTableCounts>;
+  users: ImportUserChange[];
+  errors: ImportIssue[];
+}
+
+// A record as read, or a line that could not be read
+type SourceRecord = { table: ExportTable; record: unknown; location: string } | { location: string; error: string };
+
+interface ImportSource {
+  format: ImportReport['format'];
+  version: number;
+  records: AsyncIterable<SourceRecord>;
+}
+
+// Imported IDs that stand for existing records, and users whose XP changed
+interface ImportState {
+  strategy: MergeStrategy;
+  userIds: Map<string, string>;
+  projectIds: Map<string, string>;
+  xpBefore: Map<string, number | null>;
+}
+
+const INVALID_IMPORT = 'The import has invalid records';
+
+export class DataImporter {
+  constructor(private readonly db: DevXpDatabase = database) {}
+
+  /**
+   * Import an export file. Nothing is imported when any record is invalid,
+   * the report then lists the problems instead.
+   */
+  async import(filePath: string, options: ImportOptions = {}): Promise<ImportReport> {
+    const source = await this.openSource(filePath);
+    const state: ImportState = {
+      strategy: options.strategy ?? 'skip',
+      userIds: new Map(),
+      projectIds: new Map(),
+      xpBefore: new Map()
+    };
+    const report: ImportReport = {
+      format: source.format,
+      version: source.version,
+      strategy: state.strategy,
+      dryRun: options.dryRun ?? false,
+      applied: false,
+      tables: Object.fromEntries(EXPORT_TABLES.map(table => [table, { added: 0, updated: 0, skipped: 0, invalid: 0 }])) as ImportReport['tables'],
+      users: [],
+      errors: []
+    };
+
+    try {
+      await this.db.transaction(async () => {
+        for await (const item of source.records) {
+          await this.importRecord(item, state, report, source.version);
+        }
+
+        // Read back inside the transaction, a dry run is undone after
+        for (const [id, xpBefore] of state.xpBefore) {
+          const user = await this.db.getUser(id);
+          if (user) {
+            report.users.push({ id, username: user.username, xpBefore, xpAfter: user.totalXp });
+          }
+        }
+
+        if (report.errors.length > 0) {
+          throw new Error(INVALID_IMPORT);
+        }
+        if (!report.dryRun) {
+          await this.audit(filePath, report);
+        }
+      }, { rollback: report.dryRun });
+    } catch (error) {
+      if (report.errors.length === 0) throw error;
+
+      // Rejected imports are recorded too, after the rollback
+      if (!report.dryRun) {
+        await this.audit(filePath, report, `${report.errors.length} invalid record${report.errors.length === 1 ? '' : 's'}`);
+      }
+      return report;
+    }
+
+    report.applied = !report.dryRun;
+    return report;
+  }
+
+  private async audit(filePath: string, report: ImportReport, errorMessage?: string): Promise<void> {
+    await this.db.getAuditLog().record({
+      action: 'data.import',
+      entityType: 'database',
+      entityId: path.resolve(filePath),
+      // The XP of each user the import changed
+      ...(errorMessage ? { status: 'failure', errorMessage } : {
+        oldValues: Object.fromEntries(report.users.map(user => [user.username, user.xpBefore])),
+        newValues: Object.fromEntries(report.users.map(user => [user.username, user.xpAfter]))
+      }),
+      metadata: { format: report.format, version: report.version, strategy: report.strategy, tables: report.tables }
+    });
+  }
+
+  private async importRecord(item: SourceRecord, state: ImportState, report: ImportReport, version: number): Promise<void> {
+    if ('error' in item) {
+      report.errors.push({ location: item.location, message: item.error });
+      return;
+    }
+
+    const counts = report.tables[item.table];
+    const invalid = (message: string): void => {
+      counts.invalid++;
+      report.errors.push({ location: item.location, message });
+    };
+
+    const parsed = EXPORT_RECORD_SCHEMAS[item.table].safeParse(version === 0 ? this.upgradeLegacyRecord(item.record) : item.record);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        invalid(issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+      }
+      return;
+    }
+
+    try {
+      const outcome = await this.writeRecord(item.table, parsed.data, state);
+      if (typeof outcome === 'string') {
+        counts[outcome]++;
+      } else {
+        invalid(outcome.error);
+      }
+    } catch (error) {
+      // Constraint failures, such as another user's email
+      invalid(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async writeRecord(
+    table: ExportTable,
+    record: ExportRecord<ExportTable>,
+    state: ImportState
+  ): Promise<keyof Omit<ImportTableCounts, 'invalid'> | { error: string }> {
+    switch (table) {
+    case 'users':
+      return this.writeUser(record as ExportRecord<'users'>, state);
+    case 'projects':
+      return this.writeProject(record as ExportRecord<'projects'>, state);
+    default:
+      break;
+    }
+
+    const values: Record<string, unknown> = { ...record };
+    if ('userId' in record) {
+      const userId = state.userIds.get(record.userId) ?? record.userId;
+      if (!(await this.db.hasRecord('users', userId))) {
+        return { error: `unknown user ${record.userId}` };
+      }
+      values['userId'] = userId;
+    }
+
+    // References to records that are not there are dropped
+    const references: [string, ExportTable][] = [
+      ['projectId', 'projects'],
+      ['sessionId', 'sessions'],
+      ['activityId', 'activities'],
+      ['achievementId', 'achievements']
+    ];
+    for (const [field, referenced] of references) {
+      const id = values[field];
+      if (typeof id !== 'string') continue;
+
+      const mapped = referenced === 'projects' ? state.projectIds.get(id) ?? id : id;
+      values[field] = await this.db.hasRecord(referenced, mapped) ? mapped : null;
+    }
+
+    // The same ID is the same event, so only overwrite replaces it
+    const exists = await this.db.hasRecord(table, record.id);
+    // The user's XP from the file already includes it, so summing would count it twice
+    if (exists && state.strategy === 'sum' && (table === 'activities' || table === 'xpHistory')) {
+      return { error: 'already imported, import with skip or overwrite instead of sum' };
+    }
+    if (exists && state.strategy !== 'overwrite') {
+      return 'skipped';
+    }
+
+    await this.db.writeRecord(table, values);
+    return exists ? 'updated' : 'added';
+  }
+
+  // Users are matched by ID, then by username
+  private async writeUser(record: ExportRecord<'users'>, state: ImportState): Promise<'added' | 'updated' | 'skipped'> {
+    const existing = await this.db.getUser(record.id) ?? await this.db.getUserByUsername(record.username);
+    if (!existing) {
+      state.xpBefore.set(record.id, null);
+      await this.db.writeRecord('users', record);
+      return 'added';
+    }
+
+    state.userIds.set(record.id, existing.id);
+    if (state.strategy === 'skip') {
+      return 'skipped';
+    }
+
+    if (!state.xpBefore.has(existing.id)) {
+      state.xpBefore.set(existing.id, existing.totalXp);
+    }
+
+    if (state.strategy === 'overwrite') {
+      await this.db.writeRecord('users', { ...record, id: existing.id });
+      return 'updated';
+    }
+
+    // The current totals, so a user in the file twice adds up both times
+    const current = await this.db.getUser(existing.id) ?? existing;
+    const totalXp = current.totalXp + record.totalXp;
+    const lastActiveDates = [current.lastActiveDate, record.lastActiveDate].filter((date): date is string => Boolean(date)).sort();
+
+    await this.db.writeRecord('users', {
+      ...current,
+      totalXp,
+      level: defaultConfigManager.getLevelFromXP(totalXp).level,
+      streak: Math.max(current.streak, record.streak),
+      longestStreak: Math.max(current.longestStreak, record.longestStreak),
+      lastActiveDate: lastActiveDates[lastActiveDates.length - 1] ?? null,
+      updatedAt: new Date().toISOString()
+    });
+    return 'updated';
+  }
+
+  // Projects are shared, matched by ID, then remote, then name
+  private async writeProject(record: ExportRecord<'projects'>, state: ImportState): Promise<'added' | 'updated' | 'skipped'> {
+    const existing = await this.db.getProject(record.id) ??
+      (record.gitUrl ? await this.db.findProjectByGitUrl(record.gitUrl) : null) ??
+      await this.db.findProjectByName(record.name);
+
+    if (!existing) {
+      await this.db.writeRecord('projects', record);
+      return 'added';
+    }
+
+    state.projectIds.set(record.id, existing.id);
+    if (state.strategy !== 'overwrite') {
+      return 'skipped';
+    }
+
+    await this.db.writeRecord('projects', { ...record, id: existing.id });
+    return 'updated';
+  }
+
+  // Exports from before versioning may have snake_case fields
+  private upgradeLegacyRecord(record: unknown): unknown {
+    if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+      return record;
+    }
+
+    return Object.fromEntries(Object.entries(record).map(([key, value]) => [
+      key.replace(/_([a-z])/g, (_match, letter: string) => letter.toUpperCase()),
+      value
+    ]));
+  }
+
+  private async openSource(filePath: string): Promise<ImportSource> {
+    const extension = path.extname(filePath).toLowerCase();
+    const firstLine = await this.readFirstLine(filePath);
+
+    let header: unknown;
+    try {
+      header = JSON.parse(firstLine);
+    } catch {
+      header = undefined;
+    }
+
+    // A JSON export on one line holds its tables on the first line too
+    const isNdjson = extension === '.ndjson' || extension === '.jsonl' ||
+      (header !== null && typeof header === 'object' && !EXPORT_TABLES.some(table => table in header));
+
+    return isNdjson ? this.openNdjson(filePath, header) : this.openJson(filePath);
+  }
+
+  private async openJson(filePath: string): Promise<ImportSource> {
+    let data: unknown;
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Not a JSON file: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('Not a devxp export: expected an object with users, activities and other tables');
+    }
+
+    const tables = data as Record<string, unknown>;
+    const version = this.readVersion(tables);
+
+    async function* records(): AsyncGenerator<SourceRecord> {
+      for (const table of EXPORT_TABLES) {
+        const entries = tables[table] ?? [];
+        if (!Array.isArray(entries)) {
+          throw new Error(`Not a devxp export: ${table} is not a list`);
+        }
+        for (const [index, record] of entries.entries()) {
+          yield { table, record, location: `${table}[${index}]` };
+        }
+      }
+    }
+
+    return { format: 'json', version, records: records() };
+  }
+
+  private async openNdjson(filePath: string, header: unknown): Promise<ImportSource> {
+    if (header === null || typeof header !== 'object' || !('format' in header)) {
+      throw new Error('Not a devxp export: the first line is not an export header');
+    }
+    const version = this.readVersion(header);
+
+    async function* records(): AsyncGenerator<SourceRecord> {
+      const lines = readline.createInterface({ input: createReadStream(filePath), crlfDelay: Infinity });
+      let lineNumber = 0;
+
+      for await (const line of lines) {
+        lineNumber++;
+        if (lineNumber === 1 || line.trim() === '') continue;
+
+        const location = `line ${lineNumber}`;
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(line);
+        } catch (error) {
+          yield { location, error: error instanceof Error ? error.message : String(error) };
+          continue;
+        }
+
+        const entry = NdjsonRecordSchema.safeParse(parsed);
+        if (!entry.success) {
+          throw new Error(`Not a devxp export: ${location} is not a {"table", "record"} line`);
+        }
+        yield { table: entry.data.table, record: entry.data.record, location };
+      }
+    }
+
+    return { format: 'ndjson', version, records: records() };
+  }
+
+  // The format version, or 0 for an export without a header
+  private readVersion(data: unknown): number {
+    if (data === null || typeof data !== 'object' || !('format' in data)) {
+      return 0;
+    }
+
+    const header = ExportHeaderSchema.pick({ format: true, version: true }).safeParse(data);
+    if (!header.success) {
+      throw new Error(`Not a devxp export: ${z.prettifyError(header.error)}`);
+    }
+    if (header.data.version > EXPORT_VERSION) {
+      throw new Error(`The export is format version ${header.data.version}, this devxp reads up to version ${EXPORT_VERSION}. Update devxp to import it.`);
+    }
+    return header.data.version;
+  }
+
+  private async readFirstLine(filePath: string): Promise<string> {
+    const input = createReadStream(filePath);
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    try {
+      for await (const line of lines) {
+        return line;
+      }
+      return '';
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+  }
+}
+
+// Export singleton instance
+export const dataImporter = new DataImporter();
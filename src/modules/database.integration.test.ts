@@ -3,10 +3,13 @@
  */
 
 import { describe, test, expect, beforeEach, afterEach, beforeAll, afterAll } from '@jest/globals';
+import { createWriteStream } from 'fs';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 import { DevXpDatabase } from './database';
+import { DataExporter } from './data-export';
+import { DataImporter } from './data-import';
 import { ActivityType } from '../types/Activity';
 
 describe('DevXpDatabase Integration', () => {
@@ -614,27 +617,32 @@ describe('DevXpDatabase Integration', () => {
       testUserId = user.id;
     });
 
-    test('should update streak when continuing', async () => {
-      await db.updateUserStreak(testUserId);
-      
+    test('should save the streak and mirror it onto the user', async () => {
+      await db.saveStreak({
+        userId: testUserId,
+        currentStreak: 3,
+        longestStreak: 5,
+        lastStreakDate: '2025-03-12',
+        streakStartDate: '2025-03-10',
+        totalActiveDays: 9,
+        freezeTokens: 1
+      });
+
+      const streak = await db.getStreak(testUserId);
       const user = await db.getUser(testUserId);
-      expect(user?.streak).toBe(1);
-      expect(user?.longestStreak).toBe(1);
+      expect(streak).toMatchObject({ currentStreak: 3, longestStreak: 5, lastStreakDate: '2025-03-12', freezeTokens: 1 });
+      expect(user?.streak).toBe(3);
+      expect(user?.longestStreak).toBe(5);
     });
 
-    test('should reset streak when broken', async () => {
-      // Set last active to 3 days ago
-      await db.updateUser(testUserId, {
-        lastActiveDate: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-        streak: 5,
-        longestStreak: 10
-      });
+    test('should record freezes once per day', async () => {
+      await db.addStreakFreezes(testUserId, ['2025-03-10', '2025-03-11'], new Date().toISOString());
+      await db.addStreakFreezes(testUserId, ['2025-03-11'], new Date().toISOString());
 
-      await db.updateUserStreak(testUserId);
-      
-      const user = await db.getUser(testUserId);
-      expect(user?.streak).toBe(1);
-      expect(user?.longestStreak).toBe(10); // Longest streak preserved
+      expect(await db.getStreakFreezes(testUserId, '2025-03-11')).toEqual(['2025-03-11']);
+
+      await db.deleteStreak(testUserId);
+      expect(await db.getStreakFreezes(testUserId, '2025-01-01')).toEqual([]);
     });
   });
 
@@ -713,11 +721,11 @@ describe('DevXpDatabase Integration', () => {
         timestamp: new Date().toISOString()
       });
 
-      const exportPath = await db.exportData();
-      
-      expect(exportPath).toBeDefined();
-      expect(exportPath).toContain('export-');
-      
+      const exportPath = path.join(testDbDir, 'export-test.json');
+      const output = createWriteStream(exportPath);
+      await new DataExporter(db).export(output, { format: 'json', username: 'exportuser' });
+      await new Promise(resolve => output.end(resolve));
+
       // Read and verify exported data
       const exportedData = JSON.parse(await fs.readFile(exportPath, 'utf-8'));
       expect(exportedData.users).toHaveLength(1);
@@ -758,7 +766,8 @@ describe('DevXpDatabase Integration', () => {
       const importPath = path.join(testDbDir, 'import-test.json');
       await fs.writeFile(importPath, JSON.stringify(exportData));
 
-      await db.importData(importPath);
+      const report = await new DataImporter(db).import(importPath);
+      expect(report).toMatchObject({ version: 0, applied: true, errors: [] });
 
       // Verify imported data
       const user = await db.getUserByUsername('importuser');
@@ -4,6 +4,12 @@ import * as path from 'path';
 import * as fs from 'fs/promises';
 import * as os from 'os';
 import { createHash } from 'crypto';
+import { XPEventType } from '../types/XPEvent';
+import { defaultConfigManager } from './config';
+import { MigrationRunner } from './migrations';
+import { XpLedger } from './ledger';
+import { AuditLog } from './audit';
+import { withTransaction } from '../utils/transaction';
 
 // Type definitions for database entities
 export interface User {
@@ -17,10 +23,38 @@ export interface User {
   streak: number;
   longestStreak: number;
   lastActiveDate: string;
+  currentTeamId?: string; // Team whose bonus and leaderboard apply by default
   createdAt: string;
   updatedAt: string;
 }
 
+export type TeamRole = 'owner' | 'admin' | 'member';
+
+export interface Team {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TeamSummary extends Team {
+  memberCount: number;
+  totalXp: number; // Lifetime XP of the current members
+  averageLevel: number;
+}
+
+export interface TeamMember {
+  teamId: string;
+  userId: string;
+  username: string;
+  displayName: string;
+  role: TeamRole;
+  totalXp: number;
+  level: number;
+  joinedAt: string;
+}
+
 export interface Activity {
   id: string;
   userId: string;
@@ -28,10 +62,36 @@ export interface Activity {
   description: string;
   xpEarned: number;
   metadata?: string; // JSON string for additional data
+  projectId?: string;
+  sessionId?: string;
   timestamp: string;
   createdAt: string;
 }
 
+export interface Project {
+  id: string;
+  name: string;
+  path: string; // Repository root where the project was last seen
+  gitUrl?: string; // Normalized origin URL, e.g. github.com/org/repo
+  primaryLanguage?: string;
+  languages: Record<string, number>; // Lines changed per language
+  isArchived: boolean;
+  lastActivityAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectSummary extends Project {
+  totalXp: number;
+  activityCount: number;
+  contributors: number;
+}
+
+export interface ProjectFilter {
+  userId?: string; // Only count this user's activity
+  includeArchived?: boolean;
+}
+
 export interface Achievement {
   id: string;
   userId: string;
@@ -43,6 +103,24 @@ export interface Achievement {
   metadata?: string; // JSON string for achievement-specific data
 }
 
+export interface UserAchievementProgress {
+  userId: string;
+  achievementId: string;
+  currentProgress: number;
+  requiredProgress: number;
+  timesEarned: number;
+  unlockedAt?: string;
+  conditionProgress?: string; // JSON string of per-condition progress
+  lastProgressUpdate: string;
+}
+
+export interface ActivityCountFilter {
+  types?: string[];
+  since?: string;
+  command?: string; // Matches metadata '$.command'
+  descriptionContains?: string;
+}
+
 export interface XpHistory {
   id: string;
   userId: string;
@@ -52,6 +130,66 @@ export interface XpHistory {
   achievementId?: string;
   timestamp: string;
   balance: number; // XP balance after this change
+  eventType?: string; // XPEventType of the change, 'activity' when not set
+}
+
+export type ChallengePeriod = 'daily' | 'weekly';
+
+export type ChallengeStatus = 'active' | 'completed' | 'expired' | 'rerolled';
+
+export interface ChallengeRecord {
+  id: string;
+  userId: string;
+  period: ChallengePeriod;
+  templateId: string;
+  name: string;
+  description: string;
+  activityTypes: string[];
+  requiredCount: number;
+  currentProgress: number;
+  reward: number;
+  periodStart: string;
+  startsAt: string; // Activities count from here, later than periodStart after a reroll
+  expiresAt: string;
+  status: ChallengeStatus;
+  completedAt?: string;
+  createdAt: string;
+}
+
+export interface ChallengeFilter {
+  status?: ChallengeStatus[];
+  period?: ChallengePeriod;
+  periodStart?: string;
+  limit?: number;
+}
+
+export interface StreakRecord {
+  userId: string;
+  currentStreak: number;
+  longestStreak: number;
+  lastStreakDate?: string; // Local calendar date (YYYY-MM-DD) of the last day counted
+  streakStartDate?: string;
+  totalActiveDays: number;
+  freezeTokens: number;
+  lastFreezeUsed?: string; // Local calendar date the last freeze covered
+  updatedAt: string;
+}
+
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  startTime: string; // First activity
+  endTime: string; // Last activity
+  totalXp: number;
+  activityCount: number;
+  duration: number; // Seconds from the first to the last activity
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SessionFilter {
+  limit?: number;
+  since?: string; // Sessions still going at or after this time
 }
 
 export interface LeaderboardEntry {
@@ -64,6 +202,49 @@ export interface LeaderboardEntry {
   streak: number;
 }
 
+export interface LeaderboardFilter {
+  since?: string;
+  until?: string; // Exclusive
+  projectId?: string;
+  teamId?: string;
+  limit?: number;
+}
+
+// Ranking by the XP earned within a period
+export interface PeriodLeaderboardEntry extends LeaderboardEntry {
+  periodXp: number;
+  activityCount: number;
+}
+
+export type LeaderboardType = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface LeaderboardSnapshot {
+  id: string;
+  type: LeaderboardType;
+  periodStart: string;
+  periodEnd: string;
+  userId: string;
+  rank: number;
+  totalXp: number; // XP earned in the period
+  level: number;
+  achievementCount: number; // Achievements unlocked in the period
+  activityCount: number;
+  streakDays: number;
+  rankChange?: number; // Places gained since the previous period
+  isFinal: boolean; // Taken after the period ended
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ActivityRangeFilter {
+  since?: string;
+  until?: string; // Exclusive
+  type?: string;
+  projectId?: string;
+}
+
+export type UserStatsFilter = ActivityRangeFilter;
+
 export interface UserStats {
   totalActivities: number;
   totalAchievements: number;
@@ -73,14 +254,156 @@ export interface UserStats {
   xpByActivityType: Record<string, number>;
 }
 
-// Migration interface
-interface Migration {
-  version: number;
-  name: string;
-  up: string;
-  down: string;
+/**
+ * Tables in an export, in the order they are written and imported
+ */
+export const EXPORT_TABLES = ['users', 'projects', 'sessions', 'activities', 'achievements', 'xpHistory'] as const;
+
+export type ExportTable = typeof EXPORT_TABLES[number];
+
+export interface ExportRecordMap {
+  users: User;
+  projects: Project;
+  sessions: SessionRecord;
+  activities: Activity;
+  achievements: Achievement;
+  xpHistory: XpHistory;
+}
+
+export interface ExportFilter {
+  userId?: string;
+  since?: string;
+  until?: string; // Exclusive
+}
+
+interface ExportTableSpec {
+  table: string;
+  userColumn?: string;
+  timeColumn?: string;
+
+  // Column of each field an import writes
+  columns: Record<string, string>;
+}
+
+// The current team is left out of users, teams are not exported
+const EXPORT_TABLE_SPECS: Record<ExportTable, ExportTableSpec> = {
+  users: {
+    table: 'users',
+    userColumn: 'id',
+    columns: {
+      id: 'id',
+      username: 'username',
+      email: 'email',
+      displayName: 'display_name',
+      avatarUrl: 'avatar_url',
+      totalXp: 'total_xp',
+      level: 'level',
+      streak: 'streak',
+      longestStreak: 'longest_streak',
+      lastActiveDate: 'last_active_date',
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    }
+  },
+  projects: {
+    table: 'projects',
+    columns: {
+      id: 'id',
+      name: 'name',
+      path: 'path',
+      gitUrl: 'git_url',
+      primaryLanguage: 'primary_language',
+      languages: 'languages',
+      isArchived: 'is_archived',
+      lastActivityAt: 'last_activity_at',
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    }
+  },
+  sessions: {
+    table: 'sessions',
+    userColumn: 'user_id',
+    timeColumn: 'start_time',
+    columns: {
+      id: 'id',
+      userId: 'user_id',
+      startTime: 'start_time',
+      endTime: 'end_time',
+      totalXp: 'total_xp',
+      activityCount: 'activity_count',
+      duration: 'duration',
+      createdAt: 'created_at',
+      updatedAt: 'updated_at'
+    }
+  },
+  activities: {
+    table: 'activities',
+    userColumn: 'user_id',
+    timeColumn: 'timestamp',
+    columns: {
+      id: 'id',
+      userId: 'user_id',
+      type: 'type',
+      description: 'description',
+      xpEarned: 'xp_earned',
+      metadata: 'metadata',
+      projectId: 'project_id',
+      sessionId: 'session_id',
+      timestamp: 'timestamp',
+      createdAt: 'created_at'
+    }
+  },
+  achievements: {
+    table: 'achievements',
+    userColumn: 'user_id',
+    timeColumn: 'unlocked_at',
+    columns: {
+      id: 'id',
+      userId: 'user_id',
+      type: 'type',
+      name: 'name',
+      description: 'description',
+      xpReward: 'xp_reward',
+      unlockedAt: 'unlocked_at',
+      metadata: 'metadata'
+    }
+  },
+  xpHistory: {
+    table: 'xp_history',
+    userColumn: 'user_id',
+    timeColumn: 'timestamp',
+    columns: {
+      id: 'id',
+      userId: 'user_id',
+      xpChange: 'xp_change',
+      reason: 'reason',
+      activityId: 'activity_id',
+      achievementId: 'achievement_id',
+      timestamp: 'timestamp',
+      balance: 'balance',
+      eventType: 'event_type'
+    }
+  }
+};
+
+// node-sqlite3 has an online backup API its typings leave out
+interface OnlineBackup {
+  readonly completed: boolean;
+  readonly failed: boolean;
+  step(pages: number, callback: (error: Error | null) => void): void;
+  finish(): void;
 }
 
+type OnlineBackupDatabase = sqlite3.Database & {
+  backup(filename: string, destName: string, sourceName: string, filenameIsDest: boolean): OnlineBackup;
+};
+
+// How long a restore waits for other processes to stop writing
+const RESTORE_TIMEOUT = 10000;
+
+// How long a write waits for another process's write to finish
+const BUSY_TIMEOUT = 5000;
+
 export class DevXpDatabase {
   private db: Database<sqlite3.Database, sqlite3.Statement> | null = null;
   private dbPath: string;
@@ -91,8 +414,8 @@ export class DevXpDatabase {
     this.dbPath = path.join(this.configDir, 'devxp.db');
   }
 
-  // Initialize database and run migrations
-  async initialize(): Promise<void> {
+  // Initialize database and run migrations, unless the caller manages them
+  async initialize(options: { migrate?: boolean } = {}): Promise<void> {
     // Ensure config directory exists
     await fs.mkdir(this.configDir, { recursive: true });
 
@@ -105,145 +428,41 @@ export class DevXpDatabase {
     // Enable foreign keys
     await this.db.exec('PRAGMA foreign_keys = ON');
 
-    // Run migrations
-    await this.runMigrations();
+    // The daemon, git hooks, the dashboard and scheduled backups use the
+    // database at the same time: readers don't block the writer in WAL
+    // mode, and a writer waits for another rather than failing at once
+    await this.db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT}`);
+    await this.db.exec('PRAGMA journal_mode = WAL');
+
+    if (options.migrate !== false) {
+      await this.runMigrations();
+    }
   }
 
-  // Migration system
+  // Bring the schema up to date, refusing to touch a database whose
+  // applied migrations no longer match their definitions. Progress goes to
+  // stderr so it can't end up in hook output or --json results.
   private async runMigrations(): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+    await this.getMigrationRunner().up({
+      onMigration: migration => console.error(`Applying migration ${migration.version}: ${migration.name}`)
+    });
+  }
 
-    // Create migrations table if it doesn't exist
-    await this.db.exec(`
-      CREATE TABLE IF NOT EXISTS migrations (
-        version INTEGER PRIMARY KEY,
-        name TEXT NOT NULL,
-        applied_at TEXT NOT NULL
-      )
-    `);
-
-    const migrations: Migration[] = [
-      {
-        version: 1,
-        name: 'initial_schema',
-        up: `
-          CREATE TABLE IF NOT EXISTS users (
-            id TEXT PRIMARY KEY,
-            username TEXT UNIQUE NOT NULL,
-            email TEXT UNIQUE NOT NULL,
-            display_name TEXT NOT NULL,
-            avatar_url TEXT,
-            total_xp INTEGER DEFAULT 0,
-            level INTEGER DEFAULT 1,
-            streak INTEGER DEFAULT 0,
-            longest_streak INTEGER DEFAULT 0,
-            last_active_date TEXT,
-            created_at TEXT NOT NULL,
-            updated_at TEXT NOT NULL
-          );
-
-          CREATE TABLE IF NOT EXISTS activities (
-            id TEXT PRIMARY KEY,
-            user_id TEXT NOT NULL,
-            type TEXT NOT NULL,
-            description TEXT NOT NULL,
-            xp_earned INTEGER NOT NULL,
-            metadata TEXT,
-            timestamp TEXT NOT NULL,
-            created_at TEXT NOT NULL,
-            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-          );
-
-          CREATE TABLE IF NOT EXISTS achievements (
-            id TEXT PRIMARY KEY,
-            user_id TEXT NOT NULL,
-            type TEXT NOT NULL,
-            name TEXT NOT NULL,
-            description TEXT NOT NULL,
-            xp_reward INTEGER NOT NULL,
-            unlocked_at TEXT NOT NULL,
-            metadata TEXT,
-            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-          );
-
-          CREATE TABLE IF NOT EXISTS xp_history (
-            id TEXT PRIMARY KEY,
-            user_id TEXT NOT NULL,
-            xp_change INTEGER NOT NULL,
-            reason TEXT NOT NULL,
-            activity_id TEXT,
-            achievement_id TEXT,
-            timestamp TEXT NOT NULL,
-            balance INTEGER NOT NULL,
-            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-            FOREIGN KEY (activity_id) REFERENCES activities(id) ON DELETE SET NULL,
-            FOREIGN KEY (achievement_id) REFERENCES achievements(id) ON DELETE SET NULL
-          );
-
-          CREATE INDEX IF NOT EXISTS idx_activities_user_id ON activities(user_id);
-          CREATE INDEX IF NOT EXISTS idx_activities_timestamp ON activities(timestamp);
-          CREATE INDEX IF NOT EXISTS idx_achievements_user_id ON achievements(user_id);
-          CREATE INDEX IF NOT EXISTS idx_xp_history_user_id ON xp_history(user_id);
-          CREATE INDEX IF NOT EXISTS idx_xp_history_timestamp ON xp_history(timestamp);
-        `,
-        down: `
-          DROP TABLE IF EXISTS xp_history;
-          DROP TABLE IF EXISTS achievements;
-          DROP TABLE IF EXISTS activities;
-          DROP TABLE IF EXISTS users;
-        `
-      },
-      {
-        version: 2,
-        name: 'add_team_support',
-        up: `
-          CREATE TABLE IF NOT EXISTS teams (
-            id TEXT PRIMARY KEY,
-            name TEXT UNIQUE NOT NULL,
-            description TEXT,
-            created_at TEXT NOT NULL,
-            updated_at TEXT NOT NULL
-          );
-
-          CREATE TABLE IF NOT EXISTS team_members (
-            team_id TEXT NOT NULL,
-            user_id TEXT NOT NULL,
-            role TEXT DEFAULT 'member',
-            joined_at TEXT NOT NULL,
-            PRIMARY KEY (team_id, user_id),
-            FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
-            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-          );
-
-          ALTER TABLE users ADD COLUMN current_team_id TEXT REFERENCES teams(id) ON DELETE SET NULL;
-        `,
-        down: `
-          ALTER TABLE users DROP COLUMN current_team_id;
-          DROP TABLE IF EXISTS team_members;
-          DROP TABLE IF EXISTS teams;
-        `
-      }
-    ];
+  getMigrationRunner(): MigrationRunner {
+    if (!this.db) throw new Error('Database not initialized');
+    return new MigrationRunner(this.db);
+  }
 
-    // Get current migration version
-    const currentVersion = await this.db.get<{ version: number }>(
-      'SELECT MAX(version) as version FROM migrations'
-    );
-    const current = currentVersion?.version || 0;
+  // Every change to a user's XP is recorded through the ledger
+  getLedger(): XpLedger {
+    if (!this.db) throw new Error('Database not initialized');
+    return new XpLedger(this.db);
+  }
 
-    // Apply pending migrations
-    for (const migration of migrations) {
-      if (migration.version > current) {
-        console.log(`Applying migration ${migration.version}: ${migration.name}`);
-        await this.db.exec(migration.up);
-        await this.db.run(
-          'INSERT INTO migrations (version, name, applied_at) VALUES (?, ?, ?)',
-          migration.version,
-          migration.name,
-          new Date().toISOString()
-        );
-      }
-    }
+  // Resets, imports, restores and other changes record who made them here
+  getAuditLog(): AuditLog {
+    if (!this.db) throw new Error('Database not initialized');
+    return new AuditLog(this.db);
   }
 
   // Generate unique ID
@@ -255,29 +474,38 @@ export class DevXpDatabase {
 
   // User CRUD operations
   async createUser(user: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<User> {
-    if (!this.db) throw new Error('Database not initialized');
-
     const id = this.generateId();
     const now = new Date().toISOString();
-    
-    await this.db.run(
-      `INSERT INTO users (id, username, email, display_name, avatar_url, total_xp, level, streak, longest_streak, last_active_date, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      id,
-      user.username,
-      user.email,
-      user.displayName,
-      user.avatarUrl,
-      user.totalXp || 0,
-      user.level || 1,
-      user.streak || 0,
-      user.longestStreak || 0,
-      user.lastActiveDate || now,
-      now,
-      now
-    );
 
-    return { ...user, id, createdAt: now, updatedAt: now };
+    // The user and their opening balance are written together
+    return this.transaction(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+
+      await this.db.run(
+        `INSERT INTO users (id, username, email, display_name, avatar_url, total_xp, level, streak, longest_streak, last_active_date, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        id,
+        user.username,
+        user.email,
+        user.displayName,
+        user.avatarUrl,
+        0,
+        user.level || 1,
+        user.streak || 0,
+        user.longestStreak || 0,
+        user.lastActiveDate || now,
+        now,
+        now
+      );
+
+      // Starting XP opens the user's ledger account
+      if (user.totalXp) {
+        await this.getLedger().setBalance(id, user.totalXp, 'Opening balance');
+        return { ...user, id, level: this.calculateLevel(user.totalXp), createdAt: now, updatedAt: now };
+      }
+
+      return { ...user, id, createdAt: now, updatedAt: now };
+    });
   }
 
   async getUser(id: string): Promise<User | null> {
@@ -313,24 +541,33 @@ export class DevXpDatabase {
     if (!user) return null;
 
     const updatedUser = { ...user, ...updates, updatedAt: new Date().toISOString() };
-    
-    await this.db.run(
-      `UPDATE users SET username = ?, email = ?, display_name = ?, avatar_url = ?, total_xp = ?, level = ?, streak = ?, longest_streak = ?, last_active_date = ?, updated_at = ?
-       WHERE id = ?`,
-      updatedUser.username,
-      updatedUser.email,
-      updatedUser.displayName,
-      updatedUser.avatarUrl,
-      updatedUser.totalXp,
-      updatedUser.level,
-      updatedUser.streak,
-      updatedUser.longestStreak,
-      updatedUser.lastActiveDate,
-      updatedUser.updatedAt,
-      id
-    );
 
-    return updatedUser;
+    return this.transaction(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+
+      await this.db.run(
+        `UPDATE users SET username = ?, email = ?, display_name = ?, avatar_url = ?, level = ?, streak = ?, longest_streak = ?, last_active_date = ?, updated_at = ?
+         WHERE id = ?`,
+        updatedUser.username,
+        updatedUser.email,
+        updatedUser.displayName,
+        updatedUser.avatarUrl,
+        updatedUser.level,
+        updatedUser.streak,
+        updatedUser.longestStreak,
+        updatedUser.lastActiveDate,
+        updatedUser.updatedAt,
+        id
+      );
+
+      // Setting XP is an adjustment in the ledger, which also sets the level
+      if (updates.totalXp !== undefined) {
+        await this.getLedger().setBalance(id, updates.totalXp, 'Balance adjusted');
+        return this.getUser(id);
+      }
+
+      return updatedUser;
+    });
   }
 
   async deleteUser(id: string): Promise<boolean> {
@@ -349,28 +586,41 @@ export class DevXpDatabase {
 
   // Activity CRUD operations
   async createActivity(activity: Omit<Activity, 'id' | 'createdAt'>): Promise<Activity> {
-    if (!this.db) throw new Error('Database not initialized');
-
     const id = this.generateId();
     const now = new Date().toISOString();
-    
-    await this.db.run(
-      `INSERT INTO activities (id, user_id, type, description, xp_earned, metadata, timestamp, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-      id,
-      activity.userId,
-      activity.type,
-      activity.description,
-      activity.xpEarned,
-      activity.metadata,
-      activity.timestamp,
-      now
-    );
 
-    // Update user XP and last active date
-    await this.updateUserXp(activity.userId, activity.xpEarned, `Activity: ${activity.description}`, id);
+    // The activity and the XP it earned are written together
+    return this.transaction(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+
+      await this.db.run(
+        `INSERT INTO activities (id, user_id, type, description, xp_earned, metadata, project_id, session_id, timestamp, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        id,
+        activity.userId,
+        activity.type,
+        activity.description,
+        activity.xpEarned,
+        activity.metadata,
+        activity.projectId ?? null,
+        activity.sessionId ?? null,
+        activity.timestamp,
+        now
+      );
+
+      if (activity.projectId) {
+        await this.db.run(
+          'UPDATE projects SET last_activity_at = MAX(COALESCE(last_activity_at, \'\'), ?) WHERE id = ?',
+          activity.timestamp,
+          activity.projectId
+        );
+      }
+
+      // Update user XP and last active date
+      await this.updateUserXp(activity.userId, activity.xpEarned, `Activity: ${activity.description}`, XPEventType.ACTIVITY, id);
 
-    return { ...activity, id, createdAt: now };
+      return { ...activity, id, createdAt: now };
+    });
   }
 
   async getActivity(id: string): Promise<Activity | null> {
@@ -386,12 +636,18 @@ export class DevXpDatabase {
     return this.mapDbActivityToActivity(activity);
   }
 
-  async getUserActivities(userId: string, limit?: number, offset?: number): Promise<Activity[]> {
+  async getUserActivities(userId: string, limit?: number, offset?: number, projectId?: string): Promise<Activity[]> {
     if (!this.db) throw new Error('Database not initialized');
 
-    let query = 'SELECT * FROM activities WHERE user_id = ? ORDER BY timestamp DESC';
+    let query = 'SELECT * FROM activities WHERE user_id = ?';
     const params: any[] = [userId];
 
+    if (projectId !== undefined) {
+      query += ' AND project_id = ?';
+      params.push(projectId);
+    }
+    query += ' ORDER BY timestamp DESC';
+
     if (limit !== undefined) {
       query += ' LIMIT ?';
       params.push(limit);
@@ -405,6 +661,100 @@ export class DevXpDatabase {
     return activities.map(this.mapDbActivityToActivity);
   }
 
+  // Activities between two dates, oldest first
+  async getActivitiesInRange(userId: string, filter: ActivityRangeFilter = {}): Promise<Activity[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const { conditions, params } = this.buildActivityScope(userId, filter);
+    const activities = await this.db.all<any[]>(
+      `SELECT * FROM activities WHERE ${conditions.join(' AND ')} ORDER BY timestamp`,
+      ...params
+    );
+    return activities.map(this.mapDbActivityToActivity);
+  }
+
+  async findActivityByMetadata(userId: string, type: string, jsonPath: string, value: string | number): Promise<Activity | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const activity = await this.db.get<any>(
+      'SELECT * FROM activities WHERE user_id = ? AND type = ? AND json_extract(metadata, ?) = ? LIMIT 1',
+      userId,
+      type,
+      jsonPath,
+      value
+    );
+
+    if (!activity) return null;
+
+    return this.mapDbActivityToActivity(activity);
+  }
+
+  async getActivityCountsByType(userId: string): Promise<Record<string, number>> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all<{ type: string; count: number }[]>(
+      'SELECT type, COUNT(*) as count FROM activities WHERE user_id = ? GROUP BY type',
+      userId
+    );
+
+    return Object.fromEntries(rows.map(row => [row.type, row.count]));
+  }
+
+  // Aggregate a numeric metadata field (e.g. '$.git.insertions') across activities
+  async sumActivityMetadata(userId: string, jsonPath: string, types?: string[]): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    let query = 'SELECT COALESCE(SUM(json_extract(metadata, ?)), 0) as total FROM activities WHERE user_id = ?';
+    const params: any[] = [jsonPath, userId];
+
+    if (types && types.length > 0) {
+      query += ` AND type IN (${types.map(() => '?').join(', ')})`;
+      params.push(...types);
+    }
+
+    const result = await this.db.get<{ total: number }>(query, ...params);
+    return result?.total || 0;
+  }
+
+  async countActivities(userId: string, filter: ActivityCountFilter = {}): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    let query = 'SELECT COUNT(*) as count FROM activities WHERE user_id = ?';
+    const params: any[] = [userId];
+
+    if (filter.types && filter.types.length > 0) {
+      query += ` AND type IN (${filter.types.map(() => '?').join(', ')})`;
+      params.push(...filter.types);
+    }
+    if (filter.since !== undefined) {
+      query += ' AND timestamp >= ?';
+      params.push(filter.since);
+    }
+    if (filter.command !== undefined) {
+      query += ' AND json_extract(metadata, ?) = ?';
+      params.push('$.command', filter.command);
+    }
+    if (filter.descriptionContains !== undefined) {
+      query += ' AND instr(lower(description), lower(?)) > 0';
+      params.push(filter.descriptionContains);
+    }
+
+    const result = await this.db.get<{ count: number }>(query, ...params);
+    return result?.count || 0;
+  }
+
+  async countDistinctActivityMetadata(userId: string, jsonPath: string): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.get<{ count: number }>(
+      'SELECT COUNT(DISTINCT json_extract(metadata, ?)) as count FROM activities WHERE user_id = ?',
+      jsonPath,
+      userId
+    );
+
+    return result?.count || 0;
+  }
+
   async deleteActivity(id: string): Promise<boolean> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -414,27 +764,30 @@ export class DevXpDatabase {
 
   // Achievement CRUD operations
   async createAchievement(achievement: Omit<Achievement, 'id'>): Promise<Achievement> {
-    if (!this.db) throw new Error('Database not initialized');
-
     const id = this.generateId();
-    
-    await this.db.run(
-      `INSERT INTO achievements (id, user_id, type, name, description, xp_reward, unlocked_at, metadata)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-      id,
-      achievement.userId,
-      achievement.type,
-      achievement.name,
-      achievement.description,
-      achievement.xpReward,
-      achievement.unlockedAt,
-      achievement.metadata
-    );
 
-    // Update user XP
-    await this.updateUserXp(achievement.userId, achievement.xpReward, `Achievement unlocked: ${achievement.name}`, undefined, id);
+    // The unlock and its reward are written together
+    return this.transaction(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+
+      await this.db.run(
+        `INSERT INTO achievements (id, user_id, type, name, description, xp_reward, unlocked_at, metadata)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        id,
+        achievement.userId,
+        achievement.type,
+        achievement.name,
+        achievement.description,
+        achievement.xpReward,
+        achievement.unlockedAt,
+        achievement.metadata
+      );
+
+      // Update user XP
+      await this.updateUserXp(achievement.userId, achievement.xpReward, `Achievement unlocked: ${achievement.name}`, XPEventType.ACHIEVEMENT, undefined, id);
 
-    return { ...achievement, id };
+      return { ...achievement, id };
+    });
   }
 
   async getAchievement(id: string): Promise<Achievement | null> {
@@ -473,6 +826,50 @@ export class DevXpDatabase {
     return (result?.count || 0) > 0;
   }
 
+  async deleteUserAchievements(userId: string): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.run('DELETE FROM achievements WHERE user_id = ?', userId);
+    await this.db.run('DELETE FROM user_achievements WHERE user_id = ?', userId);
+    return result.changes || 0;
+  }
+
+  // Achievement progress operations
+  async getUserAchievementProgress(userId: string): Promise<UserAchievementProgress[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all<any[]>(
+      'SELECT * FROM user_achievements WHERE user_id = ?',
+      userId
+    );
+
+    return rows.map(this.mapDbUserAchievementProgress);
+  }
+
+  async saveUserAchievementProgress(progress: UserAchievementProgress): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.run(
+      `INSERT INTO user_achievements (user_id, achievement_id, current_progress, required_progress, times_earned, unlocked_at, condition_progress, last_progress_update)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (user_id, achievement_id) DO UPDATE SET
+         current_progress = excluded.current_progress,
+         required_progress = excluded.required_progress,
+         times_earned = excluded.times_earned,
+         unlocked_at = excluded.unlocked_at,
+         condition_progress = excluded.condition_progress,
+         last_progress_update = excluded.last_progress_update`,
+      progress.userId,
+      progress.achievementId,
+      progress.currentProgress,
+      progress.requiredProgress,
+      progress.timesEarned,
+      progress.unlockedAt,
+      progress.conditionProgress,
+      progress.lastProgressUpdate
+    );
+  }
+
   // XP History operations
   async addXpHistory(history: Omit<XpHistory, 'id'>): Promise<XpHistory> {
     if (!this.db) throw new Error('Database not initialized');
@@ -480,8 +877,8 @@ export class DevXpDatabase {
     const id = this.generateId();
     
     await this.db.run(
-      `INSERT INTO xp_history (id, user_id, xp_change, reason, activity_id, achievement_id, timestamp, balance)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO xp_history (id, user_id, xp_change, reason, activity_id, achievement_id, timestamp, balance, event_type)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       id,
       history.userId,
       history.xpChange,
@@ -489,7 +886,8 @@ export class DevXpDatabase {
       history.activityId,
       history.achievementId,
       history.timestamp,
-      history.balance
+      history.balance,
+      history.eventType ?? XPEventType.ACTIVITY
     );
 
     return { ...history, id };
@@ -514,45 +912,810 @@ export class DevXpDatabase {
     return history.map(this.mapDbXpHistoryToXpHistory);
   }
 
-  // Helper method to update user XP and record history
-  private async updateUserXp(userId: string, xpChange: number, reason: string, activityId?: string, achievementId?: string): Promise<void> {
+  // XP history between two dates, oldest first. Type and project filters
+  // keep only XP from matching activities.
+  async getXpHistoryInRange(userId: string, filter: ActivityRangeFilter = {}): Promise<XpHistory[]> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    let query = 'SELECT * FROM xp_history WHERE user_id = ?';
+    const params: any[] = [userId];
 
-    const newTotalXp = user.totalXp + xpChange;
-    const newLevel = this.calculateLevel(newTotalXp);
-    const now = new Date().toISOString();
+    if (filter.since !== undefined) {
+      query += ' AND timestamp >= ?';
+      params.push(filter.since);
+    }
+    if (filter.until !== undefined) {
+      query += ' AND timestamp < ?';
+      params.push(filter.until);
+    }
+    if (filter.type !== undefined || filter.projectId !== undefined) {
+      const { conditions, params: activityParams } = this.buildActivityScope(userId, {
+        ...(filter.type !== undefined ? { type: filter.type } : {}),
+        ...(filter.projectId !== undefined ? { projectId: filter.projectId } : {})
+      });
+      query += ` AND activity_id IN (SELECT id FROM activities WHERE ${conditions.join(' AND ')})`;
+      params.push(...activityParams);
+    }
+    query += ' ORDER BY timestamp';
 
-    // Update user
-    await this.db.run(
-      'UPDATE users SET total_xp = ?, level = ?, last_active_date = ?, updated_at = ? WHERE id = ?',
-      newTotalXp,
-      newLevel,
-      now,
-      now,
-      userId
-    );
+    const history = await this.db.all<any[]>(query, ...params);
+    return history.map(this.mapDbXpHistoryToXpHistory);
+  }
+
+  // Most recent XP history entry of the given event type
+  async getLastXpEvent(userId: string, eventType: string): Promise<XpHistory | null> {
+    if (!this.db) throw new Error('Database not initialized');
 
-    // Add to XP history
-    await this.addXpHistory({
+    const history = await this.db.get<any>(
+      'SELECT * FROM xp_history WHERE user_id = ? AND event_type = ? ORDER BY timestamp DESC LIMIT 1',
       userId,
-      xpChange,
-      reason,
-      activityId,
-      achievementId,
-      timestamp: now,
-      balance: newTotalXp
-    });
-  }
+      eventType
+    );
 
-  // Calculate level based on XP (example formula)
-  private calculateLevel(totalXp: number): number {
-    return Math.floor(Math.sqrt(totalXp / 100)) + 1;
+    return history ? this.mapDbXpHistoryToXpHistory(history) : null;
   }
 
-  // Leaderboard queries
+  // XP gained (ignoring deductions) since the given ISO timestamp
+  async getXpEarnedSince(userId: string, since: string): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.get<{ total: number }>(
+      'SELECT COALESCE(SUM(xp_change), 0) as total FROM xp_history WHERE user_id = ? AND xp_change > 0 AND timestamp >= ?',
+      userId,
+      since
+    );
+
+    return result?.total || 0;
+  }
+
+  // Challenge operations
+  async createChallenge(challenge: Omit<ChallengeRecord, 'id' | 'createdAt'>): Promise<ChallengeRecord> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const id = this.generateId();
+    const now = new Date().toISOString();
+
+    await this.db.run(
+      `INSERT INTO challenges (id, user_id, period, template_id, name, description, activity_types, required_count, current_progress, reward, period_start, starts_at, expires_at, status, completed_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      id,
+      challenge.userId,
+      challenge.period,
+      challenge.templateId,
+      challenge.name,
+      challenge.description,
+      JSON.stringify(challenge.activityTypes),
+      challenge.requiredCount,
+      challenge.currentProgress,
+      challenge.reward,
+      challenge.periodStart,
+      challenge.startsAt,
+      challenge.expiresAt,
+      challenge.status,
+      challenge.completedAt,
+      now
+    );
+
+    return { ...challenge, id, createdAt: now };
+  }
+
+  async getChallenges(userId: string, filter: ChallengeFilter = {}): Promise<ChallengeRecord[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    let query = 'SELECT * FROM challenges WHERE user_id = ?';
+    const params: any[] = [userId];
+
+    if (filter.status && filter.status.length > 0) {
+      query += ` AND status IN (${filter.status.map(() => '?').join(', ')})`;
+      params.push(...filter.status);
+    }
+    if (filter.period) {
+      query += ' AND period = ?';
+      params.push(filter.period);
+    }
+    if (filter.periodStart) {
+      query += ' AND period_start = ?';
+      params.push(filter.periodStart);
+    }
+
+    query += ' ORDER BY period_start DESC, created_at ASC';
+    if (filter.limit !== undefined) {
+      query += ' LIMIT ?';
+      params.push(filter.limit);
+    }
+
+    const rows = await this.db.all<any[]>(query, ...params);
+    return rows.map(this.mapDbChallengeToChallenge);
+  }
+
+  async updateChallengeProgress(id: string, currentProgress: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.run('UPDATE challenges SET current_progress = ? WHERE id = ?', currentProgress, id);
+  }
+
+  async setChallengeStatus(id: string, status: ChallengeStatus): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.run('UPDATE challenges SET status = ? WHERE id = ?', status, id);
+  }
+
+  // Mark the challenge completed and award its XP, once
+  async completeChallenge(challenge: ChallengeRecord, completedAt: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.run(
+      `UPDATE challenges SET status = ?, current_progress = ?, completed_at = ?
+       WHERE id = ? AND status = ?`,
+      'completed',
+      challenge.requiredCount,
+      completedAt,
+      challenge.id,
+      'active'
+    );
+    if (!result.changes) return false;
+
+    await this.updateUserXp(challenge.userId, challenge.reward, `Challenge completed: ${challenge.name}`, XPEventType.CHALLENGE);
+    return true;
+  }
+
+  // Expire active challenges whose period has ended
+  async expireChallenges(userId: string, now: string): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.run(
+      'UPDATE challenges SET status = ? WHERE user_id = ? AND status = ? AND expires_at <= ?',
+      'expired',
+      userId,
+      'active',
+      now
+    );
+    return result.changes || 0;
+  }
+
+  // Award the bonus for completing every challenge of a period, once
+  async awardChallengeBonus(userId: string, period: ChallengePeriod, periodStart: string, xpReward: number): Promise<boolean> {
+    // The bonus and its XP are written together
+    return this.transaction(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+
+      const result = await this.db.run(
+        `INSERT OR IGNORE INTO challenge_bonuses (user_id, period, period_start, xp_reward, awarded_at)
+         VALUES (?, ?, ?, ?, ?)`,
+        userId,
+        period,
+        periodStart,
+        xpReward,
+        new Date().toISOString()
+      );
+      if (!result.changes) return false;
+
+      await this.updateUserXp(userId, xpReward, `All ${period} challenges completed`, XPEventType.CHALLENGE);
+      return true;
+    });
+  }
+
+  async getChallengeBonusPeriods(userId: string, period: ChallengePeriod): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all<Array<{ period_start: string }>>(
+      'SELECT period_start FROM challenge_bonuses WHERE user_id = ? AND period = ?',
+      userId,
+      period
+    );
+    return rows.map(row => row.period_start);
+  }
+
+  // Deduct decayed XP, leaving the last active date alone so inactivity keeps counting
+  async applyXpDecay(userId: string, xpLost: number, reason: string, timestamp: string): Promise<XpHistory> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const transaction = await this.getLedger().record({
+      userId,
+      amount: -xpLost,
+      reason,
+      eventType: XPEventType.DECAY,
+      timestamp
+    });
+
+    return {
+      id: transaction.eventId!,
+      userId,
+      xpChange: -xpLost,
+      reason,
+      timestamp,
+      balance: transaction.newBalance,
+      eventType: XPEventType.DECAY
+    };
+  }
+
+  // Streak operations
+  async getStreak(userId: string): Promise<StreakRecord | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.get('SELECT * FROM streaks WHERE user_id = ?', userId);
+    return row ? this.mapDbStreakToStreak(row) : null;
+  }
+
+  // Save the streak and mirror the counts onto the user for leaderboards and status
+  async saveStreak(streak: Omit<StreakRecord, 'updatedAt'>): Promise<StreakRecord> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = new Date().toISOString();
+
+    await this.db.run(
+      `INSERT INTO streaks (user_id, current_streak, longest_streak, last_streak_date, streak_start_date, total_active_days, freeze_tokens, last_freeze_used, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET
+         current_streak = excluded.current_streak,
+         longest_streak = excluded.longest_streak,
+         last_streak_date = excluded.last_streak_date,
+         streak_start_date = excluded.streak_start_date,
+         total_active_days = excluded.total_active_days,
+         freeze_tokens = excluded.freeze_tokens,
+         last_freeze_used = excluded.last_freeze_used,
+         updated_at = excluded.updated_at`,
+      streak.userId,
+      streak.currentStreak,
+      streak.longestStreak,
+      streak.lastStreakDate,
+      streak.streakStartDate,
+      streak.totalActiveDays,
+      streak.freezeTokens,
+      streak.lastFreezeUsed,
+      now
+    );
+
+    await this.db.run(
+      'UPDATE users SET streak = ?, longest_streak = ?, updated_at = ? WHERE id = ?',
+      streak.currentStreak,
+      streak.longestStreak,
+      now,
+      streak.userId
+    );
+
+    return { ...streak, updatedAt: now };
+  }
+
+  async deleteStreak(userId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.run('DELETE FROM streak_freezes WHERE user_id = ?', userId);
+    await this.db.run('DELETE FROM streaks WHERE user_id = ?', userId);
+  }
+
+  async addStreakFreezes(userId: string, dates: string[], usedAt: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    for (const date of dates) {
+      await this.db.run(
+        'INSERT OR IGNORE INTO streak_freezes (user_id, date, used_at) VALUES (?, ?, ?)',
+        userId,
+        date,
+        usedAt
+      );
+    }
+  }
+
+  // Calendar dates covered by a freeze, on or after the given date
+  async getStreakFreezes(userId: string, sinceDate: string): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all<{ date: string }[]>(
+      'SELECT date FROM streak_freezes WHERE user_id = ? AND date >= ? ORDER BY date',
+      userId,
+      sinceDate
+    );
+    return rows.map(row => row.date);
+  }
+
+  async getActivityTimestamps(userId: string, since: string): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all<{ timestamp: string }[]>(
+      'SELECT timestamp FROM activities WHERE user_id = ? AND timestamp >= ? ORDER BY timestamp',
+      userId,
+      since
+    );
+    return rows.map(row => row.timestamp);
+  }
+
+  // Project operations
+  async createProject(project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>): Promise<Project> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const id = this.generateId();
+    const now = new Date().toISOString();
+
+    await this.db.run(
+      `INSERT INTO projects (id, name, path, git_url, primary_language, languages, is_archived, last_activity_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      id,
+      project.name,
+      project.path,
+      project.gitUrl ?? null,
+      project.primaryLanguage ?? null,
+      JSON.stringify(project.languages),
+      project.isArchived ? 1 : 0,
+      project.lastActivityAt ?? null,
+      now,
+      now
+    );
+
+    return { ...project, id, createdAt: now, updatedAt: now };
+  }
+
+  async getProject(id: string): Promise<Project | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.get('SELECT * FROM projects WHERE id = ?', id);
+    return row ? this.mapDbProjectToProject(row) : null;
+  }
+
+  async findProjectByGitUrl(gitUrl: string): Promise<Project | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.get('SELECT * FROM projects WHERE git_url = ?', gitUrl);
+    return row ? this.mapDbProjectToProject(row) : null;
+  }
+
+  // Projects without a remote are known by their repository root
+  async findProjectByPath(projectPath: string): Promise<Project | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.get(
+      'SELECT * FROM projects WHERE path = ? ORDER BY git_url IS NOT NULL LIMIT 1',
+      projectPath
+    );
+    return row ? this.mapDbProjectToProject(row) : null;
+  }
+
+  async findProjectByName(name: string): Promise<Project | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.get('SELECT * FROM projects WHERE name = ? COLLATE NOCASE', name);
+    return row ? this.mapDbProjectToProject(row) : null;
+  }
+
+  async updateProject(id: string, updates: Partial<Omit<Project, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Project | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const columns: Record<string, string> = {
+      name: 'name',
+      path: 'path',
+      gitUrl: 'git_url',
+      primaryLanguage: 'primary_language',
+      languages: 'languages',
+      isArchived: 'is_archived',
+      lastActivityAt: 'last_activity_at'
+    };
+
+    const fields: string[] = [];
+    const values: any[] = [];
+    for (const [key, value] of Object.entries(updates)) {
+      const column = columns[key];
+      if (!column) continue;
+
+      fields.push(`${column} = ?`);
+      if (key === 'languages') {
+        values.push(JSON.stringify(value));
+      } else if (key === 'isArchived') {
+        values.push(value ? 1 : 0);
+      } else {
+        values.push(value ?? null);
+      }
+    }
+
+    if (fields.length > 0) {
+      fields.push('updated_at = ?');
+      values.push(new Date().toISOString(), id);
+      await this.db.run(`UPDATE projects SET ${fields.join(', ')} WHERE id = ?`, ...values);
+    }
+
+    return this.getProject(id);
+  }
+
+  // Projects with their XP totals, most recently active first
+  async getProjectSummaries(filter: ProjectFilter = {}): Promise<ProjectSummary[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const params: any[] = [];
+    let join = 'LEFT JOIN activities a ON a.project_id = p.id';
+    if (filter.userId !== undefined) {
+      join += ' AND a.user_id = ?';
+      params.push(filter.userId);
+    }
+
+    const rows = await this.db.all<any[]>(
+      `SELECT p.*,
+       COALESCE(SUM(a.xp_earned), 0) as total_xp,
+       COUNT(a.id) as activity_count,
+       COUNT(DISTINCT a.user_id) as contributors
+       FROM projects p
+       ${join}
+       ${filter.includeArchived ? '' : 'WHERE p.is_archived = 0'}
+       GROUP BY p.id
+       ${filter.userId !== undefined ? 'HAVING COUNT(a.id) > 0' : ''}
+       ORDER BY p.last_activity_at IS NULL, p.last_activity_at DESC, p.name`,
+      ...params
+    );
+
+    return rows.map(row => ({
+      ...this.mapDbProjectToProject(row),
+      totalXp: row.total_xp,
+      activityCount: row.activity_count,
+      contributors: row.contributors
+    }));
+  }
+
+  // Rank users by the XP they earned in one project, optionally since a date
+  async getProjectLeaderboard(projectId: string, limit: number = 10, since?: string): Promise<LeaderboardEntry[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const params: any[] = [projectId];
+    let condition = 'a.project_id = ?';
+    if (since !== undefined) {
+      condition += ' AND a.timestamp >= ?';
+      params.push(since);
+    }
+
+    const users = await this.db.all<any[]>(
+      `SELECT u.id, u.username, u.display_name, u.level, u.streak,
+       SUM(a.xp_earned) as project_xp,
+       ROW_NUMBER() OVER (ORDER BY SUM(a.xp_earned) DESC) as rank
+       FROM users u
+       JOIN activities a ON u.id = a.user_id
+       WHERE ${condition}
+       GROUP BY u.id
+       ORDER BY project_xp DESC
+       LIMIT ?`,
+      ...params,
+      limit
+    );
+
+    return users.map((user) => ({
+      userId: user.id,
+      username: user.username,
+      displayName: user.display_name,
+      totalXp: user.project_xp,
+      level: user.level,
+      rank: user.rank,
+      streak: user.streak
+    }));
+  }
+
+  // Team operations
+  async createTeam(team: Omit<Team, 'id' | 'createdAt' | 'updatedAt'>): Promise<Team> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const id = this.generateId();
+    const now = new Date().toISOString();
+
+    await this.db.run(
+      'INSERT INTO teams (id, name, description, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+      id,
+      team.name,
+      team.description ?? null,
+      now,
+      now
+    );
+
+    return { ...team, id, createdAt: now, updatedAt: now };
+  }
+
+  async getTeam(id: string): Promise<Team | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.get('SELECT * FROM teams WHERE id = ?', id);
+    return row ? this.mapDbTeamToTeam(row) : null;
+  }
+
+  async findTeamByName(name: string): Promise<Team | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.get('SELECT * FROM teams WHERE name = ? COLLATE NOCASE', name);
+    return row ? this.mapDbTeamToTeam(row) : null;
+  }
+
+  async deleteTeam(id: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    // Members are removed and current teams cleared by the foreign keys
+    const result = await this.db.run('DELETE FROM teams WHERE id = ?', id);
+    return (result.changes || 0) > 0;
+  }
+
+  // Teams with their member counts and XP, highest XP first
+  async getTeamSummaries(userId?: string): Promise<TeamSummary[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all<any[]>(
+      `SELECT t.*,
+       COUNT(u.id) as member_count,
+       COALESCE(SUM(u.total_xp), 0) as total_xp,
+       COALESCE(AVG(u.level), 0) as average_level
+       FROM teams t
+       LEFT JOIN team_members tm ON tm.team_id = t.id
+       LEFT JOIN users u ON u.id = tm.user_id
+       ${userId !== undefined ? 'WHERE t.id IN (SELECT team_id FROM team_members WHERE user_id = ?)' : ''}
+       GROUP BY t.id
+       ORDER BY total_xp DESC, t.name`,
+      ...(userId !== undefined ? [userId] : [])
+    );
+
+    return rows.map(row => ({
+      ...this.mapDbTeamToTeam(row),
+      memberCount: row.member_count,
+      totalXp: row.total_xp,
+      averageLevel: Math.round(row.average_level)
+    }));
+  }
+
+  async addTeamMember(teamId: string, userId: string, role: TeamRole = 'member'): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.run(
+      'INSERT INTO team_members (team_id, user_id, role, joined_at) VALUES (?, ?, ?, ?)',
+      teamId,
+      userId,
+      role,
+      new Date().toISOString()
+    );
+  }
+
+  async removeTeamMember(teamId: string, userId: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.run(
+      'UPDATE users SET current_team_id = NULL WHERE id = ? AND current_team_id = ?',
+      userId,
+      teamId
+    );
+    const result = await this.db.run('DELETE FROM team_members WHERE team_id = ? AND user_id = ?', teamId, userId);
+    return (result.changes || 0) > 0;
+  }
+
+  async setTeamMemberRole(teamId: string, userId: string, role: TeamRole): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.run('UPDATE team_members SET role = ? WHERE team_id = ? AND user_id = ?', role, teamId, userId);
+  }
+
+  // Members in the order they joined
+  async getTeamMembers(teamId: string): Promise<TeamMember[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all<any[]>(
+      `SELECT tm.team_id, tm.user_id, tm.role, tm.joined_at, u.username, u.display_name, u.total_xp, u.level
+       FROM team_members tm
+       JOIN users u ON u.id = tm.user_id
+       WHERE tm.team_id = ?
+       ORDER BY tm.joined_at, u.username`,
+      teamId
+    );
+
+    return rows.map(row => ({
+      teamId: row.team_id,
+      userId: row.user_id,
+      username: row.username,
+      displayName: row.display_name,
+      role: row.role,
+      totalXp: row.total_xp,
+      level: row.level,
+      joinedAt: row.joined_at
+    }));
+  }
+
+  async setCurrentTeam(userId: string, teamId: string | null): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.run(
+      'UPDATE users SET current_team_id = ?, updated_at = ? WHERE id = ?',
+      teamId,
+      new Date().toISOString(),
+      userId
+    );
+  }
+
+  // Rank a team's members by lifetime XP, or by the XP earned since a date
+  async getTeamLeaderboard(teamId: string, limit: number = 10, since?: string): Promise<LeaderboardEntry[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const xp = since !== undefined ? 'COALESCE(SUM(a.xp_earned), 0)' : 'u.total_xp';
+    const params: any[] = since !== undefined ? [since, teamId, limit] : [teamId, limit];
+
+    const users = await this.db.all<any[]>(
+      `SELECT u.id, u.username, u.display_name, u.level, u.streak,
+       ${xp} as team_xp,
+       ROW_NUMBER() OVER (ORDER BY ${xp} DESC) as rank
+       FROM users u
+       JOIN team_members tm ON tm.user_id = u.id
+       ${since !== undefined ? 'LEFT JOIN activities a ON a.user_id = u.id AND a.timestamp >= ?' : ''}
+       WHERE tm.team_id = ?
+       GROUP BY u.id
+       ORDER BY team_xp DESC
+       LIMIT ?`,
+      ...params
+    );
+
+    return users.map((user) => ({
+      userId: user.id,
+      username: user.username,
+      displayName: user.display_name,
+      totalXp: user.team_xp,
+      level: user.level,
+      rank: user.rank,
+      streak: user.streak
+    }));
+  }
+
+  // XP each member of a team earned since a date
+  async getTeamXpSince(teamId: string, since: string): Promise<Record<string, number>> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all<{ user_id: string; xp: number }[]>(
+      `SELECT tm.user_id, COALESCE(SUM(a.xp_earned), 0) as xp
+       FROM team_members tm
+       LEFT JOIN activities a ON a.user_id = tm.user_id AND a.timestamp >= ?
+       WHERE tm.team_id = ?
+       GROUP BY tm.user_id`,
+      since,
+      teamId
+    );
+
+    const xp: Record<string, number> = {};
+    for (const row of rows) {
+      xp[row.user_id] = row.xp;
+    }
+    return xp;
+  }
+
+  // Session operations
+  async createSession(session: Omit<SessionRecord, 'id' | 'createdAt' | 'updatedAt'>): Promise<SessionRecord> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const id = this.generateId();
+    const now = new Date().toISOString();
+
+    await this.db.run(
+      `INSERT INTO sessions (id, user_id, start_time, end_time, total_xp, activity_count, duration, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      id,
+      session.userId,
+      session.startTime,
+      session.endTime,
+      session.totalXp,
+      session.activityCount,
+      session.duration,
+      now,
+      now
+    );
+
+    return { ...session, id, createdAt: now, updatedAt: now };
+  }
+
+  async getSession(id: string): Promise<SessionRecord | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.get('SELECT * FROM sessions WHERE id = ?', id);
+    return row ? this.mapDbSessionToSession(row) : null;
+  }
+
+  // The latest session overlapping a time window
+  async findSessionInWindow(userId: string, from: string, to: string): Promise<SessionRecord | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.get(
+      `SELECT * FROM sessions
+       WHERE user_id = ? AND end_time >= ? AND start_time <= ?
+       ORDER BY end_time DESC
+       LIMIT 1`,
+      userId,
+      from,
+      to
+    );
+    return row ? this.mapDbSessionToSession(row) : null;
+  }
+
+  async updateSession(id: string, updates: Pick<SessionRecord, 'startTime' | 'endTime' | 'totalXp' | 'activityCount' | 'duration'>): Promise<SessionRecord | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.run(
+      `UPDATE sessions
+       SET start_time = ?, end_time = ?, total_xp = ?, activity_count = ?, duration = ?, updated_at = ?
+       WHERE id = ?`,
+      updates.startTime,
+      updates.endTime,
+      updates.totalXp,
+      updates.activityCount,
+      updates.duration,
+      new Date().toISOString(),
+      id
+    );
+
+    return this.getSession(id);
+  }
+
+  // Most recent sessions first
+  async getSessions(userId: string, filter: SessionFilter = {}): Promise<SessionRecord[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    let query = 'SELECT * FROM sessions WHERE user_id = ?';
+    const params: any[] = [userId];
+
+    if (filter.since !== undefined) {
+      query += ' AND end_time >= ?';
+      params.push(filter.since);
+    }
+    query += ' ORDER BY start_time DESC';
+    if (filter.limit !== undefined) {
+      query += ' LIMIT ?';
+      params.push(filter.limit);
+    }
+
+    const rows = await this.db.all<any[]>(query, ...params);
+    return rows.map(row => this.mapDbSessionToSession(row));
+  }
+
+  async getSessionActivities(sessionId: string): Promise<Activity[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all<any[]>('SELECT * FROM activities WHERE session_id = ? ORDER BY timestamp', sessionId);
+    return rows.map(row => this.mapDbActivityToActivity(row));
+  }
+
+  // Helper method to record earned XP, which also marks the user active
+  private async updateUserXp(userId: string, xpChange: number, reason: string, eventType: XPEventType, activityId?: string, achievementId?: string): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.getLedger().record({
+      userId,
+      amount: xpChange,
+      reason,
+      eventType,
+      ...(activityId !== undefined ? { activityId } : {}),
+      ...(achievementId !== undefined ? { achievementId } : {}),
+      timestamp: now,
+      lastActiveDate: now
+    });
+  }
+
+  // Calculate level based on XP, using the configured level curve
+  private calculateLevel(totalXp: number): number {
+    return defaultConfigManager.getLevelFromXP(totalXp).level;
+  }
+
+  // Total XP at which a level starts, the inverse of calculateLevel
+  getXpForLevel(level: number): number {
+    return defaultConfigManager.getTotalXPForLevel(level);
+  }
+
+  // Bring stored levels in line with the level curve after it changed
+  async recalculateLevels(): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const users = await this.db.all<{ id: string; total_xp: number; level: number }[]>(
+      'SELECT id, total_xp, level FROM users'
+    );
+
+    let updated = 0;
+    for (const user of users) {
+      const level = this.calculateLevel(user.total_xp);
+      if (level !== user.level) {
+        await this.db.run(
+          'UPDATE users SET level = ?, updated_at = ? WHERE id = ?',
+          level,
+          new Date().toISOString(),
+          user.id
+        );
+        updated++;
+      }
+    }
+
+    return updated;
+  }
+
+  // Leaderboard queries
   async getGlobalLeaderboard(limit: number = 10, offset: number = 0): Promise<LeaderboardEntry[]> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -606,64 +1769,182 @@ export class DevXpDatabase {
     }));
   }
 
+  // Rank users by the XP they earned between two dates, optionally within a
+  // project or among the members of a team
+  async getPeriodLeaderboard(filter: LeaderboardFilter = {}): Promise<PeriodLeaderboardEntry[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    let join = '';
+    if (filter.teamId !== undefined) {
+      join = 'JOIN team_members tm ON tm.user_id = u.id AND tm.team_id = ?';
+      params.push(filter.teamId);
+    }
+    if (filter.since !== undefined) {
+      conditions.push('a.timestamp >= ?');
+      params.push(filter.since);
+    }
+    if (filter.until !== undefined) {
+      conditions.push('a.timestamp < ?');
+      params.push(filter.until);
+    }
+    if (filter.projectId !== undefined) {
+      conditions.push('a.project_id = ?');
+      params.push(filter.projectId);
+    }
+
+    let query = `SELECT u.id, u.username, u.display_name, u.total_xp, u.level, u.streak,
+       SUM(a.xp_earned) as period_xp,
+       COUNT(a.id) as activity_count,
+       ROW_NUMBER() OVER (ORDER BY SUM(a.xp_earned) DESC, u.username) as rank
+       FROM users u
+       JOIN activities a ON a.user_id = u.id
+       ${join}
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       GROUP BY u.id
+       ORDER BY rank`;
+    if (filter.limit !== undefined) {
+      query += ' LIMIT ?';
+      params.push(filter.limit);
+    }
+
+    const users = await this.db.all<any[]>(query, ...params);
+    return users.map((user) => ({
+      userId: user.id,
+      username: user.username,
+      displayName: user.display_name,
+      totalXp: user.total_xp,
+      level: user.level,
+      rank: user.rank,
+      streak: user.streak,
+      periodXp: user.period_xp,
+      activityCount: user.activity_count
+    }));
+  }
+
+  // Replace the stored standings of a period
+  async saveLeaderboardSnapshot(
+    type: LeaderboardType,
+    periodStart: string,
+    periodEnd: string,
+    entries: Array<PeriodLeaderboardEntry & { rankChange?: number }>,
+    isFinal: boolean
+  ): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = new Date().toISOString();
+    await this.db.run('DELETE FROM leaderboard_snapshots WHERE type = ? AND period_start = ?', type, periodStart);
+
+    for (const entry of entries) {
+      await this.db.run(
+        `INSERT INTO leaderboard_snapshots (id, type, period_start, period_end, user_id, rank, total_xp, level, achievement_count, activity_count, streak_days, rank_change, is_final, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?,
+           (SELECT COUNT(*) FROM user_achievements WHERE user_id = ? AND unlocked_at >= ? AND unlocked_at < ?),
+           ?, ?, ?, ?, ?, ?)`,
+        this.generateId(),
+        type,
+        periodStart,
+        periodEnd,
+        entry.userId,
+        entry.rank,
+        entry.periodXp,
+        entry.level,
+        entry.userId,
+        periodStart,
+        periodEnd,
+        entry.activityCount,
+        entry.streak,
+        entry.rankChange ?? null,
+        isFinal ? 1 : 0,
+        now,
+        now
+      );
+    }
+  }
+
+  // Stored standings of a period, best rank first
+  async getLeaderboardSnapshot(type: LeaderboardType, periodStart: string): Promise<LeaderboardSnapshot[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all<any[]>(
+      'SELECT * FROM leaderboard_snapshots WHERE type = ? AND period_start = ? ORDER BY rank',
+      type,
+      periodStart
+    );
+    return rows.map(row => this.mapDbLeaderboardSnapshot(row));
+  }
+
   // Statistics queries
-  async getUserStats(userId: string): Promise<UserStats> {
+  async getUserStats(userId: string, filter: UserStatsFilter = {}): Promise<UserStats> {
     if (!this.db) throw new Error('Database not initialized');
 
+    // Activity queries can be narrowed to a date range, type or project
+    const { conditions, params } = this.buildActivityScope(userId, filter);
+    const scope = conditions.join(' AND ');
+
     // Total activities
     const totalActivities = await this.db.get<{ count: number }>(
-      'SELECT COUNT(*) as count FROM activities WHERE user_id = ?',
-      userId
+      `SELECT COUNT(*) as count FROM activities WHERE ${scope}`,
+      ...params
     );
 
-    // Total achievements
-    const totalAchievements = await this.db.get<{ count: number }>(
-      'SELECT COUNT(*) as count FROM achievements WHERE user_id = ?',
-      userId
-    );
+    // Total achievements, unlocked within the range if there is one
+    let achievementQuery = 'SELECT COUNT(*) as count FROM achievements WHERE user_id = ?';
+    const achievementParams: any[] = [userId];
+    if (filter.since !== undefined) {
+      achievementQuery += ' AND unlocked_at >= ?';
+      achievementParams.push(filter.since);
+    }
+    if (filter.until !== undefined) {
+      achievementQuery += ' AND unlocked_at < ?';
+      achievementParams.push(filter.until);
+    }
+    const totalAchievements = await this.db.get<{ count: number }>(achievementQuery, ...achievementParams);
 
-    // Average XP per day (last 30 days)
+    // Average XP per active day, over the last 30 days unless the range starts earlier
     const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
     const avgXp = await this.db.get<{ avg_xp: number }>(
       `SELECT AVG(daily_xp) as avg_xp FROM (
         SELECT DATE(timestamp) as day, SUM(xp_earned) as daily_xp
         FROM activities
-        WHERE user_id = ? AND timestamp >= ?
+        WHERE ${scope} AND timestamp >= ?
         GROUP BY DATE(timestamp)
       )`,
-      userId,
-      thirtyDaysAgo
+      ...params,
+      filter.since ?? thirtyDaysAgo
     );
 
     // Most productive day
     const mostProductive = await this.db.get<{ day: string; total_xp: number }>(
       `SELECT DATE(timestamp) as day, SUM(xp_earned) as total_xp
        FROM activities
-       WHERE user_id = ?
+       WHERE ${scope}
        GROUP BY DATE(timestamp)
        ORDER BY total_xp DESC
        LIMIT 1`,
-      userId
+      ...params
     );
 
     // Favorite activity type
     const favoriteType = await this.db.get<{ type: string; count: number }>(
       `SELECT type, COUNT(*) as count
        FROM activities
-       WHERE user_id = ?
+       WHERE ${scope}
        GROUP BY type
        ORDER BY count DESC
        LIMIT 1`,
-      userId
+      ...params
     );
 
     // XP by activity type
     const xpByType = await this.db.all<{ type: string; total_xp: number }[]>(
       `SELECT type, SUM(xp_earned) as total_xp
        FROM activities
-       WHERE user_id = ?
+       WHERE ${scope}
        GROUP BY type`,
-      userId
+      ...params
     );
 
     const xpByActivityType: Record<string, number> = {};
@@ -681,30 +1962,46 @@ export class DevXpDatabase {
     };
   }
 
-  // Backup and restore functionality
-  async backup(backupPath?: string): Promise<string> {
-    if (!this.db) throw new Error('Database not initialized');
+  // WHERE conditions selecting a user's activities
+  private buildActivityScope(userId: string, filter: ActivityRangeFilter): { conditions: string[]; params: any[] } {
+    const conditions = ['user_id = ?'];
+    const params: any[] = [userId];
 
-    const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
-    const defaultBackupPath = path.join(this.configDir, `backup-${timestamp}.db`);
-    const targetPath = backupPath || defaultBackupPath;
+    if (filter.since !== undefined) {
+      conditions.push('timestamp >= ?');
+      params.push(filter.since);
+    }
+    if (filter.until !== undefined) {
+      conditions.push('timestamp < ?');
+      params.push(filter.until);
+    }
+    if (filter.type !== undefined) {
+      conditions.push('type = ?');
+      params.push(filter.type);
+    }
+    if (filter.projectId !== undefined) {
+      conditions.push('project_id = ?');
+      params.push(filter.projectId);
+    }
 
-    // Close current connection
-    await this.db.close();
+    return { conditions, params };
+  }
 
-    // Copy database file
-    await fs.copyFile(this.dbPath, targetPath);
+  // Write a consistent copy while other processes keep using the database
+  async backup(backupPath?: string): Promise<string> {
+    if (!this.db) throw new Error('Database not initialized');
 
-    // Reopen connection
-    this.db = await open({
-      filename: this.dbPath,
-      driver: sqlite3.Database
-    });
+    const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
+    const targetPath = backupPath || path.join(this.configDir, `backup-${timestamp}.db`);
 
-    console.log(`Database backed up to: ${targetPath}`);
+    // VACUUM INTO reads in a single transaction, so the copy is never torn
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    await this.db.run('VACUUM INTO ?', targetPath);
     return targetPath;
   }
 
+  // Replace the contents with a backup through SQLite's online backup API,
+  // so other connections see the restored data rather than a swapped file
   async restore(backupPath: string): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -715,148 +2012,121 @@ export class DevXpDatabase {
       throw new Error(`Backup file not found: ${backupPath}`);
     }
 
-    // Close current connection
-    await this.db.close();
-
-    // Create a backup of current database before restoring
-    const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
-    const currentBackupPath = path.join(this.configDir, `pre-restore-${timestamp}.db`);
-    await fs.copyFile(this.dbPath, currentBackupPath);
-    console.log(`Current database backed up to: ${currentBackupPath}`);
-
-    // Restore from backup
-    await fs.copyFile(backupPath, this.dbPath);
+    const backup = (this.db.getDatabaseInstance() as OnlineBackupDatabase).backup(backupPath, 'main', 'main', false);
+    const deadline = Date.now() + RESTORE_TIMEOUT;
 
-    // Reopen connection
-    this.db = await open({
-      filename: this.dbPath,
-      driver: sqlite3.Database
-    });
+    try {
+      // Steps report busy as incomplete while another process writes
+      while (!backup.completed) {
+        await new Promise<void>((resolve, reject) => backup.step(-1, error => error ? reject(error) : resolve()));
+        if (backup.failed) throw new Error('Restore failed, the database was not changed');
+        if (backup.completed) break;
+
+        if (Date.now() > deadline) {
+          throw new Error('The database stayed locked by another devxp process, try again');
+        }
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    } finally {
+      backup.finish();
+    }
+  }
 
-    console.log(`Database restored from: ${backupPath}`);
+  getPath(): string {
+    return this.dbPath;
   }
 
-  // Export data as JSON
-  async exportData(): Promise<string> {
-    if (!this.db) throw new Error('Database not initialized');
+  // Records of one table in batches, so an export never holds a whole table in memory
+  async *iterateRecords<T extends ExportTable>(
+    table: T,
+    filter: ExportFilter = {},
+    batchSize: number = 500
+  ): AsyncGenerator<ExportRecordMap[T]> {
+    const spec = EXPORT_TABLE_SPECS[table];
+    const conditions: string[] = ['rowid > ?'];
+    const params: (string | number)[] = [];
+
+    if (filter.userId !== undefined) {
+      // Projects are shared, so a user's are those they worked on
+      conditions.push(spec.userColumn ? `${spec.userColumn} = ?` : 'id IN (SELECT project_id FROM activities WHERE user_id = ?)');
+      params.push(filter.userId);
+    }
+    if (spec.timeColumn && filter.since !== undefined) {
+      conditions.push(`${spec.timeColumn} >= ?`);
+      params.push(filter.since);
+    }
+    if (spec.timeColumn && filter.until !== undefined) {
+      conditions.push(`${spec.timeColumn} < ?`);
+      params.push(filter.until);
+    }
 
-    const users = await this.getAllUsers();
-    const activities: Activity[] = [];
-    const achievements: Achievement[] = [];
-    const xpHistory: XpHistory[] = [];
+    let lastRowId = 0;
+    for (;;) {
+      if (!this.db) throw new Error('Database not initialized');
 
-    for (const user of users) {
-      const userActivities = await this.getUserActivities(user.id);
-      const userAchievements = await this.getUserAchievements(user.id);
-      const userXpHistory = await this.getUserXpHistory(user.id);
+      const rows = await this.db.all<any[]>(
+        `SELECT rowid AS export_rowid, * FROM ${spec.table} WHERE ${conditions.join(' AND ')} ORDER BY rowid LIMIT ?`,
+        lastRowId,
+        ...params,
+        batchSize
+      );
 
-      activities.push(...userActivities);
-      achievements.push(...userAchievements);
-      xpHistory.push(...userXpHistory);
+      for (const row of rows) {
+        yield this.mapExportRow(table, row);
+      }
+      if (rows.length < batchSize) return;
+      lastRowId = rows[rows.length - 1].export_rowid;
     }
+  }
 
-    const data = {
-      exportedAt: new Date().toISOString(),
-      users,
-      activities,
-      achievements,
-      xpHistory
-    };
+  async hasRecord(table: ExportTable, id: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
 
-    const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
-    const exportPath = path.join(this.configDir, `export-${timestamp}.json`);
-    
-    await fs.writeFile(exportPath, JSON.stringify(data, null, 2));
-    console.log(`Data exported to: ${exportPath}`);
-    
-    return exportPath;
+    const row = await this.db.get(`SELECT 1 FROM ${EXPORT_TABLE_SPECS[table].table} WHERE id = ?`, id);
+    return row !== undefined;
   }
 
-  // Import data from JSON
-  async importData(importPath: string): Promise<void> {
+  // Write an exported record, inserting it or updating the row with its id.
+  // Fields left out are not touched, so updates keep what the record lacks.
+  async writeRecord(table: ExportTable, values: Record<string, unknown>): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const dataStr = await fs.readFile(importPath, 'utf-8');
-    const data = JSON.parse(dataStr);
+    const spec = EXPORT_TABLE_SPECS[table];
 
-    // Import users
-    for (const user of data.users || []) {
-      const existingUser = await this.getUserByUsername(user.username);
-      if (!existingUser) {
-        await this.db.run(
-          `INSERT INTO users (id, username, email, display_name, avatar_url, total_xp, level, streak, longest_streak, last_active_date, created_at, updated_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          user.id,
-          user.username,
-          user.email,
-          user.displayName || user.display_name,
-          user.avatarUrl || user.avatar_url,
-          user.totalXp || user.total_xp,
-          user.level,
-          user.streak,
-          user.longestStreak || user.longest_streak,
-          user.lastActiveDate || user.last_active_date,
-          user.createdAt || user.created_at,
-          user.updatedAt || user.updated_at
-        );
-      }
-    }
+    // XP is set through the ledger below, which also derives the level
+    const balance = table === 'users' && typeof values['totalXp'] === 'number' ? values['totalXp'] : undefined;
+    const fields = Object.keys(spec.columns).filter(field =>
+      values[field] !== undefined && !(balance !== undefined && (field === 'totalXp' || field === 'level'))
+    );
+    const columns = fields.map(field => spec.columns[field]!);
+    const updates = columns.filter(column => column !== 'id').map(column => `${column} = excluded.${column}`);
 
-    // Import activities
-    for (const activity of data.activities || []) {
-      const existingActivity = await this.getActivity(activity.id);
-      if (!existingActivity) {
-        await this.db.run(
-          `INSERT INTO activities (id, user_id, type, description, xp_earned, metadata, timestamp, created_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-          activity.id,
-          activity.userId || activity.user_id,
-          activity.type,
-          activity.description,
-          activity.xpEarned || activity.xp_earned,
-          activity.metadata,
-          activity.timestamp,
-          activity.createdAt || activity.created_at
-        );
-      }
-    }
+    await this.db.run(
+      `INSERT INTO ${spec.table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+       ON CONFLICT(id) DO ${updates.length > 0 ? `UPDATE SET ${updates.join(', ')}` : 'NOTHING'}`,
+      ...fields.map(field => this.toColumnValue(values[field]))
+    );
 
-    // Import achievements
-    for (const achievement of data.achievements || []) {
-      const existingAchievement = await this.getAchievement(achievement.id);
-      if (!existingAchievement) {
-        await this.db.run(
-          `INSERT INTO achievements (id, user_id, type, name, description, xp_reward, unlocked_at, metadata)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-          achievement.id,
-          achievement.userId || achievement.user_id,
-          achievement.type,
-          achievement.name,
-          achievement.description,
-          achievement.xpReward || achievement.xp_reward,
-          achievement.unlockedAt || achievement.unlocked_at,
-          achievement.metadata
-        );
-      }
+    if (balance !== undefined) {
+      await this.getLedger().setBalance(String(values['id']), balance, 'Imported balance');
     }
+  }
 
-    // Import XP history
-    for (const history of data.xpHistory || []) {
-      await this.db.run(
-        `INSERT OR IGNORE INTO xp_history (id, user_id, xp_change, reason, activity_id, achievement_id, timestamp, balance)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-        history.id,
-        history.userId || history.user_id,
-        history.xpChange || history.xp_change,
-        history.reason,
-        history.activityId || history.activity_id,
-        history.achievementId || history.achievement_id,
-        history.timestamp,
-        history.balance
-      );
-    }
+  // Run work in one transaction, undone if it throws. With rollback it is
+  // always undone, which is how dry runs see the effect of their writes.
+  // Inside another transaction it is undone on its own.
+  async transaction<T>(work: () => Promise<T>, options: { rollback?: boolean } = {}): Promise<T> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return withTransaction(this.db, work, options);
+  }
 
-    console.log(`Data imported from: ${importPath}`);
+  // Counter that changes whenever another connection commits a write
+  async getDataVersion(): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.get<{ data_version: number }>('PRAGMA data_version');
+    return row?.data_version ?? 0;
   }
 
   // Cleanup and close database connection
@@ -867,6 +2137,24 @@ export class DevXpDatabase {
     }
   }
 
+  private mapExportRow<T extends ExportTable>(table: T, row: any): ExportRecordMap[T] {
+    const mappers: { [K in ExportTable]: (row: any) => ExportRecordMap[K] } = {
+      users: row => this.mapDbUserToUser(row),
+      projects: row => this.mapDbProjectToProject(row),
+      sessions: row => this.mapDbSessionToSession(row),
+      activities: row => this.mapDbActivityToActivity(row),
+      achievements: row => this.mapDbAchievementToAchievement(row),
+      xpHistory: row => this.mapDbXpHistoryToXpHistory(row)
+    };
+    return mappers[table](row);
+  }
+
+  private toColumnValue(value: unknown): unknown {
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (value !== null && typeof value === 'object') return JSON.stringify(value);
+    return value;
+  }
+
   // Helper methods to map database rows to TypeScript interfaces
   private mapDbUserToUser(dbUser: any): User {
     return {
@@ -880,6 +2168,7 @@ export class DevXpDatabase {
       streak: dbUser.streak,
       longestStreak: dbUser.longest_streak,
       lastActiveDate: dbUser.last_active_date,
+      currentTeamId: dbUser.current_team_id ?? undefined,
       createdAt: dbUser.created_at,
       updatedAt: dbUser.updated_at
     };
@@ -893,11 +2182,72 @@ export class DevXpDatabase {
       description: dbActivity.description,
       xpEarned: dbActivity.xp_earned,
       metadata: dbActivity.metadata,
+      projectId: dbActivity.project_id ?? undefined,
+      sessionId: dbActivity.session_id ?? undefined,
       timestamp: dbActivity.timestamp,
       createdAt: dbActivity.created_at
     };
   }
 
+  private mapDbTeamToTeam(dbTeam: any): Team {
+    return {
+      id: dbTeam.id,
+      name: dbTeam.name,
+      description: dbTeam.description ?? undefined,
+      createdAt: dbTeam.created_at,
+      updatedAt: dbTeam.updated_at
+    };
+  }
+
+  private mapDbSessionToSession(dbSession: any): SessionRecord {
+    return {
+      id: dbSession.id,
+      userId: dbSession.user_id,
+      startTime: dbSession.start_time,
+      endTime: dbSession.end_time,
+      totalXp: dbSession.total_xp,
+      activityCount: dbSession.activity_count,
+      duration: dbSession.duration,
+      createdAt: dbSession.created_at,
+      updatedAt: dbSession.updated_at
+    };
+  }
+
+  private mapDbLeaderboardSnapshot(dbSnapshot: any): LeaderboardSnapshot {
+    return {
+      id: dbSnapshot.id,
+      type: dbSnapshot.type,
+      periodStart: dbSnapshot.period_start,
+      periodEnd: dbSnapshot.period_end,
+      userId: dbSnapshot.user_id,
+      rank: dbSnapshot.rank,
+      totalXp: dbSnapshot.total_xp,
+      level: dbSnapshot.level,
+      achievementCount: dbSnapshot.achievement_count,
+      activityCount: dbSnapshot.activity_count,
+      streakDays: dbSnapshot.streak_days,
+      rankChange: dbSnapshot.rank_change ?? undefined,
+      isFinal: Boolean(dbSnapshot.is_final),
+      createdAt: dbSnapshot.created_at,
+      updatedAt: dbSnapshot.updated_at
+    };
+  }
+
+  private mapDbProjectToProject(dbProject: any): Project {
+    return {
+      id: dbProject.id,
+      name: dbProject.name,
+      path: dbProject.path,
+      gitUrl: dbProject.git_url ?? undefined,
+      primaryLanguage: dbProject.primary_language ?? undefined,
+      languages: JSON.parse(dbProject.languages || '{}'),
+      isArchived: Boolean(dbProject.is_archived),
+      lastActivityAt: dbProject.last_activity_at ?? undefined,
+      createdAt: dbProject.created_at,
+      updatedAt: dbProject.updated_at
+    };
+  }
+
   private mapDbAchievementToAchievement(dbAchievement: any): Achievement {
     return {
       id: dbAchievement.id,
@@ -911,6 +2261,54 @@ export class DevXpDatabase {
     };
   }
 
+  private mapDbUserAchievementProgress(dbProgress: any): UserAchievementProgress {
+    return {
+      userId: dbProgress.user_id,
+      achievementId: dbProgress.achievement_id,
+      currentProgress: dbProgress.current_progress,
+      requiredProgress: dbProgress.required_progress,
+      timesEarned: dbProgress.times_earned,
+      unlockedAt: dbProgress.unlocked_at ?? undefined,
+      conditionProgress: dbProgress.condition_progress ?? undefined,
+      lastProgressUpdate: dbProgress.last_progress_update
+    };
+  }
+
+  private mapDbChallengeToChallenge(dbChallenge: any): ChallengeRecord {
+    return {
+      id: dbChallenge.id,
+      userId: dbChallenge.user_id,
+      period: dbChallenge.period,
+      templateId: dbChallenge.template_id,
+      name: dbChallenge.name,
+      description: dbChallenge.description,
+      activityTypes: JSON.parse(dbChallenge.activity_types),
+      requiredCount: dbChallenge.required_count,
+      currentProgress: dbChallenge.current_progress,
+      reward: dbChallenge.reward,
+      periodStart: dbChallenge.period_start,
+      startsAt: dbChallenge.starts_at,
+      expiresAt: dbChallenge.expires_at,
+      status: dbChallenge.status,
+      completedAt: dbChallenge.completed_at ?? undefined,
+      createdAt: dbChallenge.created_at
+    };
+  }
+
+  private mapDbStreakToStreak(dbStreak: any): StreakRecord {
+    return {
+      userId: dbStreak.user_id,
+      currentStreak: dbStreak.current_streak,
+      longestStreak: dbStreak.longest_streak,
+      lastStreakDate: dbStreak.last_streak_date ?? undefined,
+      streakStartDate: dbStreak.streak_start_date ?? undefined,
+      totalActiveDays: dbStreak.total_active_days,
+      freezeTokens: dbStreak.freeze_tokens,
+      lastFreezeUsed: dbStreak.last_freeze_used ?? undefined,
+      updatedAt: dbStreak.updated_at
+    };
+  }
+
   private mapDbXpHistoryToXpHistory(dbHistory: any): XpHistory {
     return {
       id: dbHistory.id,
@@ -920,49 +2318,11 @@ export class DevXpDatabase {
       activityId: dbHistory.activity_id,
       achievementId: dbHistory.achievement_id,
       timestamp: dbHistory.timestamp,
-      balance: dbHistory.balance
+      balance: dbHistory.balance,
+      eventType: dbHistory.event_type
     };
   }
 
-  // Utility methods for streak management
-  async updateUserStreak(userId: string): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
-
-    const today = new Date().toISOString().split('T')[0];
-    const lastActive = user.lastActiveDate ? user.lastActiveDate.split('T')[0] : null;
-
-    if (!lastActive || lastActive === today) {
-      // Already updated today or first activity
-      return;
-    }
-
-    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-
-    let newStreak = user.streak;
-    let newLongestStreak = user.longestStreak;
-
-    if (lastActive === yesterday) {
-      // Continuing streak
-      newStreak++;
-      newLongestStreak = Math.max(newStreak, user.longestStreak);
-    } else {
-      // Streak broken
-      newStreak = 1;
-    }
-
-    await this.db.run(
-      'UPDATE users SET streak = ?, longest_streak = ?, last_active_date = ?, updated_at = ? WHERE id = ?',
-      newStreak,
-      newLongestStreak,
-      new Date().toISOString(),
-      new Date().toISOString(),
-      userId
-    );
-  }
-
   // Get database size and statistics
   async getDatabaseStats(): Promise<{
     sizeInBytes: number;
@@ -989,7 +2349,7 @@ export class DevXpDatabase {
       userCount: userCount?.count || 0,
       activityCount: activityCount?.count || 0,
       achievementCount: achievementCount?.count || 0,
-      lastBackup
+      ...(lastBackup !== undefined ? { lastBackup } : {})
     };
   }
 }
@@ -0,0 +1,139 @@
+/**
+ * Integration tests for XP decay
+ */
+
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import { createTestUser, useTempHome } from '../test-utils/temp-home';
+
+type DecayModule = typeof import('./decay');
+type DatabaseModule = typeof import('./database');
+type ConfigModule = typeof import('./config');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('XPDecay', () => {
+  useTempHome('decay');
+  let xpDecay: DecayModule['xpDecay'];
+  let applyPendingDecay: DecayModule['applyPendingDecay'];
+  let database: DatabaseModule['database'];
+  let defaultConfigManager: ConfigModule['defaultConfigManager'];
+
+  const now = new Date('2025-03-12T12:00:00Z');
+
+  const setDecay = (settings: Partial<ReturnType<typeof defaultConfigManager.getConfig>['decay']>) => {
+    defaultConfigManager.set('decay', {
+      enabled: true,
+      daysUntilDecay: 7,
+      decayRate: 10,
+      minimumXP: 0,
+      keepLevel: false,
+      ...settings
+    });
+  };
+
+  const createUser = (totalXp: number, daysInactive: number) => createTestUser(database, {
+    totalXp,
+    level: defaultConfigManager.getLevelFromXP(totalXp).level,
+    lastActiveDate: new Date(now.getTime() - daysInactive * DAY).toISOString()
+  });
+
+  beforeAll(async () => {
+    ({ xpDecay, applyPendingDecay } = await import('./decay'));
+    ({ database } = await import('./database'));
+    ({ defaultConfigManager } = await import('./config'));
+  });
+
+  beforeEach(async () => {
+    await database.initialize();
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  test('should do nothing while disabled', async () => {
+    setDecay({ enabled: false });
+    const user = await createUser(1000, 30);
+
+    expect(await xpDecay.applyForUser(user, now)).toEqual({ userId: user.id, days: 0, xpLost: 0 });
+    expect((await database.getUser(user.id))?.totalXp).toBe(1000);
+  });
+
+  test('should decay each day after the grace period once', async () => {
+    setDecay({});
+    const user = await createUser(1000, 10);
+
+    const result = await xpDecay.applyForUser(user, now);
+    const again = await xpDecay.applyForUser((await database.getUser(user.id))!, now);
+    const updated = await database.getUser(user.id);
+    const history = await database.getUserXpHistory(user.id);
+
+    expect(result).toEqual({ userId: user.id, days: 3, xpLost: 271 });
+    expect(again.days).toBe(0);
+    expect(updated).toMatchObject({ totalXp: 729, level: 4, lastActiveDate: user.lastActiveDate });
+    expect(history.map(h => [h.eventType, h.xpChange, h.reason])).toEqual([
+      ['decay', -81, 'XP decay: inactive for 10 days (-10%)'],
+      ['decay', -90, 'XP decay: inactive for 9 days (-10%)'],
+      ['decay', -100, 'XP decay: inactive for 8 days (-10%)']
+    ]);
+    expect(history[0]?.timestamp).toBe(now.toISOString());
+  });
+
+  test('should resume from the last decay on a later day', async () => {
+    setDecay({});
+    const user = await createUser(1000, 8);
+
+    await xpDecay.applyForUser(user, now);
+    const later = await xpDecay.applyForUser((await database.getUser(user.id))!, new Date(now.getTime() + 2 * DAY));
+
+    expect(later).toEqual({ userId: user.id, days: 2, xpLost: 171 });
+  });
+
+  test('should never decay below the minimum XP or the level floor', async () => {
+    setDecay({ minimumXP: 950 });
+    const minimum = await createUser(1000, 30);
+    expect((await xpDecay.applyForUser(minimum, now)).xpLost).toBe(50);
+
+    setDecay({ keepLevel: true });
+    // Level 5 starts at 813 XP
+    const levelFive = await createUser(1000, 30);
+    expect((await xpDecay.applyForUser(levelFive, now)).xpLost).toBe(187);
+    expect((await database.getUser(levelFive.id))?.level).toBe(5);
+  });
+
+  test('should report the pending decay', async () => {
+    setDecay({});
+    const user = await createUser(1000, 2);
+    const status = await xpDecay.getStatus(user, now);
+
+    expect(status).toEqual({
+      enabled: true,
+      daysInactive: 2,
+      decayStartsAt: new Date(now.getTime() + 5 * DAY),
+      nextDecayAt: new Date(now.getTime() + 6 * DAY),
+      nextDecayXp: 100,
+      floorXp: 0
+    });
+  });
+
+  test('should leave pending migrations to the command before decaying', async () => {
+    setDecay({});
+    const user = await createUser(1000, 30);
+    const runner = database.getMigrationRunner();
+    const latest = runner.getLatestVersion();
+    await runner.down({ to: latest - 1 });
+    await database.close();
+
+    await applyPendingDecay();
+    await database.initialize({ migrate: false });
+    expect(await database.getMigrationRunner().getCurrentVersion()).toBe(latest - 1);
+    expect((await database.getUser(user.id))?.totalXp).toBe(1000);
+    await database.close();
+
+    await database.initialize();
+    await database.close();
+    await applyPendingDecay();
+    await database.initialize();
+    expect((await database.getUser(user.id))?.totalXp).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * XP Decay Module
+ * Lazily deducts XP from inactive users as configured in the decay settings
+ */
+
+import { database, User } from './database';
+import { defaultConfigManager, Config } from './config';
+import { XPEventType } from '../types/XPEvent';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DecaySettings = Config['decay'];
+
+/**
+ * Decay outlook for a user
+ */
+export interface DecayStatus {
+  enabled: boolean;
+
+  /** Whole days since the user was last active */
+  daysInactive: number;
+
+  /** When XP starts (or started) decaying if the user stays inactive */
+  decayStartsAt?: Date;
+
+  /** When the next day of decay is due */
+  nextDecayAt?: Date;
+
+  /** XP the next day of decay will cost */
+  nextDecayXp: number;
+
+  /** XP decay never goes below */
+  floorXp: number;
+}
+
+/**
+ * Decay applied to a user
+ */
+export interface DecayResult {
+  userId: string;
+  days: number;
+  xpLost: number;
+}
+
+/**
+ * Applies XP decay for the days a user has been inactive
+ */
+export class XPDecay {
+  /**
+   * Lowest total XP decay may leave the user with
+   */
+  getFloorXp(user: User, settings: DecaySettings = this.getSettings()): number {
+    const levelFloor = settings.keepLevel ? database.getXpForLevel(user.level) : 0;
+    return Math.max(settings.minimumXP, levelFloor);
+  }
+
+  /**
+   * XP one day of decay costs, never crossing the floor
+   */
+  getDailyDecay(totalXp: number, floorXp: number, settings: DecaySettings = this.getSettings()): number {
+    const decay = Math.ceil(totalXp * settings.decayRate / 100);
+    return Math.max(0, Math.min(decay, totalXp - floorXp));
+  }
+
+  /**
+   * Work out when decay starts and what the next day of decay costs
+   */
+  async getStatus(user: User, now: Date = new Date()): Promise<DecayStatus> {
+    const settings = this.getSettings();
+    const floorXp = this.getFloorXp(user, settings);
+    const lastActive = this.parseDate(user.lastActiveDate);
+
+    if (!settings.enabled || !lastActive) {
+      return { enabled: settings.enabled, daysInactive: 0, nextDecayXp: 0, floorXp };
+    }
+
+    const decayedThrough = await this.getDecayedThrough(user, lastActive, settings);
+    const daysDue = Math.max(0, Math.floor((now.getTime() - decayedThrough.getTime()) / DAY_MS));
+
+    return {
+      enabled: true,
+      daysInactive: Math.max(0, Math.floor((now.getTime() - lastActive.getTime()) / DAY_MS)),
+      decayStartsAt: new Date(lastActive.getTime() + settings.daysUntilDecay * DAY_MS),
+      nextDecayAt: new Date(decayedThrough.getTime() + (daysDue + 1) * DAY_MS),
+      nextDecayXp: this.getDailyDecay(user.totalXp, floorXp, settings),
+      floorXp
+    };
+  }
+
+  /**
+   * Apply the decay due since the user was last active or last decayed
+   */
+  async applyForUser(user: User, now: Date = new Date()): Promise<DecayResult> {
+    const result: DecayResult = { userId: user.id, days: 0, xpLost: 0 };
+    const settings = this.getSettings();
+    const lastActive = this.parseDate(user.lastActiveDate);
+    if (!settings.enabled || !lastActive) return result;
+
+    const floorXp = this.getFloorXp(user, settings);
+    const decayedThrough = await this.getDecayedThrough(user, lastActive, settings);
+    const daysDue = Math.floor((now.getTime() - decayedThrough.getTime()) / DAY_MS);
+    let totalXp = user.totalXp;
+
+    // One history entry per day, dated at the end of the day it covers
+    for (let day = 1; day <= daysDue; day++) {
+      const xpLost = this.getDailyDecay(totalXp, floorXp, settings);
+      if (xpLost === 0) break;
+
+      const timestamp = new Date(decayedThrough.getTime() + day * DAY_MS);
+      const daysInactive = Math.floor((timestamp.getTime() - lastActive.getTime()) / DAY_MS);
+      await database.applyXpDecay(
+        user.id,
+        xpLost,
+        `XP decay: inactive for ${daysInactive} days (-${settings.decayRate}%)`,
+        timestamp.toISOString()
+      );
+
+      totalXp -= xpLost;
+      result.days++;
+      result.xpLost += xpLost;
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply pending decay to every user
+   */
+  async applyAll(now: Date = new Date()): Promise<DecayResult[]> {
+    if (!this.getSettings().enabled) return [];
+
+    const results: DecayResult[] = [];
+    for (const user of await database.getAllUsers()) {
+      const result = await this.applyForUser(user, now);
+      if (result.xpLost > 0) {
+        results.push(result);
+      }
+    }
+    return results;
+  }
+
+  // Decay is applied through the latest decay entry, or starts after the grace period
+  private async getDecayedThrough(user: User, lastActive: Date, settings: DecaySettings): Promise<Date> {
+    const graceEnd = new Date(lastActive.getTime() + settings.daysUntilDecay * DAY_MS);
+    const lastDecay = await database.getLastXpEvent(user.id, XPEventType.DECAY);
+    const lastDecayAt = lastDecay ? new Date(lastDecay.timestamp) : null;
+
+    return lastDecayAt && lastDecayAt > graceEnd ? lastDecayAt : graceEnd;
+  }
+
+  private parseDate(value: string): Date | null {
+    const date = new Date(value);
+    return value && !isNaN(date.getTime()) ? date : null;
+  }
+
+  private getSettings(): DecaySettings {
+    return defaultConfigManager.getConfig().decay;
+  }
+}
+
+// Export singleton instance
+export const xpDecay = new XPDecay();
+
+/**
+ * Apply pending decay before a command runs. Decay must never get in the way
+ * of the command itself, so failures are ignored. Migrating is left to the
+ * command: decay waits until the schema is up to date.
+ */
+export async function applyPendingDecay(): Promise<void> {
+  if (!defaultConfigManager.getConfig().decay.enabled) return;
+
+  try {
+    await database.initialize({ migrate: false });
+    const pending = await database.getMigrationRunner().plan('up');
+    if (pending.migrations.length > 0) return;
+
+    await xpDecay.applyAll();
+  } catch {
+    // Try again on the next invocation
+  } finally {
+    await database.close();
+  }
+}
@@ -4,6 +4,7 @@ import boxen from 'boxen';
 import gradient from 'gradient-string';
 import { terminal } from 'terminal-kit';
 import * as TWEEN from '@tweenjs/tween.js';
+import { getDateKeyWeekday, getDaysIntoWeek, shiftDateKey, WeekStart } from '../utils/time';
 
 // Types for display module
 export interface DisplayConfig {
@@ -28,6 +29,27 @@ export interface DisplayConfig {
   };
 }
 
+/**
+ * Options for the calendar heatmap
+ */
+export interface HeatmapOptions {
+  /** Local calendar date (YYYY-MM-DD) of the last day shown */
+  today: string;
+
+  /** Number of week columns (default: 52) */
+  weeks?: number;
+  weekStart?: WeekStart;
+
+  /** Draw intensity with shading instead of colour, the default when the terminal has no colour */
+  monochrome?: boolean;
+}
+
+// Heatmap cells from no XP to the most XP, in colour and in shades
+const HEATMAP_COLORS = ['#3a3f45', '#0e4429', '#006d32', '#26a641', '#39d353'];
+const HEATMAP_SHADES = ['·', '░', '▒', '▓', '█'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
 // Default configuration
 const defaultConfig: DisplayConfig = {
   colors: {
@@ -365,6 +387,7 @@ export class StatusDashboard {
     achievements: number;
     skills: Array<{ name: string; level: number }>;
     recentActivity: string[];
+    heatmap?: string; // from TerminalChart.renderHeatmap
   }): void {
     // Clear screen for dashboard
     console.clear();
@@ -434,6 +457,15 @@ export class StatusDashboard {
     console.log(mainStats);
     console.log(skillsBox);
     console.log(activityBox);
+
+    if (playerData.heatmap) {
+      console.log(boxen(playerData.heatmap, {
+        title: '📅 Activity',
+        padding: 1,
+        borderStyle: 'round',
+        borderColor: 'green'
+      }));
+    }
   }
 
   /**
@@ -675,6 +707,56 @@ export class TerminalChart {
 
     return label ? `${label}: ${chalk.cyan(sparkline)}` : chalk.cyan(sparkline);
   }
+
+  /**
+   * Render a calendar heatmap of daily XP, one column per week and one row
+   * per weekday, ending with the week containing today
+   */
+  renderHeatmap(dailyXP: Record<string, number>, options: HeatmapOptions): string {
+    const weeks = options.weeks ?? 52;
+    const weekStart = options.weekStart ?? 'monday';
+    const monochrome = options.monochrome ?? chalk.level === 0;
+
+    const daysIntoWeek = getDaysIntoWeek(getDateKeyWeekday(options.today), weekStart);
+    const firstDate = shiftDateKey(options.today, -daysIntoWeek - 7 * (weeks - 1));
+
+    // Intensity is relative to the best day shown
+    const values = Array.from({ length: weeks * 7 }, (_, i) => dailyXP[shiftDateKey(firstDate, i)] ?? 0);
+    const max = Math.max(...values, 0);
+    const cell = (level: number): string => monochrome
+      ? HEATMAP_SHADES[level]!
+      : chalk.hex(HEATMAP_COLORS[level]!)('■');
+
+    // Month names above the first week that contains the 1st
+    let header = '';
+    for (let week = 0; week < weeks; week++) {
+      const weekDates = Array.from({ length: 7 }, (_, day) => shiftDateKey(firstDate, week * 7 + day));
+      const first = weekDates.find(date => date.endsWith('-01') && date <= options.today);
+      const column = 4 + week;
+      if (first && header.length <= column) {
+        header = header.padEnd(column) + MONTH_NAMES[Number(first.slice(5, 7)) - 1];
+      }
+    }
+
+    const rows = [chalk.gray(header)];
+    for (let day = 0; day < 7; day++) {
+      const weekday = getDateKeyWeekday(shiftDateKey(firstDate, day));
+      const label = weekday % 2 === 1 && weekday < 6 ? WEEKDAY_NAMES[weekday]! : '';
+      let row = chalk.gray(label.padEnd(4));
+
+      for (let week = 0; week < weeks; week++) {
+        const index = week * 7 + day;
+        if (shiftDateKey(firstDate, index) > options.today) break;
+        const value = values[index] ?? 0;
+        row += cell(value > 0 && max > 0 ? Math.max(Math.ceil((value / max) * 4), 1) : 0);
+      }
+      rows.push(row);
+    }
+
+    const legend = HEATMAP_SHADES.map((_, level) => cell(level)).join('');
+    rows.push(`${' '.repeat(4)}${chalk.gray('Less')} ${legend} ${chalk.gray('More')}`);
+    return rows.join('\n');
+  }
 }
 
 // Main Display Manager
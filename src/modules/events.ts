@@ -60,23 +60,20 @@ export async function emit<T = unknown>(type: XPEventType, data: T): Promise<voi
     timestamp: Date.now(),
   };
 
-  // Log the event
+  // Log the event. Printing is left to the caller, which knows whether
+  // output is wanted, as it isn't with --quiet, --json or from git hooks.
   activityLog.push(payload);
-  console.log(`📡 Event emitted: ${type}`);
 
-  // Trigger desktop notification or sound if needed
-  if (type === 'achievement:unlock') {
-    notifyAchievement(data);
-  }
+  // Play a sound if enabled
   if (type === 'level:up') {
     playLevelUpSound();
   }
 
   // Call listeners (support once option)
   const hooks = listeners.get(type) || [];
-  for (let i = 0; i < hooks.length; ++i) {
+  for (const hook of hooks) {
     try {
-      await hooks[i].fn(data, payload);
+      await hook.fn(data, payload);
     } catch (err) {
       console.error(`Event handler for ${type} threw`, err);
     }
@@ -90,17 +87,6 @@ export async function emit<T = unknown>(type: XPEventType, data: T): Promise<voi
 //-----------------------------------------------------
 // Usage: on/emit/off above
 
-//-----------------------------------------------------
-// Optional Desktop Notifications (Achievements)
-//-----------------------------------------------------
-function notifyAchievement(data: any) {
-  // CLI notification - could use node-notifier or similar in the future
-  const text = typeof data === 'object' && data?.name ? `Achievement unlocked: ${data.name}` : 'Achievement unlocked!';
-  const description = data?.description || '';
-  console.log(`\n🏆 ${text}`);
-  if (description) console.log(`   ${description}`);
-}
-
 //-----------------------------------------------------
 // Optional Sound Effects for Level-Ups
 //-----------------------------------------------------
@@ -511,7 +511,7 @@ Fixes #123`;
       const result = await manager.estimateCommitXP();
 
       expect(result.estimatedXP).toBeGreaterThan(0);
-      expect(result.breakdown.base).toBe(50); // Default base XP
+      expect(result.breakdown.base).toBe(10); // activities.commit at normal difficulty
       expect(result.breakdown.files).toBe(10); // 2 files * 5
       expect(result.breakdown.lines).toBeGreaterThan(0);
       expect(result.breakdown.potential).toBe(25); // Message bonus potential
@@ -524,7 +524,7 @@ Fixes #123`;
 
       const result = await manager.estimateCommitXP();
 
-      expect(result.estimatedXP).toBe(50); // Just base XP
+      expect(result.estimatedXP).toBe(10); // Just base XP
       expect(result.breakdown.files).toBe(0);
       expect(result.breakdown.lines).toBe(0);
     });
@@ -580,7 +580,7 @@ Fixes #123`;
     test('should export configuration', () => {
       const config = manager.exportConfig();
       
-      expect(config.commitBase).toBe(50);
+      expect(config.commitBase).toBe(10);
       expect(config.perFileChanged).toBe(5);
       expect(config.perLineAdded).toBe(1);
       expect(config.perLineDeleted).toBe(0.5);
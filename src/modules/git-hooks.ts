@@ -10,6 +10,7 @@ import { promisify } from 'util';
 import { ActivityType } from '../types/Activity';
 import { XPSystem } from './xp-system';
 import { database } from './database';
+import { defaultConfigManager } from './config';
 import { createHash } from 'crypto';
 
 const execAsync = promisify(exec);
@@ -152,18 +153,20 @@ export class GitHooksManager {
   }
 
   /**
-   * Get default XP rewards configuration
+   * Get default XP rewards configuration, with the base values for each
+   * activity taken from the user's configuration
    */
   private getDefaultXPRewards(): GitXPRewards {
+    const baseXP = (type: ActivityType) => defaultConfigManager.getActivityBaseXP(type).xp;
     return {
-      commitBase: 50,
+      commitBase: baseXP(ActivityType.GIT_COMMIT),
       perFileChanged: 5,
       perLineAdded: 1,
       perLineDeleted: 0.5,
       meaningfulMessageBonus: 25,
-      mergeXP: 75,
-      newBranchXP: 30,
-      prCreationXP: 100,
+      mergeXP: baseXP(ActivityType.GIT_MERGE),
+      newBranchXP: baseXP(ActivityType.GIT_BRANCH_CREATE),
+      prCreationXP: baseXP(ActivityType.PR_CREATE),
       maxCommitXP: 200,
       minMessageLength: 50,
       qualityKeywords: [
@@ -669,7 +672,7 @@ ${newHookContent}
   /**
    * Analyze commit message quality
    */
-  private analyzeMessageQuality(message: string): number {
+  analyzeMessageQuality(message: string): number {
     let score = 0;
     const maxScore = 100;
 
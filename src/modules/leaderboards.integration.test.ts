@@ -0,0 +1,104 @@
+/**
+ * Integration tests for period leaderboards and snapshots
+ */
+
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import { createTestUser, recordCommit, useTempHome } from '../test-utils/temp-home';
+
+type LeaderboardsModule = typeof import('./leaderboards');
+type DatabaseModule = typeof import('./database');
+
+describe('LeaderboardManager', () => {
+  useTempHome('leaderboards');
+  let leaderboardManager: LeaderboardsModule['leaderboardManager'];
+  let database: DatabaseModule['database'];
+
+  const createUser = (name: string) => createTestUser(database, { name });
+
+  beforeAll(async () => {
+    ({ leaderboardManager } = await import('./leaderboards'));
+    ({ database } = await import('./database'));
+
+    const { defaultConfigManager } = await import('./config');
+    defaultConfigManager.set('timezone', 'Europe/Oslo');
+  });
+
+  beforeEach(async () => {
+    await database.initialize();
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  test('should follow the calendar in the configured timezone', () => {
+    const now = new Date('2025-06-12T10:00:00Z');
+    const iso = (range: { start?: Date; end?: Date } | null) => [range?.start?.toISOString(), range?.end?.toISOString()];
+
+    const week = leaderboardManager.getRange({ period: 'week' }, now);
+    expect(iso(week)).toEqual(['2025-06-08T22:00:00.000Z', '2025-06-15T22:00:00.000Z']);
+
+    const month = leaderboardManager.getRange({ period: 'month' }, now);
+    expect(iso(month)).toEqual(['2025-05-31T22:00:00.000Z', '2025-06-30T22:00:00.000Z']);
+    expect(iso(leaderboardManager.getPreviousRange('month', month, now))).toEqual(['2025-04-30T22:00:00.000Z', '2025-05-31T22:00:00.000Z']);
+
+    // Winter time in January
+    const year = leaderboardManager.getRange({ period: 'year' }, now);
+    expect(iso(year)).toEqual(['2024-12-31T23:00:00.000Z', '2025-12-31T23:00:00.000Z']);
+
+    const custom = leaderboardManager.getRange({ period: 'custom', since: '2025-06-01', until: '2025-06-10' }, now);
+    expect(iso(custom)).toEqual(['2025-05-31T22:00:00.000Z', '2025-06-10T22:00:00.000Z']);
+    expect(iso(leaderboardManager.getPreviousRange('custom', custom, now))).toEqual(['2025-05-21T22:00:00.000Z', '2025-05-31T22:00:00.000Z']);
+
+    expect(leaderboardManager.getPreviousRange('all', {}, now)).toBeNull();
+  });
+
+  test('should rank by period XP and show movement since the previous period', async () => {
+    const alice = await createUser('alice');
+    const bob = await createUser('bob');
+    const carol = await createUser('carol');
+    const now = new Date('2025-06-20T12:00:00Z');
+
+    await recordCommit(database, alice.id, 100, '2025-05-10T12:00:00Z');
+    await recordCommit(database, bob.id, 50, '2025-05-11T12:00:00Z');
+    await recordCommit(database, bob.id, 80, '2025-06-02T12:00:00Z');
+    await recordCommit(database, carol.id, 40, '2025-06-03T12:00:00Z');
+    await recordCommit(database, alice.id, 30, '2025-06-04T12:00:00Z');
+
+    const board = await leaderboardManager.getLeaderboard({ period: 'month' }, now);
+    expect(board.entries.map(entry => [entry.displayName, entry.periodXP, entry.rank, entry.previousRank, entry.rankChange, entry.trend])).toEqual([
+      ['bob', 80, 1, 2, 1, 'up'],
+      ['carol', 40, 2, undefined, 0, 'up'],
+      ['alice', 30, 3, 1, -2, 'down']
+    ]);
+    expect(board.entries[0]?.totalXP).toBe(130);
+
+    const limited = await leaderboardManager.getLeaderboard({ period: 'month', limit: 1 }, now);
+    expect(limited.entries.map(entry => entry.displayName)).toEqual(['bob']);
+  });
+
+  test('should freeze the previous period once it has ended', async () => {
+    const dave = await createUser('dave');
+    const erin = await createUser('erin');
+    const now = new Date('2025-08-20T12:00:00Z');
+
+    await recordCommit(database, dave.id, 60, '2025-07-10T12:00:00Z');
+    await recordCommit(database, erin.id, 20, '2025-07-11T12:00:00Z');
+    await recordCommit(database, erin.id, 50, '2025-08-02T12:00:00Z');
+
+    await leaderboardManager.getLeaderboard({ period: 'month' }, now);
+    const july = await database.getLeaderboardSnapshot('monthly', '2025-06-30T22:00:00.000Z');
+    expect(july.map(entry => [entry.userId, entry.rank, entry.totalXp, entry.isFinal])).toEqual([
+      [dave.id, 1, 60, true],
+      [erin.id, 2, 20, true]
+    ]);
+
+    const august = await database.getLeaderboardSnapshot('monthly', '2025-07-31T22:00:00.000Z');
+    expect(august.map(entry => [entry.userId, entry.rank, entry.rankChange, entry.isFinal])).toEqual([[erin.id, 1, 1, false]]);
+
+    // Backfilled July activity no longer changes the comparison
+    await recordCommit(database, erin.id, 100, '2025-07-12T12:00:00Z');
+    const board = await leaderboardManager.getLeaderboard({ period: 'month' }, now);
+    expect(board.entries.map(entry => [entry.userId, entry.previousRank])).toEqual([[erin.id, 2]]);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Leaderboards Module
+ * Period leaderboards with rank movement against the previous period, and
+ * snapshots of past standings
+ */
+
+import { database, LeaderboardEntry, LeaderboardType } from './database';
+import { defaultConfigManager } from './config';
+import { addDays, CalendarPeriod, DateRange, fromDateKey, getPeriodRange, getPreviousRange, resolveTimeZone } from '../utils/time';
+import { XPLeaderboardEntry } from '../types/XPEvent';
+
+export type LeaderboardPeriod = 'day' | 'week' | 'month' | 'year' | 'all' | 'custom';
+
+const PERIOD_ALIASES: Record<string, LeaderboardPeriod> = {
+  day: 'day',
+  daily: 'day',
+  today: 'day',
+  week: 'week',
+  weekly: 'week',
+  month: 'month',
+  monthly: 'month',
+  year: 'year',
+  yearly: 'year',
+  all: 'all',
+  alltime: 'all',
+  global: 'all'
+};
+
+// Calendar periods whose standings are kept in the snapshot table
+const SNAPSHOT_TYPES: Partial<Record<LeaderboardPeriod, LeaderboardType>> = {
+  day: 'daily',
+  week: 'weekly',
+  month: 'monthly',
+  year: 'yearly'
+};
+
+/**
+ * Which leaderboard to build
+ */
+export interface LeaderboardQuery {
+  period: LeaderboardPeriod;
+
+  /** First and last local calendar dates (YYYY-MM-DD) of a custom period */
+  since?: string;
+  until?: string;
+
+  limit?: number;
+  projectId?: string;
+  teamId?: string;
+}
+
+export type LeaderboardRange = DateRange;
+
+/**
+ * A ranked user and how they moved since the previous period
+ */
+export interface RankedLeaderboardEntry extends XPLeaderboardEntry {
+  displayName: string;
+  streak: number;
+
+  /** Rank in the previous period, missing if they were not ranked then */
+  previousRank?: number;
+}
+
+export interface PeriodLeaderboard {
+  period: LeaderboardPeriod;
+  range: LeaderboardRange;
+
+  /** Period the rank changes compare against, null when there is none */
+  previousRange: LeaderboardRange | null;
+  entries: RankedLeaderboardEntry[];
+}
+
+/**
+ * Resolve a --period value, accepting the older weekly/monthly/global names
+ */
+export function parseLeaderboardPeriod(value: string): LeaderboardPeriod | undefined {
+  return PERIOD_ALIASES[value.toLowerCase()];
+}
+
+/**
+ * Builds leaderboards for calendar and custom periods
+ */
+export class LeaderboardManager {
+  /**
+   * Rank users within the period and compare with the period before it.
+   * Standings of the previous calendar period are frozen once read, so rank
+   * changes stay stable if activity is later backfilled.
+   */
+  async getLeaderboard(query: LeaderboardQuery, now: Date = new Date()): Promise<PeriodLeaderboard> {
+    const range = this.getRange(query, now);
+
+    if (query.period === 'all') {
+      const entries = await this.getAllTimeEntries(query);
+      return { period: query.period, range, previousRange: null, entries: entries.slice(0, query.limit) };
+    }
+
+    const scope = {
+      ...(query.projectId ? { projectId: query.projectId } : {}),
+      ...(query.teamId ? { teamId: query.teamId } : {})
+    };
+    const current = await database.getPeriodLeaderboard({ ...scope, ...this.toFilter(range) });
+
+    const previousRange = this.getPreviousRange(query.period, range, now);
+    const snapshotType = query.projectId || query.teamId ? undefined : SNAPSHOT_TYPES[query.period];
+    const previousRanks = previousRange
+      ? await this.getPreviousRanks(previousRange, scope, snapshotType)
+      : null;
+
+    const entries = current.map(entry => this.toRankedEntry(entry, entry.periodXp, previousRanks));
+
+    if (snapshotType && range.start && range.end) {
+      const rankChanges = new Map(entries.map(entry => [entry.userId, entry.rankChange]));
+      await database.saveLeaderboardSnapshot(
+        snapshotType,
+        range.start.toISOString(),
+        range.end.toISOString(),
+        current.map(entry => ({ ...entry, rankChange: rankChanges.get(entry.userId) ?? 0 })),
+        range.end <= now
+      );
+    }
+
+    return { period: query.period, range, previousRange, entries: entries.slice(0, query.limit) };
+  }
+
+  /**
+   * Start and end of the period containing now, in the configured timezone
+   */
+  getRange(query: Pick<LeaderboardQuery, 'period' | 'since' | 'until'>, now: Date = new Date()): LeaderboardRange {
+    const timeZone = this.getTimeZone();
+
+    switch (query.period) {
+    case 'all':
+      return {};
+    case 'custom':
+      return {
+        ...(query.since ? { start: fromDateKey(query.since, timeZone) } : {}),
+        ...(query.until ? { end: addDays(fromDateKey(query.until, timeZone), 1, timeZone) } : {})
+      };
+    default:
+      return getPeriodRange(query.period, now, timeZone, defaultConfigManager.getConfig().weekStart);
+    }
+  }
+
+  /**
+   * The period before the given one: the previous calendar period, or an
+   * equally long stretch before a custom range
+   */
+  getPreviousRange(period: LeaderboardPeriod, range: LeaderboardRange, now: Date = new Date()): LeaderboardRange | null {
+    if (period === 'all') return null;
+    const calendarPeriod: CalendarPeriod | undefined = period === 'custom' ? undefined : period;
+    return getPreviousRange(range, this.getTimeZone(), calendarPeriod, now, defaultConfigManager.getConfig().weekStart);
+  }
+
+  // Ranks from the final snapshot of a calendar period, taking it if needed
+  private async getPreviousRanks(
+    range: LeaderboardRange,
+    scope: { projectId?: string; teamId?: string },
+    snapshotType?: LeaderboardType
+  ): Promise<Map<string, number>> {
+    if (snapshotType && range.start && range.end) {
+      const snapshot = await database.getLeaderboardSnapshot(snapshotType, range.start.toISOString());
+      if (snapshot.length > 0 && snapshot.every(entry => entry.isFinal)) {
+        return new Map(snapshot.map(entry => [entry.userId, entry.rank]));
+      }
+    }
+
+    const previous = await database.getPeriodLeaderboard({ ...scope, ...this.toFilter(range) });
+    if (snapshotType && range.start && range.end) {
+      await database.saveLeaderboardSnapshot(snapshotType, range.start.toISOString(), range.end.toISOString(), previous, true);
+    }
+    return new Map(previous.map(entry => [entry.userId, entry.rank]));
+  }
+
+  // Lifetime XP, or every activity in a project
+  private async getAllTimeEntries(query: LeaderboardQuery): Promise<RankedLeaderboardEntry[]> {
+    if (query.projectId) {
+      const entries = await database.getPeriodLeaderboard({
+        projectId: query.projectId,
+        ...(query.teamId ? { teamId: query.teamId } : {})
+      });
+      return entries.map(entry => this.toRankedEntry(entry, entry.periodXp, null));
+    }
+
+    const limit = query.limit ?? 10;
+    const entries: LeaderboardEntry[] = query.teamId
+      ? await database.getTeamLeaderboard(query.teamId, limit)
+      : await database.getGlobalLeaderboard(limit);
+    return entries.map(entry => this.toRankedEntry(entry, entry.totalXp, null));
+  }
+
+  private toRankedEntry(entry: LeaderboardEntry, periodXp: number, previousRanks: Map<string, number> | null): RankedLeaderboardEntry {
+    const previousRank = previousRanks?.get(entry.userId);
+    // Positive when the user climbed; newcomers count as climbing
+    const rankChange = previousRank !== undefined ? previousRank - entry.rank : 0;
+    const trend = previousRanks && previousRank === undefined ? 'up' : rankChange > 0 ? 'up' : rankChange < 0 ? 'down' : 'same';
+
+    return {
+      userId: entry.userId,
+      username: entry.username,
+      displayName: entry.displayName,
+      rank: entry.rank,
+      totalXP: entry.totalXp,
+      level: entry.level,
+      streak: entry.streak,
+      periodXP: periodXp,
+      rankChange,
+      trend,
+      ...(previousRank !== undefined ? { previousRank } : {})
+    };
+  }
+
+  private toFilter(range: LeaderboardRange): { since?: string; until?: string } {
+    return {
+      ...(range.start ? { since: range.start.toISOString() } : {}),
+      ...(range.end ? { until: range.end.toISOString() } : {})
+    };
+  }
+
+  private getTimeZone(): string {
+    return resolveTimeZone(defaultConfigManager.getConfig().timezone);
+  }
+}
+
+// Export singleton instance
+export const leaderboardManager = new LeaderboardManager();
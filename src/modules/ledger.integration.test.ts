@@ -0,0 +1,173 @@
+/**
+ * Integration tests for the XP ledger
+ */
+
+import { describe, test, expect, jest, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import * as sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import { createTestUser, recordCommit, useTempHome } from '../test-utils/temp-home';
+
+type DatabaseModule = typeof import('./database');
+type LedgerModule = typeof import('./ledger');
+type MigrationsModule = typeof import('./migrations');
+
+describe('XpLedger', () => {
+  useTempHome('ledger');
+  let database: DatabaseModule['database'];
+  let XpLedger: LedgerModule['XpLedger'];
+  let MigrationRunner: MigrationsModule['MigrationRunner'];
+
+  const createUser = (totalXp: number) => createTestUser(database, { totalXp });
+
+  beforeAll(async () => {
+    ({ database } = await import('./database'));
+    ({ XpLedger } = await import('./ledger'));
+    ({ MigrationRunner } = await import('./migrations'));
+  });
+
+  beforeEach(async () => {
+    await database.initialize();
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  test('should record each XP change as a balanced transaction', async () => {
+    const user = await createUser(100);
+    await recordCommit(database, user.id, 40);
+    await database.applyXpDecay(user.id, 15, 'XP decay', new Date().toISOString());
+
+    const ledger = database.getLedger();
+    const transactions = await ledger.getTransactions(user.id);
+    expect(transactions.map(transaction => [transaction.eventType, transaction.amount, transaction.newBalance])).toEqual([
+      ['decay', -15, 125],
+      ['activity', 40, 140],
+      ['manual', 100, 100]
+    ]);
+    expect(transactions[0]).toMatchObject({ type: 'debit', status: 'completed', previousBalance: 140 });
+
+    // The opening balance is not XP history
+    const history = await database.getUserXpHistory(user.id);
+    expect(history.map(entry => entry.id).sort()).toEqual([transactions[0]!.eventId, transactions[1]!.eventId].sort());
+
+    expect(await ledger.getBalance(user.id)).toBe(125);
+    expect((await database.getUser(user.id))?.totalXp).toBe(125);
+    expect((await ledger.verify()).ok).toBe(true);
+  });
+
+  test('should reverse a transaction with one that references it', async () => {
+    const user = await createUser(0);
+    await recordCommit(database, user.id, 60);
+
+    const ledger = database.getLedger();
+    const [original] = await ledger.getTransactions(user.id);
+    const reversal = await ledger.reverse(original!.id);
+
+    expect(reversal).toMatchObject({ amount: -60, eventType: 'activity', relatedTransactionId: original!.id, newBalance: 0 });
+    expect(await ledger.getTransaction(original!.id)).toMatchObject({ status: 'reversed', relatedTransactionId: reversal.id });
+    expect((await database.getUser(user.id))?.totalXp).toBe(0);
+    expect((await database.getUserXpHistory(user.id))[0]?.reason).toBe('Reversed: Activity: Commit');
+
+    await expect(ledger.reverse(original!.id)).rejects.toThrow('already reversed');
+    await expect(ledger.reverse(reversal.id)).rejects.toThrow('can\'t be reversed itself');
+    expect((await ledger.verify()).ok).toBe(true);
+
+    const [entry] = await database.getAuditLog().list({ action: 'xp.reverse' });
+    expect(entry).toMatchObject({
+      entityId: original!.id,
+      oldValues: { status: 'completed', balance: 60 },
+      newValues: { status: 'reversed', balance: 0, reversedBy: reversal.id }
+    });
+  });
+
+  test('should find and repair cached totals that drifted from the ledger', async () => {
+    const user = await createUser(500);
+
+    const other = await open({ filename: database.getPath(), driver: sqlite3.Database });
+    await other.run('UPDATE users SET total_xp = 900 WHERE id = ?', user.id);
+    await other.close();
+
+    const ledger = database.getLedger();
+    const verification = await ledger.verify();
+    expect(verification.ok).toBe(false);
+    expect(verification.discrepancies).toEqual([expect.objectContaining({ userId: user.id, cachedXp: 900, ledgerXp: 500 })]);
+
+    await ledger.repair({ dryRun: true });
+    expect((await database.getUser(user.id))?.totalXp).toBe(900);
+
+    await ledger.repair();
+    expect((await database.getUser(user.id))?.totalXp).toBe(500);
+    expect(await database.getAuditLog().list({ action: 'xp.repair' })).toEqual([expect.objectContaining({
+      entityId: user.id,
+      oldValues: expect.objectContaining({ totalXp: 900 }),
+      newValues: expect.objectContaining({ totalXp: 500 })
+    })]);
+    expect((await ledger.verify()).ok).toBe(true);
+  });
+
+  test('should wait for another process\'s write instead of failing', async () => {
+    const user = await createUser(0);
+
+    const other = await open({ filename: database.getPath(), driver: sqlite3.Database });
+    await other.exec('BEGIN IMMEDIATE');
+    const released = new Promise<void>(resolve => setTimeout(() => {
+      void other.exec('COMMIT').then(() => other.close()).then(resolve);
+    }, 300));
+
+    await recordCommit(database, user.id, 25);
+    await released;
+
+    expect((await database.getUser(user.id))?.totalXp).toBe(25);
+    expect(await database.getLedger().getBalance(user.id)).toBe(25);
+  });
+
+  test('should not keep a record whose XP could not be posted', async () => {
+    const user = await createUser(0);
+    const record = jest.spyOn(XpLedger.prototype, 'record').mockRejectedValue(new Error('Disk full'));
+    try {
+      await expect(recordCommit(database, user.id, 25)).rejects.toThrow('Disk full');
+      await expect(database.createAchievement({
+        userId: user.id,
+        type: 'git_commit_1',
+        name: 'First Commit',
+        description: 'Make your first commit',
+        xpReward: 50,
+        unlockedAt: new Date().toISOString()
+      })).rejects.toThrow('Disk full');
+      await expect(database.awardChallengeBonus(user.id, 'daily', '2026-03-01', 100)).rejects.toThrow('Disk full');
+    } finally {
+      record.mockRestore();
+    }
+
+    expect(await database.getUserActivities(user.id)).toEqual([]);
+    expect(await database.getUserAchievements(user.id)).toEqual([]);
+    expect(await database.getChallengeBonusPeriods(user.id, 'daily')).toEqual([]);
+    expect(await database.awardChallengeBonus(user.id, 'daily', '2026-03-01', 100)).toBe(true);
+    expect((await database.getUser(user.id))?.totalXp).toBe(100);
+  });
+
+  test('should open the ledger from existing totals and history when migrating', async () => {
+    const db = await open({ filename: ':memory:', driver: sqlite3.Database });
+    const runner = new MigrationRunner(db);
+    await runner.up({ to: 10 });
+
+    await db.exec(`
+      INSERT INTO users (id, username, email, display_name, total_xp, level, created_at, updated_at)
+      VALUES ('u1', 'veteran', 'veteran@example.com', 'Veteran', 500, 3, '2025-01-01T00:00:00.000Z', '2025-01-01T00:00:00.000Z');
+      INSERT INTO xp_history (id, user_id, xp_change, reason, timestamp, balance, event_type)
+      VALUES ('h1', 'u1', 200, 'Commit', '2025-01-02T00:00:00.000Z', 200, 'activity');
+    `);
+    await runner.up();
+
+    const ledger = new XpLedger(db);
+    const transactions = await ledger.getTransactions('u1');
+    expect(transactions.map(transaction => [transaction.reason, transaction.amount, transaction.eventId])).toEqual(
+      expect.arrayContaining([['Commit', 200, 'h1'], ['Opening balance', 300, undefined]])
+    );
+    expect(await ledger.getBalance('u1')).toBe(500);
+    expect((await ledger.verify()).unbalanced).toEqual([]);
+
+    await db.close();
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * XP Ledger Module
+ * Double-entry bookkeeping for XP. Every change is a transaction with two
+ * entries, one on the user's account and the opposite on the account of
+ * where the XP came from, so each transaction sums to zero. A user's XP is
+ * the balance of their account, and users.total_xp only caches it.
+ */
+
+import * as sqlite3 from 'sqlite3';
+import { Database } from 'sqlite';
+import { randomBytes } from 'crypto';
+import { XPEventType, XPTransaction } from '../types/XPEvent';
+import { defaultConfigManager } from './config';
+import { AuditLog } from './audit';
+import { withTransaction } from '../utils/transaction';
+
+export interface XpPosting {
+  userId: string;
+  amount: number;
+  reason: string;
+  eventType: XPEventType | string;
+  activityId?: string;
+  achievementId?: string;
+
+  /** When the change happened (default: now) */
+  timestamp?: string;
+
+  /** Also mark the user active at this time */
+  lastActiveDate?: string;
+
+  /** Leave the change out of the XP history, as for opening balances */
+  skipHistory?: boolean;
+
+  notes?: string;
+}
+
+/**
+ * A user whose cached XP or level differs from their ledger balance
+ */
+export interface LedgerDiscrepancy {
+  userId: string;
+  username: string;
+  cachedXp: number;
+  ledgerXp: number;
+  cachedLevel: number;
+  level: number;
+}
+
+export interface LedgerVerification {
+  ok: boolean;
+  users: number;
+  transactions: number;
+  discrepancies: LedgerDiscrepancy[];
+
+  /** Transactions whose entries don't sum to zero or don't match their amount */
+  unbalanced: string[];
+}
+
+type LedgerDatabase = Database<sqlite3.Database, sqlite3.Statement>;
+
+const userAccount = (userId: string): string => `user:${userId}`;
+const sourceAccount = (eventType: string): string => `source:${eventType}`;
+
+export class XpLedger {
+  constructor(private readonly db: LedgerDatabase) {}
+
+  /**
+   * Record an XP change and update the user's cached XP and level from
+   * the ledger, all or nothing
+   */
+  async record(posting: XpPosting): Promise<XPTransaction> {
+    return withTransaction(this.db, () => this.post(posting));
+  }
+
+  /**
+   * Bring a user's balance to the given XP with one adjustment, if it
+   * differs. Used where XP is set rather than earned.
+   */
+  async setBalance(userId: string, totalXp: number, reason: string): Promise<XPTransaction | null> {
+    return withTransaction(this.db, async () => {
+      const amount = totalXp - await this.getBalance(userId);
+      if (amount === 0) return null;
+
+      return this.post({ userId, amount, reason, eventType: XPEventType.MANUAL, skipHistory: true });
+    });
+  }
+
+  /**
+   * Undo a transaction with an opposite one that references it. The
+   * original is kept and marked reversed.
+   */
+  async reverse(transactionId: string, reason?: string): Promise<XPTransaction> {
+    return withTransaction(this.db, async () => {
+      const original = await this.getTransaction(transactionId);
+      if (!original) {
+        throw new Error(`Transaction not found: ${transactionId}`);
+      }
+      if (original.status === 'reversed') {
+        throw new Error(`Transaction ${transactionId} was already reversed by ${original.relatedTransactionId}`);
+      }
+      if (original.relatedTransactionId) {
+        throw new Error(`Transaction ${transactionId} reverses ${original.relatedTransactionId} and can't be reversed itself`);
+      }
+
+      const reversal = await this.post({
+        userId: original.userId,
+        amount: -original.amount,
+        reason: reason ?? `Reversed: ${original.reason}`,
+        eventType: original.eventType,
+        ...(original.eventId ? {} : { skipHistory: true })
+      }, original.id);
+
+      await this.db.run(
+        'UPDATE xp_transactions SET status = ?, related_transaction_id = ? WHERE id = ?',
+        'reversed',
+        reversal.id,
+        original.id
+      );
+
+      await new AuditLog(this.db).record({
+        action: 'xp.reverse',
+        entityType: 'xp_transaction',
+        entityId: original.id,
+        oldValues: { status: original.status, balance: reversal.previousBalance },
+        newValues: { status: 'reversed', balance: reversal.newBalance, reversedBy: reversal.id },
+        metadata: { userId: original.userId, amount: reversal.amount, reason: reversal.reason }
+      });
+      return reversal;
+    });
+  }
+
+  async getTransaction(id: string): Promise<XPTransaction | null> {
+    const row = await this.db.get('SELECT * FROM xp_transactions WHERE id = ?', id);
+    return row ? this.mapTransaction(row) : null;
+  }
+
+  // Most recent first
+  async getTransactions(userId: string, limit: number = 20): Promise<XPTransaction[]> {
+    const rows = await this.db.all<any[]>(
+      'SELECT * FROM xp_transactions WHERE user_id = ? ORDER BY timestamp DESC, rowid DESC LIMIT ?',
+      userId,
+      limit
+    );
+    return rows.map(row => this.mapTransaction(row));
+  }
+
+  async getBalance(userId: string): Promise<number> {
+    const row = await this.db.get<{ balance: number }>(
+      'SELECT COALESCE(SUM(amount), 0) AS balance FROM xp_ledger_entries WHERE account = ?',
+      userAccount(userId)
+    );
+    return row?.balance ?? 0;
+  }
+
+  /**
+   * Compare every user's cached XP and level with the ledger, and check
+   * that each transaction balances
+   */
+  async verify(): Promise<LedgerVerification> {
+    const users = await this.db.all<{ id: string; username: string; total_xp: number | null; level: number | null; ledger_xp: number }[]>(
+      `SELECT users.id, users.username, users.total_xp, users.level, COALESCE(SUM(entries.amount), 0) AS ledger_xp
+       FROM users
+       LEFT JOIN xp_ledger_entries AS entries ON entries.account = 'user:' || users.id
+       GROUP BY users.id
+       ORDER BY users.username`
+    );
+
+    const discrepancies: LedgerDiscrepancy[] = [];
+    for (const user of users) {
+      const level = this.calculateLevel(user.ledger_xp);
+      if (user.total_xp !== user.ledger_xp || user.level !== level) {
+        discrepancies.push({
+          userId: user.id,
+          username: user.username,
+          cachedXp: user.total_xp ?? 0,
+          ledgerXp: user.ledger_xp,
+          cachedLevel: user.level ?? 1,
+          level
+        });
+      }
+    }
+
+    const unbalanced = await this.db.all<{ id: string }[]>(
+      `SELECT transactions.id
+       FROM xp_transactions AS transactions
+       LEFT JOIN xp_ledger_entries AS entries ON entries.transaction_id = transactions.id
+       GROUP BY transactions.id
+       HAVING COALESCE(SUM(entries.amount), 0) != 0
+         OR COALESCE(SUM(CASE WHEN entries.account = 'user:' || transactions.user_id THEN entries.amount END), 0) != transactions.amount
+       ORDER BY transactions.timestamp`
+    );
+    const transactions = await this.db.get<{ count: number }>('SELECT COUNT(*) AS count FROM xp_transactions');
+
+    return {
+      ok: discrepancies.length === 0 && unbalanced.length === 0,
+      users: users.length,
+      transactions: transactions?.count ?? 0,
+      discrepancies,
+      unbalanced: unbalanced.map(row => row.id)
+    };
+  }
+
+  /**
+   * Set cached XP and levels from the ledger. Returns what was verified
+   * before the repair.
+   */
+  async repair(options: { dryRun?: boolean } = {}): Promise<LedgerVerification> {
+    return withTransaction(this.db, async () => {
+      const verification = await this.verify();
+      if (options.dryRun) return verification;
+
+      const audit = new AuditLog(this.db);
+      for (const discrepancy of verification.discrepancies) {
+        await this.syncUser(discrepancy.userId);
+        await audit.record({
+          action: 'xp.repair',
+          entityType: 'user',
+          entityId: discrepancy.userId,
+          oldValues: { totalXp: discrepancy.cachedXp, level: discrepancy.cachedLevel },
+          newValues: { totalXp: discrepancy.ledgerXp, level: discrepancy.level },
+          metadata: { username: discrepancy.username }
+        });
+      }
+      return verification;
+    });
+  }
+
+  private async post(posting: XpPosting, relatedTransactionId?: string): Promise<XPTransaction> {
+    const user = await this.db.get<{ id: string }>('SELECT id FROM users WHERE id = ?', posting.userId);
+    if (!user) throw new Error('User not found');
+
+    const previousBalance = await this.getBalance(posting.userId);
+    const newBalance = previousBalance + posting.amount;
+    const timestamp = posting.timestamp ?? new Date().toISOString();
+
+    let eventId: string | undefined;
+    if (!posting.skipHistory) {
+      eventId = this.generateId();
+      await this.db.run(
+        `INSERT INTO xp_history (id, user_id, xp_change, reason, activity_id, achievement_id, timestamp, balance, event_type)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        eventId,
+        posting.userId,
+        posting.amount,
+        posting.reason,
+        posting.activityId ?? null,
+        posting.achievementId ?? null,
+        timestamp,
+        newBalance,
+        posting.eventType
+      );
+    }
+
+    const transaction: XPTransaction = {
+      id: this.generateId(),
+      userId: posting.userId,
+      ...(eventId ? { eventId } : {}),
+      eventType: posting.eventType,
+      reason: posting.reason,
+      amount: posting.amount,
+      previousBalance,
+      newBalance,
+      type: posting.amount < 0 ? 'debit' : 'credit',
+      status: 'completed',
+      timestamp: new Date(timestamp),
+      ...(posting.notes ? { notes: posting.notes } : {}),
+      ...(relatedTransactionId ? { relatedTransactionId } : {})
+    };
+
+    await this.db.run(
+      `INSERT INTO xp_transactions (id, user_id, event_id, event_type, reason, amount, type, status, previous_balance, new_balance, related_transaction_id, notes, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      transaction.id,
+      transaction.userId,
+      eventId ?? null,
+      transaction.eventType,
+      transaction.reason,
+      transaction.amount,
+      transaction.type,
+      transaction.status,
+      previousBalance,
+      newBalance,
+      relatedTransactionId ?? null,
+      posting.notes ?? null,
+      timestamp
+    );
+    await this.db.run(
+      'INSERT INTO xp_ledger_entries (transaction_id, account, amount) VALUES (?, ?, ?), (?, ?, ?)',
+      transaction.id,
+      userAccount(posting.userId),
+      posting.amount,
+      transaction.id,
+      sourceAccount(posting.eventType),
+      -posting.amount
+    );
+
+    await this.syncUser(posting.userId, posting.lastActiveDate);
+    return transaction;
+  }
+
+  // Cache the ledger balance and its level on the user
+  private async syncUser(userId: string, lastActiveDate?: string): Promise<void> {
+    const balance = await this.getBalance(userId);
+    await this.db.run(
+      'UPDATE users SET total_xp = ?, level = ?, last_active_date = COALESCE(?, last_active_date), updated_at = ? WHERE id = ?',
+      balance,
+      this.calculateLevel(balance),
+      lastActiveDate ?? null,
+      new Date().toISOString(),
+      userId
+    );
+  }
+
+  private calculateLevel(totalXp: number): number {
+    return defaultConfigManager.getLevelFromXP(totalXp).level;
+  }
+
+  private generateId(): string {
+    return randomBytes(8).toString('hex');
+  }
+
+  private mapTransaction(row: any): XPTransaction {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      ...(row.event_id ? { eventId: row.event_id } : {}),
+      eventType: row.event_type,
+      reason: row.reason,
+      amount: row.amount,
+      previousBalance: row.previous_balance,
+      newBalance: row.new_balance,
+      type: row.type,
+      status: row.status,
+      timestamp: new Date(row.timestamp),
+      ...(row.notes ? { notes: row.notes } : {}),
+      ...(row.related_transaction_id ? { relatedTransactionId: row.related_transaction_id } : {})
+    };
+  }
+}
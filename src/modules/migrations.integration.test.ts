@@ -0,0 +1,179 @@
+/**
+ * Integration tests for the schema migrations
+ */
+
+import { describe, test, expect, jest, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import * as sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { getMigrationChecksum, Migration, MIGRATIONS, MigrationRunner } from './migrations';
+import { useTempHome } from '../test-utils/temp-home';
+
+type DatabaseModule = typeof import('./database');
+
+const TEST_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_notes',
+    up: 'CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL);',
+    down: 'DROP TABLE notes;'
+  },
+  {
+    version: 2,
+    name: 'add_tags',
+    up: `
+      CREATE TABLE tags (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+      ALTER TABLE notes ADD COLUMN tag_id INTEGER REFERENCES tags(id);
+    `,
+    down: `
+      ALTER TABLE notes DROP COLUMN tag_id;
+      DROP TABLE tags;
+    `
+  }
+];
+
+describe('MigrationRunner', () => {
+  let db: Database<sqlite3.Database, sqlite3.Statement>;
+
+  const getTables = async (): Promise<string[]> => {
+    const rows = await db.all<{ name: string }[]>('SELECT name FROM sqlite_master WHERE type = \'table\' ORDER BY name');
+    return rows.map(row => row.name);
+  };
+
+  beforeEach(async () => {
+    db = await open({ filename: ':memory:', driver: sqlite3.Database });
+    await db.exec('PRAGMA foreign_keys = ON');
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  test('should apply and roll back the real migrations', async () => {
+    const runner = new MigrationRunner(db);
+    const latest = runner.getLatestVersion();
+
+    const plan = await runner.up();
+    expect(plan).toMatchObject({ direction: 'up', from: 0, to: latest });
+    expect(plan.migrations).toHaveLength(MIGRATIONS.length);
+    expect((await runner.getStatus()).every(status => status.state === 'applied')).toBe(true);
+
+    const rollback = await runner.down({ to: 6 });
+    expect(rollback.migrations.map(migration => migration.version)).toEqual([12, 11, 10, 9, 8, 7]);
+    expect(await runner.getCurrentVersion()).toBe(6);
+    expect(await getTables()).not.toContain('projects');
+
+    await runner.up();
+    expect(await runner.getCurrentVersion()).toBe(latest);
+    expect(await getTables()).toContain('projects');
+  });
+
+  test('should finish a migration whose columns were added before it was recorded', async () => {
+    const runner = new MigrationRunner(db);
+    await runner.up({ to: 1 });
+
+    // An older devxp ran migration 2 without recording it
+    await db.exec(MIGRATIONS[1]!.up);
+    expect(await runner.getCurrentVersion()).toBe(1);
+
+    await runner.up();
+    expect(await runner.getCurrentVersion()).toBe(runner.getLatestVersion());
+    const columns = await db.all<{ name: string }[]>('PRAGMA table_info(users)');
+    expect(columns.filter(column => column.name === 'current_team_id')).toHaveLength(1);
+  });
+
+  test('should undo a migration that fails part way', async () => {
+    const broken: Migration[] = [
+      TEST_MIGRATIONS[0]!,
+      { ...TEST_MIGRATIONS[1]!, up: `${TEST_MIGRATIONS[1]!.up} ALTER TABLE notes ADD COLUMN tag_id INTEGER;` }
+    ];
+    const runner = new MigrationRunner(db, broken);
+
+    await expect(runner.up()).rejects.toThrow('Applying migration 2 (add_tags) failed and was undone');
+
+    expect(await runner.getCurrentVersion()).toBe(1);
+    expect(await getTables()).not.toContain('tags');
+    const columns = await db.all<{ name: string }[]>('PRAGMA table_info(notes)');
+    expect(columns.map(column => column.name)).toEqual(['id', 'body']);
+
+    // Fixed, it applies cleanly over the undone attempt
+    await new MigrationRunner(db, TEST_MIGRATIONS).up();
+    expect(await getTables()).toContain('tags');
+  });
+
+  test('should only report the plan on a dry run', async () => {
+    const runner = new MigrationRunner(db, TEST_MIGRATIONS);
+    await runner.up({ to: 1 });
+
+    const plan = await runner.up({ dryRun: true });
+    expect(plan.migrations.map(migration => migration.name)).toEqual(['add_tags']);
+    expect(await runner.getCurrentVersion()).toBe(1);
+
+    await expect(runner.down({ to: 3 })).rejects.toThrow('Unknown migration version: 3');
+    await expect(runner.down()).rejects.toThrow('needs the version');
+  });
+
+  test('should refuse to migrate when an applied migration was edited', async () => {
+    await new MigrationRunner(db, TEST_MIGRATIONS).up({ to: 1 });
+
+    // Re-indenting is not an edit
+    const reindented = [{ ...TEST_MIGRATIONS[0]!, up: `\n    ${TEST_MIGRATIONS[0]!.up}\n` }, TEST_MIGRATIONS[1]!];
+    expect((await new MigrationRunner(db, reindented).getStatus())[0]?.state).toBe('applied');
+
+    const edited = [{ ...TEST_MIGRATIONS[0]!, up: 'CREATE TABLE notes (id INTEGER PRIMARY KEY);' }, TEST_MIGRATIONS[1]!];
+    const runner = new MigrationRunner(db, edited);
+
+    expect((await runner.getStatus()).map(status => status.state)).toEqual(['modified', 'pending']);
+    await expect(runner.up()).rejects.toThrow('migration 1 (create_notes) was edited after it was applied');
+    await expect(runner.up({ dryRun: true })).rejects.toThrow('Refusing to migrate');
+    expect(await getTables()).not.toContain('tags');
+
+    // A database migrated by a newer build
+    const older = new MigrationRunner(db, []);
+    expect((await older.getStatus())[0]).toMatchObject({ version: 1, state: 'unknown' });
+    await expect(older.up()).rejects.toThrow('applied by a newer version of devxp');
+  });
+
+  test('should record checksums for migrations applied before they were tracked', async () => {
+    await db.exec(`
+      CREATE TABLE migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL);
+      CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL);
+      INSERT INTO migrations VALUES (1, 'create_notes', '2025-01-01T00:00:00.000Z');
+    `);
+
+    const runner = new MigrationRunner(db, TEST_MIGRATIONS);
+    const statuses = await runner.getStatus();
+    expect(statuses[0]).toMatchObject({
+      state: 'applied',
+      appliedAt: '2025-01-01T00:00:00.000Z',
+      appliedChecksum: getMigrationChecksum(TEST_MIGRATIONS[0]!)
+    });
+
+    await runner.up();
+    expect(await runner.getCurrentVersion()).toBe(2);
+  });
+});
+
+describe('Automatic migrations', () => {
+  useTempHome('migrations');
+  let database: DatabaseModule['database'];
+
+  beforeAll(async () => {
+    ({ database } = await import('./database'));
+  });
+
+  test('should report progress on stderr, keeping stdout for command output', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      await database.initialize();
+      await database.close();
+
+      expect(log).not.toHaveBeenCalled();
+      expect(error).toHaveBeenCalledTimes(MIGRATIONS.length);
+      expect(error).toHaveBeenCalledWith('Applying migration 1: initial_schema');
+    } finally {
+      log.mockRestore();
+      error.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,725 @@
+/**
+ * Migrations Module
+ * Versioned schema migrations. Each one runs in its own transaction and is
+ * recorded with a checksum, so an applied migration that was edited later
+ * is caught before it can leave the schema in a state no version expects.
+ */
+
+import * as sqlite3 from 'sqlite3';
+import { Database } from 'sqlite';
+import { createHash } from 'crypto';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+/**
+ * How an applied or defined migration compares with the database:
+ * modified ones were edited after they were applied, unknown ones were
+ * applied by a newer version of devxp
+ */
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'unknown';
+
+export type MigrationDirection = 'up' | 'down';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  appliedAt?: string;
+
+  /** Checksum of the migration as defined here, and as it was applied */
+  checksum?: string;
+  appliedChecksum?: string;
+}
+
+/**
+ * The migrations an up or down run applies, in the order they run
+ */
+export interface MigrationPlan {
+  direction: MigrationDirection;
+  from: number;
+  to: number;
+  migrations: Migration[];
+}
+
+export interface MigrationOptions {
+  /** Version to stop at, the latest for up */
+  to?: number;
+
+  /** Only work out the plan */
+  dryRun?: boolean;
+
+  /** Called before each migration runs */
+  onMigration?: (migration: Migration, direction: MigrationDirection) => void;
+}
+
+interface MigrationRow {
+  version: number;
+  name: string;
+  applied_at: string;
+  checksum: string | null;
+}
+
+export const MIGRATIONS: ReadonlyArray<Migration> = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: `
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        username TEXT UNIQUE NOT NULL,
+        email TEXT UNIQUE NOT NULL,
+        display_name TEXT NOT NULL,
+        avatar_url TEXT,
+        total_xp INTEGER DEFAULT 0,
+        level INTEGER DEFAULT 1,
+        streak INTEGER DEFAULT 0,
+        longest_streak INTEGER DEFAULT 0,
+        last_active_date TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS activities (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        description TEXT NOT NULL,
+        xp_earned INTEGER NOT NULL,
+        metadata TEXT,
+        timestamp TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS achievements (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT NOT NULL,
+        xp_reward INTEGER NOT NULL,
+        unlocked_at TEXT NOT NULL,
+        metadata TEXT,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS xp_history (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        xp_change INTEGER NOT NULL,
+        reason TEXT NOT NULL,
+        activity_id TEXT,
+        achievement_id TEXT,
+        timestamp TEXT NOT NULL,
+        balance INTEGER NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (activity_id) REFERENCES activities(id) ON DELETE SET NULL,
+        FOREIGN KEY (achievement_id) REFERENCES achievements(id) ON DELETE SET NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_activities_user_id ON activities(user_id);
+      CREATE INDEX IF NOT EXISTS idx_activities_timestamp ON activities(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_achievements_user_id ON achievements(user_id);
+      CREATE INDEX IF NOT EXISTS idx_xp_history_user_id ON xp_history(user_id);
+      CREATE INDEX IF NOT EXISTS idx_xp_history_timestamp ON xp_history(timestamp);
+    `,
+    down: `
+      DROP TABLE IF EXISTS xp_history;
+      DROP TABLE IF EXISTS achievements;
+      DROP TABLE IF EXISTS activities;
+      DROP TABLE IF EXISTS users;
+    `
+  },
+  {
+    version: 2,
+    name: 'add_team_support',
+    up: `
+      CREATE TABLE IF NOT EXISTS teams (
+        id TEXT PRIMARY KEY,
+        name TEXT UNIQUE NOT NULL,
+        description TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS team_members (
+        team_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        role TEXT DEFAULT 'member',
+        joined_at TEXT NOT NULL,
+        PRIMARY KEY (team_id, user_id),
+        FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      ALTER TABLE users ADD COLUMN current_team_id TEXT REFERENCES teams(id) ON DELETE SET NULL;
+    `,
+    down: `
+      ALTER TABLE users DROP COLUMN current_team_id;
+      DROP TABLE IF EXISTS team_members;
+      DROP TABLE IF EXISTS teams;
+    `
+  },
+  {
+    version: 3,
+    name: 'add_user_achievement_progress',
+    up: `
+      CREATE TABLE IF NOT EXISTS user_achievements (
+        user_id TEXT NOT NULL,
+        achievement_id TEXT NOT NULL,
+        current_progress INTEGER NOT NULL DEFAULT 0,
+        required_progress INTEGER NOT NULL DEFAULT 1,
+        times_earned INTEGER NOT NULL DEFAULT 0,
+        unlocked_at TEXT,
+        condition_progress TEXT,
+        last_progress_update TEXT NOT NULL,
+        PRIMARY KEY (user_id, achievement_id),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_achievements_user_type ON achievements(user_id, type);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_achievements_user_type;
+      DROP TABLE IF EXISTS user_achievements;
+    `
+  },
+  {
+    version: 4,
+    name: 'add_challenges',
+    up: `
+      CREATE TABLE IF NOT EXISTS challenges (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        period TEXT NOT NULL,
+        template_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT NOT NULL,
+        activity_types TEXT NOT NULL,
+        required_count INTEGER NOT NULL,
+        current_progress INTEGER NOT NULL DEFAULT 0,
+        reward INTEGER NOT NULL,
+        period_start TEXT NOT NULL,
+        starts_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active',
+        completed_at TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS challenge_bonuses (
+        user_id TEXT NOT NULL,
+        period TEXT NOT NULL,
+        period_start TEXT NOT NULL,
+        xp_reward INTEGER NOT NULL,
+        awarded_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, period, period_start),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_challenges_user_status ON challenges(user_id, status);
+      CREATE INDEX IF NOT EXISTS idx_challenges_user_period ON challenges(user_id, period, period_start);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_challenges_user_period;
+      DROP INDEX IF EXISTS idx_challenges_user_status;
+      DROP TABLE IF EXISTS challenge_bonuses;
+      DROP TABLE IF EXISTS challenges;
+    `
+  },
+  {
+    version: 5,
+    name: 'add_xp_history_event_type',
+    up: `
+      ALTER TABLE xp_history ADD COLUMN event_type TEXT NOT NULL DEFAULT 'activity';
+
+      UPDATE xp_history SET event_type = 'achievement' WHERE achievement_id IS NOT NULL;
+      UPDATE xp_history SET event_type = 'challenge'
+        WHERE reason LIKE 'Challenge completed:%' OR reason LIKE 'All % challenges completed';
+
+      CREATE INDEX IF NOT EXISTS idx_xp_history_user_event ON xp_history(user_id, event_type, timestamp);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_xp_history_user_event;
+      ALTER TABLE xp_history DROP COLUMN event_type;
+    `
+  },
+  {
+    version: 6,
+    name: 'add_streaks',
+    up: `
+      CREATE TABLE IF NOT EXISTS streaks (
+        user_id TEXT PRIMARY KEY,
+        current_streak INTEGER NOT NULL DEFAULT 0,
+        longest_streak INTEGER NOT NULL DEFAULT 0,
+        last_streak_date TEXT,
+        streak_start_date TEXT,
+        total_active_days INTEGER NOT NULL DEFAULT 0,
+        freeze_tokens INTEGER NOT NULL DEFAULT 0,
+        last_freeze_used TEXT,
+        updated_at TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS streak_freezes (
+        user_id TEXT NOT NULL,
+        date TEXT NOT NULL,
+        used_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, date),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      -- Carry over existing streaks, dated by the UTC day they were last updated
+      INSERT OR IGNORE INTO streaks (user_id, current_streak, longest_streak, last_streak_date, total_active_days, updated_at)
+        SELECT id, streak, longest_streak,
+          CASE WHEN streak > 0 THEN substr(last_active_date, 1, 10) END,
+          (SELECT COUNT(DISTINCT substr(timestamp, 1, 10)) FROM activities WHERE user_id = users.id),
+          updated_at
+        FROM users;
+    `,
+    down: `
+      DROP TABLE IF EXISTS streak_freezes;
+      DROP TABLE IF EXISTS streaks;
+    `
+  },
+  {
+    version: 7,
+    name: 'add_projects',
+    up: `
+      CREATE TABLE IF NOT EXISTS projects (
+        id TEXT PRIMARY KEY,
+        name TEXT UNIQUE NOT NULL,
+        path TEXT NOT NULL,
+        git_url TEXT UNIQUE,
+        primary_language TEXT,
+        languages TEXT NOT NULL DEFAULT '{}',
+        is_archived INTEGER NOT NULL DEFAULT 0,
+        last_activity_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      ALTER TABLE activities ADD COLUMN project_id TEXT REFERENCES projects(id) ON DELETE SET NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_projects_path ON projects(path);
+      CREATE INDEX IF NOT EXISTS idx_activities_project ON activities(project_id, timestamp);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_activities_project;
+      DROP INDEX IF EXISTS idx_projects_path;
+      ALTER TABLE activities DROP COLUMN project_id;
+      DROP TABLE IF EXISTS projects;
+    `
+  },
+  {
+    version: 8,
+    name: 'add_sessions',
+    up: `
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        total_xp INTEGER NOT NULL DEFAULT 0,
+        activity_count INTEGER NOT NULL DEFAULT 0,
+        duration INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      ALTER TABLE activities ADD COLUMN session_id TEXT REFERENCES sessions(id) ON DELETE SET NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_sessions_user_time ON sessions(user_id, end_time);
+      CREATE INDEX IF NOT EXISTS idx_activities_session ON activities(session_id);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_activities_session;
+      DROP INDEX IF EXISTS idx_sessions_user_time;
+      ALTER TABLE activities DROP COLUMN session_id;
+      DROP TABLE IF EXISTS sessions;
+    `
+  },
+  {
+    version: 9,
+    name: 'add_leaderboard_snapshots',
+    up: `
+      CREATE TABLE IF NOT EXISTS leaderboard_snapshots (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        period_start TEXT NOT NULL,
+        period_end TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        rank INTEGER NOT NULL,
+        total_xp INTEGER NOT NULL DEFAULT 0,
+        level INTEGER NOT NULL DEFAULT 1,
+        achievement_count INTEGER NOT NULL DEFAULT 0,
+        activity_count INTEGER NOT NULL DEFAULT 0,
+        streak_days INTEGER NOT NULL DEFAULT 0,
+        rank_change INTEGER,
+        is_final INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE (type, period_start, user_id),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_leaderboard_snapshots_period ON leaderboard_snapshots(type, period_start);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_leaderboard_snapshots_period;
+      DROP TABLE IF EXISTS leaderboard_snapshots;
+    `
+  },
+  {
+    version: 10,
+    name: 'add_date_range_indexes',
+    up: `
+      CREATE INDEX IF NOT EXISTS idx_activities_user_time ON activities(user_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_activities_user_type ON activities(user_id, type, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_xp_history_user_time ON xp_history(user_id, timestamp);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_xp_history_user_time;
+      DROP INDEX IF EXISTS idx_activities_user_type;
+      DROP INDEX IF EXISTS idx_activities_user_time;
+    `
+  },
+  {
+    version: 11,
+    name: 'create_xp_ledger',
+    up: `
+      CREATE TABLE IF NOT EXISTS xp_transactions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        event_id TEXT,
+        event_type TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'completed',
+        previous_balance INTEGER NOT NULL,
+        new_balance INTEGER NOT NULL,
+        related_transaction_id TEXT,
+        notes TEXT,
+        timestamp TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (event_id) REFERENCES xp_history(id) ON DELETE SET NULL,
+        FOREIGN KEY (related_transaction_id) REFERENCES xp_transactions(id) ON DELETE SET NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS xp_ledger_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        transaction_id TEXT NOT NULL,
+        account TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        FOREIGN KEY (transaction_id) REFERENCES xp_transactions(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_xp_transactions_user_time ON xp_transactions(user_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_xp_ledger_entries_account ON xp_ledger_entries(account);
+      CREATE INDEX IF NOT EXISTS idx_xp_ledger_entries_transaction ON xp_ledger_entries(transaction_id);
+
+      -- The history so far becomes the first transactions
+      INSERT INTO xp_transactions (id, user_id, event_id, event_type, reason, amount, type, status, previous_balance, new_balance, timestamp)
+      SELECT lower(hex(randomblob(8))), user_id, id, event_type, reason, xp_change,
+        CASE WHEN xp_change < 0 THEN 'debit' ELSE 'credit' END, 'completed', balance - xp_change, balance, timestamp
+      FROM xp_history
+      WHERE user_id IN (SELECT id FROM users);
+
+      -- XP the history does not account for opens each user's balance
+      INSERT INTO xp_transactions (id, user_id, event_type, reason, amount, type, status, previous_balance, new_balance, timestamp)
+      SELECT lower(hex(randomblob(8))), users.id, 'manual', 'Opening balance', users.total_xp - COALESCE(history.total, 0),
+        CASE WHEN users.total_xp < COALESCE(history.total, 0) THEN 'debit' ELSE 'credit' END, 'completed',
+        COALESCE(history.total, 0), users.total_xp, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+      FROM users
+      LEFT JOIN (SELECT user_id, SUM(xp_change) AS total FROM xp_history GROUP BY user_id) AS history ON history.user_id = users.id
+      WHERE COALESCE(users.total_xp, 0) != COALESCE(history.total, 0);
+
+      INSERT INTO xp_ledger_entries (transaction_id, account, amount)
+      SELECT id, 'user:' || user_id, amount FROM xp_transactions;
+      INSERT INTO xp_ledger_entries (transaction_id, account, amount)
+      SELECT id, 'source:' || event_type, -amount FROM xp_transactions;
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_xp_ledger_entries_transaction;
+      DROP INDEX IF EXISTS idx_xp_ledger_entries_account;
+      DROP INDEX IF EXISTS idx_xp_transactions_user_time;
+      DROP TABLE IF EXISTS xp_ledger_entries;
+      DROP TABLE IF EXISTS xp_transactions;
+    `
+  },
+  {
+    version: 12,
+    name: 'create_audit_log',
+    up: `
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id TEXT PRIMARY KEY,
+        actor TEXT NOT NULL,
+        user_id TEXT,
+        action TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        entity_id TEXT,
+        old_values TEXT,
+        new_values TEXT,
+        metadata TEXT,
+        status TEXT NOT NULL DEFAULT 'success',
+        error_message TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_audit_log_time ON audit_log(created_at);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action, created_at);
+
+      -- Entries are evidence, so they are only ever added
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'The audit log is append-only');
+      END;
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'The audit log is append-only');
+      END;
+    `,
+    down: `
+      DROP TRIGGER IF EXISTS audit_log_no_delete;
+      DROP TRIGGER IF EXISTS audit_log_no_update;
+      DROP INDEX IF EXISTS idx_audit_log_action;
+      DROP INDEX IF EXISTS idx_audit_log_time;
+      DROP TABLE IF EXISTS audit_log;
+    `
+  }
+];
+
+/**
+ * Checksum of the up and down scripts. Indentation and blank lines are
+ * ignored, so moving a migration around does not count as editing it.
+ */
+export function getMigrationChecksum(migration: Migration): string {
+  const normalize = (sql: string): string => sql
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line !== '')
+    .join('\n');
+
+  return createHash('sha256')
+    .update(`${normalize(migration.up)}\n--- down ---\n${normalize(migration.down)}`)
+    .digest('hex');
+}
+
+export class MigrationRunner {
+  private prepared = false;
+
+  constructor(
+    private readonly db: Database<sqlite3.Database, sqlite3.Statement>,
+    private readonly migrations: ReadonlyArray<Migration> = MIGRATIONS
+  ) {}
+
+  getLatestVersion(): number {
+    return Math.max(0, ...this.migrations.map(migration => migration.version));
+  }
+
+  async getCurrentVersion(): Promise<number> {
+    const rows = await this.getAppliedRows();
+    return Math.max(0, ...rows.map(row => row.version));
+  }
+
+  /**
+   * Every defined migration and every applied one, by version
+   */
+  async getStatus(): Promise<MigrationStatus[]> {
+    const applied = new Map((await this.getAppliedRows()).map(row => [row.version, row]));
+    const statuses: MigrationStatus[] = [];
+
+    for (const migration of this.migrations) {
+      const row = applied.get(migration.version);
+      const checksum = getMigrationChecksum(migration);
+      applied.delete(migration.version);
+
+      statuses.push({
+        version: migration.version,
+        name: migration.name,
+        state: !row ? 'pending' : row.checksum === checksum ? 'applied' : 'modified',
+        checksum,
+        ...(row ? { appliedAt: row.applied_at } : {}),
+        ...(row?.checksum ? { appliedChecksum: row.checksum } : {})
+      });
+    }
+
+    for (const row of applied.values()) {
+      statuses.push({
+        version: row.version,
+        name: row.name,
+        state: 'unknown',
+        appliedAt: row.applied_at,
+        ...(row.checksum ? { appliedChecksum: row.checksum } : {})
+      });
+    }
+
+    return statuses.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Throw when the applied migrations no longer match their definitions
+   */
+  async verify(): Promise<void> {
+    const problems = (await this.getStatus()).flatMap(status => {
+      switch (status.state) {
+      case 'modified':
+        return [`migration ${status.version} (${status.name}) was edited after it was applied`];
+      case 'unknown':
+        return [`migration ${status.version} (${status.name}) was applied by a newer version of devxp`];
+      default:
+        return [];
+      }
+    });
+
+    if (problems.length > 0) {
+      throw new Error(`Refusing to migrate the database: ${problems.join(', ')}`);
+    }
+  }
+
+  /**
+   * Work out which migrations take the database to a version
+   */
+  async plan(direction: MigrationDirection, to?: number): Promise<MigrationPlan> {
+    const target = to ?? (direction === 'up' ? this.getLatestVersion() : undefined);
+    if (target === undefined) {
+      throw new Error('Rolling back needs the version to roll back to');
+    }
+    if (target !== 0 && !this.migrations.some(migration => migration.version === target)) {
+      throw new Error(`Unknown migration version: ${target}`);
+    }
+
+    const from = await this.getCurrentVersion();
+    const applied = new Set((await this.getAppliedRows()).map(row => row.version));
+    const migrations = direction === 'up'
+      ? this.migrations
+        .filter(migration => migration.version <= target && !applied.has(migration.version))
+        .sort((a, b) => a.version - b.version)
+      : this.migrations
+        .filter(migration => migration.version > target && applied.has(migration.version))
+        .sort((a, b) => b.version - a.version);
+
+    return { direction, from, to: target, migrations };
+  }
+
+  /**
+   * Apply the pending migrations up to a version, the latest by default
+   */
+  async up(options: MigrationOptions = {}): Promise<MigrationPlan> {
+    return this.migrate('up', options);
+  }
+
+  /**
+   * Roll back the applied migrations above a version
+   */
+  async down(options: MigrationOptions = {}): Promise<MigrationPlan> {
+    return this.migrate('down', options);
+  }
+
+  private async migrate(direction: MigrationDirection, options: MigrationOptions): Promise<MigrationPlan> {
+    await this.verify();
+    const plan = await this.plan(direction, options.to);
+
+    if (!options.dryRun) {
+      for (const migration of plan.migrations) {
+        options.onMigration?.(migration, direction);
+        await this.apply(migration, direction);
+      }
+    }
+
+    return plan;
+  }
+
+  // The script and its bookkeeping commit together or not at all
+  private async apply(migration: Migration, direction: MigrationDirection): Promise<void> {
+    await this.db.exec('BEGIN IMMEDIATE');
+
+    try {
+      // Another devxp process may have migrated while this one waited for the lock
+      const applied = await this.db.get('SELECT 1 FROM migrations WHERE version = ?', migration.version);
+      if ((applied !== undefined) === (direction === 'up')) {
+        await this.db.exec('COMMIT');
+        return;
+      }
+
+      if (direction === 'up') {
+        await this.db.exec(await this.skipExistingColumns(migration.up));
+        await this.db.run(
+          'INSERT INTO migrations (version, name, applied_at, checksum) VALUES (?, ?, ?, ?)',
+          migration.version,
+          migration.name,
+          new Date().toISOString(),
+          getMigrationChecksum(migration)
+        );
+      } else {
+        await this.db.exec(migration.down);
+        await this.db.run('DELETE FROM migrations WHERE version = ?', migration.version);
+      }
+
+      await this.db.exec('COMMIT');
+    } catch (error) {
+      await this.db.exec('ROLLBACK').catch(() => undefined);
+      const action = direction === 'up' ? 'Applying' : 'Rolling back';
+      throw new Error(`${action} migration ${migration.version} (${migration.name}) failed and was undone: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // SQLite can't add a column only if it is missing. A migration that ran
+  // before it was recorded, such as one interrupted by an older devxp that
+  // didn't use transactions, already added its columns, so skip those.
+  private async skipExistingColumns(sql: string): Promise<string> {
+    let result = sql;
+
+    for (const [statement, table, column] of sql.matchAll(/ALTER TABLE (\w+) ADD COLUMN (\w+)[^;]*;/gi)) {
+      const columns = await this.db.all<{ name: string }[]>(`PRAGMA table_info(${table})`);
+      if (columns.some(existing => existing.name === column)) {
+        result = result.replace(statement, '');
+      }
+    }
+
+    return result;
+  }
+
+  private async getAppliedRows(): Promise<MigrationRow[]> {
+    await this.prepare();
+    return this.db.all<MigrationRow[]>('SELECT version, name, applied_at, checksum FROM migrations ORDER BY version');
+  }
+
+  // Create the bookkeeping table, or upgrade one written before checksums
+  private async prepare(): Promise<void> {
+    if (this.prepared) return;
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL,
+        checksum TEXT
+      )
+    `);
+
+    const columns = await this.db.all<{ name: string }[]>('PRAGMA table_info(migrations)');
+    if (!columns.some(column => column.name === 'checksum')) {
+      await this.db.exec('ALTER TABLE migrations ADD COLUMN checksum TEXT');
+    }
+
+    // Migrations applied before checksums were recorded are trusted as defined now
+    for (const migration of this.migrations) {
+      await this.db.run(
+        'UPDATE migrations SET checksum = ? WHERE version = ? AND checksum IS NULL',
+        getMigrationChecksum(migration),
+        migration.version
+      );
+    }
+
+    this.prepared = true;
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Projects Module
+ * Registers git repositories as projects on first use and works out the
+ * languages each commit touches
+ */
+
+import { execSync } from 'child_process';
+import * as path from 'path';
+import { database, Project } from './database';
+
+/**
+ * A repository found from a working directory
+ */
+export interface DetectedProject {
+  /** Repository root */
+  root: string;
+
+  /** Normalized origin URL, e.g. github.com/org/repo */
+  gitUrl?: string;
+
+  /** Name suggested by the remote or the directory */
+  name: string;
+}
+
+// File extensions mapped to the language they are written in
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  '.ts': 'TypeScript',
+  '.tsx': 'TypeScript',
+  '.mts': 'TypeScript',
+  '.cts': 'TypeScript',
+  '.js': 'JavaScript',
+  '.jsx': 'JavaScript',
+  '.mjs': 'JavaScript',
+  '.cjs': 'JavaScript',
+  '.py': 'Python',
+  '.rb': 'Ruby',
+  '.go': 'Go',
+  '.rs': 'Rust',
+  '.java': 'Java',
+  '.kt': 'Kotlin',
+  '.kts': 'Kotlin',
+  '.scala': 'Scala',
+  '.swift': 'Swift',
+  '.m': 'Objective-C',
+  '.c': 'C',
+  '.h': 'C',
+  '.cc': 'C++',
+  '.cpp': 'C++',
+  '.cxx': 'C++',
+  '.hpp': 'C++',
+  '.cs': 'C#',
+  '.fs': 'F#',
+  '.php': 'PHP',
+  '.dart': 'Dart',
+  '.ex': 'Elixir',
+  '.exs': 'Elixir',
+  '.erl': 'Erlang',
+  '.hs': 'Haskell',
+  '.clj': 'Clojure',
+  '.lua': 'Lua',
+  '.r': 'R',
+  '.jl': 'Julia',
+  '.zig': 'Zig',
+  '.vue': 'Vue',
+  '.svelte': 'Svelte',
+  '.sh': 'Shell',
+  '.bash': 'Shell',
+  '.zsh': 'Shell',
+  '.fish': 'Shell',
+  '.ps1': 'PowerShell',
+  '.sql': 'SQL',
+  '.html': 'HTML',
+  '.css': 'CSS',
+  '.scss': 'CSS',
+  '.sass': 'CSS',
+  '.less': 'CSS',
+  '.tf': 'HCL'
+};
+
+// Files recognized by name rather than extension
+const FILENAME_LANGUAGES: Record<string, string> = {
+  'dockerfile': 'Dockerfile',
+  'makefile': 'Makefile',
+  'gemfile': 'Ruby',
+  'rakefile': 'Ruby'
+};
+
+/**
+ * Keeps the projects table in line with the repositories activity comes from
+ */
+export class ProjectManager {
+  /**
+   * Find the repository a directory belongs to, null outside of git
+   */
+  detect(cwd: string = process.cwd()): DetectedProject | null {
+    const root = this.runGit('git rev-parse --show-toplevel', cwd);
+    if (!root) return null;
+
+    const gitUrl = normalizeGitUrl(this.runGit('git remote get-url origin', cwd));
+    const name = gitUrl ? path.posix.basename(gitUrl) : path.basename(root);
+
+    return { root, name, ...(gitUrl ? { gitUrl } : {}) };
+  }
+
+  /**
+   * Look up the project of a directory without registering it
+   */
+  async lookup(cwd: string = process.cwd()): Promise<Project | null> {
+    const detected = this.detect(cwd);
+    return detected ? this.findDetected(detected) : null;
+  }
+
+  /**
+   * Get the project of a directory, registering the repository on first use
+   * and following it when it moves or gains a remote
+   */
+  async resolve(cwd: string = process.cwd()): Promise<Project | null> {
+    const detected = this.detect(cwd);
+    if (!detected) return null;
+
+    const existing = await this.findDetected(detected);
+    if (!existing) {
+      return database.createProject({
+        name: await this.uniqueName(detected.name),
+        path: detected.root,
+        ...(detected.gitUrl ? { gitUrl: detected.gitUrl } : {}),
+        languages: {},
+        isArchived: false
+      });
+    }
+
+    if (existing.path !== detected.root || (detected.gitUrl && existing.gitUrl !== detected.gitUrl)) {
+      return database.updateProject(existing.id, {
+        path: detected.root,
+        ...(detected.gitUrl ? { gitUrl: detected.gitUrl } : {})
+      });
+    }
+
+    return existing;
+  }
+
+  /**
+   * Find a project by id or name, or `.` for the repository of the directory
+   */
+  async find(ref: string, cwd: string = process.cwd()): Promise<Project | null> {
+    if (ref === '.') {
+      return this.lookup(cwd);
+    }
+
+    return (await database.getProject(ref)) ?? database.findProjectByName(ref);
+  }
+
+  /**
+   * Rename a project, keeping names unique
+   */
+  async rename(project: Project, name: string): Promise<Project> {
+    const existing = await database.findProjectByName(name);
+    if (existing && existing.id !== project.id) {
+      throw new Error(`A project named '${existing.name}' already exists`);
+    }
+
+    return (await database.updateProject(project.id, { name })) ?? project;
+  }
+
+  /**
+   * Lines changed per language in a commit, from its numstat
+   */
+  getCommitLanguages(root: string, commitHash: string): Record<string, number> {
+    if (!/^[0-9a-f]{4,64}$/i.test(commitHash)) return {};
+
+    const numstat = this.runGit(`git diff-tree --no-commit-id --numstat -r --root ${commitHash}`, root);
+    const lines: Record<string, number> = {};
+
+    for (const line of numstat.split('\n')) {
+      const [added, deleted, file] = line.split('\t');
+      // Binary files report '-' instead of line counts
+      if (!file || added === '-' || deleted === '-') continue;
+
+      const language = detectLanguage(file);
+      const changed = parseInt(added ?? '0', 10) + parseInt(deleted ?? '0', 10);
+      if (language && changed > 0) {
+        lines[language] = (lines[language] ?? 0) + changed;
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Add a commit's changed lines to the project and pick its primary
+   * language again
+   */
+  async addLanguages(project: Project, lines: Record<string, number>): Promise<Project> {
+    if (Object.keys(lines).length === 0) return project;
+
+    const languages = { ...project.languages };
+    for (const [language, count] of Object.entries(lines)) {
+      languages[language] = (languages[language] ?? 0) + count;
+    }
+
+    const primaryLanguage = this.getPrimaryLanguage(languages);
+    const updated = await database.updateProject(project.id, {
+      languages,
+      ...(primaryLanguage !== undefined ? { primaryLanguage } : {})
+    });
+    return updated ?? project;
+  }
+
+  /**
+   * The language with the most changed lines
+   */
+  getPrimaryLanguage(lines: Record<string, number>): string | undefined {
+    return Object.entries(lines)
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))[0]?.[0];
+  }
+
+  private async findDetected(detected: DetectedProject): Promise<Project | null> {
+    const byUrl = detected.gitUrl ? await database.findProjectByGitUrl(detected.gitUrl) : null;
+    return byUrl ?? database.findProjectByPath(detected.root);
+  }
+
+  // Repositories sharing a name get a numbered suffix
+  private async uniqueName(name: string): Promise<string> {
+    let candidate = name;
+    for (let i = 2; await database.findProjectByName(candidate); i++) {
+      candidate = `${name}-${i}`;
+    }
+    return candidate;
+  }
+
+  /**
+   * Run a git command in a directory, returning an empty string on failure
+   */
+  private runGit(command: string, cwd: string): string {
+    try {
+      return execSync(command, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+    } catch {
+      return '';
+    }
+  }
+}
+
+/**
+ * Reduce the many spellings of a remote to host/path, so SSH and HTTPS
+ * clones of the same repository match
+ */
+export function normalizeGitUrl(url: string): string | undefined {
+  let normalized = url.trim();
+  if (!normalized) return undefined;
+
+  // scp-like syntax: git@github.com:org/repo.git
+  const scp = normalized.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+  if (scp && !/^[a-z]+:\/\//i.test(normalized)) {
+    normalized = `${scp[1]}/${scp[2]}`;
+  } else {
+    normalized = normalized
+      .replace(/^[a-z+]+:\/\//i, '')
+      .replace(/^[^@/]+@/, '')
+      .replace(/^([^/:]+):\d+\//, '$1/');
+  }
+
+  normalized = normalized.replace(/\.git\/?$/, '').replace(/\/+$/, '');
+  const [host = '', ...rest] = normalized.split('/');
+  return [host.toLowerCase(), ...rest].join('/') || undefined;
+}
+
+/**
+ * Language of a file from its name, undefined for unknown files
+ */
+export function detectLanguage(file: string): string | undefined {
+  // Renames are reported as 'src/{old => new}.ts' or 'old.ts => new.ts'
+  const renamed = file.replace(/\{[^}]* => ([^}]*)\}/, '$1').replace(/^.* => /, '');
+  const basename = path.posix.basename(renamed).toLowerCase();
+
+  return FILENAME_LANGUAGES[basename] ?? EXTENSION_LANGUAGES[path.posix.extname(basename)];
+}
+
+// Export singleton instance
+export const projectManager = new ProjectManager();
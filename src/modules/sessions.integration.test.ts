@@ -0,0 +1,116 @@
+/**
+ * Integration tests for coding sessions
+ */
+
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import { createTestUser, useTempHome } from '../test-utils/temp-home';
+
+type SessionsModule = typeof import('./sessions');
+type DatabaseModule = typeof import('./database');
+
+describe('SessionManager', () => {
+  useTempHome('sessions');
+  let sessionManager: SessionsModule['sessionManager'];
+  let database: DatabaseModule['database'];
+  let userId: string;
+
+  const at = (time: string) => new Date(`2025-06-10T${time}:00Z`);
+
+  // Record an activity the way the tracker does
+  const track = async (time: string, xp: number) => {
+    const update = await sessionManager.recordActivity(userId, at(time), xp);
+    await database.createActivity({
+      userId,
+      type: 'code_test',
+      description: `Tests at ${time}`,
+      xpEarned: xp,
+      sessionId: update.session.id,
+      timestamp: at(time).toISOString()
+    });
+    return update;
+  };
+
+  beforeAll(async () => {
+    ({ sessionManager } = await import('./sessions'));
+    ({ database } = await import('./database'));
+
+    const { defaultConfigManager } = await import('./config');
+    defaultConfigManager.set('sessions', { idleTimeout: 30 });
+  });
+
+  beforeEach(async () => {
+    await database.initialize();
+    userId = (await createTestUser(database)).id;
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  test('should extend a session until the user is idle for too long', async () => {
+    const first = await track('09:00', 10);
+    const second = await track('09:25', 20);
+    const third = await track('09:50', 5);
+    const afterBreak = await track('10:21', 15);
+
+    expect(first).toMatchObject({ started: true, closed: null });
+    expect(second).toMatchObject({ started: false, closed: null, session: { id: first.session.id } });
+    expect(third.session).toMatchObject({
+      id: first.session.id,
+      startTime: at('09:00').toISOString(),
+      endTime: at('09:50').toISOString(),
+      totalXp: 35,
+      activityCount: 3,
+      duration: 50 * 60
+    });
+    expect(afterBreak).toMatchObject({ started: true, session: { totalXp: 15, activityCount: 1, duration: 0 } });
+    expect(afterBreak.session.id).not.toBe(first.session.id);
+    expect(afterBreak.closed).toMatchObject({ id: first.session.id, duration: 50 * 60 });
+
+    const recent = await sessionManager.getRecentSessions(userId, 10, at('10:40'));
+    expect(recent.map(session => [session.activityCount, session.isActive])).toEqual([[1, true], [3, false]]);
+  });
+
+  test('should let backfilled activity join a session on its early side', async () => {
+    const session = await track('14:00', 10);
+    const earlier = await track('13:40', 10);
+
+    expect(earlier).toMatchObject({
+      started: false,
+      session: { id: session.session.id, startTime: at('13:40').toISOString(), duration: 20 * 60 }
+    });
+  });
+
+  test('should not close a later session when backfilling before it', async () => {
+    await track('14:00', 10);
+    const backfilled = await track('11:00', 10);
+
+    expect(backfilled).toMatchObject({ started: true, closed: null });
+  });
+
+  test('should report the current session only until the idle timeout', async () => {
+    await track('16:00', 10);
+
+    expect((await sessionManager.getCurrentSession(userId, at('16:30')))?.isActive).toBe(true);
+    expect(await sessionManager.getCurrentSession(userId, at('16:31'))).toBeNull();
+  });
+
+  test('should spread activity over a timeline', async () => {
+    const { session } = await track('08:00', 10);
+    await track('08:05', 10);
+    await track('08:25', 10);
+    await track('08:40', 20);
+
+    const stored = await sessionManager.getSession(session.id, at('12:00'));
+    const activities = await sessionManager.getActivities(session.id);
+    const timeline = sessionManager.buildTimeline(stored!, activities, 4);
+
+    expect(stored?.isActive).toBe(false);
+    expect(timeline.map(slot => [slot.start, slot.activityCount, slot.xp])).toEqual([
+      [at('08:00').toISOString(), 2, 20],
+      [at('08:10').toISOString(), 0, 0],
+      [at('08:20').toISOString(), 1, 10],
+      [at('08:30').toISOString(), 1, 20]
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Sessions Module
+ * Groups activity into coding sessions that end after a configurable idle gap
+ */
+
+import { database, Activity, SessionRecord } from './database';
+import { defaultConfigManager } from './config';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * A session and whether it is still going
+ */
+export interface Session extends SessionRecord {
+  /** Whether activity now would still join the session */
+  isActive: boolean;
+}
+
+/**
+ * Outcome of adding an activity to a session
+ */
+export interface SessionUpdate {
+  session: Session;
+
+  /** Whether the activity started a new session */
+  started: boolean;
+
+  /** Session the new one follows, which ended once the user went idle */
+  closed: SessionRecord | null;
+}
+
+/**
+ * Activity within one slice of a session
+ */
+export interface SessionTimelineSlot {
+  start: string;
+  activityCount: number;
+  xp: number;
+}
+
+/**
+ * Opens, extends and summarizes coding sessions
+ */
+export class SessionManager {
+  /**
+   * Add an activity to the session it falls in, starting a new session when
+   * the user has been idle for longer than the idle timeout
+   */
+  async recordActivity(userId: string, at: Date = new Date(), xp: number = 0): Promise<SessionUpdate> {
+    const idle = this.getIdleTimeout() * MINUTE;
+    const timestamp = at.toISOString();
+
+    // Backfilled activity can also join a session on its early side
+    const existing = await database.findSessionInWindow(
+      userId,
+      new Date(at.getTime() - idle).toISOString(),
+      new Date(at.getTime() + idle).toISOString()
+    );
+
+    if (!existing) {
+      // Backfilled activity before the latest session doesn't close it
+      const [latest] = await database.getSessions(userId, { limit: 1 });
+      const closed = latest && latest.endTime < timestamp ? latest : null;
+
+      const session = await database.createSession({
+        userId,
+        startTime: timestamp,
+        endTime: timestamp,
+        totalXp: xp,
+        activityCount: 1,
+        duration: 0
+      });
+      return { session: this.withStatus(session), started: true, closed };
+    }
+
+    const startTime = timestamp < existing.startTime ? timestamp : existing.startTime;
+    const endTime = timestamp > existing.endTime ? timestamp : existing.endTime;
+    const updated = await database.updateSession(existing.id, {
+      startTime,
+      endTime,
+      totalXp: existing.totalXp + xp,
+      activityCount: existing.activityCount + 1,
+      duration: Math.round((Date.parse(endTime) - Date.parse(startTime)) / 1000)
+    });
+
+    return { session: this.withStatus(updated ?? existing), started: false, closed: null };
+  }
+
+  /**
+   * The session new activity would join, null after the idle timeout
+   */
+  async getCurrentSession(userId: string, now: Date = new Date()): Promise<Session | null> {
+    const since = new Date(now.getTime() - this.getIdleTimeout() * MINUTE).toISOString();
+    const [session] = await database.getSessions(userId, { since, limit: 1 });
+    return session ? this.withStatus(session, now) : null;
+  }
+
+  /**
+   * Most recent sessions first
+   */
+  async getRecentSessions(userId: string, limit: number, now: Date = new Date()): Promise<Session[]> {
+    const sessions = await database.getSessions(userId, { limit });
+    return sessions.map(session => this.withStatus(session, now));
+  }
+
+  async getSession(id: string, now: Date = new Date()): Promise<Session | null> {
+    const session = await database.getSession(id);
+    return session ? this.withStatus(session, now) : null;
+  }
+
+  async getActivities(sessionId: string): Promise<Activity[]> {
+    return database.getSessionActivities(sessionId);
+  }
+
+  /**
+   * Split a session into equal slices and count the activity in each
+   */
+  buildTimeline(session: SessionRecord, activities: Activity[], slots: number): SessionTimelineSlot[] {
+    const start = Date.parse(session.startTime);
+    const span = Math.max(Date.parse(session.endTime) - start, 1);
+    const timeline: SessionTimelineSlot[] = Array.from({ length: slots }, (_, i) => ({
+      start: new Date(start + (span * i) / slots).toISOString(),
+      activityCount: 0,
+      xp: 0
+    }));
+
+    for (const activity of activities) {
+      const index = Math.min(Math.floor(((Date.parse(activity.timestamp) - start) / span) * slots), slots - 1);
+      const slot = timeline[Math.max(index, 0)];
+      if (slot) {
+        slot.activityCount++;
+        slot.xp += activity.xpEarned;
+      }
+    }
+
+    return timeline;
+  }
+
+  /**
+   * Minutes without activity before a session ends
+   */
+  getIdleTimeout(): number {
+    return defaultConfigManager.getConfig().sessions.idleTimeout;
+  }
+
+  private withStatus(session: SessionRecord, now: Date = new Date()): Session {
+    const idleFor = now.getTime() - Date.parse(session.endTime);
+    return { ...session, isActive: idleFor <= this.getIdleTimeout() * MINUTE };
+  }
+}
+
+// Export singleton instance
+export const sessionManager = new SessionManager();
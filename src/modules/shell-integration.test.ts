@@ -0,0 +1,154 @@
+/**
+ * Tests for the generated shell integration scripts
+ */
+
+import { describe, test, expect, beforeAll } from '@jest/globals';
+import { execFile, execFileSync } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as path from 'path';
+import { useTempHome } from '../test-utils/temp-home';
+
+type ShellIntegrationModule = typeof import('./shell-integration');
+type DaemonModule = typeof import('./daemon');
+
+const execFileAsync = promisify(execFile);
+
+describe('ShellIntegration', () => {
+  const testDir = useTempHome('shell');
+  let ShellIntegration: ShellIntegrationModule['ShellIntegration'];
+  let getDaemonSocketPath: DaemonModule['getDaemonSocketPath'];
+
+  beforeAll(async () => {
+    ({ ShellIntegration } = await import('./shell-integration'));
+    ({ getDaemonSocketPath } = await import('./daemon'));
+  });
+
+  test('should generate scripts with the same filtering for every shell', () => {
+    const integration = new ShellIntegration();
+    integration.setProductiveCommands(['npm', 'cargo']);
+    integration.setIgnoredCommands(['ls', '[']);
+
+    for (const shell of ['zsh', 'bash', 'fish'] as const) {
+      const script = integration.generateScript(shell);
+      expect(script).toContain('__devxp_track_command');
+      expect(script).toContain('devxp track-command');
+      expect(script).toContain('\'npm\' \'cargo\'');
+      expect(script).toContain('\'ls\' \'[\'');
+      expect(script).toContain('devxp-privacy');
+    }
+
+    const bash = integration.generateScript('bash');
+    expect(bash).toContain('PROMPT_COMMAND="__devxp_precmd"');
+    expect(bash).toContain('"${PROMPT_COMMAND:-}"');
+    expect(bash).toContain('preexec_functions+=(__devxp_preexec)');
+
+    const fish = integration.generateScript('fish');
+    expect(fish).toContain('--on-event fish_postexec');
+    expect(fish).toContain('$CMD_DURATION');
+  });
+
+  test('should generate valid bash', async () => {
+    const file = path.join(testDir, 'integration.bash');
+    await fs.writeFile(file, new ShellIntegration().generateScript('bash'));
+    expect(() => execFileSync('bash', ['-n', file])).not.toThrow();
+  });
+
+  test('should send bash commands to the daemon socket, and track them directly without it', async () => {
+    const integration = new ShellIntegration();
+    integration.setProductiveCommands(['npm']);
+    const script = path.join(testDir, 'daemon.bash');
+    await fs.writeFile(script, integration.generateScript('bash'));
+
+    // Stand-ins for nc, which needn't be installed, and for devxp itself
+    const bin = path.join(testDir, 'bin');
+    const tracked = path.join(testDir, 'tracked');
+    await fs.mkdir(bin, { recursive: true });
+    await fs.writeFile(path.join(bin, 'nc'), [
+      `#!${process.execPath}`,
+      'const socket = require(\'net\').createConnection(process.argv[process.argv.indexOf(\'-U\') + 1]);',
+      'process.stdin.pipe(socket);',
+      'socket.resume();',
+      'socket.on(\'error\', () => process.exit(1));'
+    ].join('\n'), { mode: 0o755 });
+    await fs.writeFile(path.join(bin, 'devxp'), `#!/bin/sh\necho "$@" > '${tracked}'\n`, { mode: 0o755 });
+
+    const runCommand = () => execFileAsync('bash', ['-c', `source '${script}'; __devxp_track_command 'npm test' 1 2.5`], {
+      cwd: testDir,
+      env: { ...process.env, PATH: `${bin}:${process.env['PATH']}` }
+    });
+
+    const received: string[] = [];
+    const server = net.createServer(socket => {
+      socket.setEncoding('utf-8');
+      socket.on('data', (chunk: string) => received.push(chunk));
+    });
+    await fs.mkdir(path.dirname(getDaemonSocketPath()), { recursive: true });
+    await new Promise<void>(resolve => server.listen(getDaemonSocketPath(), resolve));
+    try {
+      await runCommand();
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+
+    expect(received.join('').split('\n').filter(Boolean).map(line => JSON.parse(line))).toEqual([
+      { type: 'command', command: 'npm', exitCode: '1', duration: '2.5', cwd: testDir }
+    ]);
+    await expect(fs.access(tracked)).rejects.toThrow();
+
+    // Without a daemon the command is tracked in the background
+    await runCommand();
+    for (let i = 0; i < 50 && !(await fs.access(tracked).then(() => true, () => false)); i++) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    expect(await fs.readFile(tracked, 'utf8')).toBe('track-command npm 1 2.5\n');
+  });
+
+  test('should send fish commands to the daemon socket with nc or socat', () => {
+    const fish = new ShellIntegration().generateScript('fish');
+    expect(fish).toContain('__devxp_send_to_daemon $base_cmd $exit_code $duration; and return');
+    expect(fish).toContain(`set -l socket '${getDaemonSocketPath()}'`);
+    expect(fish).toContain('nc -N -w 1 -U $socket');
+    expect(fish).toContain('socat -t 1 - UNIX-CONNECT:$socket');
+  });
+
+  test('should add and remove the source line without touching other lines', async () => {
+    const integration = new ShellIntegration();
+    const rcFile = integration.getRcFile('fish');
+    expect(rcFile).toBe(path.join(testDir, '.config', 'fish', 'config.fish'));
+
+    await integration.initialize('fish');
+    expect(await integration.addToRcFile('fish')).toBe(true);
+    expect(await integration.addToRcFile('fish')).toBe(false);
+    await fs.appendFile(rcFile, 'set -gx EDITOR vim\n');
+    expect(await integration.isInstalled('fish')).toBe(true);
+    expect(await integration.isInstalled('bash')).toBe(false);
+
+    expect(await integration.uninstall('fish')).toBe(true);
+    expect(await fs.readFile(rcFile, 'utf8')).toBe('\nset -gx EDITOR vim\n');
+    await expect(fs.access(integration.getIntegrationFile('fish'))).rejects.toThrow();
+  });
+
+  test('should remove the inline blocks written by older installs', async () => {
+    const integration = new ShellIntegration();
+    const rcFile = integration.getRcFile('bash');
+    await fs.writeFile(rcFile, [
+      'export PATH="$HOME/bin:$PATH"',
+      '',
+      '# DevXP Shell Integration',
+      'if command -v devxp &> /dev/null; then',
+      '  export PROMPT_COMMAND=\'devxp track --type command --auto &> /dev/null &\'',
+      '  ',
+      '  function cd() {',
+      '    builtin cd "$@"',
+      '  }',
+      'fi',
+      'alias ll="ls -l"',
+      ''
+    ].join('\n'));
+
+    expect(await integration.removeFromRcFile('bash')).toBe(true);
+    expect(await fs.readFile(rcFile, 'utf8')).toBe('export PATH="$HOME/bin:$PATH"\n\nalias ll="ls -l"\n');
+  });
+});
@@ -2,7 +2,11 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { homedir } from 'os';
 import { EventEmitter } from 'events';
-import { x } from 'tinyexec';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { getDaemonSocketPath } from './daemon';
+
+const execFileAsync = promisify(execFile);
 
 interface ShellIntegrationConfig {
   enabled: boolean;
@@ -12,16 +16,32 @@ interface ShellIntegrationConfig {
   ignoredCommands: string[];
 }
 
+/**
+ * Shells with a generated integration script
+ */
+export type ShellType = 'zsh' | 'bash' | 'fish';
+
+export const SHELL_TYPES: ShellType[] = ['zsh', 'bash', 'fish'];
+
+// Marks the lines added to the shell's startup file
+const RC_MARKER = '# DevXP Shell Integration';
+
+/**
+ * The user's login shell, undefined when it is not supported
+ */
+export function detectShell(): ShellType | undefined {
+  const shell = path.basename(process.env['SHELL'] ?? '');
+  return SHELL_TYPES.find(type => shell === type || shell.startsWith(`${type}-`));
+}
+
 export class ShellIntegration extends EventEmitter {
   private config: ShellIntegrationConfig;
   private configDir: string;
-  private integrationFile: string;
   private lastCommandTime: Map<string, number> = new Map();
 
   constructor() {
     super();
     this.configDir = path.join(homedir(), '.config', 'devxp');
-    this.integrationFile = path.join(this.configDir, 'shell-integration.zsh');
     
     this.config = {
       enabled: true,
@@ -54,28 +74,71 @@ export class ShellIntegration extends EventEmitter {
     };
   }
 
+  /**
+   * Path of the generated integration script for a shell
+   */
+  getIntegrationFile(shell: ShellType = 'zsh'): string {
+    return path.join(this.configDir, `shell-integration.${shell}`);
+  }
+
+  /**
+   * Startup file that sources the integration script
+   */
+  getRcFile(shell: ShellType = 'zsh'): string {
+    switch (shell) {
+    case 'bash':
+      return path.join(homedir(), '.bashrc');
+    case 'fish':
+      return path.join(homedir(), '.config', 'fish', 'config.fish');
+    default:
+      return path.join(homedir(), '.zshrc');
+    }
+  }
+
   /**
    * Initialize shell integration by creating necessary files and directories
    */
-  async initialize(): Promise<void> {
+  async initialize(shell: ShellType = 'zsh'): Promise<void> {
+    const integrationFile = this.getIntegrationFile(shell);
+
     try {
       // Create config directory if it doesn't exist
       await fs.mkdir(this.configDir, { recursive: true });
       
       // Generate and write the shell integration script
-      const integrationScript = this.generateZshIntegration();
-      await fs.writeFile(this.integrationFile, integrationScript, 'utf8');
+      await fs.writeFile(integrationFile, this.generateScript(shell), 'utf8');
       
       // Make the script readable
-      await fs.chmod(this.integrationFile, 0o644);
+      await fs.chmod(integrationFile, 0o644);
       
-      this.emit('initialized', this.integrationFile);
+      this.emit('initialized', integrationFile);
     } catch (error) {
       this.emit('error', error);
       throw error;
     }
   }
 
+  /**
+   * Generate the integration script for a shell
+   */
+  generateScript(shell: ShellType): string {
+    switch (shell) {
+    case 'bash':
+      return this.generateBashIntegration();
+    case 'fish':
+      return this.generateFishIntegration();
+    default:
+      return this.generateZshIntegration();
+    }
+  }
+
+  /**
+   * Command names as quoted shell words, so entries like `[` stay literal
+   */
+  private quoteWords(commands: string[]): string {
+    return commands.map(command => `'${command.replace(/'/g, '\'\\\'\'')}'`).join(' ');
+  }
+
   /**
    * Generate the zsh integration script
    */
@@ -84,41 +147,7 @@ export class ShellIntegration extends EventEmitter {
 # DevXP Shell Integration for ZSH
 # This file is auto-generated. Do not edit manually.
 
-# Check if DevXP tracking is enabled
-if [[ -z "$DEVXP_DISABLE" ]]; then
-  export DEVXP_ENABLED=1
-else
-  export DEVXP_ENABLED=0
-fi
-
-# Privacy mode toggle
-function devxp-privacy() {
-  if [[ "$1" == "on" ]]; then
-    export DEVXP_PRIVACY=1
-    echo "DevXP privacy mode enabled"
-  elif [[ "$1" == "off" ]]; then
-    unset DEVXP_PRIVACY
-    echo "DevXP privacy mode disabled"
-  else
-    if [[ -n "$DEVXP_PRIVACY" ]]; then
-      echo "DevXP privacy mode is ON"
-    else
-      echo "DevXP privacy mode is OFF"
-    fi
-  fi
-}
-
-# Toggle DevXP tracking
-function devxp-toggle() {
-  if [[ "$DEVXP_ENABLED" == "1" ]]; then
-    export DEVXP_ENABLED=0
-    echo "DevXP tracking disabled"
-  else
-    export DEVXP_ENABLED=1
-    echo "DevXP tracking enabled"
-  fi
-}
-
+${this.generateSharedFunctions()}
 # Command tracking function
 function __devxp_track_command() {
   local cmd="$1"
@@ -136,13 +165,13 @@ function __devxp_track_command() {
   local base_cmd="\${cmd%% *}"
   
   # Skip ignored commands
-  local ignored_commands=(${this.config.ignoredCommands.join(' ')})
+  local ignored_commands=(${this.quoteWords(this.config.ignoredCommands)})
   for ignored in $ignored_commands; do
     [[ "$base_cmd" == "$ignored" ]] && return
   done
   
   # Check if it's a productive command
-  local productive_commands=(${this.config.productiveCommands.join(' ')})
+  local productive_commands=(${this.quoteWords(this.config.productiveCommands)})
   local is_productive=0
   for productive in $productive_commands; do
     if [[ "$base_cmd" == "$productive" ]]; then
@@ -153,13 +182,28 @@ function __devxp_track_command() {
   
   # Only track productive commands
   if [[ "$is_productive" == "1" ]]; then
-    # Send tracking data to DevXP daemon (if running)
+    # Hand the command to the DevXP daemon, or record it directly when it is down
+    __devxp_send_to_daemon "$base_cmd" "$exit_code" "$duration" && return
     if command -v devxp &> /dev/null; then
       devxp track-command "$base_cmd" "$exit_code" "$duration" &> /dev/null &
     fi
   fi
 }
 
+# Write a command to the daemon socket without starting a process
+function __devxp_send_to_daemon() {
+  local socket="${getDaemonSocketPath().replace(/["\\$`]/g, '\\$&')}"
+  [[ -S "$socket" ]] || return 1
+  zmodload zsh/net/socket 2> /dev/null || return 1
+  zsocket "$socket" 2> /dev/null || return 1
+
+  local fd=$REPLY
+  local dir="\${PWD//\\\\/\\\\\\\\}"
+  dir="\${dir//\\"/\\\\\\"}"
+  print -r -- "{\\"type\\":\\"command\\",\\"command\\":\\"$1\\",\\"exitCode\\":\\"$2\\",\\"duration\\":\\"$3\\",\\"cwd\\":\\"$dir\\"}" >&$fd
+  exec {fd}>&-
+}
+
 # Hook into preexec and precmd for command tracking
 if [[ -n "$ZSH_VERSION" ]]; then
   # Store command start time
@@ -190,8 +234,9 @@ if [[ -n "$ZSH_VERSION" ]]; then
 fi
 
 # Helpful aliases
-alias devxp-status='devxp status 2>/dev/null || echo "DevXP daemon not running"'
-alias devxp-stats='devxp stats 2>/dev/null || echo "DevXP daemon not running"'
+alias devxp-status='devxp status'
+alias devxp-stats='devxp stats'
+alias devxp-daemon='devxp daemon status'
 
 # Display status on shell startup (can be disabled)
 if [[ "$DEVXP_QUIET" != "1" ]] && [[ "$DEVXP_ENABLED" == "1" ]]; then
@@ -201,31 +246,308 @@ fi
   }
 
   /**
-   * Add source line to user's .zshrc file
+   * Tracking toggles shared by the zsh and bash scripts
    */
-  async addToZshrc(): Promise<boolean> {
+  private generateSharedFunctions(): string {
+    return `# Check if DevXP tracking is enabled
+if [[ -z "$DEVXP_DISABLE" ]]; then
+  export DEVXP_ENABLED=1
+else
+  export DEVXP_ENABLED=0
+fi
+
+# Privacy mode toggle
+function devxp-privacy() {
+  if [[ "$1" == "on" ]]; then
+    export DEVXP_PRIVACY=1
+    echo "DevXP privacy mode enabled"
+  elif [[ "$1" == "off" ]]; then
+    unset DEVXP_PRIVACY
+    echo "DevXP privacy mode disabled"
+  else
+    if [[ -n "$DEVXP_PRIVACY" ]]; then
+      echo "DevXP privacy mode is ON"
+    else
+      echo "DevXP privacy mode is OFF"
+    fi
+  fi
+}
+
+# Toggle DevXP tracking
+function devxp-toggle() {
+  if [[ "$DEVXP_ENABLED" == "1" ]]; then
+    export DEVXP_ENABLED=0
+    echo "DevXP tracking disabled"
+  else
+    export DEVXP_ENABLED=1
+    echo "DevXP tracking enabled"
+  fi
+}
+`;
+  }
+
+  /**
+   * Generate the bash integration script. Commands are captured with the
+   * DEBUG trap, or through bash-preexec when it is loaded, and existing
+   * PROMPT_COMMAND values and DEBUG traps keep running.
+   */
+  private generateBashIntegration(): string {
+    return `#!/usr/bin/env bash
+# DevXP Shell Integration for Bash
+# This file is auto-generated. Do not edit manually.
+
+${this.generateSharedFunctions()}
+# Command tracking function
+function __devxp_track_command() {
+  local cmd="$1"
+  local exit_code="$2"
+  local duration="$3"
+
+  # Skip if disabled or in privacy mode
+  [[ "$DEVXP_ENABLED" != "1" ]] && return
+  [[ -n "$DEVXP_PRIVACY" ]] && return
+
+  # Skip if command is empty
+  [[ -z "$cmd" ]] && return
+
+  # Extract the base command (first word)
+  local base_cmd="\${cmd%% *}"
+
+  # Skip ignored commands
+  local ignored_commands=(${this.quoteWords(this.config.ignoredCommands)})
+  local ignored
+  for ignored in "\${ignored_commands[@]}"; do
+    [[ "$base_cmd" == "$ignored" ]] && return
+  done
+
+  # Only track productive commands
+  local productive_commands=(${this.quoteWords(this.config.productiveCommands)})
+  local productive
+  for productive in "\${productive_commands[@]}"; do
+    if [[ "$base_cmd" == "$productive" ]]; then
+      # Hand the command to the DevXP daemon, or record it directly when it is down
+      __devxp_send_to_daemon "$base_cmd" "$exit_code" "$duration" && return
+      # The subshell keeps job control from announcing the background job
+      if command -v devxp &> /dev/null; then
+        (devxp track-command "$base_cmd" "$exit_code" "$duration" &> /dev/null &)
+      fi
+      return
+    fi
+  done
+}
+
+# Write a command to the daemon socket with nc or socat, as bash cannot
+# open Unix sockets itself
+function __devxp_send_to_daemon() {
+  local socket="${getDaemonSocketPath().replace(/["\\$`]/g, '\\$&')}"
+  [[ -S "$socket" ]] || return 1
+
+  local dir="\${PWD//\\\\/\\\\\\\\}"
+  dir="\${dir//\\"/\\\\\\"}"
+  local line="{\\"type\\":\\"command\\",\\"command\\":\\"$1\\",\\"exitCode\\":\\"$2\\",\\"duration\\":\\"$3\\",\\"cwd\\":\\"$dir\\"}"
+  if command -v nc &> /dev/null; then
+    printf '%s\\n' "$line" | nc -N -w 1 -U "$socket" &> /dev/null && return
+  fi
+  if command -v socat &> /dev/null; then
+    printf '%s\\n' "$line" | socat -t 1 - "UNIX-CONNECT:$socket" &> /dev/null && return
+  fi
+  return 1
+}
+
+# Store the command and its start time in microseconds
+# (whole seconds before bash 5, which has no EPOCHREALTIME)
+function __devxp_preexec() {
+  __devxp_cmd_start_time="\${EPOCHREALTIME:-$SECONDS.000000}"
+  __devxp_cmd_start_time="\${__devxp_cmd_start_time/[.,]/}"
+  __devxp_current_cmd="$1"
+}
+
+# Calculate duration and track command, keeping its exit status
+function __devxp_precmd() {
+  local exit_code=$?
+  unset __devxp_at_prompt
+  if [[ -n "$__devxp_cmd_start_time" ]]; then
+    local end_time="\${EPOCHREALTIME:-$SECONDS.000000}"
+    local elapsed=$(( 10#\${end_time/[.,]/} - 10#$__devxp_cmd_start_time ))
+    local duration
+    printf -v duration '%d.%06d' $(( elapsed / 1000000 )) $(( elapsed % 1000000 ))
+    __devxp_track_command "$__devxp_current_cmd" "$exit_code" "$duration"
+    unset __devxp_cmd_start_time
+    unset __devxp_current_cmd
+  fi
+  return $exit_code
+}
+
+# Only the first command run from the prompt is tracked
+function __devxp_debug_trap() {
+  [[ -n "$__devxp_at_prompt" ]] || return 0
+  [[ "$BASH_COMMAND" == "__devxp_precmd" ]] && return 0
+  unset __devxp_at_prompt
+  __devxp_preexec "$BASH_COMMAND"
+}
+
+# Add hooks if not already added, in interactive shells only
+if [[ $- == *i* ]] && [[ -z "$__devxp_hooks_installed" ]]; then
+  if [[ -n "\${bash_preexec_imported:-}" ]]; then
+    # bash-preexec owns the DEBUG trap, register with it instead
+    preexec_functions+=(__devxp_preexec)
+    precmd_functions=(__devxp_precmd "\${precmd_functions[@]}")
+  else
+    # Sourced files cannot see an existing DEBUG trap, so the first prompt
+    # installs ours and chains the existing one after it
+    __devxp_install_trap='eval "__devxp_previous_trap=($(trap -p DEBUG))"; trap "__devxp_debug_trap; \${__devxp_previous_trap[2]:-}" DEBUG; unset __devxp_previous_trap __devxp_install_trap'
+
+    # Run first to see the exit status, and mark the prompt last
+    PROMPT_COMMAND="__devxp_precmd"$'\\n'"\${PROMPT_COMMAND:-}"$'\\n''eval "\${__devxp_install_trap:-}"'$'\\n'"__devxp_at_prompt=1"
+  fi
+  __devxp_hooks_installed=1
+fi
+
+# Helpful aliases
+alias devxp-status='devxp status'
+alias devxp-stats='devxp stats'
+alias devxp-daemon='devxp daemon status'
+
+# Display status on shell startup (can be disabled)
+if [[ $- == *i* ]] && [[ "$DEVXP_QUIET" != "1" ]] && [[ "$DEVXP_ENABLED" == "1" ]]; then
+  echo "DevXP tracking enabled (use 'devxp-toggle' to disable, 'devxp-privacy on' for privacy mode)"
+fi
+`;
+  }
+
+  /**
+   * Generate the fish integration script
+   */
+  private generateFishIntegration(): string {
+    return `# DevXP Shell Integration for Fish
+# This file is auto-generated. Do not edit manually.
+
+# Check if DevXP tracking is enabled
+if set -q DEVXP_DISABLE
+  set -gx DEVXP_ENABLED 0
+else
+  set -gx DEVXP_ENABLED 1
+end
+
+# Privacy mode toggle
+function devxp-privacy
+  switch "$argv[1]"
+    case on
+      set -gx DEVXP_PRIVACY 1
+      echo "DevXP privacy mode enabled"
+    case off
+      set -e DEVXP_PRIVACY
+      echo "DevXP privacy mode disabled"
+    case '*'
+      if set -q DEVXP_PRIVACY
+        echo "DevXP privacy mode is ON"
+      else
+        echo "DevXP privacy mode is OFF"
+      end
+  end
+end
+
+# Toggle DevXP tracking
+function devxp-toggle
+  if test "$DEVXP_ENABLED" = 1
+    set -gx DEVXP_ENABLED 0
+    echo "DevXP tracking disabled"
+  else
+    set -gx DEVXP_ENABLED 1
+    echo "DevXP tracking enabled"
+  end
+end
+
+# Command tracking function
+function __devxp_track_command --argument-names cmd exit_code duration
+  # Skip if disabled or in privacy mode
+  test "$DEVXP_ENABLED" = 1; or return
+  set -q DEVXP_PRIVACY; and return
+
+  # Skip if command is empty
+  test -n "$cmd"; or return
+
+  # Extract the base command (first word)
+  set -l base_cmd (string match -r -- '\\S+' "$cmd")
+  test -n "$base_cmd"; or return
+
+  # Skip ignored commands
+  contains -- $base_cmd ${this.quoteWords(this.config.ignoredCommands)}; and return
+
+  # Only track productive commands
+  contains -- $base_cmd ${this.quoteWords(this.config.productiveCommands)}; or return
+
+  # Hand the command to the DevXP daemon, or record it directly when it is down
+  __devxp_send_to_daemon $base_cmd $exit_code $duration; and return
+  if command -q devxp
+    devxp track-command $base_cmd $exit_code $duration &> /dev/null &
+    disown 2> /dev/null
+  end
+end
+
+# Write a command to the daemon socket with nc or socat, as fish cannot
+# open Unix sockets itself
+function __devxp_send_to_daemon --argument-names cmd exit_code duration
+  set -l socket '${getDaemonSocketPath().replace(/['\\]/g, '\\$&')}'
+  test -S $socket; or return 1
+
+  set -l dir (string replace -a -- '\\\\' '\\\\\\\\' $PWD | string replace -a -- '"' '\\"')
+  set -l line "{\\"type\\":\\"command\\",\\"command\\":\\"$cmd\\",\\"exitCode\\":\\"$exit_code\\",\\"duration\\":\\"$duration\\",\\"cwd\\":\\"$dir\\"}"
+  if command -q nc
+    printf '%s\\n' $line | nc -N -w 1 -U $socket &> /dev/null; and return
+  end
+  if command -q socat
+    printf '%s\\n' $line | socat -t 1 - UNIX-CONNECT:$socket &> /dev/null; and return
+  end
+  return 1
+end
+
+# Track each command once it finishes; CMD_DURATION is in milliseconds
+function __devxp_postexec --on-event fish_postexec
+  set -l exit_code $status
+  __devxp_track_command "$argv[1]" $exit_code (math "$CMD_DURATION / 1000")
+end
+
+# Helpful aliases
+alias devxp-status 'devxp status'
+alias devxp-stats 'devxp stats'
+alias devxp-daemon 'devxp daemon status'
+
+# Display status on shell startup (can be disabled)
+if status is-interactive; and test "$DEVXP_QUIET" != 1; and test "$DEVXP_ENABLED" = 1
+  echo "DevXP tracking enabled (use 'devxp-toggle' to disable, 'devxp-privacy on' for privacy mode)"
+end
+`;
+  }
+
+  /**
+   * Add a line sourcing the integration script to the shell's startup file
+   */
+  async addToRcFile(shell: ShellType = 'zsh'): Promise<boolean> {
     try {
-      const zshrcPath = path.join(homedir(), '.zshrc');
-      const sourceLine = `\n# DevXP Shell Integration\nsource "${this.integrationFile}"\n`;
+      const rcPath = this.getRcFile(shell);
+      const integrationFile = this.getIntegrationFile(shell);
+      const sourceLine = `\n${RC_MARKER}\nsource "${integrationFile}"\n`;
       
-      // Check if .zshrc exists
-      let zshrcContent = '';
+      // Check if the startup file exists
+      let rcContent = '';
       try {
-        zshrcContent = await fs.readFile(zshrcPath, 'utf8');
+        rcContent = await fs.readFile(rcPath, 'utf8');
       } catch (error: any) {
         if (error.code !== 'ENOENT') throw error;
-        // .zshrc doesn't exist, we'll create it
+        // The startup file doesn't exist, we'll create it
       }
       
       // Check if already sourced
-      if (zshrcContent.includes(this.integrationFile)) {
-        this.emit('info', 'Shell integration already added to .zshrc');
+      if (rcContent.includes(integrationFile)) {
+        this.emit('info', `Shell integration already added to ${path.basename(rcPath)}`);
         return false;
       }
       
       // Add source line
-      await fs.appendFile(zshrcPath, sourceLine, 'utf8');
-      this.emit('added-to-zshrc', zshrcPath);
+      await fs.mkdir(path.dirname(rcPath), { recursive: true });
+      await fs.appendFile(rcPath, sourceLine, 'utf8');
+      this.emit('added-to-rc', rcPath);
       return true;
     } catch (error) {
       this.emit('error', error);
@@ -234,44 +556,55 @@ fi
   }
 
   /**
-   * Remove shell integration from .zshrc
+   * Remove shell integration from the shell's startup file, including the
+   * inline blocks written by older versions of `devxp install`
    */
-  async removeFromZshrc(): Promise<boolean> {
+  async removeFromRcFile(shell: ShellType = 'zsh'): Promise<boolean> {
     try {
-      const zshrcPath = path.join(homedir(), '.zshrc');
+      const rcPath = this.getRcFile(shell);
       
-      // Read .zshrc
-      let zshrcContent = '';
+      // Read the startup file
+      let rcContent = '';
       try {
-        zshrcContent = await fs.readFile(zshrcPath, 'utf8');
+        rcContent = await fs.readFile(rcPath, 'utf8');
       } catch (error: any) {
         if (error.code === 'ENOENT') {
-          return false; // .zshrc doesn't exist
+          return false; // The startup file doesn't exist
         }
         throw error;
       }
       
       // Remove DevXP integration lines
-      const lines = zshrcContent.split('\n');
+      const lines = rcContent.split('\n');
       const filteredLines = [];
       let skipNext = false;
+      let inLegacyBlock = false;
       
       for (const line of lines) {
-        if (line.includes('# DevXP Shell Integration')) {
+        if (line.includes(RC_MARKER)) {
           skipNext = true;
           continue;
         }
-        if (skipNext && line.includes(this.integrationFile)) {
+        if (skipNext && line.includes(this.getIntegrationFile(shell))) {
           skipNext = false;
           continue;
         }
+        if (skipNext && line.startsWith('if command -v devxp')) {
+          inLegacyBlock = true;
+        }
+        skipNext = false;
+        if (inLegacyBlock) {
+          // Legacy blocks are a single top-level if statement
+          inLegacyBlock = line !== 'fi' && line !== 'end';
+          continue;
+        }
         filteredLines.push(line);
       }
       
       const newContent = filteredLines.join('\n');
-      if (newContent !== zshrcContent) {
-        await fs.writeFile(zshrcPath, newContent, 'utf8');
-        this.emit('removed-from-zshrc', zshrcPath);
+      if (newContent !== rcContent) {
+        await fs.writeFile(rcPath, newContent, 'utf8');
+        this.emit('removed-from-rc', rcPath);
         return true;
       }
       
@@ -365,29 +698,29 @@ fi
   /**
    * Check if shell integration is installed
    */
-  async isInstalled(): Promise<boolean> {
+  async isInstalled(shell: ShellType = 'zsh'): Promise<boolean> {
     try {
-      await fs.access(this.integrationFile);
-      const zshrcPath = path.join(homedir(), '.zshrc');
-      const zshrcContent = await fs.readFile(zshrcPath, 'utf8');
-      return zshrcContent.includes(this.integrationFile);
+      const integrationFile = this.getIntegrationFile(shell);
+      await fs.access(integrationFile);
+      const rcContent = await fs.readFile(this.getRcFile(shell), 'utf8');
+      return rcContent.includes(integrationFile);
     } catch {
       return false;
     }
   }
 
   /**
-   * Uninstall shell integration
+   * Uninstall shell integration, returning whether the startup file changed
    */
-  async uninstall(): Promise<void> {
+  async uninstall(shell: ShellType = 'zsh'): Promise<boolean> {
     try {
-      // Remove from .zshrc
-      await this.removeFromZshrc();
+      // Remove from the startup file
+      const removed = await this.removeFromRcFile(shell);
       
       // Remove integration file
       try {
-        await fs.unlink(this.integrationFile);
-        this.emit('uninstalled', this.integrationFile);
+        await fs.unlink(this.getIntegrationFile(shell));
+        this.emit('uninstalled', this.getIntegrationFile(shell));
       } catch (error: any) {
         if (error.code !== 'ENOENT') throw error;
       }
@@ -398,6 +731,8 @@ fi
       } catch {
         // Directory not empty or doesn't exist, ignore
       }
+
+      return removed;
     } catch (error) {
       this.emit('error', error);
       throw error;
@@ -405,18 +740,22 @@ fi
   }
 
   /**
-   * Test shell integration by running a test command
+   * Test shell integration by sourcing it in the shell
    */
-  async test(): Promise<boolean> {
+  async test(shell: ShellType = 'zsh'): Promise<boolean> {
+    const integrationFile = this.getIntegrationFile(shell);
+
     try {
       // Source the integration file and check if functions are available
-      const testScript = `
-        source "${this.integrationFile}"
-        type __devxp_track_command &>/dev/null && echo "OK"
-      `;
+      const testScript = shell === 'fish'
+        ? `source "${integrationFile}"; and functions -q __devxp_track_command; and echo OK`
+        : `source "${integrationFile}"\ntype __devxp_track_command &>/dev/null && echo OK`;
       
-      const result = await x('zsh', ['-c', testScript]);
-      return result.stdout.trim() === 'OK';
+      const { stdout } = await execFileAsync(shell, ['-c', testScript], {
+        env: { ...process.env, DEVXP_QUIET: '1' },
+        timeout: 5000
+      });
+      return stdout.trim() === 'OK';
     } catch {
       return false;
     }
@@ -430,15 +769,16 @@ export const shellIntegration = new ShellIntegration();
 if (require.main === module) {
   (async () => {
     const integration = new ShellIntegration();
+    const shell = detectShell() ?? 'zsh';
     
     // Set up event listeners
     integration.on('initialized', (file) => {
       console.log(`✅ Shell integration initialized: ${file}`);
     });
     
-    integration.on('added-to-zshrc', (file) => {
-      console.log(`✅ Added to .zshrc: ${file}`);
-      console.log('🔄 Please restart your shell or run: source ~/.zshrc');
+    integration.on('added-to-rc', (file) => {
+      console.log(`✅ Added to ${file}`);
+      console.log(`🔄 Please restart your shell or run: source ${file}`);
     });
     
     integration.on('error', (error) => {
@@ -446,15 +786,15 @@ if (require.main === module) {
     });
     
     // Initialize and install
-    await integration.initialize();
-    const added = await integration.addToZshrc();
+    await integration.initialize(shell);
+    const added = await integration.addToRcFile(shell);
     
     if (!added) {
       console.log('ℹ️  Shell integration was already installed');
     }
     
     // Test the integration
-    const testResult = await integration.test();
+    const testResult = await integration.test(shell);
     console.log(`🧪 Integration test: ${testResult ? 'PASSED' : 'FAILED'}`);
   })();
 }
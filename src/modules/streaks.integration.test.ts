@@ -0,0 +1,150 @@
+/**
+ * Integration tests for timezone-aware streaks and freeze tokens
+ */
+
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import { createTestUser, useTempHome } from '../test-utils/temp-home';
+
+type StreaksModule = typeof import('./streaks');
+type DatabaseModule = typeof import('./database');
+type ConfigModule = typeof import('./config');
+
+describe('StreakManager', () => {
+  useTempHome('streaks');
+  let streakManager: StreaksModule['streakManager'];
+  let database: DatabaseModule['database'];
+  let defaultConfigManager: ConfigModule['defaultConfigManager'];
+  let userId: string;
+
+  // New York is UTC-4 in June, so 20:00 local is midnight UTC
+  const at = (local: string) => new Date(`${local}-04:00`);
+
+  const setStreaks = (settings: Partial<ReturnType<typeof defaultConfigManager.getConfig>['streaks']>) => {
+    defaultConfigManager.set('streaks', {
+      includeWeekends: true,
+      freezeTokenInterval: 7,
+      maxFreezeTokens: 3,
+      ...settings
+    });
+  };
+
+  // Record an activity the way the tracker does
+  const track = async (local: string) => {
+    const timestamp = at(local);
+    await database.createActivity({
+      userId,
+      type: 'code_test',
+      description: 'Tests',
+      xpEarned: 0,
+      timestamp: timestamp.toISOString()
+    });
+    return streakManager.recordActivity(userId, timestamp);
+  };
+
+  const recordDays = async (...days: string[]) => {
+    for (const day of days) {
+      await track(`${day}T12:00:00`);
+    }
+  };
+
+  beforeAll(async () => {
+    ({ streakManager } = await import('./streaks'));
+    ({ database } = await import('./database'));
+    ({ defaultConfigManager } = await import('./config'));
+    defaultConfigManager.set('timezone', 'America/New_York');
+  });
+
+  beforeEach(async () => {
+    await database.initialize();
+    userId = (await createTestUser(database)).id;
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  test('should count days in the configured timezone', async () => {
+    setStreaks({});
+
+    await streakManager.recordActivity(userId, at('2025-06-10T09:00:00'));
+    const sameDay = await streakManager.recordActivity(userId, at('2025-06-10T22:00:00'));
+    // Already the 12th in UTC, still the 11th locally
+    const nextDay = await streakManager.recordActivity(userId, at('2025-06-11T23:30:00'));
+
+    expect(sameDay.counted).toBe(false);
+    expect(nextDay.streak).toMatchObject({ currentStreak: 2, lastStreakDate: '2025-06-11', totalActiveDays: 2 });
+    expect((await database.getUser(userId))?.streak).toBe(2);
+  });
+
+  test('should skip weekends when they are excluded', async () => {
+    setStreaks({ includeWeekends: false });
+    await recordDays('2025-06-13', '2025-06-16');
+    expect((await database.getStreak(userId))?.currentStreak).toBe(2);
+
+    setStreaks({ includeWeekends: true });
+    await recordDays('2025-06-18');
+    expect((await database.getStreak(userId))?.currentStreak).toBe(1);
+  });
+
+  test('should earn freeze tokens and spend them on missed days', async () => {
+    setStreaks({ freezeTokenInterval: 2 });
+    await recordDays('2025-06-09');
+    const second = await track('2025-06-10T12:00:00');
+    const afterGap = await track('2025-06-12T12:00:00');
+
+    expect(second.tokensEarned).toBe(1);
+    expect(afterGap).toMatchObject({ counted: true, freezesUsed: ['2025-06-11'], brokenStreak: 0 });
+    expect(afterGap.streak).toMatchObject({ currentStreak: 3, freezeTokens: 0, lastFreezeUsed: '2025-06-11' });
+
+    const calendar = await streakManager.getCalendar(userId, 1, at('2025-06-12T18:00:00'));
+    expect(calendar.map(day => day.status)).toEqual(['active', 'active', 'frozen', 'active', 'future', 'future', 'future']);
+  });
+
+  test('should start the calendar on the configured week start day', async () => {
+    setStreaks({});
+    await recordDays('2025-06-09');
+
+    defaultConfigManager.set('weekStart', 'sunday');
+    try {
+      const calendar = await streakManager.getCalendar(userId, 1, at('2025-06-12T18:00:00'));
+      expect(calendar.map(day => day.date)).toEqual([
+        '2025-06-08', '2025-06-09', '2025-06-10', '2025-06-11', '2025-06-12', '2025-06-13', '2025-06-14'
+      ]);
+      expect(calendar[1]?.status).toBe('active');
+    } finally {
+      defaultConfigManager.set('weekStart', 'monday');
+    }
+  });
+
+  test('should break the streak when there are not enough tokens', async () => {
+    setStreaks({ freezeTokenInterval: 2 });
+    await recordDays('2025-06-09', '2025-06-10');
+    const update = await streakManager.recordActivity(userId, at('2025-06-13T12:00:00'));
+
+    expect(update.brokenStreak).toBe(2);
+    expect(update.freezesUsed).toEqual([]);
+    expect(update.streak).toMatchObject({ currentStreak: 1, longestStreak: 2, freezeTokens: 1, streakStartDate: '2025-06-13' });
+  });
+
+  test('should report streaks at risk and lost', async () => {
+    setStreaks({});
+    await recordDays('2025-06-09', '2025-06-10');
+
+    expect(await streakManager.getStatus(userId, at('2025-06-10T21:00:00'))).toMatchObject({
+      currentStreak: 2,
+      activeToday: true,
+      atRisk: false,
+      daysUntilNextToken: 5
+    });
+    expect(await streakManager.getStatus(userId, at('2025-06-11T21:00:00'))).toMatchObject({
+      currentStreak: 2,
+      activeToday: false,
+      atRisk: true
+    });
+    expect(await streakManager.getStatus(userId, at('2025-06-12T09:00:00'))).toMatchObject({
+      currentStreak: 0,
+      missedDays: 1,
+      atRisk: false
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Streaks Module
+ * Counts consecutive active days in the user's timezone and spends freeze
+ * tokens to bridge missed days
+ */
+
+import { database, StreakRecord } from './database';
+import { defaultConfigManager, Config } from './config';
+import {
+  resolveTimeZone,
+  toDateKey,
+  shiftDateKey,
+  getDateKeyWeekday,
+  startOfWeek,
+  addDays
+} from '../utils/time';
+
+export type StreakSettings = Config['streaks'];
+
+/**
+ * Outcome of recording an active day
+ */
+export interface StreakUpdate {
+  streak: StreakRecord;
+
+  /** Whether the activity counted a new day */
+  counted: boolean;
+
+  /** Missed days bridged with freeze tokens */
+  freezesUsed: string[];
+
+  /** Freeze tokens earned by reaching a milestone */
+  tokensEarned: number;
+
+  /** Length of the streak lost to missed days, 0 when none was lost */
+  brokenStreak: number;
+}
+
+/**
+ * Current streak outlook for a user
+ */
+export interface StreakStatus {
+  /** Streak length, 0 once missed days exceed the freeze tokens */
+  currentStreak: number;
+  longestStreak: number;
+  totalActiveDays: number;
+  freezeTokens: number;
+  activeToday: boolean;
+
+  /** Missed days since the last active day, each costing a token */
+  missedDays: number;
+
+  /** Whether the streak ends unless the user is active today */
+  atRisk: boolean;
+
+  /** Streak days until the next freeze token, null when at the token limit */
+  daysUntilNextToken: number | null;
+  streakStartDate?: string;
+}
+
+export type StreakDayStatus = 'active' | 'frozen' | 'missed' | 'rest' | 'today' | 'future';
+
+/**
+ * A day in the streak calendar
+ */
+export interface StreakCalendarDay {
+  date: string;
+  weekday: number; // 0 = Sunday
+  status: StreakDayStatus;
+}
+
+/**
+ * Tracks daily streaks and freeze tokens
+ */
+export class StreakManager {
+  /**
+   * Count the local day of an activity towards the streak, bridging missed
+   * days with freeze tokens when there are enough of them
+   */
+  async recordActivity(userId: string, at: Date = new Date()): Promise<StreakUpdate> {
+    const settings = this.getSettings();
+    const today = toDateKey(at, this.getTimeZone());
+    const streak = await this.loadStreak(userId);
+    const update: StreakUpdate = { streak, counted: false, freezesUsed: [], tokensEarned: 0, brokenStreak: 0 };
+
+    // Already counted, or backfilled activity from before the last counted day
+    if (streak.lastStreakDate && today <= streak.lastStreakDate) {
+      return update;
+    }
+
+    let { currentStreak, freezeTokens } = streak;
+    let streakStartDate = streak.streakStartDate;
+    let lastFreezeUsed = streak.lastFreezeUsed;
+
+    const missed = streak.lastStreakDate && currentStreak > 0
+      ? this.getMissedDays(streak.lastStreakDate, today, settings)
+      : [];
+
+    if (currentStreak > 0 && missed.length <= freezeTokens) {
+      currentStreak++;
+      if (missed.length > 0) {
+        freezeTokens -= missed.length;
+        lastFreezeUsed = missed[missed.length - 1];
+        update.freezesUsed = missed;
+      }
+    } else {
+      update.brokenStreak = currentStreak;
+      currentStreak = 1;
+      streakStartDate = today;
+    }
+
+    if (currentStreak % settings.freezeTokenInterval === 0 && freezeTokens < settings.maxFreezeTokens) {
+      freezeTokens++;
+      update.tokensEarned = 1;
+    }
+
+    if (update.freezesUsed.length > 0) {
+      await database.addStreakFreezes(userId, update.freezesUsed, at.toISOString());
+    }
+
+    update.streak = await database.saveStreak({
+      userId,
+      currentStreak,
+      longestStreak: Math.max(streak.longestStreak, currentStreak),
+      lastStreakDate: today,
+      ...(streakStartDate !== undefined ? { streakStartDate } : {}),
+      totalActiveDays: streak.totalActiveDays + 1,
+      freezeTokens,
+      ...(lastFreezeUsed !== undefined ? { lastFreezeUsed } : {})
+    });
+    update.counted = true;
+
+    return update;
+  }
+
+  /**
+   * Work out the streak as it stands now, including days missed since the
+   * last activity that have not been settled yet
+   */
+  async getStatus(userId: string, now: Date = new Date()): Promise<StreakStatus> {
+    const settings = this.getSettings();
+    const today = toDateKey(now, this.getTimeZone());
+    const streak = await this.loadStreak(userId);
+    const activeToday = streak.lastStreakDate === today;
+
+    let currentStreak = streak.currentStreak;
+    let missedDays = 0;
+    if (!activeToday && streak.lastStreakDate && currentStreak > 0) {
+      missedDays = this.getMissedDays(streak.lastStreakDate, today, settings).length;
+      if (missedDays > streak.freezeTokens) {
+        currentStreak = 0;
+      }
+    }
+
+    const atRisk = currentStreak > 0 && !activeToday && this.isRequiredDay(today, settings)
+      && missedDays + 1 > streak.freezeTokens;
+    const daysUntilNextToken = streak.freezeTokens >= settings.maxFreezeTokens
+      ? null
+      : settings.freezeTokenInterval - (currentStreak % settings.freezeTokenInterval);
+
+    return {
+      currentStreak,
+      longestStreak: streak.longestStreak,
+      totalActiveDays: streak.totalActiveDays,
+      freezeTokens: streak.freezeTokens,
+      activeToday,
+      missedDays,
+      atRisk,
+      daysUntilNextToken,
+      ...(currentStreak > 0 && streak.streakStartDate ? { streakStartDate: streak.streakStartDate } : {})
+    };
+  }
+
+  /**
+   * Day-by-day calendar of the last few weeks, starting on the configured
+   * week start day
+   */
+  async getCalendar(userId: string, weeks: number, now: Date = new Date()): Promise<StreakCalendarDay[]> {
+    const settings = this.getSettings();
+    const timeZone = this.getTimeZone();
+    const today = toDateKey(now, timeZone);
+    const start = addDays(startOfWeek(now, timeZone, defaultConfigManager.getConfig().weekStart), -7 * (weeks - 1), timeZone);
+    const startDate = toDateKey(start, timeZone);
+
+    const timestamps = await database.getActivityTimestamps(userId, start.toISOString());
+    const activeDates = new Set(timestamps.map(timestamp => toDateKey(new Date(timestamp), timeZone)));
+    const frozenDates = new Set(await database.getStreakFreezes(userId, startDate));
+
+    const days: StreakCalendarDay[] = [];
+    for (let i = 0; i < weeks * 7; i++) {
+      const date = shiftDateKey(startDate, i);
+      let status: StreakDayStatus;
+
+      if (date > today) {
+        status = 'future';
+      } else if (activeDates.has(date)) {
+        status = 'active';
+      } else if (frozenDates.has(date)) {
+        status = 'frozen';
+      } else if (date === today) {
+        status = 'today';
+      } else if (!this.isRequiredDay(date, settings)) {
+        status = 'rest';
+      } else {
+        status = 'missed';
+      }
+
+      days.push({ date, weekday: getDateKeyWeekday(date), status });
+    }
+
+    return days;
+  }
+
+  /**
+   * Clear the streak, tokens and freeze history
+   */
+  async reset(userId: string): Promise<void> {
+    await database.deleteStreak(userId);
+  }
+
+  // Days strictly between two calendar dates that needed activity
+  private getMissedDays(fromDate: string, toDate: string, settings: StreakSettings): string[] {
+    const missed: string[] = [];
+    for (let date = shiftDateKey(fromDate, 1); date < toDate; date = shiftDateKey(date, 1)) {
+      if (this.isRequiredDay(date, settings)) {
+        missed.push(date);
+      }
+    }
+    return missed;
+  }
+
+  private isRequiredDay(date: string, settings: StreakSettings): boolean {
+    const weekday = getDateKeyWeekday(date);
+    return settings.includeWeekends || (weekday !== 0 && weekday !== 6);
+  }
+
+  private async loadStreak(userId: string): Promise<StreakRecord> {
+    const streak = await database.getStreak(userId);
+    if (streak) return streak;
+
+    const user = await database.getUser(userId);
+    return {
+      userId,
+      currentStreak: 0,
+      longestStreak: user?.longestStreak ?? 0,
+      totalActiveDays: 0,
+      freezeTokens: 0,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private getSettings(): StreakSettings {
+    return defaultConfigManager.getConfig().streaks;
+  }
+
+  private getTimeZone(): string {
+    return resolveTimeZone(defaultConfigManager.getConfig().timezone);
+  }
+}
+
+// Export singleton instance
+export const streakManager = new StreakManager();
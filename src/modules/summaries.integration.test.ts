@@ -0,0 +1,185 @@
+/**
+ * Integration tests for date-range statistics and summaries
+ */
+
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import { createTestUser, useTempHome } from '../test-utils/temp-home';
+
+type SummariesModule = typeof import('./summaries');
+type DatabaseModule = typeof import('./database');
+type ConfigModule = typeof import('./config');
+
+describe('SummaryBuilder', () => {
+  useTempHome('summaries');
+  let summaryBuilder: SummariesModule['summaryBuilder'];
+  let database: DatabaseModule['database'];
+  let defaultConfigManager: ConfigModule['defaultConfigManager'];
+
+  const timeZone = 'Europe/Oslo';
+
+  const createUser = (totalXp: number = 0) => createTestUser(database, { totalXp });
+
+  const activity = (type: string, xpEarned: number, timestamp: string) => ({
+    id: `${type}-${timestamp}`,
+    userId: 'user',
+    type,
+    description: type,
+    xpEarned,
+    timestamp,
+    createdAt: timestamp
+  });
+
+  beforeAll(async () => {
+    ({ summaryBuilder } = await import('./summaries'));
+    ({ database } = await import('./database'));
+    ({ defaultConfigManager } = await import('./config'));
+    defaultConfigManager.set('timezone', timeZone);
+  });
+
+  beforeEach(async () => {
+    await database.initialize();
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  test('should filter activities, XP history and stats by date range and type', async () => {
+    const user = await createUser();
+    const record = (type: string, xpEarned: number, timestamp: string) =>
+      database.createActivity({ userId: user.id, type, description: type, xpEarned, timestamp });
+
+    await record('code_test', 10, '2025-06-02T12:00:00.000Z');
+    await record('git_commit', 20, '2025-06-09T12:00:00.000Z');
+    await record('git_commit', 30, '2025-06-16T12:00:00.000Z');
+
+    const week = await database.getActivitiesInRange(user.id, { since: '2025-06-05T00:00:00.000Z', until: '2025-06-16T12:00:00.000Z' });
+    expect(week.map(entry => entry.xpEarned)).toEqual([20]);
+
+    const commits = await database.getActivitiesInRange(user.id, { type: 'git_commit' });
+    expect(commits.map(entry => entry.xpEarned)).toEqual([20, 30]);
+
+    const stats = await database.getUserStats(user.id, { since: '2025-06-01T00:00:00.000Z', until: '2025-06-10T00:00:00.000Z' });
+    expect(stats.totalActivities).toBe(2);
+    expect(stats.xpByActivityType).toEqual({ code_test: 10, git_commit: 20 });
+    expect((await database.getUserStats(user.id, { type: 'git_commit' })).totalActivities).toBe(2);
+
+    const commitXp = await database.getXpHistoryInRange(user.id, { type: 'git_commit' });
+    expect(commitXp.map(entry => entry.xpChange)).toEqual([20, 30]);
+
+    await database.addXpHistory({
+      userId: user.id,
+      xpChange: 50,
+      reason: 'Achievement',
+      timestamp: '2025-06-20T10:00:00.000Z',
+      balance: 110,
+      eventType: 'achievement'
+    });
+    const june = await database.getXpHistoryInRange(user.id, { since: '2025-06-01T00:00:00.000Z', until: '2025-07-01T00:00:00.000Z' });
+    expect(june.map(entry => [entry.xpChange, entry.eventType])).toEqual([[50, 'achievement']]);
+  });
+
+  test('should summarize activities by type and category', () => {
+    const period = { start: new Date('2025-06-01T00:00:00Z'), end: new Date('2025-07-01T00:00:00Z') };
+    const summary = summaryBuilder.buildActivitySummary([
+      activity('git_commit', 20, '2025-06-02T09:00:00Z'),
+      activity('git_push', 5, '2025-06-02T10:00:00Z'),
+      activity('git_commit', 25, '2025-06-03T09:00:00Z'),
+      activity('code_test', 10, '2025-06-03T11:00:00Z'),
+      activity('pr-review', 15, '2025-06-04T11:00:00Z')
+    ], period);
+
+    expect(summary).toMatchObject({
+      totalCount: 5,
+      totalXP: 75,
+      byType: { git_commit: 2, git_push: 1, code_test: 1, 'pr-review': 1 },
+      mostCommon: 'git_commit',
+      averageXP: 15,
+      period
+    });
+    expect(summary.byCategory).toMatchObject({ version_control: 3, development: 1, collaboration: 0 });
+  });
+
+  test('should break XP down by local day and count level-ups', async () => {
+    const levelTwo = defaultConfigManager.getTotalXPForLevel(2);
+    const user = await createUser(levelTwo + 10);
+    const period = { start: new Date('2025-06-01T00:00:00Z'), end: new Date('2025-07-01T00:00:00Z') };
+    const event = (id: string, xpChange: number, balance: number, timestamp: string, eventType: string = 'activity') =>
+      ({ id, userId: user.id, xpChange, reason: id, timestamp, balance, eventType });
+
+    const summary = summaryBuilder.buildXPSummary(user, [
+      // 23:30 UTC is already the next day in Oslo
+      event('a', 20, levelTwo - 20, '2025-06-02T23:30:00Z'),
+      event('b', 30, levelTwo + 10, '2025-06-03T08:00:00Z', 'achievement'),
+      event('c', -5, levelTwo + 5, '2025-06-05T12:00:00Z', 'decay')
+    ], [activity('git_commit', 20, '2025-06-02T23:30:00Z')], period, timeZone);
+
+    expect(summary).toMatchObject({
+      totalXP: 45,
+      eventCount: 3,
+      averageXP: 15,
+      levelUps: 1,
+      currentLevel: 2,
+      currentLevelXP: 10,
+      highestGain: { amount: 30, eventId: 'b' },
+      byActivity: { git_commit: 20 }
+    });
+    expect(summary.byType).toMatchObject({ activity: 20, achievement: 30, decay: -5, bonus: 0 });
+    expect(summary.dailyBreakdown.map(day => [day.date.toISOString(), day.totalXP, day.eventCount, day.peakHour, day.streakMaintained])).toEqual([
+      ['2025-06-02T22:00:00.000Z', 50, 2, 10, true],
+      ['2025-06-04T22:00:00.000Z', -5, 1, 14, false]
+    ]);
+  });
+
+  test('should collect daily XP for a heatmap over whole local weeks', async () => {
+    const user = await createUser();
+    const record = (xpEarned: number, timestamp: string) =>
+      database.createActivity({ userId: user.id, type: 'git_commit', description: 'Commit', xpEarned, timestamp });
+
+    await record(5, '2025-05-31T20:00:00.000Z');
+    await record(10, '2025-05-31T23:30:00.000Z');
+    await record(15, '2025-06-02T12:00:00.000Z');
+    await record(20, '2025-06-02T13:00:00.000Z');
+    await record(25, '2025-06-12T21:30:00.000Z');
+    await record(30, '2025-06-12T22:30:00.000Z');
+
+    // Thursday, so two weeks from Sunday start on June 1st
+    const heatmap = await summaryBuilder.getHeatmap(user.id, { today: '2025-06-12', weeks: 2, timeZone, weekStart: 'sunday' });
+    expect(heatmap).toEqual({
+      start: '2025-06-01',
+      end: '2025-06-12',
+      totalXp: 70,
+      activeDays: 3,
+      days: { '2025-06-01': 10, '2025-06-02': 35, '2025-06-12': 25 }
+    });
+
+    const mondays = await summaryBuilder.getHeatmap(user.id, { today: '2025-06-12', weeks: 2, timeZone, weekStart: 'monday' });
+    expect(mondays).toMatchObject({ start: '2025-06-02', totalXp: 60 });
+  });
+
+  test('should compare totals with the previous period', () => {
+    const period = { start: new Date('2025-06-09T00:00:00Z'), end: new Date('2025-06-16T00:00:00Z') };
+    const build = (activities: ReturnType<typeof activity>[]) => ({
+      activities: summaryBuilder.buildActivitySummary(activities, period),
+      xp: summaryBuilder.buildXPSummary(
+        { id: 'user', username: 'user', email: '', displayName: '', totalXp: 0, level: 1, streak: 0, longestStreak: 0, lastActiveDate: '', createdAt: '', updatedAt: '' },
+        activities.map(entry => ({ id: entry.id, userId: 'user', xpChange: entry.xpEarned, reason: '', timestamp: entry.timestamp, balance: 0 })),
+        activities,
+        period,
+        timeZone
+      )
+    });
+
+    const comparison = summaryBuilder.compare(
+      build([activity('git_commit', 30, '2025-06-10T10:00:00Z'), activity('git_commit', 30, '2025-06-11T10:00:00Z')]),
+      build([activity('git_commit', 40, '2025-06-03T10:00:00Z')])
+    );
+
+    expect(comparison).toEqual({
+      activities: { current: 2, previous: 1, change: 1, percent: 100 },
+      xp: { current: 60, previous: 40, change: 20, percent: 50 },
+      averageXP: { current: 30, previous: 40, change: -10, percent: -25 },
+      activeDays: { current: 2, previous: 1, change: 1, percent: 100 }
+    });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Summaries Module
+ * Builds activity and XP summaries for a date range, and compares ranges
+ */
+
+import { Activity, ActivityRangeFilter, database, User, XpHistory } from './database';
+import { defaultConfigManager } from './config';
+import { ActivityCategory, ActivitySummary, ActivityType } from '../types/Activity';
+import { DailyXP, XPEventType, XPSummary } from '../types/XPEvent';
+import { addDays, fromDateKey, getZonedDate, shiftDateKey, startOfWeek, toDateKey, WeekStart } from '../utils/time';
+
+// Activity type prefixes for each category
+const CATEGORY_PREFIXES: Array<[string, ActivityCategory]> = [
+  ['git_', ActivityCategory.VERSION_CONTROL],
+  ['terminal_', ActivityCategory.TERMINAL],
+  ['file_', ActivityCategory.FILE_MANAGEMENT],
+  ['directory_', ActivityCategory.FILE_MANAGEMENT],
+  ['code_', ActivityCategory.DEVELOPMENT],
+  ['package_', ActivityCategory.DEVELOPMENT],
+  ['deploy_', ActivityCategory.DEPLOYMENT],
+  ['docker_', ActivityCategory.INFRASTRUCTURE],
+  ['database_', ActivityCategory.INFRASTRUCTURE],
+  ['documentation_', ActivityCategory.LEARNING],
+  ['tutorial_', ActivityCategory.LEARNING],
+  ['pr_', ActivityCategory.COLLABORATION],
+  ['issue_', ActivityCategory.COLLABORATION]
+];
+
+/**
+ * Category of an activity type, undefined for custom types
+ */
+export function getActivityCategory(type: string): ActivityCategory | undefined {
+  return CATEGORY_PREFIXES.find(([prefix]) => type.startsWith(prefix))?.[1];
+}
+
+/**
+ * A summary period with resolved bounds
+ */
+export interface SummaryPeriod {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * How one total changed from the previous range
+ */
+export interface SummaryChange {
+  current: number;
+  previous: number;
+  change: number;
+
+  /** Relative change in percent, null when the previous value was zero */
+  percent: number | null;
+}
+
+/**
+ * Totals of two ranges side by side
+ */
+export interface SummaryComparison {
+  activities: SummaryChange;
+  xp: SummaryChange;
+  averageXP: SummaryChange;
+  activeDays: SummaryChange;
+}
+
+/**
+ * Daily XP for a calendar heatmap
+ */
+export interface Heatmap {
+  /** First and last local calendar dates (YYYY-MM-DD) covered */
+  start: string;
+  end: string;
+
+  totalXp: number;
+  activeDays: number;
+
+  /** XP by local calendar date, only for days with activity */
+  days: Record<string, number>;
+}
+
+/**
+ * Which weeks a heatmap covers and what it counts
+ */
+export interface HeatmapQuery extends Pick<ActivityRangeFilter, 'type' | 'projectId'> {
+  /** Local calendar date (YYYY-MM-DD) of the last day */
+  today: string;
+  weeks: number;
+  timeZone: string;
+  weekStart: WeekStart;
+}
+
+/**
+ * Builds summaries from the activities and XP history of a range
+ */
+export class SummaryBuilder {
+  /**
+   * Counts and XP of the activities in a period
+   */
+  buildActivitySummary(activities: Activity[], period: SummaryPeriod): ActivitySummary {
+    const byType: Partial<Record<ActivityType, number>> = {};
+    const byCategory = Object.fromEntries(
+      Object.values(ActivityCategory).map(category => [category, 0])
+    ) as Record<ActivityCategory, number>;
+    let totalXP = 0;
+
+    for (const activity of activities) {
+      const type = activity.type as ActivityType;
+      byType[type] = (byType[type] ?? 0) + 1;
+
+      const category = getActivityCategory(activity.type);
+      if (category) {
+        byCategory[category]++;
+      }
+      totalXP += activity.xpEarned;
+    }
+
+    const [mostCommon] = Object.entries(byType).sort(([, a], [, b]) => b - a)[0] ?? [ActivityType.CUSTOM];
+
+    return {
+      totalCount: activities.length,
+      totalXP,
+      // Only the types that occurred are listed
+      byType: byType as Record<ActivityType, number>,
+      byCategory,
+      mostCommon: mostCommon as ActivityType,
+      averageXP: activities.length > 0 ? Math.round(totalXP / activities.length) : 0,
+      period
+    };
+  }
+
+  /**
+   * XP gained in a period from the XP history, with a daily breakdown in
+   * the given timezone. Activities mark the days that kept the streak.
+   */
+  buildXPSummary(
+    user: User,
+    history: XpHistory[],
+    activities: Activity[],
+    period: SummaryPeriod,
+    timeZone: string
+  ): XPSummary {
+    const byType = Object.fromEntries(
+      Object.values(XPEventType).map(type => [type, 0])
+    ) as Record<XPEventType, number>;
+    const byActivity: Partial<Record<ActivityType, number>> = {};
+    const activeDays = new Set(activities.map(activity => toDateKey(new Date(activity.timestamp), timeZone)));
+    const days = new Map<string, { xp: number; events: number; hours: Map<number, number> }>();
+
+    let totalXP = 0;
+    let levelUps = 0;
+    let highest: XpHistory | undefined;
+
+    for (const event of history) {
+      const type = (event.eventType ?? XPEventType.ACTIVITY) as XPEventType;
+      byType[type] = (byType[type] ?? 0) + event.xpChange;
+      totalXP += event.xpChange;
+
+      if (!highest || event.xpChange > highest.xpChange) {
+        highest = event;
+      }
+
+      const levelBefore = defaultConfigManager.getLevelFromXP(Math.max(event.balance - event.xpChange, 0)).level;
+      levelUps += Math.max(defaultConfigManager.getLevelFromXP(event.balance).level - levelBefore, 0);
+
+      const at = new Date(event.timestamp);
+      const key = toDateKey(at, timeZone);
+      const hour = getZonedDate(at, timeZone).hour;
+      const day = days.get(key) ?? { xp: 0, events: 0, hours: new Map<number, number>() };
+      day.xp += event.xpChange;
+      day.events++;
+      day.hours.set(hour, (day.hours.get(hour) ?? 0) + event.xpChange);
+      days.set(key, day);
+    }
+
+    for (const activity of activities) {
+      const type = activity.type as ActivityType;
+      byActivity[type] = (byActivity[type] ?? 0) + activity.xpEarned;
+    }
+
+    const dailyBreakdown: DailyXP[] = Array.from(days.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, day]) => ({
+        date: fromDateKey(key, timeZone),
+        totalXP: day.xp,
+        eventCount: day.events,
+        // Only hours with events count, so a day of losses still has a peak
+        peakHour: Array.from(day.hours.entries()).reduce((peak, entry) => entry[1] > peak[1] ? entry : peak)[0],
+        streakMaintained: activeDays.has(key)
+      }));
+
+    const level = defaultConfigManager.getLevelFromXP(user.totalXp);
+
+    return {
+      userId: user.id,
+      period,
+      totalXP,
+      byType,
+      byActivity,
+      eventCount: history.length,
+      averageXP: history.length > 0 ? Math.round(totalXP / history.length) : 0,
+      highestGain: {
+        amount: highest?.xpChange ?? 0,
+        eventId: highest?.id ?? '',
+        timestamp: highest ? new Date(highest.timestamp) : period.start
+      },
+      levelUps,
+      currentLevel: level.level,
+      currentLevelXP: level.progress,
+      xpToNextLevel: Math.max(level.nextLevelXP - level.progress, 0),
+      dailyBreakdown
+    };
+  }
+
+  /**
+   * XP earned from activities on each local calendar date (YYYY-MM-DD)
+   */
+  getDailyXP(activities: Activity[], timeZone: string): Record<string, number> {
+    const dailyXP: Record<string, number> = {};
+    for (const activity of activities) {
+      const key = toDateKey(new Date(activity.timestamp), timeZone);
+      dailyXP[key] = (dailyXP[key] ?? 0) + activity.xpEarned;
+    }
+    return dailyXP;
+  }
+
+  /**
+   * Activity XP per day over whole weeks, up to and including today
+   */
+  async getHeatmap(userId: string, query: HeatmapQuery): Promise<Heatmap> {
+    const { today, weeks, timeZone, weekStart } = query;
+    const start = addDays(startOfWeek(fromDateKey(today, timeZone), timeZone, weekStart), -7 * (weeks - 1), timeZone);
+
+    const activities = await database.getActivitiesInRange(userId, {
+      ...(query.type ? { type: query.type } : {}),
+      ...(query.projectId ? { projectId: query.projectId } : {}),
+      since: start.toISOString(),
+      until: fromDateKey(shiftDateKey(today, 1), timeZone).toISOString()
+    });
+    const days = this.getDailyXP(activities, timeZone);
+
+    return {
+      start: toDateKey(start, timeZone),
+      end: today,
+      totalXp: activities.reduce((sum, activity) => sum + activity.xpEarned, 0),
+      activeDays: Object.keys(days).length,
+      days
+    };
+  }
+
+  /**
+   * Compare the totals of a period with the previous one
+   */
+  compare(
+    current: { activities: ActivitySummary; xp: XPSummary },
+    previous: { activities: ActivitySummary; xp: XPSummary }
+  ): SummaryComparison {
+    return {
+      activities: this.change(current.activities.totalCount, previous.activities.totalCount),
+      xp: this.change(current.xp.totalXP, previous.xp.totalXP),
+      averageXP: this.change(current.activities.averageXP, previous.activities.averageXP),
+      activeDays: this.change(
+        current.xp.dailyBreakdown.filter(day => day.streakMaintained).length,
+        previous.xp.dailyBreakdown.filter(day => day.streakMaintained).length
+      )
+    };
+  }
+
+  private change(current: number, previous: number): SummaryChange {
+    return {
+      current,
+      previous,
+      change: current - previous,
+      percent: previous !== 0 ? Math.round(((current - previous) / Math.abs(previous)) * 100) : null
+    };
+  }
+}
+
+// Export singleton instance
+export const summaryBuilder = new SummaryBuilder();
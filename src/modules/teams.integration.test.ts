@@ -0,0 +1,120 @@
+/**
+ * Integration tests for teams, roles and the team bonus
+ */
+
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from '@jest/globals';
+import { createTestUser, recordCommit, useTempHome } from '../test-utils/temp-home';
+
+type TeamsModule = typeof import('./teams');
+type DatabaseModule = typeof import('./database');
+
+describe('TeamManager', () => {
+  useTempHome('teams');
+  let teamManager: TeamsModule['teamManager'];
+  let database: DatabaseModule['database'];
+
+  const createUser = (name: string, totalXp: number = 0) => createTestUser(database, { name, totalXp });
+
+  const teamName = (name: string) => `${name}-${Math.random().toString(36).slice(2, 8)}`;
+
+  beforeAll(async () => {
+    ({ teamManager } = await import('./teams'));
+    ({ database } = await import('./database'));
+
+    const { defaultConfigManager } = await import('./config');
+    defaultConfigManager.set('timezone', 'UTC');
+    defaultConfigManager.set('dailyXPGoal', 100);
+    defaultConfigManager.set('teams', { goalMembers: 2, bonusMultiplier: 1.5 });
+  });
+
+  beforeEach(async () => {
+    await database.initialize();
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  test('should manage members and hand over ownership', async () => {
+    const alice = await createUser('alice');
+    const bob = await createUser('bob');
+    const carol = await createUser('carol');
+    const name = teamName('platform');
+
+    const team = await teamManager.create(alice.id, name, 'Platform squad');
+    await teamManager.join(bob.id, name.toUpperCase());
+    await teamManager.join(carol.id, team.id);
+
+    await expect(teamManager.create(bob.id, name)).rejects.toThrow('already exists');
+    await expect(teamManager.join(bob.id, name)).rejects.toThrow('already a member');
+    await expect(teamManager.setRole(bob.id, name, carol.username, 'admin')).rejects.toThrow('Only owners and admins');
+
+    await teamManager.setRole(alice.id, name, carol.username, 'admin');
+    await expect(teamManager.setRole(carol.id, name, bob.username, 'owner')).rejects.toThrow('Only the owner');
+    await expect(teamManager.removeMember(carol.id, name, alice.username)).rejects.toThrow('Only the owner');
+
+    expect((await database.getUser(bob.id))?.currentTeamId).toBe(team.id);
+    const removed = await teamManager.removeMember(carol.id, name, bob.username);
+    expect(removed.userId).toBe(bob.id);
+    expect((await database.getUser(bob.id))?.currentTeamId).toBeUndefined();
+
+    // Changes to other members are audited with who made them
+    const audited = await database.getAuditLog().list({ action: 'team' });
+    expect(audited.map(entry => [entry.action, entry.userId, entry.entityId])).toEqual([
+      ['team.remove', carol.id, bob.id],
+      ['team.role', alice.id, carol.id]
+    ]);
+
+    const left = await teamManager.leave(alice.id, name);
+    expect(left).toMatchObject({ deleted: false, newOwner: { userId: carol.id, role: 'owner' } });
+
+    expect(await teamManager.leave(carol.id, name)).toMatchObject({ deleted: true });
+    expect(await teamManager.find(name)).toBeNull();
+    expect((await database.getUser(carol.id))?.currentTeamId).toBeUndefined();
+  });
+
+  test('should aggregate team XP and rank members', async () => {
+    const alice = await createUser('alice', 300);
+    const bob = await createUser('bob', 500);
+    const outsider = await createUser('outsider', 1000);
+    const name = teamName('ranked');
+
+    const team = await teamManager.create(alice.id, name);
+    await teamManager.join(bob.id, name);
+    await recordCommit(database, alice.id, 40, '2025-06-10T12:00:00.000Z');
+    await recordCommit(database, bob.id, 10, '2025-06-10T13:00:00.000Z');
+    await recordCommit(database, outsider.id, 90, '2025-06-10T14:00:00.000Z');
+
+    const [summary] = (await database.getTeamSummaries(alice.id)).filter(entry => entry.id === team.id);
+    expect(summary).toMatchObject({ memberCount: 2, totalXp: 850 });
+
+    const allTime = await database.getTeamLeaderboard(team.id);
+    expect(allTime.map(entry => [entry.userId, entry.totalXp, entry.rank])).toEqual([[bob.id, 510, 1], [alice.id, 340, 2]]);
+
+    const recent = await database.getTeamLeaderboard(team.id, 10, '2025-06-10T00:00:00.000Z');
+    expect(recent.map(entry => [entry.userId, entry.totalXp])).toEqual([[alice.id, 40], [bob.id, 10]]);
+  });
+
+  test('should grant the team bonus once enough members reach the daily goal', async () => {
+    const alice = await createUser('alice');
+    const bob = await createUser('bob');
+    const name = teamName('goal');
+    const now = new Date('2025-06-12T18:00:00.000Z');
+
+    const team = await teamManager.create(alice.id, name);
+    await teamManager.join(bob.id, name);
+    await recordCommit(database, alice.id, 120, '2025-06-12T09:00:00.000Z');
+    await recordCommit(database, bob.id, 150, '2025-06-11T22:00:00.000Z');
+    await recordCommit(database, bob.id, 60, '2025-06-12T10:00:00.000Z');
+
+    const progress = await teamManager.getGoalProgress(team, now);
+    expect(progress).toMatchObject({ membersAtGoal: [alice.id], reached: false });
+    expect(await teamManager.getBonusMultiplier(alice.id, now)).toBeNull();
+
+    await recordCommit(database, bob.id, 40, '2025-06-12T11:00:00.000Z');
+    expect(await teamManager.getBonusMultiplier(bob.id, now)).toMatchObject({ type: 'team', value: 1.5, isActive: true });
+
+    await teamManager.leave(bob.id, name);
+    expect(await teamManager.getBonusMultiplier(bob.id, now)).toBeNull();
+  });
+});
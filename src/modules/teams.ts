@@ -0,0 +1,275 @@
+/**
+ * Teams Module
+ * Team membership and roles, and the team bonus for reaching the daily XP
+ * goal together
+ */
+
+import { database, Team, TeamMember, TeamRole } from './database';
+import { defaultConfigManager } from './config';
+import { resolveTimeZone, startOfDay } from '../utils/time';
+import { XPMultiplier, XPMultiplierType } from '../types/XPEvent';
+
+export const TEAM_ROLES: TeamRole[] = ['owner', 'admin', 'member'];
+
+/**
+ * How far a team is towards today's shared goal
+ */
+export interface TeamGoalProgress {
+  team: Team;
+
+  /** Daily XP each member needs */
+  dailyGoal: number;
+
+  /** Members needed at the goal to unlock the bonus */
+  membersNeeded: number;
+
+  /** Members who reached the goal today */
+  membersAtGoal: string[];
+
+  /** XP each member earned today */
+  xpToday: Record<string, number>;
+
+  /** Multiplier earned by the whole team once enough members reach the goal */
+  bonusMultiplier: number;
+  reached: boolean;
+}
+
+/**
+ * Result of leaving a team
+ */
+export interface TeamLeaveResult {
+  team: Team;
+
+  /** Whether the team was deleted because its last member left */
+  deleted: boolean;
+
+  /** Member who took over when the owner left */
+  newOwner?: TeamMember;
+}
+
+/**
+ * Manages teams, their members and the team bonus
+ */
+export class TeamManager {
+  /**
+   * Create a team owned by the user and make it their current team
+   */
+  async create(userId: string, name: string, description?: string): Promise<Team> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Team name cannot be empty');
+    }
+    if (await database.findTeamByName(trimmed)) {
+      throw new Error(`A team named '${trimmed}' already exists`);
+    }
+
+    const team = await database.createTeam({ name: trimmed, ...(description ? { description } : {}) });
+    await database.addTeamMember(team.id, userId, 'owner');
+    await database.setCurrentTeam(userId, team.id);
+    return team;
+  }
+
+  /**
+   * Join a team as a member and make it the current team
+   */
+  async join(userId: string, ref: string): Promise<Team> {
+    const team = await this.require(ref);
+    if (await this.getMembership(team.id, userId)) {
+      throw new Error(`You are already a member of ${team.name}`);
+    }
+
+    await database.addTeamMember(team.id, userId);
+    await database.setCurrentTeam(userId, team.id);
+    return team;
+  }
+
+  /**
+   * Leave a team, handing ownership to the longest-standing admin or member
+   * when the owner leaves, and deleting the team when nobody is left
+   */
+  async leave(userId: string, ref: string): Promise<TeamLeaveResult> {
+    const team = await this.require(ref);
+    const members = await database.getTeamMembers(team.id);
+    const membership = members.find(member => member.userId === userId);
+    if (!membership) {
+      throw new Error(`You are not a member of ${team.name}`);
+    }
+
+    const others = members.filter(member => member.userId !== userId);
+    if (others.length === 0) {
+      await database.deleteTeam(team.id);
+      return { team, deleted: true };
+    }
+
+    await database.removeTeamMember(team.id, userId);
+
+    const hasOwner = others.some(member => member.role === 'owner');
+    if (membership.role === 'owner' && !hasOwner) {
+      const newOwner = others.find(member => member.role === 'admin') ?? others[0]!;
+      await database.setTeamMemberRole(team.id, newOwner.userId, 'owner');
+      return { team, deleted: false, newOwner: { ...newOwner, role: 'owner' } };
+    }
+
+    return { team, deleted: false };
+  }
+
+  /**
+   * Change a member's role. Owners and admins manage members and admins;
+   * only an owner can make someone else an owner, stepping down to admin.
+   */
+  async setRole(actorId: string, ref: string, username: string, role: TeamRole): Promise<TeamMember> {
+    const team = await this.require(ref);
+    const { actor, target } = await this.getActorAndTarget(team, actorId, username);
+
+    if (role === 'owner' || target.role === 'owner') {
+      if (actor.role !== 'owner') {
+        throw new Error('Only the owner can transfer ownership');
+      }
+      if (target.userId === actor.userId) {
+        throw new Error('Make another member the owner to step down');
+      }
+    }
+
+    await database.setTeamMemberRole(team.id, target.userId, role);
+    if (role === 'owner') {
+      await database.setTeamMemberRole(team.id, actor.userId, 'admin');
+    }
+
+    await database.getAuditLog().record({
+      action: 'team.role',
+      entityType: 'team_member',
+      entityId: target.userId,
+      userId: actorId,
+      oldValues: { role: target.role },
+      newValues: { role },
+      metadata: { team: team.name, username: target.username }
+    });
+
+    return { ...target, role };
+  }
+
+  /**
+   * Remove another member from a team
+   */
+  async removeMember(actorId: string, ref: string, username: string): Promise<TeamMember> {
+    const team = await this.require(ref);
+    const { actor, target } = await this.getActorAndTarget(team, actorId, username);
+
+    if (target.userId === actor.userId) {
+      throw new Error('Use devxp team leave to leave a team');
+    }
+    if (target.role === 'owner' || (target.role === 'admin' && actor.role !== 'owner')) {
+      throw new Error(`Only the owner can remove ${target.role === 'owner' ? 'the owner' : 'admins'}`);
+    }
+
+    await database.removeTeamMember(team.id, target.userId);
+    await database.getAuditLog().record({
+      action: 'team.remove',
+      entityType: 'team_member',
+      entityId: target.userId,
+      userId: actorId,
+      oldValues: { role: target.role },
+      metadata: { team: team.name, username: target.username }
+    });
+    return target;
+  }
+
+  /**
+   * Make one of the user's teams their current team
+   */
+  async switchTo(userId: string, ref: string): Promise<Team> {
+    const team = await this.require(ref);
+    if (!(await this.getMembership(team.id, userId))) {
+      throw new Error(`You are not a member of ${team.name}`);
+    }
+
+    await database.setCurrentTeam(userId, team.id);
+    return team;
+  }
+
+  /**
+   * Find a team by id or name
+   */
+  async find(ref: string): Promise<Team | null> {
+    return (await database.getTeam(ref)) ?? database.findTeamByName(ref);
+  }
+
+  /**
+   * The user's current team, if they are still a member
+   */
+  async getCurrentTeam(userId: string): Promise<Team | null> {
+    const user = await database.getUser(userId);
+    return user?.currentTeamId ? database.getTeam(user.currentTeamId) : null;
+  }
+
+  async getMembership(teamId: string, userId: string): Promise<TeamMember | undefined> {
+    const members = await database.getTeamMembers(teamId);
+    return members.find(member => member.userId === userId);
+  }
+
+  /**
+   * Members who reached the daily XP goal today, in the configured timezone
+   */
+  async getGoalProgress(team: Team, now: Date = new Date()): Promise<TeamGoalProgress> {
+    const config = defaultConfigManager.getConfig();
+    const since = startOfDay(now, resolveTimeZone(config.timezone)).toISOString();
+    const xpToday = await database.getTeamXpSince(team.id, since);
+    const membersAtGoal = Object.keys(xpToday).filter(userId => (xpToday[userId] ?? 0) >= config.dailyXPGoal);
+
+    return {
+      team,
+      dailyGoal: config.dailyXPGoal,
+      membersNeeded: config.teams.goalMembers,
+      membersAtGoal,
+      xpToday,
+      bonusMultiplier: config.teams.bonusMultiplier,
+      reached: membersAtGoal.length >= config.teams.goalMembers
+    };
+  }
+
+  /**
+   * Team multiplier for the user's next activity, null until enough members
+   * of their current team have reached today's goal
+   */
+  async getBonusMultiplier(userId: string, now: Date = new Date()): Promise<XPMultiplier | null> {
+    const team = await this.getCurrentTeam(userId);
+    if (!team) return null;
+
+    const progress = await this.getGoalProgress(team, now);
+    if (!progress.reached || progress.bonusMultiplier === 1) return null;
+
+    return {
+      type: XPMultiplierType.TEAM,
+      value: progress.bonusMultiplier,
+      description: `${team.name} reached the daily goal`,
+      isActive: true
+    };
+  }
+
+  private async require(ref: string): Promise<Team> {
+    const team = await this.find(ref);
+    if (!team) {
+      throw new Error(`Team '${ref}' not found`);
+    }
+    return team;
+  }
+
+  // Owners and admins may manage other members
+  private async getActorAndTarget(team: Team, actorId: string, username: string): Promise<{ actor: TeamMember; target: TeamMember }> {
+    const members = await database.getTeamMembers(team.id);
+    const actor = members.find(member => member.userId === actorId);
+    if (!actor || actor.role === 'member') {
+      throw new Error(`Only owners and admins of ${team.name} can manage members`);
+    }
+
+    const target = members.find(member => member.username.toLowerCase() === username.toLowerCase());
+    if (!target) {
+      throw new Error(`${username} is not a member of ${team.name}`);
+    }
+
+    return { actor, target };
+  }
+}
+
+// Export singleton instance
+export const teamManager = new TeamManager();
@@ -0,0 +1,315 @@
+/**
+ * Activity Tracker Module
+ * Core loop connecting hooks to the data: XP calculation, persistence, streaks and achievements
+ */
+
+import { execSync } from 'child_process';
+import { database, Activity, Project, SessionRecord, User } from './database';
+import { xpSystem } from './xp-system';
+import { gitHooks } from './git-hooks';
+import { achievementManager, AchievementContext } from './achievements';
+import { challengeManager, ChallengeUpdate } from './challenges';
+import { bonusEventScheduler } from './bonus-events';
+import { streakManager, StreakUpdate } from './streaks';
+import { projectManager } from './projects';
+import { sessionManager, SessionUpdate } from './sessions';
+import { teamManager } from './teams';
+import { MappedActivity, TrackPayload } from './activity-mapper';
+import { ActivityType } from '../types/Activity';
+import { XPCalculationResponse } from '../types/XPEvent';
+
+/**
+ * Options for tracking an activity
+ */
+export interface TrackOptions {
+  /** When the activity happened (defaults to now) */
+  timestamp?: Date;
+
+  /** Calculate XP without persisting anything */
+  dryRun?: boolean;
+
+  /** Suppress achievement notifications on the console */
+  quiet?: boolean;
+
+  /** Directory the activity happened in, used to find the project (defaults to the current directory) */
+  cwd?: string;
+}
+
+/**
+ * Result of tracking an activity
+ */
+export interface TrackResult {
+  /** User the activity was recorded for */
+  user: User;
+
+  /** Persisted activity, null when skipped or in dry-run mode */
+  activity: Activity | null;
+
+  /** XP calculation details */
+  calculation: XPCalculationResponse;
+
+  /** Level before the activity */
+  previousLevel: number;
+
+  /** Level after the activity */
+  newLevel: number;
+
+  /** Number of achievements unlocked by the activity */
+  achievementsUnlocked: number;
+
+  /** Challenges and completion bonuses completed by the activity */
+  challenges: ChallengeUpdate;
+
+  /** Streak change from the activity, null when not recorded */
+  streak: StreakUpdate | null;
+
+  /** Repository the activity belongs to, null outside of git */
+  project: Project | null;
+
+  /** Session the activity was added to, null when not recorded */
+  session: SessionUpdate | null;
+
+  /** Reason the activity was not recorded */
+  skipped?: string;
+}
+
+/**
+ * Tracks activities for the current user
+ */
+export class ActivityTracker {
+  /**
+   * Fill in details the hooks leave out when called with `--auto`
+   */
+  async enrichPayload(payload: TrackPayload): Promise<TrackPayload> {
+    if (!payload.flags.includes('auto')) {
+      return payload;
+    }
+
+    const options = { ...payload.options };
+
+    if (payload.event === 'git-commit' && options['hash'] === undefined) {
+      try {
+        const analysis = await gitHooks.analyzeCommit('HEAD');
+        options['hash'] = analysis.hash;
+        options['message'] = analysis.message;
+        options['files'] = String(analysis.filesChanged);
+        options['insertions'] = String(analysis.insertions);
+        options['deletions'] = String(analysis.deletions);
+        options['merge'] = String(analysis.isMerge);
+      } catch {
+        // Not inside a repository or no commits yet, track without details
+      }
+    }
+
+    if ((payload.event === 'git-merge' || payload.event === 'git-checkout') && options['branch'] === undefined) {
+      const branch = this.runGit('git branch --show-current');
+      if (branch) {
+        options['branch'] = branch;
+      }
+    }
+
+    return { ...payload, options };
+  }
+
+  /**
+   * Record an activity for the current user
+   */
+  async track(mapped: MappedActivity, options: TrackOptions = {}): Promise<TrackResult> {
+    const timestamp = options.timestamp ?? new Date();
+    const cwd = options.cwd ?? process.cwd();
+    let user = await this.resolveUser();
+    const previousLevel = user.level;
+
+    const counts = await database.getActivityCountsByType(user.id);
+    const quality = mapped.metadata.git?.commitMessage !== undefined
+      ? gitHooks.analyzeMessageQuality(mapped.metadata.git.commitMessage)
+      : undefined;
+
+    // Pick up config changes and events created since the last activity
+    xpSystem.reloadConfig();
+    xpSystem.importConfig({ bonusEvents: bonusEventScheduler.getEvents() });
+    const teamBonus = await teamManager.getBonusMultiplier(user.id, timestamp);
+
+    const calculation = xpSystem.calculateXP({
+      activityType: mapped.type,
+      baseXP: 0,
+      user: {
+        id: user.id,
+        level: user.level,
+        streakDays: user.streak
+      },
+      context: {
+        timeOfDay: timestamp,
+        isFirstTime: (counts[mapped.type] || 0) === 0,
+        ...(mapped.difficulty ? { difficulty: mapped.difficulty } : {}),
+        ...(mapped.metadata.duration !== undefined ? { duration: mapped.metadata.duration } : {}),
+        ...(quality !== undefined ? { quality } : {})
+      },
+      ...(teamBonus ? { overrideMultipliers: [teamBonus] } : {})
+    });
+
+    const result: TrackResult = {
+      user,
+      activity: null,
+      calculation,
+      previousLevel,
+      newLevel: previousLevel,
+      achievementsUnlocked: 0,
+      challenges: { completed: [], bonuses: [] },
+      streak: null,
+      project: null,
+      session: null
+    };
+
+    if (options.dryRun) {
+      return { ...result, project: await projectManager.lookup(cwd), skipped: 'dry run' };
+    }
+
+    if (mapped.dedupeKey) {
+      const existing = await database.findActivityByMetadata(user.id, mapped.type, '$.git.commitHash', mapped.dedupeKey);
+      if (existing) {
+        return { ...result, skipped: `already tracked (${mapped.dedupeKey.slice(0, 7)})` };
+      }
+    }
+
+    let project = await projectManager.resolve(cwd);
+    const metadata = { ...mapped.metadata };
+    const commitHash = mapped.metadata.git?.commitHash;
+    if (project && commitHash) {
+      const lines = projectManager.getCommitLanguages(project.path, commitHash);
+      const language = projectManager.getPrimaryLanguage(lines);
+      if (language) {
+        metadata.language = language;
+      }
+      project = await projectManager.addLanguages(project, lines);
+    }
+
+    const streak = await streakManager.recordActivity(user.id, timestamp);
+    const session = await sessionManager.recordActivity(user.id, timestamp, calculation.finalXP);
+
+    const activity = await database.createActivity({
+      userId: user.id,
+      type: mapped.type,
+      description: mapped.description,
+      xpEarned: calculation.finalXP,
+      metadata: JSON.stringify(metadata),
+      ...(project ? { projectId: project.id } : {}),
+      sessionId: session.session.id,
+      timestamp: timestamp.toISOString()
+    });
+
+    await achievementManager.loadForUser(user.id);
+    achievementManager.setQuiet(options.quiet ?? false);
+    const achievementsUnlocked = await achievementManager.checkAllAchievements(
+      await this.buildAchievementContext(user.id, session.closed)
+    );
+
+    const challenges = await challengeManager.refresh(user.id);
+
+    user = (await database.getUser(user.id)) ?? user;
+
+    return {
+      ...result,
+      user,
+      activity,
+      newLevel: user.level,
+      achievementsUnlocked,
+      challenges,
+      streak,
+      project,
+      session
+    };
+  }
+
+  /**
+   * Get the current user, creating it on first use
+   */
+  async resolveUser(): Promise<User> {
+    const username = this.runGit('git config user.name') || 'default';
+    const existing = await database.getUserByUsername(username);
+    if (existing) {
+      return existing;
+    }
+
+    const email = this.runGit('git config user.email') || `${username.replace(/\s+/g, '.').toLowerCase()}@devxp.local`;
+
+    try {
+      return await database.createUser({
+        username,
+        email,
+        displayName: username,
+        totalXp: 0,
+        level: 1,
+        streak: 0,
+        longestStreak: 0,
+        lastActiveDate: ''
+      });
+    } catch (error) {
+      // Another devxp process, such as a git hook, created the user first
+      const created = await database.getUserByUsername(username);
+      if (created) return created;
+      throw error;
+    }
+  }
+
+  /**
+   * Build the achievement context from stored activities and the session that
+   * just ended, as the length of one still going isn't known yet
+   */
+  private async buildAchievementContext(userId: string, closed: SessionRecord | null): Promise<AchievementContext> {
+    const counts = await database.getActivityCountsByType(userId);
+    const user = await database.getUser(userId);
+    const count = (...types: ActivityType[]): number =>
+      types.reduce((sum, type) => sum + (counts[type] || 0), 0);
+
+    const terminalTypes = [
+      ActivityType.TERMINAL_COMMAND,
+      ActivityType.TERMINAL_PIPE,
+      ActivityType.TERMINAL_SCRIPT,
+      ActivityType.CODE_TEST,
+      ActivityType.CODE_BUILD,
+      ActivityType.CODE_COMPILE,
+      ActivityType.CODE_LINT,
+      ActivityType.CODE_FORMAT,
+      ActivityType.CODE_DEBUG
+    ];
+
+    return {
+      gitCommitCount: count(ActivityType.GIT_COMMIT),
+      gitBranchCount: count(ActivityType.GIT_BRANCH_CREATE),
+      gitMergeCount: count(ActivityType.GIT_MERGE),
+      dailyStreak: user?.streak ?? 0,
+      totalCommands: count(...terminalTypes),
+      uniqueCommands: await database.countDistinctActivityMetadata(userId, '$.command'),
+      filesCreated: count(ActivityType.FILE_CREATE),
+      filesModified: await database.sumActivityMetadata(userId, '$.git.filesChanged'),
+      linesOfCode: await database.sumActivityMetadata(userId, '$.git.insertions'),
+      testsRun: count(ActivityType.CODE_TEST),
+      buildCount: count(ActivityType.CODE_BUILD, ActivityType.CODE_COMPILE),
+      debugSessions: count(ActivityType.CODE_DEBUG),
+      ...(closed ? await this.buildSessionContext(closed) : {})
+    };
+  }
+
+  private async buildSessionContext(session: SessionRecord): Promise<AchievementContext> {
+    const activities = await sessionManager.getActivities(session.id);
+    return {
+      sessionDuration: Math.floor(session.duration / 60),
+      sessionCommitCount: activities.filter(activity => activity.type === ActivityType.GIT_COMMIT).length
+    };
+  }
+
+  /**
+   * Run a git command, returning an empty string on failure
+   */
+  private runGit(command: string): string {
+    try {
+      return execSync(command, { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+    } catch {
+      return '';
+    }
+  }
+}
+
+// Export singleton instance
+export const activityTracker = new ActivityTracker();
@@ -4,21 +4,17 @@
  */
 
 import { EventEmitter } from 'events';
-import {
-  ActivityType,
-  ActivityCategory,
-  XPMultipliers
-} from '../types/Activity';
+import { ActivityType } from '../types/Activity';
 import {
   XPEvent,
-  XPEventType,
   XPMultiplier,
   XPMultiplierType,
   XPCalculationRequest,
-  XPCalculationResponse,
-  XPEventSource
+  XPCalculationResponse
 } from '../types/XPEvent';
-import { User } from '../types/User';
+import { BonusXPEvent } from '../types/Config';
+import { getCurrentOccurrence, RecurringWindow, resolveTimeZone } from '../utils/time';
+import { defaultConfigManager } from './config';
 
 /**
  * XP System Configuration
@@ -38,6 +34,9 @@ export interface XPSystemConfig {
   
   /** Minimum XP required for level 1 */
   baseXPRequirement: number;
+
+  /** Growth factor per level for exponential progression */
+  progressionMultiplier: number;
   
   /** Streak bonus configuration */
   streakConfig: StreakConfig;
@@ -50,6 +49,9 @@ export interface XPSystemConfig {
     maximum: number;
     minimum: number;
   };
+
+  /** Scheduled bonus XP events */
+  bonusEvents: BonusXPEvent[];
 }
 
 /**
@@ -144,27 +146,29 @@ export interface XPSystemEvents {
  */
 export class XPSystem extends EventEmitter {
   private config: XPSystemConfig;
+  private overrides: Partial<XPSystemConfig>;
   private activeChallenges: Map<string, Challenge[]> = new Map();
   private userStreaks: Map<string, number> = new Map();
   private activeMultipliers: Map<string, XPMultiplier[]> = new Map();
 
   constructor(config?: Partial<XPSystemConfig>) {
     super();
-    this.config = this.getDefaultConfig();
-    if (config) {
-      this.config = { ...this.config, ...config };
-    }
+    this.overrides = config ?? {};
+    this.config = { ...this.getDefaultConfig(), ...this.overrides };
   }
 
   /**
-   * Get default configuration
+   * Get default configuration, taking XP values and the level curve from
+   * the user's configuration
    */
   private getDefaultConfig(): XPSystemConfig {
+    const { leveling, streaks } = defaultConfigManager.getConfig();
     return {
       baseXPValues: this.getDefaultBaseXPValues(),
       progressionType: 'exponential',
-      maxLevel: 100,
-      baseXPRequirement: 100,
+      maxLevel: leveling.maxLevel,
+      baseXPRequirement: leveling.baseXP,
+      progressionMultiplier: leveling.multiplier,
       streakConfig: {
         dailyMultiplier: 0.1,
         maxMultiplier: 2.0,
@@ -174,7 +178,7 @@ export class XPSystem extends EventEmitter {
           [100, 10000], // 100 days streak
           [365, 50000] // 1 year streak
         ]),
-        includeWeekends: true
+        includeWeekends: streaks.includeWeekends
       },
       challengeConfig: {
         dailyReward: 100,
@@ -186,7 +190,8 @@ export class XPSystem extends EventEmitter {
       multiplierCaps: {
         maximum: 5.0,
         minimum: 0.1
-      }
+      },
+      bonusEvents: []
     };
   }
 
@@ -194,74 +199,11 @@ export class XPSystem extends EventEmitter {
    * Get default base XP values for activities
    */
   private getDefaultBaseXPValues(): Partial<Record<ActivityType, number>> {
-    return {
-      // Git activities
-      [ActivityType.GIT_COMMIT]: 50,
-      [ActivityType.GIT_PUSH]: 30,
-      [ActivityType.GIT_PULL]: 20,
-      [ActivityType.GIT_MERGE]: 75,
-      [ActivityType.GIT_BRANCH_CREATE]: 25,
-      [ActivityType.GIT_BRANCH_DELETE]: 15,
-      [ActivityType.GIT_STASH]: 10,
-      [ActivityType.GIT_TAG]: 40,
-      [ActivityType.GIT_REBASE]: 100,
-      
-      // Terminal activities
-      [ActivityType.TERMINAL_COMMAND]: 5,
-      [ActivityType.TERMINAL_PIPE]: 15,
-      [ActivityType.TERMINAL_SCRIPT]: 50,
-      [ActivityType.TERMINAL_ALIAS]: 30,
-      
-      // File operations
-      [ActivityType.FILE_CREATE]: 20,
-      [ActivityType.FILE_EDIT]: 15,
-      [ActivityType.FILE_DELETE]: 10,
-      [ActivityType.FILE_RENAME]: 10,
-      [ActivityType.DIRECTORY_CREATE]: 15,
-      
-      // Development activities
-      [ActivityType.CODE_COMPILE]: 25,
-      [ActivityType.CODE_BUILD]: 40,
-      [ActivityType.CODE_TEST]: 60,
-      [ActivityType.CODE_LINT]: 20,
-      [ActivityType.CODE_FORMAT]: 15,
-      [ActivityType.CODE_DEBUG]: 80,
-      
-      // Package management
-      [ActivityType.PACKAGE_INSTALL]: 20,
-      [ActivityType.PACKAGE_UPDATE]: 30,
-      [ActivityType.PACKAGE_PUBLISH]: 200,
-      
-      // Docker activities
-      [ActivityType.DOCKER_BUILD]: 50,
-      [ActivityType.DOCKER_RUN]: 30,
-      [ActivityType.DOCKER_COMPOSE]: 40,
-      
-      // Database activities
-      [ActivityType.DATABASE_QUERY]: 15,
-      [ActivityType.DATABASE_MIGRATION]: 100,
-      [ActivityType.DATABASE_BACKUP]: 75,
-      
-      // Deployment activities
-      [ActivityType.DEPLOY_STAGING]: 150,
-      [ActivityType.DEPLOY_PRODUCTION]: 300,
-      [ActivityType.DEPLOY_ROLLBACK]: 200,
-      
-      // Learning activities
-      [ActivityType.DOCUMENTATION_READ]: 25,
-      [ActivityType.DOCUMENTATION_WRITE]: 100,
-      [ActivityType.TUTORIAL_COMPLETE]: 150,
-      
-      // Collaboration
-      [ActivityType.PR_CREATE]: 100,
-      [ActivityType.PR_REVIEW]: 75,
-      [ActivityType.PR_MERGE]: 125,
-      [ActivityType.ISSUE_CREATE]: 50,
-      [ActivityType.ISSUE_CLOSE]: 60,
-      
-      // Custom
-      [ActivityType.CUSTOM]: 10
-    };
+    const values: Partial<Record<ActivityType, number>> = {};
+    for (const type of Object.values(ActivityType)) {
+      values[type] = defaultConfigManager.getActivityBaseXP(type).xp;
+    }
+    return values;
   }
 
   /**
@@ -345,6 +287,24 @@ export class XPSystem extends EventEmitter {
       });
     }
 
+    // Apply scheduled bonus events
+    const at = request.context.timeOfDay || new Date();
+    for (const event of this.getActiveEvents(at, request.activityType)) {
+      const occurrence = getCurrentOccurrence(this.getEventWindow(event), at, this.getTimeZone());
+      multipliers.push({
+        type: XPMultiplierType.EVENT,
+        value: event.multiplier,
+        description: event.name,
+        isActive: true,
+        ...(occurrence ? { expiresAt: occurrence.end } : {})
+      });
+      breakdown.push({
+        step: 'Event',
+        value: event.multiplier,
+        description: `${event.name} (${event.multiplier}x)`
+      });
+    }
+
     // Apply premium bonus
     if (request.user.isPremium) {
       multipliers.push({
@@ -416,11 +376,37 @@ export class XPSystem extends EventEmitter {
       totalMultiplier,
       breakdown,
       wouldLevelUp,
-      newLevel: wouldLevelUp ? newLevel : undefined,
-      warnings: warnings.length > 0 ? warnings : undefined
+      ...(wouldLevelUp ? { newLevel } : {}),
+      ...(warnings.length > 0 ? { warnings } : {})
+    };
+  }
+
+  /**
+   * Get the bonus events running at a given time, optionally only those
+   * affecting an activity type
+   */
+  public getActiveEvents(at: Date = new Date(), activityType?: ActivityType): BonusXPEvent[] {
+    const timeZone = this.getTimeZone();
+    return this.config.bonusEvents.filter(event => {
+      if (activityType && event.affectedActivities?.length && !event.affectedActivities.includes(activityType)) {
+        return false;
+      }
+      return getCurrentOccurrence(this.getEventWindow(event), at, timeZone) !== null;
+    });
+  }
+
+  private getEventWindow(event: BonusXPEvent): RecurringWindow {
+    return {
+      start: event.startDate,
+      end: event.endDate,
+      ...(event.recurring ? { recurring: event.recurring } : {})
     };
   }
 
+  private getTimeZone(): string {
+    return resolveTimeZone(defaultConfigManager.getConfig().timezone);
+  }
+
   /**
    * Calculate XP required for a specific level
    */
@@ -433,8 +419,8 @@ export class XPSystem extends EventEmitter {
       return this.config.baseXPRequirement * level;
       
     case 'exponential':
-      // Exponential growth: XP = base * (1.5 ^ (level - 1))
-      return Math.round(this.config.baseXPRequirement * Math.pow(1.5, level - 1));
+      // Exponential growth: XP = base * (multiplier ^ (level - 1))
+      return Math.round(this.config.baseXPRequirement * Math.pow(this.config.progressionMultiplier, level - 1));
       
     case 'fibonacci':
       return this.calculateFibonacciXP(level);
@@ -444,7 +430,7 @@ export class XPSystem extends EventEmitter {
         return this.config.customProgressionFormula(level);
       }
       // Fallback to exponential
-      return Math.round(this.config.baseXPRequirement * Math.pow(1.5, level - 1));
+      return Math.round(this.config.baseXPRequirement * Math.pow(this.config.progressionMultiplier, level - 1));
       
     default:
       return this.config.baseXPRequirement * level;
@@ -456,7 +442,7 @@ export class XPSystem extends EventEmitter {
    */
   public calculateTotalXPForLevel(level: number): number {
     let totalXP = 0;
-    for (let i = 1; i <= level; i++) {
+    for (let i = 1; i < level; i++) {
       totalXP += this.calculateXPForLevel(i);
     }
     return totalXP;
@@ -477,15 +463,15 @@ export class XPSystem extends EventEmitter {
    * Calculate level from total XP
    */
   public calculateLevelFromXP(totalXP: number): number {
-    let level = 0;
-    let xpRequired = 0;
-    
-    while (xpRequired <= totalXP && level < this.config.maxLevel) {
+    let level = 1;
+    let remainingXP = totalXP;
+
+    while (level < this.config.maxLevel && remainingXP >= this.calculateXPForLevel(level)) {
+      remainingXP -= this.calculateXPForLevel(level);
       level++;
-      xpRequired = this.calculateTotalXPForLevel(level);
     }
-    
-    return Math.max(1, level - 1);
+
+    return level;
   }
 
   /**
@@ -588,7 +574,7 @@ export class XPSystem extends EventEmitter {
   /**
    * Get user's total XP (stub - would connect to database)
    */
-  private getUserTotalXP(userId: string, currentLevel: number): number {
+  private getUserTotalXP(_userId: string, currentLevel: number): number {
     // This would normally fetch from database
     // For now, return estimated XP based on level
     return this.calculateTotalXPForLevel(currentLevel);
@@ -614,11 +600,12 @@ export class XPSystem extends EventEmitter {
   }
 
   /**
-   * Create a daily challenge
+   * Create an in-memory daily challenge
+   * @deprecated Use challengeManager from './challenges', which persists and rotates challenges
    */
   public createDailyChallenge(userId: string): Challenge {
     const activities = Object.values(ActivityType);
-    const randomActivity = activities[Math.floor(Math.random() * activities.length)];
+    const randomActivity = activities[Math.floor(Math.random() * activities.length)]!;
     const requiredCount = Math.floor(Math.random() * 5) + 3; // 3-7 activities
     
     const challenge: Challenge = {
@@ -643,7 +630,8 @@ export class XPSystem extends EventEmitter {
   }
 
   /**
-   * Create a weekly challenge
+   * Create an in-memory weekly challenge
+   * @deprecated Use challengeManager from './challenges', which persists and rotates challenges
    */
   public createWeeklyChallenge(userId: string): Challenge {
     const challengeTypes = [
@@ -654,7 +642,7 @@ export class XPSystem extends EventEmitter {
       { name: 'Deployment Expert', description: 'Complete 5 deployments', count: 5 }
     ];
     
-    const randomChallenge = challengeTypes[Math.floor(Math.random() * challengeTypes.length)];
+    const randomChallenge = challengeTypes[Math.floor(Math.random() * challengeTypes.length)]!;
     
     const challenge: Challenge = {
       id: `weekly_${Date.now()}_${userId}`,
@@ -883,8 +871,16 @@ export class XPSystem extends EventEmitter {
    * Import configuration
    */
   public importConfig(config: Partial<XPSystemConfig>): void {
+    this.overrides = { ...this.overrides, ...config };
     this.config = { ...this.config, ...config };
   }
+
+  /**
+   * Pick up changes to the user's configuration, keeping imported values
+   */
+  public reloadConfig(): void {
+    this.config = { ...this.getDefaultConfig(), ...this.overrides };
+  }
 }
 
 // Export singleton instance
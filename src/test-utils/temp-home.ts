@@ -0,0 +1,73 @@
+/**
+ * Shared setup for tests that run against the database and config singletons
+ */
+
+import { jest, beforeAll, afterAll } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import type { Activity, DevXpDatabase, User } from '../modules/database';
+
+// Jest sandboxes process.env, so os.homedir() would still point at the real home
+jest.mock('os', () => {
+  const actual = jest.requireActual<typeof import('os')>('os');
+  return { ...actual, homedir: () => process.env['HOME'] ?? actual.homedir() };
+});
+
+type NewUser = Parameters<DevXpDatabase['createUser']>[0];
+
+/**
+ * Point HOME at a temporary directory for the suite, removed afterwards.
+ * The database and config singletons resolve their paths on import, so
+ * import them in a beforeAll after this.
+ */
+export function useTempHome(name: string): string {
+  const testDir = path.join(os.tmpdir(), `devxp-${name}-test-${Date.now()}`);
+  let originalHome: string | undefined;
+
+  beforeAll(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    originalHome = process.env['HOME'];
+    process.env['HOME'] = testDir;
+  });
+
+  afterAll(async () => {
+    process.env['HOME'] = originalHome;
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  return testDir;
+}
+
+/**
+ * Create a user with a unique username and email, named after the given name
+ */
+export function createTestUser(
+  database: DevXpDatabase,
+  { name = 'tester', ...fields }: Partial<NewUser> & { name?: string } = {}
+): Promise<User> {
+  const unique = `${name}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  return database.createUser({
+    username: unique,
+    email: `${unique}@example.com`,
+    displayName: name,
+    totalXp: 0,
+    level: 1,
+    streak: 0,
+    longestStreak: 0,
+    lastActiveDate: new Date().toISOString(),
+    ...fields
+  });
+}
+
+/**
+ * Record a commit worth the given XP
+ */
+export function recordCommit(
+  database: DevXpDatabase,
+  userId: string,
+  xpEarned: number,
+  timestamp: string = new Date().toISOString()
+): Promise<Activity> {
+  return database.createActivity({ userId, type: 'git_commit', description: 'Commit', xpEarned, timestamp });
+}
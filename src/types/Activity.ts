@@ -13,6 +13,7 @@ export enum ActivityType {
   GIT_MERGE = 'git_merge',
   GIT_BRANCH_CREATE = 'git_branch_create',
   GIT_BRANCH_DELETE = 'git_branch_delete',
+  GIT_CHECKOUT = 'git_checkout',
   GIT_STASH = 'git_stash',
   GIT_TAG = 'git_tag',
   GIT_REBASE = 'git_rebase',
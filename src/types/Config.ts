@@ -7,6 +7,10 @@ import { AchievementRarity } from './Achievement';
 
 /**
  * Main configuration interface
+ *
+ * @deprecated The settings users can change are defined and validated by
+ * `ConfigSchema` in modules/config; use its `Config` type instead. The
+ * interfaces below remain for the subsystems that take them as options.
  */
 export interface Config {
   /** General system settings */
@@ -252,9 +256,10 @@ export interface DatabaseConfig {
   /** Backup configuration */
   backup: {
     enabled: boolean;
-    interval: number; // in seconds
+    interval: number; // hours between automatic backups
     path: string;
     maxBackups: number;
+    maxAge: number; // days before a backup is pruned
   };
 }
 
@@ -372,7 +372,7 @@ export interface UserProjectSchema extends BaseEntity {
  */
 export interface LeaderboardSchema extends BaseEntity {
   /** Leaderboard type */
-  type: 'global' | 'weekly' | 'monthly' | 'alltime';
+  type: 'global' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'alltime';
   
   /** Period start date */
   periodStart: Date;
@@ -514,6 +514,9 @@ export interface AnalyticsEventSchema extends BaseEntity {
  * Audit log table schema
  */
 export interface AuditLogSchema extends BaseEntity {
+  /** Who performed the action, by git user name */
+  actor: string;
+
   /** User ID who performed the action */
   userId?: string;
   
@@ -3,7 +3,6 @@
  */
 
 import { ActivityType } from './Activity';
-import { AchievementRarity } from './Achievement';
 
 /**
  * Types of XP events
@@ -331,8 +330,14 @@ export interface XPTransaction {
   /** User ID */
   userId: string;
   
-  /** XP event ID */
-  eventId: string;
+  /** XP history entry, unset for opening balances and adjustments */
+  eventId?: string;
+  
+  /** Type of the XP event, which is also the account the XP comes from */
+  eventType: string;
+  
+  /** Why the XP changed */
+  reason: string;
   
   /** Amount changed */
   amount: number;
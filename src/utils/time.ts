@@ -0,0 +1,373 @@
+/**
+ * Time utilities for calendar boundaries in the user's configured timezone
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Wall-clock date parts in a timezone
+ */
+export interface ZonedDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Return the timezone if the runtime knows it, otherwise the system timezone
+ */
+export function resolveTimeZone(timeZone?: string): string {
+  if (timeZone) {
+    try {
+      getFormatter(timeZone);
+      return timeZone;
+    } catch {
+      // Unknown timezone, fall back to the system one
+    }
+  }
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Numeric wall-clock parts of an instant in a timezone
+function getParts(date: Date, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Get the wall-clock date and time of an instant in a timezone
+ */
+export function getZonedDate(date: Date, timeZone: string): ZonedDate {
+  const parts = getParts(date, timeZone);
+  const year = parts['year'] ?? 1970;
+  const month = parts['month'] ?? 1;
+  const day = parts['day'] ?? 1;
+
+  return {
+    year,
+    month,
+    day,
+    hour: parts['hour'] ?? 0,
+    minute: parts['minute'] ?? 0,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+  };
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+function getOffset(date: Date, timeZone: string): number {
+  const parts = getParts(date, timeZone);
+  const wallClock = Date.UTC(
+    parts['year'] ?? 1970,
+    (parts['month'] ?? 1) - 1,
+    parts['day'] ?? 1,
+    parts['hour'] ?? 0,
+    parts['minute'] ?? 0,
+    parts['second'] ?? 0
+  );
+  return wallClock - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Convert a wall-clock time in a timezone, given as milliseconds after the
+ * local midnight of a date, to an instant
+ */
+function zonedTime(year: number, month: number, day: number, timeOfDay: number, timeZone: string): Date {
+  const utc = Date.UTC(year, month - 1, day) + timeOfDay;
+  // Two passes settle on the right offset around DST transitions
+  let instant = utc - getOffset(new Date(utc), timeZone);
+  instant = utc - getOffset(new Date(instant), timeZone);
+  return new Date(instant);
+}
+
+/**
+ * Convert a wall-clock midnight in a timezone to an instant
+ */
+function zonedMidnight(year: number, month: number, day: number, timeZone: string): Date {
+  return zonedTime(year, month, day, 0, timeZone);
+}
+
+/**
+ * Start of the local day containing the date
+ */
+export function startOfDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedDate(date, timeZone);
+  return zonedMidnight(year, month, day, timeZone);
+}
+
+export type WeekStart = 'monday' | 'sunday';
+
+/**
+ * Days from the start of the week to a weekday (0 = Sunday)
+ */
+export function getDaysIntoWeek(weekday: number, weekStart: WeekStart = 'monday'): number {
+  return weekStart === 'sunday' ? weekday : (weekday + 6) % 7;
+}
+
+/**
+ * Start of the local week (Monday unless told otherwise) containing the date
+ */
+export function startOfWeek(date: Date, timeZone: string, weekStart: WeekStart = 'monday'): Date {
+  const { year, month, day, weekday } = getZonedDate(date, timeZone);
+  const first = new Date(Date.UTC(year, month - 1, day) - getDaysIntoWeek(weekday, weekStart) * DAY_MS);
+  return zonedMidnight(first.getUTCFullYear(), first.getUTCMonth() + 1, first.getUTCDate(), timeZone);
+}
+
+/**
+ * Start of the local month a number of months after the one containing the date
+ */
+export function startOfMonth(date: Date, timeZone: string, months: number = 0): Date {
+  const { year, month } = getZonedDate(date, timeZone);
+  // Date.UTC rolls months past December over into the next year
+  const first = new Date(Date.UTC(year, month - 1 + months, 1));
+  return zonedMidnight(first.getUTCFullYear(), first.getUTCMonth() + 1, 1, timeZone);
+}
+
+/**
+ * Start of the local year a number of years after the one containing the date
+ */
+export function startOfYear(date: Date, timeZone: string, years: number = 0): Date {
+  return zonedMidnight(getZonedDate(date, timeZone).year + years, 1, 1, timeZone);
+}
+
+/**
+ * Start of the local day a number of days after the given day start
+ */
+export function addDays(dayStart: Date, days: number, timeZone: string): Date {
+  // Step from local noon so DST shifts can't push us into the wrong day
+  return startOfDay(new Date(dayStart.getTime() + days * DAY_MS + DAY_MS / 2), timeZone);
+}
+
+export type CalendarPeriod = 'day' | 'week' | 'month' | 'year';
+
+/**
+ * A range of time, open-ended where a bound is missing. The end is exclusive.
+ */
+export interface DateRange {
+  start?: Date;
+  end?: Date;
+}
+
+/**
+ * Start and end of the local day, week, month or year containing the date
+ */
+export function getPeriodRange(
+  period: CalendarPeriod,
+  date: Date,
+  timeZone: string,
+  weekStart: WeekStart = 'monday'
+): { start: Date; end: Date } {
+  switch (period) {
+  case 'day': {
+    const start = startOfDay(date, timeZone);
+    return { start, end: addDays(start, 1, timeZone) };
+  }
+  case 'week': {
+    const start = startOfWeek(date, timeZone, weekStart);
+    return { start, end: addDays(start, 7, timeZone) };
+  }
+  case 'month':
+    return { start: startOfMonth(date, timeZone), end: startOfMonth(date, timeZone, 1) };
+  case 'year':
+    return { start: startOfYear(date, timeZone), end: startOfYear(date, timeZone, 1) };
+  }
+}
+
+/**
+ * The range before the given one: the previous calendar period, or an
+ * equally long stretch for other ranges. Null for ranges without a start.
+ */
+export function getPreviousRange(
+  range: DateRange,
+  timeZone: string,
+  period?: CalendarPeriod,
+  now: Date = new Date(),
+  weekStart: WeekStart = 'monday'
+): DateRange | null {
+  const { start } = range;
+  if (!start) return null;
+
+  if (period) {
+    return { start: getPeriodRange(period, addDays(start, -1, timeZone), timeZone, weekStart).start, end: start };
+  }
+
+  const length = (range.end ?? now).getTime() - start.getTime();
+  return length > 0 ? { start: new Date(start.getTime() - length), end: start } : null;
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant
+ */
+export function toDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedDate(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Start of the local day of a calendar date (YYYY-MM-DD)
+ */
+export function fromDateKey(dateKey: string, timeZone: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return zonedMidnight(year ?? 1970, month ?? 1, day ?? 1, timeZone);
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) a number of days after another
+ */
+export function shiftDateKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Number of days from one calendar date (YYYY-MM-DD) to another
+ */
+export function getDateKeyDistance(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Day of the week (0 = Sunday) of a calendar date
+ */
+export function getDateKeyWeekday(dateKey: string): number {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * How a time window repeats
+ */
+export interface Recurrence {
+  type: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval: number;
+}
+
+/**
+ * A time window, optionally repeating from its first occurrence
+ */
+export interface RecurringWindow {
+  start: Date;
+  end: Date;
+  recurring?: Recurrence;
+}
+
+// Rough length of one step, only used to skip ahead before stepping exactly
+const APPROXIMATE_STEP_MS: Record<Recurrence['type'], number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  monthly: 30.44 * DAY_MS,
+  yearly: 365.25 * DAY_MS
+};
+
+// Start of the nth occurrence, keeping the wall-clock time in the timezone.
+// Monthly and yearly steps stay on the same day, or the last day of shorter months.
+function getOccurrenceStart(start: Date, recurrence: Recurrence, n: number, timeZone: string): Date {
+  const steps = n * recurrence.interval;
+  const startKey = toDateKey(start, timeZone);
+  const { year, month, day } = getZonedDate(start, timeZone);
+  const timeOfDay = start.getTime() + getOffset(start, timeZone) - Date.UTC(year, month - 1, day);
+
+  let dateKey: string;
+  switch (recurrence.type) {
+  case 'daily':
+    dateKey = shiftDateKey(startKey, steps);
+    break;
+  case 'weekly':
+    dateKey = shiftDateKey(startKey, steps * 7);
+    break;
+  case 'monthly':
+  case 'yearly': {
+    const months = recurrence.type === 'monthly' ? steps : steps * 12;
+    const first = new Date(Date.UTC(year, month - 1 + months, 1));
+    const daysInMonth = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+    first.setUTCDate(Math.min(day, daysInMonth));
+    dateKey = first.toISOString().slice(0, 10);
+    break;
+  }
+  }
+
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return zonedTime(y ?? 1970, m ?? 1, d ?? 1, timeOfDay, timeZone);
+}
+
+// Index of the last occurrence starting at or before the date, -1 if none has
+function getOccurrenceIndex(window: RecurringWindow & { recurring: Recurrence }, at: Date, timeZone: string): number {
+  if (at < window.start) return -1;
+
+  const stepMs = APPROXIMATE_STEP_MS[window.recurring.type] * window.recurring.interval;
+  let n = Math.floor((at.getTime() - window.start.getTime()) / stepMs);
+
+  while (n > 0 && getOccurrenceStart(window.start, window.recurring, n, timeZone) > at) n--;
+  while (getOccurrenceStart(window.start, window.recurring, n + 1, timeZone) <= at) n++;
+
+  return n;
+}
+
+/**
+ * The occurrence of the window that is in progress at the given time.
+ * Occurrences repeat at the same wall-clock time in the timezone.
+ */
+export function getCurrentOccurrence(
+  window: RecurringWindow,
+  at: Date,
+  timeZone: string
+): { start: Date; end: Date } | null {
+  const duration = window.end.getTime() - window.start.getTime();
+
+  if (!window.recurring) {
+    return at >= window.start && at < window.end ? { start: window.start, end: window.end } : null;
+  }
+
+  const n = getOccurrenceIndex({ ...window, recurring: window.recurring }, at, timeZone);
+  if (n < 0) return null;
+
+  const start = getOccurrenceStart(window.start, window.recurring, n, timeZone);
+  const end = new Date(start.getTime() + duration);
+  return at < end ? { start, end } : null;
+}
+
+/**
+ * The first occurrence of the window starting after the given time
+ */
+export function getNextOccurrence(
+  window: RecurringWindow,
+  after: Date,
+  timeZone: string
+): { start: Date; end: Date } | null {
+  const duration = window.end.getTime() - window.start.getTime();
+
+  if (!window.recurring) {
+    return window.start > after ? { start: window.start, end: window.end } : null;
+  }
+
+  const n = getOccurrenceIndex({ ...window, recurring: window.recurring }, after, timeZone) + 1;
+  const start = getOccurrenceStart(window.start, window.recurring, n, timeZone);
+  return { start, end: new Date(start.getTime() + duration) };
+}
@@ -0,0 +1,47 @@
+/**
+ * Transactions that nest, shared by the database and the XP ledger
+ */
+
+import * as sqlite3 from 'sqlite3';
+import { Database } from 'sqlite';
+
+type SqliteDatabase = Database<sqlite3.Database, sqlite3.Statement>;
+
+export interface TransactionOptions {
+  /** Always undo the work, which is how dry runs see the effect of their writes */
+  rollback?: boolean;
+}
+
+/**
+ * Run work in one transaction, undone if it throws. The outermost
+ * transaction takes the write lock up front with BEGIN IMMEDIATE, so while
+ * another process writes it waits out the busy timeout, where a deferred
+ * transaction would fail as soon as its first read turned into a write.
+ * Inside another transaction the work is a savepoint, undone on its own.
+ */
+export async function withTransaction<T>(
+  db: SqliteDatabase,
+  work: () => Promise<T>,
+  options: TransactionOptions = {}
+): Promise<T> {
+  const nested = await db.exec('BEGIN IMMEDIATE').then(
+    () => false,
+    (error: Error) => {
+      if (!error.message.includes('within a transaction')) throw error;
+      return true;
+    }
+  );
+  if (nested) {
+    await db.exec('SAVEPOINT devxp_nested');
+  }
+
+  const undo = nested ? 'ROLLBACK TO devxp_nested; RELEASE devxp_nested' : 'ROLLBACK';
+  try {
+    const result = await work();
+    await db.exec(options.rollback ? undo : nested ? 'RELEASE devxp_nested' : 'COMMIT');
+    return result;
+  } catch (error) {
+    await db.exec(undo).catch(() => undefined);
+    throw error;
+  }
+}